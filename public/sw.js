@@ -6,6 +6,7 @@
 const CACHE_NAME = 'crm-mobile-v1'
 const OFFLINE_CACHE = 'crm-offline-v1'
 const BACKGROUND_SYNC_TAG = 'interaction-sync'
+const OUTBOX_SYNC_TAG = 'outbox-sync'
 
 // Core app resources to cache for offline use
 const CORE_RESOURCES = [
@@ -272,6 +273,11 @@ self.addEventListener('sync', event => {
     console.log('Service Worker: Background sync triggered')
     event.waitUntil(syncQueuedInteractions())
   }
+
+  // The app's offline outbox lives in the page; ask open pages to replay it
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(requestOutboxSync())
+  }
 })
 
 /**
@@ -393,6 +399,17 @@ async function notifyClientsOfSync(interactionId, success) {
   })
 }
 
+/**
+ * Ask open app clients to replay their offline outbox
+ */
+async function requestOutboxSync() {
+  const clients = await self.clients.matchAll({ type: 'window' })
+
+  clients.forEach(client => {
+    client.postMessage({ type: 'OUTBOX_SYNC' })
+  })
+}
+
 /**
  * Push Notification Support
  */
@@ -0,0 +1,128 @@
+-- =============================================================================
+-- Closed - Lost Stage and Loss Reason Capture
+-- =============================================================================
+-- Adds a terminal 'Closed - Lost' stage to the opportunity pipeline so lost
+-- deals stop sitting in 'Awaiting Response' and skewing conversion rates.
+-- Lost opportunities carry a required loss reason, an optional competitor
+-- name (competitor_info) and free-text loss notes.
+--
+-- Migration: 37_opportunity_closed_lost_stage.sql
+-- Applied: Pipeline Enhancement - Closed Lost Tracking
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. UPDATE opportunities SET stage = 'Awaiting Response' WHERE stage = 'Closed - Lost';
+-- 2. ALTER TABLE opportunities DROP CONSTRAINT opportunities_lost_reason_values, DROP CONSTRAINT opportunities_lost_notes_length;
+-- 3. ALTER TABLE opportunities DROP COLUMN lost_notes;
+-- 4. Re-apply update_opportunity_stage_tracking() from 30_opportunities_schema.sql
+-- Note: enum values cannot be dropped; recreate the opportunity_stage type if required.
+
+-- =============================================================================
+-- Stage Enum Extension
+-- =============================================================================
+
+-- ALTER TYPE ... ADD VALUE cannot run inside a transaction block with statements
+-- that use the new value, so apply this statement on its own first.
+ALTER TYPE public.opportunity_stage ADD VALUE IF NOT EXISTS 'Closed - Lost' AFTER 'Closed - Won';
+
+-- =============================================================================
+-- Loss Detail Columns
+-- =============================================================================
+
+ALTER TABLE public.opportunities
+ADD COLUMN IF NOT EXISTS lost_notes TEXT;
+
+COMMENT ON COLUMN public.opportunities.lost_reason IS 'Reason the opportunity was lost (required when is_lost)';
+COMMENT ON COLUMN public.opportunities.competitor_info IS 'Competitor that won the business, when known';
+COMMENT ON COLUMN public.opportunities.lost_notes IS 'Free-text notes explaining the loss';
+COMMENT ON COLUMN public.opportunities.stage IS '7-stage sales pipeline progression plus terminal Closed - Lost stage';
+
+-- Restrict lost_reason to the values offered by the frontend LossReason enum
+ALTER TABLE public.opportunities
+DROP CONSTRAINT IF EXISTS opportunities_lost_reason_values;
+
+ALTER TABLE public.opportunities
+ADD CONSTRAINT opportunities_lost_reason_values CHECK (
+    lost_reason IS NULL OR lost_reason IN (
+        'Price',
+        'Distributor Not Carrying',
+        'Competitor',
+        'No Follow-up',
+        'Product Fit',
+        'Timing',
+        'No Decision',
+        'Other'
+    )
+);
+
+ALTER TABLE public.opportunities
+ADD CONSTRAINT opportunities_lost_notes_length CHECK (
+    lost_notes IS NULL OR LENGTH(lost_notes) <= 2000
+);
+
+-- =============================================================================
+-- Stage Tracking Trigger Update
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_opportunity_stage_tracking()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Update stage change tracking when stage changes
+    IF OLD.stage IS DISTINCT FROM NEW.stage THEN
+        NEW.stage_changed_at = NOW();
+        NEW.last_activity_date = NOW();
+    END IF;
+
+    -- Update won/lost dates automatically based on stage
+    IF NEW.stage = 'Closed - Won' AND OLD.stage != 'Closed - Won' THEN
+        NEW.is_won = TRUE;
+        NEW.is_lost = FALSE;
+        NEW.won_date = CURRENT_DATE;
+        NEW.lost_date = NULL;
+        NEW.lost_reason = NULL;
+        NEW.competitor_info = NULL;
+        NEW.lost_notes = NULL;
+        -- Set probability to 100% when won
+        NEW.probability_percent = 100;
+    END IF;
+
+    IF NEW.stage = 'Closed - Lost' AND OLD.stage != 'Closed - Lost' THEN
+        NEW.is_won = FALSE;
+        NEW.is_lost = TRUE;
+        NEW.won_date = NULL;
+        NEW.lost_date = COALESCE(NEW.lost_date, CURRENT_DATE);
+        -- Default the reason so the lost_reason constraint holds for legacy callers
+        NEW.lost_reason = COALESCE(NEW.lost_reason, 'Other');
+        -- Set probability to 0% when lost
+        NEW.probability_percent = 0;
+    END IF;
+
+    -- If stage is not 'Closed - Won', ensure is_won is false
+    IF NEW.stage != 'Closed - Won' THEN
+        NEW.is_won = FALSE;
+        NEW.won_date = NULL;
+    END IF;
+
+    -- If stage is not 'Closed - Lost', clear loss details (reopened deals)
+    IF NEW.stage != 'Closed - Lost' THEN
+        NEW.is_lost = FALSE;
+        NEW.lost_date = NULL;
+        NEW.lost_reason = NULL;
+        NEW.competitor_info = NULL;
+        NEW.lost_notes = NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_lost_reason
+ON public.opportunities(lost_reason) WHERE deleted_at IS NULL AND is_lost = TRUE;
+
+COMMENT ON INDEX idx_opportunities_lost_reason IS 'Index for loss reason analysis on lost opportunities';
@@ -0,0 +1,203 @@
+-- =============================================================================
+-- Opportunity Stage History and Time-in-Stage Analytics
+-- =============================================================================
+-- Records every opportunity stage transition (from stage, to stage, who made
+-- the change, when, and an optional note) so the pipeline can report per-stage
+-- dwell times and stage-to-stage conversion instead of only the time spent in
+-- the current stage.
+--
+-- Migration: 38_opportunity_stage_history.sql
+-- Applied: Pipeline Enhancement - Stage History Tracking
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP VIEW IF EXISTS public.opportunity_stage_funnel_view;
+-- 2. DROP VIEW IF EXISTS public.opportunity_stage_dwell_view;
+-- 3. DROP VIEW IF EXISTS public.opportunity_stage_duration_view;
+-- 4. DROP TRIGGER IF EXISTS opportunity_stage_history_trigger ON public.opportunities;
+-- 5. DROP FUNCTION IF EXISTS record_opportunity_stage_change();
+-- 6. DROP TABLE IF EXISTS public.opportunity_stage_history;
+
+-- =============================================================================
+-- Stage History Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.opportunity_stage_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    opportunity_id UUID NOT NULL REFERENCES public.opportunities(id) ON DELETE CASCADE,
+    from_stage public.opportunity_stage,
+    to_stage public.opportunity_stage NOT NULL,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    note TEXT,
+
+    CONSTRAINT opportunity_stage_history_note_length CHECK (
+        note IS NULL OR LENGTH(note) <= 1000
+    ),
+    CONSTRAINT opportunity_stage_history_stage_changed CHECK (
+        from_stage IS NULL OR from_stage != to_stage
+    )
+);
+
+COMMENT ON TABLE public.opportunity_stage_history IS 'Audit trail of opportunity stage transitions';
+COMMENT ON COLUMN public.opportunity_stage_history.from_stage IS 'Stage before the transition (NULL for the initial stage on creation)';
+COMMENT ON COLUMN public.opportunity_stage_history.to_stage IS 'Stage after the transition';
+COMMENT ON COLUMN public.opportunity_stage_history.changed_by IS 'User who made the change (NULL for system/backfilled rows)';
+COMMENT ON COLUMN public.opportunity_stage_history.note IS 'Optional note explaining the transition';
+
+-- =============================================================================
+-- Stage Change Recording Trigger
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION record_opportunity_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.opportunity_stage_history (opportunity_id, from_stage, to_stage, changed_at)
+        VALUES (NEW.id, NULL, NEW.stage, COALESCE(NEW.stage_changed_at, NEW.created_at, NOW()));
+    ELSIF OLD.stage IS DISTINCT FROM NEW.stage THEN
+        INSERT INTO public.opportunity_stage_history (opportunity_id, from_stage, to_stage, changed_at)
+        VALUES (NEW.id, OLD.stage, NEW.stage, COALESCE(NEW.stage_changed_at, NOW()));
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS opportunity_stage_history_trigger ON public.opportunities;
+
+CREATE TRIGGER opportunity_stage_history_trigger
+    AFTER INSERT OR UPDATE OF stage ON public.opportunities
+    FOR EACH ROW EXECUTE FUNCTION record_opportunity_stage_change();
+
+-- Backfill the current stage of existing opportunities as their first history entry
+INSERT INTO public.opportunity_stage_history (opportunity_id, from_stage, to_stage, changed_by, changed_at)
+SELECT o.id, NULL, o.stage, NULL, COALESCE(o.stage_changed_at, o.created_at)
+FROM public.opportunities o
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.opportunity_stage_history h WHERE h.opportunity_id = o.id
+);
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_opportunity_stage_history_opportunity
+ON public.opportunity_stage_history(opportunity_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_opportunity_stage_history_to_stage
+ON public.opportunity_stage_history(to_stage, changed_at);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE public.opportunity_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view opportunity stage history"
+ON public.opportunity_stage_history FOR SELECT
+TO authenticated
+USING (true);
+
+-- Rows are written by the trigger; users may only annotate the note afterwards,
+-- and only on transitions of opportunities they can access
+REVOKE UPDATE ON public.opportunity_stage_history FROM authenticated;
+GRANT UPDATE (note) ON public.opportunity_stage_history TO authenticated;
+
+CREATE POLICY "Users can annotate opportunity stage history"
+ON public.opportunity_stage_history FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.opportunities o
+        WHERE o.id = opportunity_stage_history.opportunity_id
+        AND o.deleted_at IS NULL
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.opportunities o
+        WHERE o.id = opportunity_stage_history.opportunity_id
+        AND o.deleted_at IS NULL
+    )
+);
+
+-- =============================================================================
+-- Analytics Views
+-- =============================================================================
+
+DROP VIEW IF EXISTS public.opportunity_stage_funnel_view;
+DROP VIEW IF EXISTS public.opportunity_stage_dwell_view;
+DROP VIEW IF EXISTS public.opportunity_stage_duration_view;
+
+-- One row per stage visit with entry/exit timestamps and dwell time
+CREATE VIEW public.opportunity_stage_duration_view AS
+SELECT
+    h.id AS history_id,
+    h.opportunity_id,
+    h.to_stage AS stage,
+    h.changed_at AS entered_at,
+    LEAD(h.changed_at) OVER w AS exited_at,
+    LEAD(h.to_stage) OVER w AS next_stage,
+    EXTRACT(EPOCH FROM (COALESCE(LEAD(h.changed_at) OVER w, NOW()) - h.changed_at)) / 86400.0 AS duration_days
+FROM public.opportunity_stage_history h
+JOIN public.opportunities o ON o.id = h.opportunity_id AND o.deleted_at IS NULL
+WINDOW w AS (PARTITION BY h.opportunity_id ORDER BY h.changed_at);
+
+-- Average / median dwell time per stage (completed visits only)
+CREATE VIEW public.opportunity_stage_dwell_view AS
+SELECT
+    d.stage,
+    COUNT(*) FILTER (WHERE d.exited_at IS NOT NULL) AS completed_visits,
+    COUNT(*) FILTER (WHERE d.exited_at IS NULL) AS current_count,
+    ROUND(COALESCE(AVG(d.duration_days) FILTER (WHERE d.exited_at IS NOT NULL), 0)::numeric, 1) AS avg_days_in_stage,
+    ROUND(COALESCE(
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY d.duration_days) FILTER (WHERE d.exited_at IS NOT NULL),
+        0
+    )::numeric, 1) AS median_days_in_stage,
+    ROUND(COALESCE(MAX(d.duration_days) FILTER (WHERE d.exited_at IS NULL), 0)::numeric, 1) AS max_current_days
+FROM public.opportunity_stage_duration_view d
+GROUP BY d.stage;
+
+-- How far opportunities got after first entering each stage: the number of
+-- opportunities per stage and the furthest stage they reached from then on.
+-- Closed - Lost is an exit from the funnel rather than a step in it.
+CREATE VIEW public.opportunity_stage_funnel_view AS
+WITH first_entries AS (
+    SELECT
+        h.opportunity_id,
+        h.to_stage AS stage,
+        MIN(h.changed_at) AS entered_at
+    FROM public.opportunity_stage_history h
+    JOIN public.opportunities o ON o.id = h.opportunity_id AND o.deleted_at IS NULL
+    WHERE h.to_stage <> 'Closed - Lost'
+    GROUP BY h.opportunity_id, h.to_stage
+),
+progress AS (
+    SELECT
+        e.opportunity_id,
+        e.stage,
+        MAX(later.to_stage) AS furthest_stage
+    FROM first_entries e
+    JOIN public.opportunity_stage_history later
+        ON later.opportunity_id = e.opportunity_id
+        AND later.changed_at >= e.entered_at
+        AND later.to_stage <> 'Closed - Lost'
+    GROUP BY e.opportunity_id, e.stage
+)
+SELECT
+    p.stage,
+    p.furthest_stage,
+    COUNT(*) AS opportunities
+FROM progress p
+GROUP BY p.stage, p.furthest_stage;
+
+GRANT SELECT ON public.opportunity_stage_duration_view TO authenticated;
+GRANT SELECT ON public.opportunity_stage_dwell_view TO authenticated;
+GRANT SELECT ON public.opportunity_stage_funnel_view TO authenticated;
+
+COMMENT ON VIEW public.opportunity_stage_duration_view IS 'Per-visit stage dwell times derived from opportunity_stage_history';
+COMMENT ON VIEW public.opportunity_stage_dwell_view IS 'Average and median days spent in each stage';
+COMMENT ON VIEW public.opportunity_stage_funnel_view IS 'Opportunities per stage by the furthest stage reached after entering it, for stage-to-stage conversion';
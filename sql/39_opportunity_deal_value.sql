@@ -0,0 +1,116 @@
+-- =============================================================================
+-- Opportunity Deal Value, Volume and Currency
+-- =============================================================================
+-- Gives every opportunity an expected monetary value so the pipeline can be
+-- weighted by probability instead of relying on fixed multipliers.
+--
+-- The value is either entered manually or calculated as:
+--   estimated cases per week × case price × term (weeks)
+-- where the case price defaults to product_principals.wholesale_price for the
+-- opportunity's product and principal.
+--
+-- Migration: 39_opportunity_deal_value.sql
+-- Applied: Pipeline Enhancement - Deal Value Tracking
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TRIGGER IF EXISTS opportunity_deal_value_trigger ON public.opportunities;
+-- 2. DROP FUNCTION IF EXISTS calculate_opportunity_deal_value();
+-- 3. ALTER TABLE public.opportunities DROP CONSTRAINT IF EXISTS opportunities_currency_code_format,
+--      DROP CONSTRAINT IF EXISTS opportunities_value_source_values,
+--      DROP CONSTRAINT IF EXISTS opportunities_volume_positive;
+-- 4. ALTER TABLE public.opportunities DROP COLUMN estimated_cases_per_week,
+--      DROP COLUMN unit_price, DROP COLUMN term_weeks, DROP COLUMN value_source;
+
+-- =============================================================================
+-- Deal Value Columns
+-- =============================================================================
+
+ALTER TABLE public.opportunities
+ADD COLUMN IF NOT EXISTS estimated_cases_per_week INTEGER,
+ADD COLUMN IF NOT EXISTS unit_price DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS term_weeks INTEGER DEFAULT 52,
+ADD COLUMN IF NOT EXISTS value_source VARCHAR(20) DEFAULT 'manual';
+
+COMMENT ON COLUMN public.opportunities.estimated_cases_per_week IS 'Expected volume in cases per week';
+COMMENT ON COLUMN public.opportunities.unit_price IS 'Case price used for the value calculation (defaults to product_principals.wholesale_price)';
+COMMENT ON COLUMN public.opportunities.term_weeks IS 'Number of weeks the expected volume is projected over';
+COMMENT ON COLUMN public.opportunities.value_source IS 'How estimated_value was determined: calculated from volume or entered manually';
+COMMENT ON COLUMN public.opportunities.currency_code IS 'ISO 4217 currency code for estimated_value and actual_value';
+
+ALTER TABLE public.opportunities
+DROP CONSTRAINT IF EXISTS opportunities_value_source_values;
+
+ALTER TABLE public.opportunities
+ADD CONSTRAINT opportunities_value_source_values CHECK (
+    value_source IN ('calculated', 'manual')
+);
+
+ALTER TABLE public.opportunities
+DROP CONSTRAINT IF EXISTS opportunities_currency_code_format;
+
+ALTER TABLE public.opportunities
+ADD CONSTRAINT opportunities_currency_code_format CHECK (
+    currency_code IS NULL OR currency_code ~ '^[A-Z]{3}$'
+);
+
+ALTER TABLE public.opportunities
+DROP CONSTRAINT IF EXISTS opportunities_volume_positive;
+
+ALTER TABLE public.opportunities
+ADD CONSTRAINT opportunities_volume_positive CHECK (
+    (estimated_cases_per_week IS NULL OR estimated_cases_per_week >= 0) AND
+    (unit_price IS NULL OR unit_price >= 0) AND
+    (term_weeks IS NULL OR (term_weeks > 0 AND term_weeks <= 520)) AND
+    (estimated_value IS NULL OR estimated_value >= 0)
+);
+
+-- =============================================================================
+-- Deal Value Calculation Trigger
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_opportunity_deal_value()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_wholesale_price DECIMAL(10,2);
+BEGIN
+    IF NEW.value_source = 'calculated' THEN
+        -- Default the case price from the product/principal pricing
+        IF NEW.unit_price IS NULL AND NEW.product_id IS NOT NULL AND NEW.principal_id IS NOT NULL THEN
+            SELECT pp.wholesale_price INTO v_wholesale_price
+            FROM public.product_principals pp
+            WHERE pp.product_id = NEW.product_id
+              AND pp.principal_id = NEW.principal_id
+              AND pp.is_active = TRUE;
+
+            NEW.unit_price = v_wholesale_price;
+        END IF;
+
+        IF NEW.estimated_cases_per_week IS NOT NULL
+           AND NEW.unit_price IS NOT NULL
+           AND NEW.term_weeks IS NOT NULL THEN
+            NEW.estimated_value = ROUND(NEW.estimated_cases_per_week * NEW.unit_price * NEW.term_weeks, 2);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS opportunity_deal_value_trigger ON public.opportunities;
+
+CREATE TRIGGER opportunity_deal_value_trigger
+    BEFORE INSERT OR UPDATE OF value_source, estimated_cases_per_week, unit_price, term_weeks, product_id, principal_id
+    ON public.opportunities
+    FOR EACH ROW EXECUTE FUNCTION calculate_opportunity_deal_value();
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+-- Supports quarter forecasts grouped by expected close date
+CREATE INDEX IF NOT EXISTS idx_opportunities_forecast
+ON public.opportunities(expected_close_date, probability_percent, estimated_value)
+WHERE deleted_at IS NULL AND is_won = FALSE AND is_lost = FALSE;
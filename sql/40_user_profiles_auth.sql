@@ -0,0 +1,126 @@
+-- =============================================================================
+-- User Profiles and Record Ownership
+-- =============================================================================
+-- Adds a profile for every Supabase Auth user and stamps the signed-in user on
+-- new records: created_by on opportunities, interactions and contacts,
+-- created_by_user_id on organization interactions, and assigned_user_id on
+-- organizations.
+--
+-- Migration: 40_user_profiles_auth.sql
+-- Applied: Authentication - User Profiles
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. ALTER TABLE public.opportunities ALTER COLUMN created_by DROP DEFAULT;
+-- 2. ALTER TABLE public.interactions ALTER COLUMN created_by DROP DEFAULT;
+-- 3. ALTER TABLE public.contacts ALTER COLUMN created_by DROP DEFAULT;
+-- 4. ALTER TABLE public.organization_interactions ALTER COLUMN created_by_user_id DROP DEFAULT;
+-- 5. ALTER TABLE public.organizations ALTER COLUMN assigned_user_id DROP DEFAULT;
+-- 6. DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+-- 7. DROP FUNCTION IF EXISTS handle_new_user_profile();
+-- 8. DROP TRIGGER IF EXISTS user_profiles_updated_at_trigger ON public.user_profiles;
+-- 9. DROP FUNCTION IF EXISTS update_user_profiles_updated_at();
+-- 10. DROP TABLE IF EXISTS public.user_profiles;
+
+-- =============================================================================
+-- User Profiles Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    full_name VARCHAR(255),
+    title VARCHAR(100),
+    phone VARCHAR(50),
+    avatar_url TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT user_profiles_full_name_not_empty CHECK (
+        full_name IS NULL OR LENGTH(TRIM(full_name)) > 0
+    )
+);
+
+COMMENT ON TABLE public.user_profiles IS 'Profile details for each authenticated CRM user';
+COMMENT ON COLUMN public.user_profiles.id IS 'Matches auth.users.id';
+COMMENT ON COLUMN public.user_profiles.full_name IS 'Display name used for deal ownership and activity attribution';
+
+CREATE OR REPLACE FUNCTION update_user_profiles_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_profiles_updated_at_trigger ON public.user_profiles;
+
+CREATE TRIGGER user_profiles_updated_at_trigger
+    BEFORE UPDATE ON public.user_profiles
+    FOR EACH ROW EXECUTE FUNCTION update_user_profiles_updated_at();
+
+-- =============================================================================
+-- Profile Creation on Sign Up
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION handle_new_user_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.user_profiles (id, email, full_name)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        NULLIF(TRIM(NEW.raw_user_meta_data->>'full_name'), '')
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION handle_new_user_profile();
+
+-- Backfill profiles for existing users
+INSERT INTO public.user_profiles (id, email, full_name)
+SELECT u.id, u.email, NULLIF(TRIM(u.raw_user_meta_data->>'full_name'), '')
+FROM auth.users u
+WHERE u.email IS NOT NULL
+ON CONFLICT (id) DO NOTHING;
+
+-- =============================================================================
+-- Record Ownership Defaults
+-- =============================================================================
+
+ALTER TABLE public.opportunities ALTER COLUMN created_by SET DEFAULT auth.uid();
+ALTER TABLE public.interactions ALTER COLUMN created_by SET DEFAULT auth.uid();
+ALTER TABLE public.contacts ALTER COLUMN created_by SET DEFAULT auth.uid();
+ALTER TABLE public.organization_interactions ALTER COLUMN created_by_user_id SET DEFAULT auth.uid();
+ALTER TABLE public.organizations ALTER COLUMN assigned_user_id SET DEFAULT auth.uid();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Profiles are visible to all signed-in users for owner and author names
+DROP POLICY IF EXISTS "Users can view profiles" ON public.user_profiles;
+CREATE POLICY "Users can view profiles"
+ON public.user_profiles FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.user_profiles;
+CREATE POLICY "Users can update their own profile"
+ON public.user_profiles FOR UPDATE
+TO authenticated
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
+
+GRANT SELECT, UPDATE ON public.user_profiles TO authenticated;
@@ -0,0 +1,333 @@
+-- =============================================================================
+-- Role-Based Access Control
+-- =============================================================================
+-- Adds a CRM role and reporting manager to each user profile and scopes
+-- organizations, opportunities, interactions, products and product principals
+-- by role:
+--   broker_rep        - own assigned organizations and own opportunities
+--   account_manager   - own records plus records of direct reports
+--   principal_manager - own records plus records of direct reports; can manage
+--                       principal product portfolios
+--   admin             - all records; can manage products, principals and users
+--
+-- Replaces the open policies from 14_organizations_rls.sql and
+-- 30_opportunities_schema.sql. Interaction visibility follows opportunity
+-- visibility through the existing policies in 33_interactions_rls_policies.sql.
+--
+-- Roles are assigned by an admin:
+--   UPDATE public.user_profiles SET role = 'admin' WHERE email = '...';
+--
+-- Migration: 41_user_roles_rbac.sql
+-- Applied: Authentication - Role-Based Access
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. Drop the policies created below and re-run the policy sections of
+--    14_organizations_rls.sql, 30_opportunities_schema.sql and
+--    33_interactions_rls_policies.sql
+-- 2. DROP TRIGGER IF EXISTS user_profiles_role_guard_trigger ON public.user_profiles;
+-- 3. DROP TRIGGER IF EXISTS user_profiles_role_sync_trigger ON public.user_profiles;
+-- 4. DROP FUNCTION IF EXISTS guard_user_profile_role();
+-- 5. DROP FUNCTION IF EXISTS sync_user_role_to_auth();
+-- 6. DROP FUNCTION IF EXISTS can_access_owned_record(UUID);
+-- 7. DROP FUNCTION IF EXISTS has_crm_role(user_role[]);
+-- 8. DROP FUNCTION IF EXISTS current_user_role();
+-- 9. ALTER TABLE public.user_profiles DROP COLUMN IF EXISTS manager_id, DROP COLUMN IF EXISTS role;
+-- 10. DROP TYPE IF EXISTS user_role;
+
+-- =============================================================================
+-- Roles and Teams
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_role') THEN
+        CREATE TYPE user_role AS ENUM (
+            'broker_rep',
+            'account_manager',
+            'principal_manager',
+            'admin'
+        );
+    END IF;
+END $$;
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS role user_role NOT NULL DEFAULT 'broker_rep',
+    ADD COLUMN IF NOT EXISTS manager_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.user_profiles
+    DROP CONSTRAINT IF EXISTS user_profiles_not_own_manager;
+ALTER TABLE public.user_profiles
+    ADD CONSTRAINT user_profiles_not_own_manager CHECK (manager_id IS NULL OR manager_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_manager_id
+ON public.user_profiles (manager_id) WHERE manager_id IS NOT NULL;
+
+COMMENT ON COLUMN public.user_profiles.role IS 'CRM role controlling record visibility and management permissions';
+COMMENT ON COLUMN public.user_profiles.manager_id IS 'Manager whose team this user belongs to';
+
+-- =============================================================================
+-- Access Functions
+-- =============================================================================
+
+-- SECURITY DEFINER so policies can read profiles without recursing into RLS
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS user_role AS $$
+    SELECT role FROM public.user_profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_crm_role(roles user_role[])
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(current_user_role() = ANY(roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Owner-scoped visibility: admins see everything, managers see their own and
+-- their direct reports' records (plus unowned legacy records), reps see their own
+CREATE OR REPLACE FUNCTION can_access_owned_record(owner_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT CASE current_user_role()
+        WHEN 'admin' THEN true
+        WHEN 'account_manager' THEN owner_id IS NULL OR owner_id = auth.uid() OR EXISTS (
+            SELECT 1 FROM public.user_profiles WHERE id = owner_id AND manager_id = auth.uid()
+        )
+        WHEN 'principal_manager' THEN owner_id IS NULL OR owner_id = auth.uid() OR EXISTS (
+            SELECT 1 FROM public.user_profiles WHERE id = owner_id AND manager_id = auth.uid()
+        )
+        ELSE owner_id IS NOT NULL AND owner_id = auth.uid()
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION current_user_role() IS 'Role of the signed-in user';
+COMMENT ON FUNCTION has_crm_role(user_role[]) IS 'Whether the signed-in user has one of the given roles';
+COMMENT ON FUNCTION can_access_owned_record(UUID) IS 'Whether the signed-in user can see a record owned by the given user';
+
+-- =============================================================================
+-- Role Protection and Sync
+-- =============================================================================
+
+-- Only admins may change roles or team assignments
+CREATE OR REPLACE FUNCTION guard_user_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.role IS DISTINCT FROM OLD.role OR NEW.manager_id IS DISTINCT FROM OLD.manager_id)
+       AND auth.uid() IS NOT NULL
+       AND NOT has_crm_role(ARRAY['admin']::user_role[]) THEN
+        RAISE EXCEPTION 'Only admins can change user roles or managers';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_profiles_role_guard_trigger ON public.user_profiles;
+
+CREATE TRIGGER user_profiles_role_guard_trigger
+    BEFORE UPDATE ON public.user_profiles
+    FOR EACH ROW EXECUTE FUNCTION guard_user_profile_role();
+
+-- Mirror the role into app_metadata so the session carries it for the client
+CREATE OR REPLACE FUNCTION sync_user_role_to_auth()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE auth.users
+    SET raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('crm_role', NEW.role)
+    WHERE id = NEW.id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_profiles_role_sync_trigger ON public.user_profiles;
+
+CREATE TRIGGER user_profiles_role_sync_trigger
+    AFTER INSERT OR UPDATE OF role ON public.user_profiles
+    FOR EACH ROW EXECUTE FUNCTION sync_user_role_to_auth();
+
+UPDATE auth.users u
+SET raw_app_meta_data = COALESCE(u.raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('crm_role', p.role)
+FROM public.user_profiles p
+WHERE p.id = u.id;
+
+-- =============================================================================
+-- User Profiles Policies
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Admins can update any profile" ON public.user_profiles;
+CREATE POLICY "Admins can update any profile"
+ON public.user_profiles FOR UPDATE
+TO authenticated
+USING (has_crm_role(ARRAY['admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['admin']::user_role[]));
+
+-- =============================================================================
+-- Organizations Policies
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Users can view all organizations" ON public.organizations;
+DROP POLICY IF EXISTS "Users can update organizations" ON public.organizations;
+DROP POLICY IF EXISTS "Users can delete organizations" ON public.organizations;
+
+DROP POLICY IF EXISTS "Users can view accessible organizations" ON public.organizations;
+CREATE POLICY "Users can view accessible organizations"
+ON public.organizations FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL AND can_access_owned_record(assigned_user_id));
+
+DROP POLICY IF EXISTS "Users can update accessible organizations" ON public.organizations;
+CREATE POLICY "Users can update accessible organizations"
+ON public.organizations FOR UPDATE
+TO authenticated
+USING (deleted_at IS NULL AND can_access_owned_record(assigned_user_id))
+WITH CHECK (deleted_at IS NULL AND can_access_owned_record(assigned_user_id));
+
+DROP POLICY IF EXISTS "Managers can delete accessible organizations" ON public.organizations;
+CREATE POLICY "Managers can delete accessible organizations"
+ON public.organizations FOR UPDATE
+TO authenticated
+USING (
+    has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[])
+    AND can_access_owned_record(assigned_user_id)
+)
+WITH CHECK (deleted_at IS NOT NULL);
+
+-- Permissive UPDATE policies are OR-ed, so the delete policy above would let
+-- anyone who can edit a row also soft delete it. This restrictive policy
+-- applies to every update and keeps setting deleted_at to managers.
+DROP POLICY IF EXISTS "Only managers can soft delete organizations" ON public.organizations;
+CREATE POLICY "Only managers can soft delete organizations"
+ON public.organizations AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (
+    deleted_at IS NULL
+    OR has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[])
+);
+
+-- =============================================================================
+-- Opportunities Policies
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Users can view all opportunities" ON public.opportunities;
+DROP POLICY IF EXISTS "Users can update opportunities" ON public.opportunities;
+DROP POLICY IF EXISTS "Users can delete opportunities" ON public.opportunities;
+
+-- New opportunities are owned by their creator
+DROP POLICY IF EXISTS "Users can insert opportunities" ON public.opportunities;
+CREATE POLICY "Users can insert opportunities"
+ON public.opportunities FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view accessible opportunities" ON public.opportunities;
+CREATE POLICY "Users can view accessible opportunities"
+ON public.opportunities FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL AND can_access_owned_record(created_by));
+
+DROP POLICY IF EXISTS "Users can update accessible opportunities" ON public.opportunities;
+CREATE POLICY "Users can update accessible opportunities"
+ON public.opportunities FOR UPDATE
+TO authenticated
+USING (deleted_at IS NULL AND can_access_owned_record(created_by))
+WITH CHECK (deleted_at IS NULL AND can_access_owned_record(created_by));
+
+DROP POLICY IF EXISTS "Managers can delete accessible opportunities" ON public.opportunities;
+CREATE POLICY "Managers can delete accessible opportunities"
+ON public.opportunities FOR UPDATE
+TO authenticated
+USING (
+    has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[])
+    AND can_access_owned_record(created_by)
+)
+WITH CHECK (deleted_at IS NOT NULL);
+
+DROP POLICY IF EXISTS "Only managers can soft delete opportunities" ON public.opportunities;
+CREATE POLICY "Only managers can soft delete opportunities"
+ON public.opportunities AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (
+    deleted_at IS NULL
+    OR has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[])
+);
+
+-- =============================================================================
+-- Interactions Policies
+-- =============================================================================
+
+-- Reps may only soft delete interactions they logged
+DROP POLICY IF EXISTS "Users can soft delete interactions for accessible opportunities" ON public.interactions;
+CREATE POLICY "Users can soft delete interactions for accessible opportunities"
+ON public.interactions FOR UPDATE
+TO authenticated
+USING (
+    can_access_owned_record(created_by)
+    AND EXISTS (
+        SELECT 1 FROM public.opportunities
+        WHERE id = interactions.opportunity_id
+        AND deleted_at IS NULL
+    )
+)
+WITH CHECK (deleted_at IS NOT NULL);
+
+-- The update policy from 33_interactions_rls_policies.sql would otherwise
+-- accept the soft delete for any editable interaction
+DROP POLICY IF EXISTS "Only owners can soft delete interactions" ON public.interactions;
+CREATE POLICY "Only owners can soft delete interactions"
+ON public.interactions AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (deleted_at IS NULL OR can_access_owned_record(created_by));
+
+-- =============================================================================
+-- Products and Product Principals Policies
+-- =============================================================================
+
+-- The catalog is visible to everyone; only admins maintain it and only
+-- principal managers and admins change principal portfolios
+
+DROP POLICY IF EXISTS "Users can insert products" ON public.products;
+DROP POLICY IF EXISTS "Users can update products" ON public.products;
+DROP POLICY IF EXISTS "Users can delete products" ON public.products;
+
+DROP POLICY IF EXISTS "Admins can insert products" ON public.products;
+CREATE POLICY "Admins can insert products"
+ON public.products FOR INSERT
+TO authenticated
+WITH CHECK (has_crm_role(ARRAY['admin']::user_role[]));
+
+DROP POLICY IF EXISTS "Admins can update products" ON public.products;
+CREATE POLICY "Admins can update products"
+ON public.products FOR UPDATE
+TO authenticated
+USING (has_crm_role(ARRAY['admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['admin']::user_role[]));
+
+DROP POLICY IF EXISTS "Users can insert product principals" ON public.product_principals;
+DROP POLICY IF EXISTS "Users can update product principals" ON public.product_principals;
+DROP POLICY IF EXISTS "Users can delete product principals" ON public.product_principals;
+
+DROP POLICY IF EXISTS "Principal managers can insert product principals" ON public.product_principals;
+CREATE POLICY "Principal managers can insert product principals"
+ON public.product_principals FOR INSERT
+TO authenticated
+WITH CHECK (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+DROP POLICY IF EXISTS "Principal managers can update product principals" ON public.product_principals;
+CREATE POLICY "Principal managers can update product principals"
+ON public.product_principals FOR UPDATE
+TO authenticated
+USING (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+DROP POLICY IF EXISTS "Principal managers can delete product principals" ON public.product_principals;
+CREATE POLICY "Principal managers can delete product principals"
+ON public.product_principals FOR DELETE
+TO authenticated
+USING (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+GRANT EXECUTE ON FUNCTION current_user_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_crm_role(user_role[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_access_owned_record(UUID) TO authenticated;
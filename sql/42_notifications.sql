@@ -0,0 +1,142 @@
+-- =============================================================================
+-- In-App Notifications
+-- =============================================================================
+-- Persistent per-user notifications with read/unread state and per-user
+-- preferences. Notifications are generated for overdue follow-ups, principal
+-- contracts nearing their end date, stale principals and opportunities past
+-- their expected close date. Each alert has a source key so regenerating the
+-- same alert never creates a duplicate.
+--
+-- Migration: 42_notifications.sql
+-- Applied: Notifications - Notification Center
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TRIGGER IF EXISTS notification_preferences_updated_at_trigger ON public.notification_preferences;
+-- 2. DROP FUNCTION IF EXISTS update_notification_preferences_updated_at();
+-- 3. DROP TABLE IF EXISTS public.notification_preferences;
+-- 4. DROP TABLE IF EXISTS public.notifications;
+-- 5. DROP TYPE IF EXISTS notification_type;
+
+-- =============================================================================
+-- Notifications Table
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+        CREATE TYPE notification_type AS ENUM (
+            'follow_up_overdue',
+            'contract_expiring',
+            'principal_stale',
+            'opportunity_overdue'
+        );
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    type notification_type NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    entity_type VARCHAR(50),
+    entity_id UUID,
+    action_url TEXT,
+    source_key VARCHAR(255) NOT NULL,
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT notifications_user_source_unique UNIQUE (user_id, source_key),
+    CONSTRAINT notifications_title_not_empty CHECK (LENGTH(TRIM(title)) > 0)
+);
+
+COMMENT ON TABLE public.notifications IS 'In-app alerts for a single user';
+COMMENT ON COLUMN public.notifications.source_key IS 'Identifies the alert source (type, record and due date) so each alert is created once';
+COMMENT ON COLUMN public.notifications.read_at IS 'When the user read the notification; NULL while unread';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON public.notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON public.notifications (user_id) WHERE read_at IS NULL;
+
+-- =============================================================================
+-- Notification Preferences Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    follow_up_overdue BOOLEAN NOT NULL DEFAULT true,
+    contract_expiring BOOLEAN NOT NULL DEFAULT true,
+    contract_expiring_days INTEGER NOT NULL DEFAULT 30,
+    principal_stale BOOLEAN NOT NULL DEFAULT true,
+    opportunity_overdue BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT notification_preferences_contract_days_range CHECK (
+        contract_expiring_days BETWEEN 1 AND 365
+    )
+);
+
+COMMENT ON TABLE public.notification_preferences IS 'Which notification types each user receives';
+COMMENT ON COLUMN public.notification_preferences.contract_expiring_days IS 'Days before contract_end_date to start alerting';
+
+CREATE OR REPLACE FUNCTION update_notification_preferences_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notification_preferences_updated_at_trigger ON public.notification_preferences;
+
+CREATE TRIGGER notification_preferences_updated_at_trigger
+    BEFORE UPDATE ON public.notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION update_notification_preferences_updated_at();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON public.notifications;
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their own notifications" ON public.notifications;
+CREATE POLICY "Users can create their own notifications"
+ON public.notifications FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own notifications" ON public.notifications;
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can manage their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can manage their own notification preferences"
+ON public.notification_preferences FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.notifications TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.notification_preferences TO authenticated;
@@ -0,0 +1,161 @@
+-- =============================================================================
+-- Global Search
+-- =============================================================================
+-- Fuzzy search across organizations, principals, contacts, opportunities,
+-- products and interactions using pg_trgm. The client calls search_crm once
+-- per entity type in parallel and merges the ranked results. The function runs
+-- as the caller, so row level security limits results to visible records.
+--
+-- Migration: 43_global_search.sql
+-- Applied: Search - Universal Global Search
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP FUNCTION IF EXISTS public.search_crm(TEXT, TEXT, INTEGER, BOOLEAN);
+-- 2. DROP INDEX IF EXISTS idx_contacts_full_name_trgm;
+-- 3. DROP INDEX IF EXISTS idx_contacts_email_trgm;
+-- 4. DROP INDEX IF EXISTS idx_products_sku_trgm;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =============================================================================
+-- Trigram Indexes
+-- =============================================================================
+-- Organization, product, opportunity and interaction names already have
+-- trigram indexes (15, 30 and 34); these cover the remaining search columns.
+
+CREATE INDEX IF NOT EXISTS idx_contacts_full_name_trgm
+ON public.contacts USING gin((first_name || ' ' || last_name) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_email_trgm
+ON public.contacts USING gin(email gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_products_sku_trgm
+ON public.products USING gin(sku gin_trgm_ops) WHERE deleted_at IS NULL;
+
+-- =============================================================================
+-- Search Function
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.search_crm(
+    search_term TEXT,
+    search_entity TEXT,
+    result_limit INTEGER DEFAULT 10,
+    sku_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    entity_type TEXT,
+    entity_id UUID,
+    title TEXT,
+    subtitle TEXT,
+    score REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    term TEXT := btrim(search_term);
+    pattern TEXT;
+    max_rows INTEGER := LEAST(GREATEST(COALESCE(result_limit, 10), 1), 50);
+BEGIN
+    IF term IS NULL OR length(term) = 0 THEN
+        RETURN;
+    END IF;
+
+    -- Match the term literally inside ILIKE
+    pattern := '%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+    IF search_entity IN ('organization', 'principal') THEN
+        RETURN QUERY
+        SELECT
+            search_entity,
+            o.id,
+            o.name::TEXT,
+            concat_ws(' • ', o.type::TEXT, NULLIF(concat_ws(', ', o.city, o.state_province), ''))::TEXT,
+            word_similarity(term, o.name)
+        FROM public.organizations o
+        WHERE o.deleted_at IS NULL
+          AND COALESCE(o.is_principal, FALSE) = (search_entity = 'principal')
+          AND (o.name ILIKE pattern OR term <% o.name)
+        ORDER BY 5 DESC, 3
+        LIMIT max_rows;
+
+    ELSIF search_entity = 'contact' THEN
+        RETURN QUERY
+        SELECT
+            'contact'::TEXT,
+            c.id,
+            (c.first_name || ' ' || c.last_name)::TEXT,
+            concat_ws(' at ', c.position, org.name)::TEXT,
+            GREATEST(
+                word_similarity(term, c.first_name || ' ' || c.last_name),
+                word_similarity(term, COALESCE(c.email, ''))
+            )
+        FROM public.contacts c
+        LEFT JOIN public.organizations org ON org.id = c.organization_id
+        WHERE (c.first_name || ' ' || c.last_name) ILIKE pattern
+           OR c.email ILIKE pattern
+           OR term <% (c.first_name || ' ' || c.last_name)
+        ORDER BY 5 DESC, 3
+        LIMIT max_rows;
+
+    ELSIF search_entity = 'opportunity' THEN
+        RETURN QUERY
+        SELECT
+            'opportunity'::TEXT,
+            op.id,
+            op.name::TEXT,
+            concat_ws(' • ', op.stage::TEXT, org.name)::TEXT,
+            word_similarity(term, op.name)
+        FROM public.opportunities op
+        LEFT JOIN public.organizations org ON org.id = op.organization_id
+        WHERE op.deleted_at IS NULL
+          AND (op.name ILIKE pattern OR term <% op.name)
+        ORDER BY 5 DESC, 3
+        LIMIT max_rows;
+
+    ELSIF search_entity = 'product' THEN
+        RETURN QUERY
+        SELECT
+            'product'::TEXT,
+            p.id,
+            p.name::TEXT,
+            concat_ws(' • ', 'SKU ' || p.sku, p.category::TEXT)::TEXT,
+            CASE
+                WHEN sku_only THEN similarity(term, COALESCE(p.sku, ''))
+                ELSE GREATEST(word_similarity(term, p.name), similarity(term, COALESCE(p.sku, '')))
+            END
+        FROM public.products p
+        WHERE p.deleted_at IS NULL
+          AND (
+              p.sku ILIKE pattern
+              OR (NOT sku_only AND (p.name ILIKE pattern OR term <% p.name))
+          )
+        ORDER BY 5 DESC, 3
+        LIMIT max_rows;
+
+    ELSIF search_entity = 'interaction' THEN
+        RETURN QUERY
+        SELECT
+            'interaction'::TEXT,
+            i.id,
+            i.subject::TEXT,
+            concat_ws(' • ', i.type::TEXT, to_char(i.interaction_date, 'YYYY-MM-DD'))::TEXT,
+            word_similarity(term, i.subject)
+        FROM public.interactions i
+        WHERE i.deleted_at IS NULL
+          AND (i.subject ILIKE pattern OR term <% i.subject)
+        ORDER BY 5 DESC, 3
+        LIMIT max_rows;
+    END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.search_crm(TEXT, TEXT, INTEGER, BOOLEAN) IS 'Trigram search for one entity type (organization, principal, contact, opportunity, product, interaction); sku_only limits product matches to SKUs';
+
+GRANT EXECUTE ON FUNCTION public.search_crm(TEXT, TEXT, INTEGER, BOOLEAN) TO authenticated;
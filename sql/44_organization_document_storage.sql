@@ -0,0 +1,139 @@
+-- =============================================================================
+-- Organization Document Storage
+-- =============================================================================
+-- Stores organization documents (spec sheets, price lists, contracts) in a
+-- private Supabase Storage bucket. Objects live under
+-- <organization_id>/<upload_id>/<file name>, and each upload gets its own row
+-- in organization_documents. Re-uploading a file with the same name adds a new
+-- version whose parent_document_id points at the first version.
+--
+-- Document rows and storage objects follow organization visibility from
+-- 41_user_roles_rbac.sql, replacing the open document policies from
+-- 14_organizations_rls.sql.
+--
+-- Migration: 44_organization_document_storage.sql
+-- Applied: Organizations - Document Storage
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. Drop the storage.objects policies created below
+-- 2. Drop the organization_documents policies created below and re-run the
+--    document policy section of 14_organizations_rls.sql
+-- 3. DROP FUNCTION IF EXISTS can_access_organization(UUID);
+-- 4. DROP INDEX IF EXISTS idx_organization_documents_org_name;
+-- 5. DELETE FROM storage.buckets WHERE id = 'organization-documents';
+--    (the bucket must be emptied first)
+
+-- =============================================================================
+-- Storage Bucket
+-- =============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('organization-documents', 'organization-documents', FALSE, 52428800)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit;
+
+-- Version lookups match on organization and case-insensitive file name
+CREATE INDEX IF NOT EXISTS idx_organization_documents_org_name
+ON public.organization_documents(organization_id, LOWER(name));
+
+-- =============================================================================
+-- Access Helper
+-- =============================================================================
+
+-- Runs as the caller so organization row level security decides visibility
+CREATE OR REPLACE FUNCTION can_access_organization(org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.organizations o
+        WHERE o.id = org_id AND o.deleted_at IS NULL
+    );
+$$;
+
+COMMENT ON FUNCTION can_access_organization(UUID) IS 'Whether the signed-in user can see the given organization';
+
+GRANT EXECUTE ON FUNCTION can_access_organization(UUID) TO authenticated;
+
+-- =============================================================================
+-- Organization Documents Policies
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Users can view all organization documents" ON public.organization_documents;
+DROP POLICY IF EXISTS "Users can insert organization documents" ON public.organization_documents;
+DROP POLICY IF EXISTS "Users can update organization documents" ON public.organization_documents;
+DROP POLICY IF EXISTS "Users can delete organization documents" ON public.organization_documents;
+
+DROP POLICY IF EXISTS "Users can view accessible organization documents" ON public.organization_documents;
+CREATE POLICY "Users can view accessible organization documents"
+ON public.organization_documents FOR SELECT
+TO authenticated
+USING (can_access_organization(organization_id));
+
+DROP POLICY IF EXISTS "Users can insert accessible organization documents" ON public.organization_documents;
+CREATE POLICY "Users can insert accessible organization documents"
+ON public.organization_documents FOR INSERT
+TO authenticated
+WITH CHECK (can_access_organization(organization_id));
+
+DROP POLICY IF EXISTS "Users can update accessible organization documents" ON public.organization_documents;
+CREATE POLICY "Users can update accessible organization documents"
+ON public.organization_documents FOR UPDATE
+TO authenticated
+USING (can_access_organization(organization_id))
+WITH CHECK (can_access_organization(organization_id));
+
+DROP POLICY IF EXISTS "Users can delete accessible organization documents" ON public.organization_documents;
+CREATE POLICY "Users can delete accessible organization documents"
+ON public.organization_documents FOR DELETE
+TO authenticated
+USING (can_access_organization(organization_id));
+
+-- =============================================================================
+-- Storage Object Policies
+-- =============================================================================
+-- The first folder of every object path is the owning organization id. It is
+-- compared as text so a path that is not an organization id is simply denied.
+
+DROP POLICY IF EXISTS "Users can read accessible organization files" ON storage.objects;
+CREATE POLICY "Users can read accessible organization files"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'organization-documents'
+    AND EXISTS (
+        SELECT 1 FROM public.organizations org
+        WHERE org.id::text = (storage.foldername(name))[1]
+          AND can_access_organization(org.id)
+    )
+);
+
+DROP POLICY IF EXISTS "Users can upload accessible organization files" ON storage.objects;
+CREATE POLICY "Users can upload accessible organization files"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'organization-documents'
+    AND EXISTS (
+        SELECT 1 FROM public.organizations org
+        WHERE org.id::text = (storage.foldername(name))[1]
+          AND can_access_organization(org.id)
+    )
+);
+
+DROP POLICY IF EXISTS "Users can delete accessible organization files" ON storage.objects;
+CREATE POLICY "Users can delete accessible organization files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+    bucket_id = 'organization-documents'
+    AND EXISTS (
+        SELECT 1 FROM public.organizations org
+        WHERE org.id::text = (storage.foldername(name))[1]
+          AND can_access_organization(org.id)
+    )
+);
@@ -0,0 +1,62 @@
+-- =============================================================================
+-- Product Principal Exclusivity
+-- =============================================================================
+-- A product can have only one active principal with exclusive rights at a
+-- time. Exclusive rights conflict with any other active principal for the
+-- same product whose contract dates overlap; open-ended dates count as
+-- running indefinitely. The bulk assignment flow checks this up front, and
+-- this trigger keeps direct writes consistent.
+--
+-- Migration: 45_product_principal_exclusivity.sql
+-- Applied: Products - Principal Assignment Terms
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TRIGGER IF EXISTS product_principals_exclusivity_trigger ON public.product_principals;
+-- 2. DROP FUNCTION IF EXISTS guard_product_principal_exclusivity();
+-- 3. DROP INDEX IF EXISTS idx_product_principals_product_active;
+
+CREATE INDEX IF NOT EXISTS idx_product_principals_product_active
+ON public.product_principals(product_id) WHERE is_active = TRUE;
+
+-- =============================================================================
+-- Exclusivity Guard
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION guard_product_principal_exclusivity()
+RETURNS TRIGGER AS $$
+DECLARE
+    conflicting_principal TEXT;
+BEGIN
+    IF NEW.is_active IS NOT TRUE THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT o.name INTO conflicting_principal
+    FROM public.product_principals pp
+    JOIN public.organizations o ON o.id = pp.principal_id
+    WHERE pp.product_id = NEW.product_id
+      AND pp.id <> NEW.id
+      AND pp.is_active = TRUE
+      AND (pp.exclusive_rights = TRUE OR NEW.exclusive_rights = TRUE)
+      AND daterange(pp.contract_start_date, pp.contract_end_date, '[]')
+          && daterange(NEW.contract_start_date, NEW.contract_end_date, '[]')
+    LIMIT 1;
+
+    IF conflicting_principal IS NOT NULL THEN
+        RAISE EXCEPTION 'Exclusive rights conflict with principal %', conflicting_principal
+            USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS product_principals_exclusivity_trigger ON public.product_principals;
+
+CREATE TRIGGER product_principals_exclusivity_trigger
+    BEFORE INSERT OR UPDATE OF product_id, exclusive_rights, is_active, contract_start_date, contract_end_date
+    ON public.product_principals
+    FOR EACH ROW EXECUTE FUNCTION guard_product_principal_exclusivity();
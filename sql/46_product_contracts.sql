@@ -0,0 +1,141 @@
+-- =============================================================================
+-- Product Contract Lifecycle
+-- =============================================================================
+-- Principal product agreements live on product_principals (contract dates,
+-- auto_renewal, exclusive_rights). This migration adds:
+-- - renewal_term_months: how far an auto-renewing contract is extended
+-- - product_contract_events: a log of renewals and term changes
+-- - renew_due_product_contracts(): extends lapsed auto-renewing contracts and
+--   logs each extension. The app calls it when contracts are loaded; it can
+--   also be scheduled with pg_cron.
+-- Contract expiry alerts now default to a 90 day lead time so the 90, 60 and
+-- 30 day warnings are all raised.
+--
+-- Migration: 46_product_contracts.sql
+-- Applied: Principals - Contract Lifecycle
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP FUNCTION IF EXISTS renew_due_product_contracts();
+-- 2. DROP TABLE IF EXISTS public.product_contract_events;
+-- 3. ALTER TABLE public.product_principals DROP COLUMN IF EXISTS renewal_term_months;
+-- 4. ALTER TABLE public.notification_preferences ALTER COLUMN contract_expiring_days SET DEFAULT 30;
+
+-- =============================================================================
+-- Renewal Terms
+-- =============================================================================
+
+ALTER TABLE public.product_principals
+ADD COLUMN IF NOT EXISTS renewal_term_months INTEGER NOT NULL DEFAULT 12;
+
+ALTER TABLE public.product_principals
+DROP CONSTRAINT IF EXISTS product_principals_renewal_term_valid;
+
+ALTER TABLE public.product_principals
+ADD CONSTRAINT product_principals_renewal_term_valid CHECK (
+    renewal_term_months BETWEEN 1 AND 120
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_principals_contract_end
+ON public.product_principals(contract_end_date) WHERE contract_end_date IS NOT NULL;
+
+COMMENT ON COLUMN public.product_principals.renewal_term_months IS 'Months added to the contract end date on each renewal';
+
+ALTER TABLE public.notification_preferences
+ALTER COLUMN contract_expiring_days SET DEFAULT 90;
+
+-- =============================================================================
+-- Contract Events
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.product_contract_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_principal_id UUID NOT NULL REFERENCES public.product_principals(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('RENEWED', 'AUTO_RENEWED', 'TERMS_UPDATED')),
+    previous_end_date DATE,
+    new_end_date DATE,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_contract_events_contract
+ON public.product_contract_events(product_principal_id, created_at DESC);
+
+COMMENT ON TABLE public.product_contract_events IS 'Renewals and term changes for principal product contracts';
+COMMENT ON COLUMN public.product_contract_events.created_by IS 'User who made the change; NULL for automatic renewals';
+
+ALTER TABLE public.product_contract_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view contract events" ON public.product_contract_events;
+CREATE POLICY "Users can view contract events"
+ON public.product_contract_events FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Principal managers can log contract events" ON public.product_contract_events;
+CREATE POLICY "Principal managers can log contract events"
+ON public.product_contract_events FOR INSERT
+TO authenticated
+WITH CHECK (
+    has_crm_role(ARRAY['principal_manager', 'admin']::user_role[])
+    AND created_by = auth.uid()
+);
+
+-- =============================================================================
+-- Automatic Renewal
+-- =============================================================================
+
+-- Extend every active auto-renewing contract that has lapsed by whole renewal
+-- terms until it runs past today. Runs as the owner so renewals happen no
+-- matter which user triggers them. Returns the number of contracts renewed.
+CREATE OR REPLACE FUNCTION renew_due_product_contracts()
+RETURNS INTEGER AS $$
+DECLARE
+    contract RECORD;
+    next_end DATE;
+    renewed INTEGER := 0;
+BEGIN
+    FOR contract IN
+        SELECT id, contract_end_date, renewal_term_months
+        FROM public.product_principals
+        WHERE auto_renewal = TRUE
+          AND is_active = TRUE
+          AND contract_end_date < CURRENT_DATE
+        FOR UPDATE
+    LOOP
+        next_end := contract.contract_end_date;
+        WHILE next_end < CURRENT_DATE LOOP
+            next_end := (next_end + make_interval(months => contract.renewal_term_months))::DATE;
+        END LOOP;
+
+        -- A renewal that would overlap another principal's exclusive rights
+        -- is left for a manager to resolve
+        BEGIN
+            UPDATE public.product_principals
+            SET contract_end_date = next_end,
+                updated_at = NOW()
+            WHERE id = contract.id;
+
+            INSERT INTO public.product_contract_events (
+                product_principal_id, event_type, previous_end_date, new_end_date, notes, created_by
+            ) VALUES (
+                contract.id, 'AUTO_RENEWED', contract.contract_end_date, next_end,
+                format('Automatically renewed for %s month term', contract.renewal_term_months), NULL
+            );
+
+            renewed := renewed + 1;
+        EXCEPTION WHEN exclusion_violation THEN
+            NULL;
+        END;
+    END LOOP;
+
+    RETURN renewed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION renew_due_product_contracts() IS 'Extend lapsed auto-renewing principal product contracts and log each renewal';
+
+GRANT EXECUTE ON FUNCTION renew_due_product_contracts() TO authenticated;
@@ -0,0 +1,189 @@
+-- =============================================================================
+-- Sales Territories
+-- =============================================================================
+-- Territories group customers by geography. Each territory is defined by any
+-- mix of states (two-letter codes), ZIP code prefixes and counties. Every
+-- organization is resolved to one territory from its address:
+-- - The longest matching ZIP prefix wins
+-- - Then a county match, then a state match
+-- - Ties go to the territory name in alphabetical order
+-- organizations.territory_id is kept current by triggers whenever an address
+-- or a territory definition changes, so lists can filter on it directly.
+-- Product principal territory restrictions reference territories by id:
+-- { "territory_ids": [...] }.
+--
+-- Migration: 47_territories.sql
+-- Applied: Territories - Territory Model
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TRIGGER IF EXISTS territories_reassign_trigger ON public.territories;
+-- 2. DROP TRIGGER IF EXISTS organizations_territory_trigger ON public.organizations;
+-- 3. DROP FUNCTION IF EXISTS reassign_organization_territories();
+-- 4. DROP FUNCTION IF EXISTS set_organization_territory();
+-- 5. DROP FUNCTION IF EXISTS resolve_territory_id(TEXT, TEXT, TEXT);
+-- 6. ALTER TABLE public.organizations DROP COLUMN IF EXISTS territory_id;
+-- 7. ALTER TABLE public.organizations DROP COLUMN IF EXISTS county;
+-- 8. DROP TABLE IF EXISTS public.territories;
+-- 9. DROP FUNCTION IF EXISTS update_territories_updated_at();
+
+-- =============================================================================
+-- Territories
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.territories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    description TEXT,
+    states TEXT[] NOT NULL DEFAULT '{}',
+    zip_prefixes TEXT[] NOT NULL DEFAULT '{}',
+    counties JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(counties) = 'array'),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_territories_name
+ON public.territories(lower(name));
+
+COMMENT ON TABLE public.territories IS 'Sales territories defined by states, ZIP prefixes and counties';
+COMMENT ON COLUMN public.territories.states IS 'Two-letter state codes covered by the territory';
+COMMENT ON COLUMN public.territories.zip_prefixes IS 'Leading digits of covered ZIP codes, e.g. 606';
+COMMENT ON COLUMN public.territories.counties IS 'Covered counties as [{ "state": "IL", "county": "Cook" }]';
+
+CREATE OR REPLACE FUNCTION update_territories_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS territories_updated_at_trigger ON public.territories;
+
+CREATE TRIGGER territories_updated_at_trigger
+    BEFORE UPDATE ON public.territories
+    FOR EACH ROW EXECUTE FUNCTION update_territories_updated_at();
+
+ALTER TABLE public.territories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view territories" ON public.territories;
+CREATE POLICY "Users can view territories"
+ON public.territories FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Principal managers can manage territories" ON public.territories;
+CREATE POLICY "Principal managers can manage territories"
+ON public.territories FOR ALL
+TO authenticated
+USING (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+-- =============================================================================
+-- Organization Territory
+-- =============================================================================
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS county TEXT;
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS territory_id UUID REFERENCES public.territories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_organizations_territory
+ON public.organizations(territory_id) WHERE territory_id IS NOT NULL;
+
+COMMENT ON COLUMN public.organizations.territory_id IS 'Resolved from the address by resolve_territory_id(); not set directly';
+
+-- Best matching active territory for an address, or NULL when none covers it
+CREATE OR REPLACE FUNCTION resolve_territory_id(
+    p_state TEXT,
+    p_postal_code TEXT,
+    p_county TEXT
+)
+RETURNS UUID AS $$
+    WITH address AS (
+        SELECT
+            upper(trim(coalesce(p_state, ''))) AS state,
+            regexp_replace(coalesce(p_postal_code, ''), '[^0-9]', '', 'g') AS zip,
+            lower(regexp_replace(trim(coalesce(p_county, '')), '\s+(county|parish)$', '', 'i')) AS county
+    ),
+    scored AS (
+        SELECT
+            t.id,
+            t.name,
+            GREATEST(
+                coalesce((
+                    SELECT 100 + max(length(prefix))
+                    FROM unnest(t.zip_prefixes) AS prefix
+                    WHERE a.zip <> '' AND a.zip LIKE prefix || '%'
+                ), 0),
+                CASE WHEN a.county <> '' AND EXISTS (
+                    SELECT 1
+                    FROM jsonb_array_elements(t.counties) AS c
+                    WHERE upper(trim(c->>'state')) = a.state
+                      AND lower(regexp_replace(trim(c->>'county'), '\s+(county|parish)$', '', 'i')) = a.county
+                ) THEN 50 ELSE 0 END,
+                CASE WHEN a.state <> '' AND a.state = ANY (t.states) THEN 10 ELSE 0 END
+            ) AS score
+        FROM public.territories t
+        CROSS JOIN address a
+        WHERE t.is_active = TRUE
+    )
+    SELECT id
+    FROM scored
+    WHERE score > 0
+    ORDER BY score DESC, lower(name)
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION resolve_territory_id(TEXT, TEXT, TEXT) IS 'Territory for an address: longest ZIP prefix, then county, then state';
+
+CREATE OR REPLACE FUNCTION set_organization_territory()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.territory_id := resolve_territory_id(NEW.state_province, NEW.postal_code, NEW.county);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS organizations_territory_trigger ON public.organizations;
+
+CREATE TRIGGER organizations_territory_trigger
+    BEFORE INSERT OR UPDATE OF state_province, postal_code, county ON public.organizations
+    FOR EACH ROW EXECUTE FUNCTION set_organization_territory();
+
+-- Re-resolve every organization after territory definitions change. Runs as
+-- the owner so the update is not limited by the editor's organization access.
+CREATE OR REPLACE FUNCTION reassign_organization_territories()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.organizations o
+    SET territory_id = resolved.territory_id
+    FROM (
+        SELECT id, resolve_territory_id(state_province, postal_code, county) AS territory_id
+        FROM public.organizations
+    ) AS resolved
+    WHERE o.id = resolved.id
+      AND o.territory_id IS DISTINCT FROM resolved.territory_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS territories_reassign_trigger ON public.territories;
+
+CREATE TRIGGER territories_reassign_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON public.territories
+    FOR EACH STATEMENT EXECUTE FUNCTION reassign_organization_territories();
+
+-- =============================================================================
+-- Product Principal Restrictions
+-- =============================================================================
+
+-- Free-text { "regions": [...] } restrictions saved before territories existed
+-- are kept; the app matches them to territories by name.
+COMMENT ON COLUMN public.product_principals.territory_restrictions IS 'Permitted territories as { "territory_ids": [...] }; empty means unrestricted';
@@ -0,0 +1,189 @@
+-- =============================================================================
+-- Tasks
+-- =============================================================================
+-- To-dos with a title, due date, priority, assignee and status. A task may be
+-- linked to any of an organization, contact, opportunity or principal.
+-- Saving an interaction with a follow-up creates (or updates) a task for it:
+-- - Title "Follow up: <subject>", due on the follow-up date
+-- - Linked to the interaction's opportunity, its organization and principal
+-- - Assigned to the user who logged the interaction
+-- Clearing the follow-up or deleting the interaction cancels the open task.
+-- Existing open follow-ups are backfilled as tasks.
+--
+-- Migration: 48_tasks.sql
+-- Applied: Tasks - Task Management
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TRIGGER IF EXISTS interactions_follow_up_task_trigger ON public.interactions;
+-- 2. DROP FUNCTION IF EXISTS sync_interaction_follow_up_task();
+-- 3. DROP TABLE IF EXISTS public.tasks;
+-- 4. DROP FUNCTION IF EXISTS update_tasks_timestamps();
+
+-- =============================================================================
+-- Tasks
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+    description TEXT,
+    due_date DATE,
+    priority TEXT NOT NULL DEFAULT 'MEDIUM' CHECK (priority IN ('LOW', 'MEDIUM', 'HIGH', 'URGENT')),
+    status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED')),
+    assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+
+    -- Linked records
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE,
+    opportunity_id UUID REFERENCES public.opportunities(id) ON DELETE CASCADE,
+    principal_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+    interaction_id UUID UNIQUE REFERENCES public.interactions(id) ON DELETE SET NULL,
+
+    completed_at TIMESTAMPTZ,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assigned_open
+ON public.tasks(assigned_to, due_date) WHERE status IN ('OPEN', 'IN_PROGRESS');
+
+CREATE INDEX IF NOT EXISTS idx_tasks_organization ON public.tasks(organization_id) WHERE organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_contact ON public.tasks(contact_id) WHERE contact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_opportunity ON public.tasks(opportunity_id) WHERE opportunity_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_principal ON public.tasks(principal_id) WHERE principal_id IS NOT NULL;
+
+COMMENT ON TABLE public.tasks IS 'To-dos linked to organizations, contacts, opportunities and principals';
+COMMENT ON COLUMN public.tasks.interaction_id IS 'Interaction whose follow-up created the task';
+COMMENT ON COLUMN public.tasks.completed_at IS 'Set when the task is completed, cleared when reopened';
+
+CREATE OR REPLACE FUNCTION update_tasks_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    IF NEW.status = 'COMPLETED' AND NEW.completed_at IS NULL THEN
+        NEW.completed_at = NOW();
+    ELSIF NEW.status <> 'COMPLETED' THEN
+        NEW.completed_at = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_timestamps_trigger ON public.tasks;
+
+CREATE TRIGGER tasks_timestamps_trigger
+    BEFORE INSERT OR UPDATE ON public.tasks
+    FOR EACH ROW EXECUTE FUNCTION update_tasks_timestamps();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
+
+-- Assignees and their managers see a task, as does whoever created it
+DROP POLICY IF EXISTS "Users can view accessible tasks" ON public.tasks;
+CREATE POLICY "Users can view accessible tasks"
+ON public.tasks FOR SELECT
+TO authenticated
+USING (can_access_owned_record(assigned_to) OR created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create tasks" ON public.tasks;
+CREATE POLICY "Users can create tasks"
+ON public.tasks FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update accessible tasks" ON public.tasks;
+CREATE POLICY "Users can update accessible tasks"
+ON public.tasks FOR UPDATE
+TO authenticated
+USING (can_access_owned_record(assigned_to) OR created_by = auth.uid())
+WITH CHECK (can_access_owned_record(assigned_to) OR created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their tasks" ON public.tasks;
+CREATE POLICY "Users can delete their tasks"
+ON public.tasks FOR DELETE
+TO authenticated
+USING (
+    created_by = auth.uid()
+    OR has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[])
+);
+
+-- =============================================================================
+-- Follow-up Tasks from Interactions
+-- =============================================================================
+
+-- SECURITY DEFINER so the task is written whoever logged the interaction
+CREATE OR REPLACE FUNCTION sync_interaction_follow_up_task()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.follow_up_required IS TRUE AND NEW.follow_up_date IS NOT NULL AND NEW.deleted_at IS NULL THEN
+        INSERT INTO public.tasks (
+            title, description, due_date, assigned_to, created_by,
+            organization_id, opportunity_id, principal_id, interaction_id
+        )
+        SELECT
+            left('Follow up: ' || NEW.subject, 500),
+            NEW.follow_up_notes,
+            NEW.follow_up_date::date,
+            COALESCE(NEW.created_by, auth.uid()),
+            COALESCE(NEW.created_by, auth.uid()),
+            o.organization_id,
+            o.id,
+            o.principal_id,
+            NEW.id
+        FROM public.opportunities o
+        WHERE o.id = NEW.opportunity_id
+        ON CONFLICT (interaction_id) DO UPDATE
+        SET title = EXCLUDED.title,
+            description = EXCLUDED.description,
+            due_date = EXCLUDED.due_date
+        WHERE public.tasks.status IN ('OPEN', 'IN_PROGRESS');
+    ELSE
+        UPDATE public.tasks
+        SET status = 'CANCELLED'
+        WHERE interaction_id = NEW.id
+        AND status IN ('OPEN', 'IN_PROGRESS');
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS interactions_follow_up_task_trigger ON public.interactions;
+
+CREATE TRIGGER interactions_follow_up_task_trigger
+    AFTER INSERT OR UPDATE OF subject, follow_up_required, follow_up_date, follow_up_notes, deleted_at
+    ON public.interactions
+    FOR EACH ROW EXECUTE FUNCTION sync_interaction_follow_up_task();
+
+COMMENT ON FUNCTION sync_interaction_follow_up_task() IS 'Keeps one task per interaction follow-up';
+
+-- Backfill open follow-ups logged before tasks existed
+INSERT INTO public.tasks (
+    title, description, due_date, assigned_to, created_by,
+    organization_id, opportunity_id, principal_id, interaction_id
+)
+SELECT
+    left('Follow up: ' || i.subject, 500),
+    i.follow_up_notes,
+    i.follow_up_date::date,
+    i.created_by,
+    i.created_by,
+    o.organization_id,
+    o.id,
+    o.principal_id,
+    i.id
+FROM public.interactions i
+JOIN public.opportunities o ON o.id = i.opportunity_id
+WHERE i.follow_up_required IS TRUE
+AND i.follow_up_date IS NOT NULL
+AND i.deleted_at IS NULL
+ON CONFLICT (interaction_id) DO NOTHING;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tasks TO authenticated;
@@ -0,0 +1,194 @@
+-- =============================================================================
+-- Interaction Calendar Feeds
+-- =============================================================================
+-- Each user can subscribe to their schedule from an external calendar app.
+-- The schedule is every scheduled interaction and follow-up date the user
+-- logged, from 90 days ago onwards.
+-- - calendar_feed_tokens: one secret token per user; resetting it replaces
+--   the token and breaks the old subscription URL
+-- - interaction_calendar_feed(token): the schedule as an iCalendar document.
+--   It returns the "text/calendar" domain so PostgREST serves it with that
+--   media type, and it is STABLE so it can be fetched with GET:
+--   /rest/v1/rpc/interaction_calendar_feed?token=<token>&apikey=<anon key>
+-- The same events can be downloaded as a file from the calendar view
+-- (src/services/icsExport.ts builds identical VEVENTs).
+--
+-- Migration: 49_calendar_feeds.sql
+-- Applied: Interactions - Calendar
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP FUNCTION IF EXISTS interaction_calendar_feed(UUID);
+-- 2. DROP FUNCTION IF EXISTS ics_fold_line(TEXT);
+-- 3. DROP FUNCTION IF EXISTS ics_escape_text(TEXT);
+-- 4. DROP FUNCTION IF EXISTS ics_utc(TIMESTAMPTZ);
+-- 5. DROP DOMAIN IF EXISTS "text/calendar";
+-- 6. DROP TABLE IF EXISTS public.calendar_feed_tokens;
+
+-- =============================================================================
+-- Feed Tokens
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+    token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Secret tokens for subscribable interaction calendar feeds';
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their calendar feed token" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can view their calendar feed token"
+ON public.calendar_feed_tokens FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their calendar feed token" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can create their calendar feed token"
+ON public.calendar_feed_tokens FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can reset their calendar feed token" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can reset their calendar feed token"
+ON public.calendar_feed_tokens FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE ON public.calendar_feed_tokens TO authenticated;
+
+-- =============================================================================
+-- iCalendar Helpers
+-- =============================================================================
+
+DO $$
+BEGIN
+    CREATE DOMAIN "text/calendar" AS TEXT;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE OR REPLACE FUNCTION ics_utc(value TIMESTAMPTZ)
+RETURNS TEXT AS $$
+    SELECT to_char(value AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION ics_escape_text(value TEXT)
+RETURNS TEXT AS $$
+    SELECT replace(replace(replace(replace(replace(
+        value, E'\\', E'\\\\'), ';', E'\\;'), ',', E'\\,'), E'\r', ''), E'\n', E'\\n');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Lines longer than 75 characters continue on the next line after CRLF + space
+CREATE OR REPLACE FUNCTION ics_fold_line(line TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN length(line) <= 75 THEN line
+        ELSE left(line, 75) || regexp_replace(substr(line, 76), '(.{1,74})', E'\r\n \\1', 'g')
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =============================================================================
+-- Calendar Feed
+-- =============================================================================
+
+-- SECURITY DEFINER: the token, not a session, identifies the user
+CREATE OR REPLACE FUNCTION interaction_calendar_feed(token UUID)
+RETURNS "text/calendar" AS $$
+DECLARE
+    v_user_id UUID;
+    v_events TEXT;
+BEGIN
+    SELECT t.user_id INTO v_user_id
+    FROM public.calendar_feed_tokens t
+    WHERE t.token = interaction_calendar_feed.token;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Calendar feed not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    WITH events AS (
+        SELECT
+            'interaction' AS kind,
+            i.id,
+            i.subject AS title,
+            i.interaction_date AS starts_at,
+            i.interaction_date + make_interval(mins => COALESCE(NULLIF(i.duration_minutes, 0), 30)) AS ends_at,
+            i.location,
+            i.notes AS details,
+            i.type::TEXT AS category,
+            i.updated_at,
+            o.name AS opportunity_name,
+            org.name AS organization_name
+        FROM public.interactions i
+        JOIN public.opportunities o ON o.id = i.opportunity_id
+        LEFT JOIN public.organizations org ON org.id = o.organization_id
+        WHERE i.created_by = v_user_id
+        AND i.deleted_at IS NULL
+        AND i.status = 'SCHEDULED'
+        AND i.interaction_date >= NOW() - INTERVAL '90 days'
+
+        UNION ALL
+
+        SELECT
+            'follow_up',
+            i.id,
+            'Follow up: ' || i.subject,
+            i.follow_up_date,
+            i.follow_up_date + INTERVAL '30 minutes',
+            NULL,
+            i.follow_up_notes,
+            'Follow-up',
+            i.updated_at,
+            o.name,
+            org.name
+        FROM public.interactions i
+        JOIN public.opportunities o ON o.id = i.opportunity_id
+        LEFT JOIN public.organizations org ON org.id = o.organization_id
+        WHERE i.created_by = v_user_id
+        AND i.deleted_at IS NULL
+        AND i.follow_up_required IS TRUE
+        AND i.follow_up_date >= NOW() - INTERVAL '90 days'
+    )
+    SELECT string_agg(
+        concat_ws(E'\r\n',
+            'BEGIN:VEVENT',
+            'UID:' || kind || '-' || id || '@crm',
+            'DTSTAMP:' || ics_utc(COALESCE(updated_at, NOW())),
+            'DTSTART:' || ics_utc(starts_at),
+            'DTEND:' || ics_utc(ends_at),
+            ics_fold_line('SUMMARY:' || ics_escape_text(title)),
+            ics_fold_line('LOCATION:' || ics_escape_text(NULLIF(location, ''))),
+            ics_fold_line('DESCRIPTION:' || ics_escape_text(NULLIF(concat_ws(E'\n',
+                'Organization: ' || NULLIF(organization_name, ''),
+                'Opportunity: ' || NULLIF(opportunity_name, ''),
+                NULLIF(details, '')
+            ), ''))),
+            'CATEGORIES:' || ics_escape_text(category),
+            'END:VEVENT'
+        ),
+        E'\r\n' ORDER BY starts_at
+    ) INTO v_events
+    FROM events;
+
+    RETURN concat_ws(E'\r\n',
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//CRM//Interaction Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:CRM Schedule',
+        v_events,
+        'END:VCALENDAR'
+    ) || E'\r\n';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION interaction_calendar_feed(UUID) IS 'iCalendar feed of a user''s scheduled interactions and follow-ups';
+
+GRANT EXECUTE ON FUNCTION interaction_calendar_feed(UUID) TO anon, authenticated;
@@ -0,0 +1,135 @@
+-- =============================================================================
+-- Visit Planning
+-- =============================================================================
+-- Supports the visit planner, which groups customer site visits by area and
+-- schedules a day of stops.
+-- - postal_code_locations: offline geocoding lookup (ZIP centroid coordinates).
+--   Load it from the US Census ZCTA gazetteer file or any ZIP centroid list;
+--   no external geocoding service is called.
+-- - visit_plan_candidates: organizations with open opportunities or pending
+--   follow-ups, located by 5-digit ZIP, falling back to the average of the
+--   ZIPs in the same city and state. Each candidate carries the opportunity a
+--   scheduled visit is logged against: an open Site Visit opportunity first,
+--   then the most recently updated open opportunity.
+--
+-- Migration: 50_visit_planning.sql
+-- Applied: Interactions - Visit Planner
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP VIEW IF EXISTS public.visit_plan_candidates;
+-- 2. DROP TABLE IF EXISTS public.postal_code_locations;
+
+-- =============================================================================
+-- Postal Code Locations
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.postal_code_locations (
+    postal_code TEXT PRIMARY KEY CHECK (postal_code ~ '^[0-9]{5}$'),
+    city TEXT NOT NULL,
+    state_code TEXT NOT NULL CHECK (state_code ~ '^[A-Z]{2}$'),
+    latitude NUMERIC(9,6) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude NUMERIC(9,6) NOT NULL CHECK (longitude BETWEEN -180 AND 180)
+);
+
+COMMENT ON TABLE public.postal_code_locations IS 'Offline ZIP code centroid lookup used to geocode organization addresses';
+
+CREATE INDEX IF NOT EXISTS idx_postal_code_locations_city
+ON public.postal_code_locations(upper(city), state_code);
+
+ALTER TABLE public.postal_code_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view postal code locations" ON public.postal_code_locations;
+CREATE POLICY "Users can view postal code locations"
+ON public.postal_code_locations FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage postal code locations" ON public.postal_code_locations;
+CREATE POLICY "Admins can manage postal code locations"
+ON public.postal_code_locations FOR ALL
+TO authenticated
+USING (has_crm_role(ARRAY['admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['admin']::user_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.postal_code_locations TO authenticated;
+
+-- =============================================================================
+-- Visit Plan Candidates
+-- =============================================================================
+
+-- security_invoker so organization, opportunity and interaction RLS still apply
+CREATE OR REPLACE VIEW public.visit_plan_candidates
+WITH (security_invoker = true) AS
+WITH open_opportunities AS (
+    SELECT o.organization_id, COUNT(*) AS open_opportunity_count
+    FROM public.opportunities o
+    WHERE o.deleted_at IS NULL
+    AND o.stage NOT IN ('Closed - Won', 'Closed - Lost')
+    GROUP BY o.organization_id
+),
+pending_follow_ups AS (
+    SELECT o.organization_id, MIN(i.follow_up_date) AS next_follow_up_date
+    FROM public.interactions i
+    JOIN public.opportunities o ON o.id = i.opportunity_id
+    WHERE i.deleted_at IS NULL
+    AND i.follow_up_required IS TRUE
+    AND i.follow_up_date IS NOT NULL
+    AND NOT EXISTS (
+        SELECT 1
+        FROM public.tasks t
+        WHERE t.interaction_id = i.id
+        AND t.status IN ('COMPLETED', 'CANCELLED')
+    )
+    GROUP BY o.organization_id
+),
+city_centroids AS (
+    SELECT upper(city) AS city, state_code, AVG(latitude) AS latitude, AVG(longitude) AS longitude
+    FROM public.postal_code_locations
+    GROUP BY upper(city), state_code
+)
+SELECT
+    org.id AS organization_id,
+    org.name AS organization_name,
+    org.address_line_1,
+    org.city,
+    org.state_province,
+    org.postal_code,
+    org.territory_id,
+    COALESCE(pc.latitude, cc.latitude) AS latitude,
+    COALESCE(pc.longitude, cc.longitude) AS longitude,
+    CASE
+        WHEN pc.postal_code IS NOT NULL THEN 'postal_code'
+        WHEN cc.city IS NOT NULL THEN 'city'
+    END AS geocode_source,
+    COALESCE(oo.open_opportunity_count, 0) AS open_opportunity_count,
+    fu.next_follow_up_date,
+    visit_opportunity.id AS opportunity_id,
+    visit_opportunity.name AS opportunity_name
+FROM public.organizations org
+LEFT JOIN open_opportunities oo ON oo.organization_id = org.id
+LEFT JOIN pending_follow_ups fu ON fu.organization_id = org.id
+LEFT JOIN public.postal_code_locations pc
+    ON pc.postal_code = left(regexp_replace(COALESCE(org.postal_code, ''), '[^0-9]', '', 'g'), 5)
+LEFT JOIN city_centroids cc
+    ON cc.city = upper(trim(org.city))
+    AND cc.state_code = upper(trim(org.state_province))
+LEFT JOIN LATERAL (
+    SELECT o.id, o.name
+    FROM public.opportunities o
+    WHERE o.organization_id = org.id
+    AND o.deleted_at IS NULL
+    ORDER BY
+        (o.stage NOT IN ('Closed - Won', 'Closed - Lost')) DESC,
+        (o.context = 'Site Visit') DESC,
+        o.updated_at DESC
+    LIMIT 1
+) visit_opportunity ON TRUE
+WHERE org.deleted_at IS NULL
+AND (oo.organization_id IS NOT NULL OR fu.organization_id IS NOT NULL);
+
+COMMENT ON VIEW public.visit_plan_candidates IS 'Organizations to visit (open opportunities or pending follow-ups) with geocoded coordinates';
+
+GRANT SELECT ON public.visit_plan_candidates TO authenticated;
@@ -0,0 +1,83 @@
+-- =============================================================================
+-- Email Templates
+-- =============================================================================
+-- Reusable emails for the compose panel on contact and opportunity pages.
+-- Subject and body may contain merge variables such as {{contact.first_name}},
+-- {{opportunity.name}}, {{principal.name}} and {{product.name}}; they are
+-- filled in when the email is composed (src/services/emailTemplateRules.ts).
+-- Everyone can use every active template. Authors manage their own
+-- templates; managers and admins can manage all of them.
+-- Sent emails are logged as Email interactions, so no message table is needed.
+--
+-- Migration: 51_email_templates.sql
+-- Applied: Interactions - Email Compose
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TABLE IF EXISTS public.email_templates;
+-- 2. DROP FUNCTION IF EXISTS update_email_templates_updated_at();
+
+-- =============================================================================
+-- Email Templates
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.email_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    subject TEXT NOT NULL CHECK (length(trim(subject)) > 0),
+    body TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_templates_name
+ON public.email_templates(lower(name));
+
+COMMENT ON TABLE public.email_templates IS 'Email templates with {{merge.variables}} for the compose panel';
+
+CREATE OR REPLACE FUNCTION update_email_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS email_templates_updated_at_trigger ON public.email_templates;
+
+CREATE TRIGGER email_templates_updated_at_trigger
+    BEFORE UPDATE ON public.email_templates
+    FOR EACH ROW EXECUTE FUNCTION update_email_templates_updated_at();
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view email templates" ON public.email_templates;
+CREATE POLICY "Users can view email templates"
+ON public.email_templates FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Users can create email templates" ON public.email_templates;
+CREATE POLICY "Users can create email templates"
+ON public.email_templates FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Authors and managers can update email templates" ON public.email_templates;
+CREATE POLICY "Authors and managers can update email templates"
+ON public.email_templates FOR UPDATE
+TO authenticated
+USING (created_by = auth.uid() OR has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[]))
+WITH CHECK (created_by = auth.uid() OR has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[]));
+
+DROP POLICY IF EXISTS "Authors and managers can delete email templates" ON public.email_templates;
+CREATE POLICY "Authors and managers can delete email templates"
+ON public.email_templates FOR DELETE
+TO authenticated
+USING (created_by = auth.uid() OR has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.email_templates TO authenticated;
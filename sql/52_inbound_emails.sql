@@ -0,0 +1,112 @@
+-- =============================================================================
+-- Inbound Emails
+-- =============================================================================
+-- Messages reps BCC to the CRM dropbox address. Each message is parsed from
+-- raw MIME (.eml), matched against contact email addresses and organization
+-- domains, and logged as an Email interaction on the best open opportunity.
+-- - The dropbox mail hook inserts rows with only raw_message; they stay
+--   RECEIVED until the app parses and matches them
+-- - Messages uploaded in the app are parsed before they are stored
+-- - LINKED rows point at the interaction created for them
+-- - UNMATCHED rows wait in the triage queue with any contact or
+--   organization that was recognised
+-- - raw_message is cleared once the message is parsed
+-- Message-ID is unique so a message BCC'd twice is only logged once.
+--
+-- Migration: 52_inbound_emails.sql
+-- Applied: Email - Inbound Email Ingestion
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TABLE IF EXISTS public.inbound_emails;
+-- 2. DROP FUNCTION IF EXISTS update_inbound_emails_updated_at();
+
+-- =============================================================================
+-- Inbound Emails
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.inbound_emails (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id TEXT,
+    from_address TEXT,
+    from_name TEXT,
+    to_addresses TEXT[] NOT NULL DEFAULT '{}',
+    cc_addresses TEXT[] NOT NULL DEFAULT '{}',
+    subject TEXT,
+    body_text TEXT,
+    sent_at TIMESTAMPTZ,
+    raw_message TEXT,
+    status TEXT NOT NULL DEFAULT 'RECEIVED' CHECK (status IN ('RECEIVED', 'LINKED', 'UNMATCHED', 'IGNORED')),
+    match_reason TEXT CHECK (match_reason IN ('contact_email', 'organization_domain', 'manual')),
+    error_message TEXT,
+
+    -- Matched records
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+    opportunity_id UUID REFERENCES public.opportunities(id) ON DELETE SET NULL,
+    interaction_id UUID REFERENCES public.interactions(id) ON DELETE SET NULL,
+
+    received_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    processed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inbound_emails_message_id
+ON public.inbound_emails(message_id) WHERE message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_pending
+ON public.inbound_emails(status, sent_at DESC) WHERE status IN ('RECEIVED', 'UNMATCHED');
+
+COMMENT ON TABLE public.inbound_emails IS 'Emails BCC''d to the CRM dropbox, logged as interactions or queued for triage';
+COMMENT ON COLUMN public.inbound_emails.raw_message IS 'Raw MIME from the mail hook, cleared once parsed';
+COMMENT ON COLUMN public.inbound_emails.match_reason IS 'How the message was linked: contact address, organization domain or by hand';
+
+CREATE OR REPLACE FUNCTION update_inbound_emails_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inbound_emails_updated_at_trigger ON public.inbound_emails;
+
+CREATE TRIGGER inbound_emails_updated_at_trigger
+    BEFORE UPDATE ON public.inbound_emails
+    FOR EACH ROW EXECUTE FUNCTION update_inbound_emails_updated_at();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE public.inbound_emails ENABLE ROW LEVEL SECURITY;
+
+-- The dropbox is shared, so the triage queue is too
+DROP POLICY IF EXISTS "Users can view inbound emails" ON public.inbound_emails;
+CREATE POLICY "Users can view inbound emails"
+ON public.inbound_emails FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can add inbound emails" ON public.inbound_emails;
+CREATE POLICY "Users can add inbound emails"
+ON public.inbound_emails FOR INSERT
+TO authenticated
+WITH CHECK (received_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can triage inbound emails" ON public.inbound_emails;
+CREATE POLICY "Users can triage inbound emails"
+ON public.inbound_emails FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Managers can delete inbound emails" ON public.inbound_emails;
+CREATE POLICY "Managers can delete inbound emails"
+ON public.inbound_emails FOR DELETE
+TO authenticated
+USING (has_crm_role(ARRAY['account_manager', 'principal_manager', 'admin']::user_role[]));
@@ -0,0 +1,586 @@
+-- =============================================================================
+-- Opportunity Principal Splits
+-- =============================================================================
+-- One opportunity can carry several principals through opportunity_principals,
+-- each with a contribution percent. The splits of an opportunity must total
+-- 100% with exactly one primary principal.
+-- - opportunities.principal_id stays the primary principal, so existing
+--   screens and views keep working
+-- - Inserting an opportunity with a principal_id links that principal at 100%;
+--   changing principal_id moves the link, or on a shared opportunity hands
+--   the primary link and its share to the new principal
+-- - set_opportunity_principals() replaces an opportunity's splits in one
+--   transaction
+-- - create_shared_opportunity() inserts an opportunity with its splits in one
+--   transaction
+-- - Principal links are only visible and editable on opportunities the user
+--   can access, replacing the open policies from 30_opportunities_schema.sql
+-- - principal_opportunity_shares lists every opportunity a principal is on
+--   with its share and weighted value
+-- - principal_activity_summary counts shared opportunities for every principal
+--   on them and weights pipeline figures by contribution
+-- Existing opportunities are backfilled with their principal at 100%.
+--
+-- Note: principal_activity_summary is dropped with CASCADE. Re-apply
+-- principal_activity_summary_secure from SECURITY_REMEDIATION_PLAN.sql if it
+-- is installed.
+--
+-- Migration: 53_opportunity_principal_splits.sql
+-- Applied: Opportunities - Multi-Principal Opportunities
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. Re-run the principal_activity_summary section of 36_principal_activity_schema.sql
+-- 2. DROP VIEW IF EXISTS public.principal_opportunity_shares;
+-- 3. DROP FUNCTION IF EXISTS create_shared_opportunity(JSONB, JSONB);
+--    DROP FUNCTION IF EXISTS set_opportunity_principals(UUID, JSONB);
+-- 4. DROP TRIGGER IF EXISTS opportunities_principal_link_trigger ON public.opportunities;
+-- 5. DROP FUNCTION IF EXISTS sync_opportunity_principal_link();
+-- 6. DROP TRIGGER IF EXISTS opportunity_principals_split_check ON public.opportunity_principals;
+-- 7. DROP FUNCTION IF EXISTS check_opportunity_principal_split();
+-- 8. DROP INDEX IF EXISTS idx_opportunity_principals_one_primary;
+-- 9. Drop the opportunity principals policies created below and re-run that
+--    policy section of 30_opportunities_schema.sql
+
+-- =============================================================================
+-- Backfill and Constraints
+-- =============================================================================
+
+INSERT INTO public.opportunity_principals (opportunity_id, principal_id, is_primary, contribution_percent)
+SELECT o.id, o.principal_id, TRUE, 100
+FROM public.opportunities o
+WHERE o.principal_id IS NOT NULL
+AND NOT EXISTS (
+    SELECT 1 FROM public.opportunity_principals op WHERE op.opportunity_id = o.id
+);
+
+UPDATE public.opportunity_principals
+SET contribution_percent = 100, is_primary = TRUE
+WHERE opportunity_id IN (
+    SELECT opportunity_id FROM public.opportunity_principals
+    GROUP BY opportunity_id HAVING COUNT(*) = 1
+)
+AND (contribution_percent IS DISTINCT FROM 100 OR is_primary IS DISTINCT FROM TRUE);
+
+UPDATE public.opportunity_principals SET contribution_percent = 0 WHERE contribution_percent IS NULL;
+
+ALTER TABLE public.opportunity_principals ALTER COLUMN contribution_percent SET NOT NULL;
+ALTER TABLE public.opportunity_principals ALTER COLUMN is_primary SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_opportunity_principals_one_primary
+ON public.opportunity_principals(opportunity_id) WHERE is_primary;
+
+COMMENT ON TABLE public.opportunity_principals IS 'Principals on an opportunity with their contribution split (totals 100%)';
+COMMENT ON COLUMN public.opportunity_principals.contribution_percent IS 'Share of the deal credited to the principal';
+COMMENT ON COLUMN public.opportunity_principals.is_primary IS 'Primary principal, mirrored in opportunities.principal_id';
+
+-- Checked at commit so a split can be rewritten row by row
+CREATE OR REPLACE FUNCTION check_opportunity_principal_split()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_opportunity UUID := COALESCE(NEW.opportunity_id, OLD.opportunity_id);
+    link_count INTEGER;
+    total_percent INTEGER;
+    primary_count INTEGER;
+BEGIN
+    SELECT COUNT(*), COALESCE(SUM(contribution_percent), 0), COUNT(*) FILTER (WHERE is_primary)
+    INTO link_count, total_percent, primary_count
+    FROM public.opportunity_principals
+    WHERE opportunity_id = target_opportunity;
+
+    IF link_count > 0 AND total_percent <> 100 THEN
+        RAISE EXCEPTION 'Principal contributions for opportunity % total %%%, not 100%%', target_opportunity, total_percent;
+    END IF;
+    IF link_count > 0 AND primary_count <> 1 THEN
+        RAISE EXCEPTION 'Opportunity % needs exactly one primary principal', target_opportunity;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS opportunity_principals_split_check ON public.opportunity_principals;
+
+CREATE CONSTRAINT TRIGGER opportunity_principals_split_check
+    AFTER INSERT OR UPDATE OR DELETE ON public.opportunity_principals
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION check_opportunity_principal_split();
+
+-- =============================================================================
+-- Opportunity Principals Policies
+-- =============================================================================
+
+-- Splits drive weighted pipeline and engagement, so a link follows the
+-- visibility of its opportunity (41_user_roles_rbac.sql)
+DROP POLICY IF EXISTS "Users can view all opportunity principals" ON public.opportunity_principals;
+DROP POLICY IF EXISTS "Users can insert opportunity principals" ON public.opportunity_principals;
+DROP POLICY IF EXISTS "Users can update opportunity principals" ON public.opportunity_principals;
+DROP POLICY IF EXISTS "Users can delete opportunity principals" ON public.opportunity_principals;
+
+DROP POLICY IF EXISTS "Users can view accessible opportunity principals" ON public.opportunity_principals;
+CREATE POLICY "Users can view accessible opportunity principals"
+ON public.opportunity_principals FOR SELECT
+TO authenticated
+USING (EXISTS (
+    SELECT 1 FROM public.opportunities o
+    WHERE o.id = opportunity_principals.opportunity_id
+    AND can_access_owned_record(o.created_by)
+));
+
+DROP POLICY IF EXISTS "Users can insert accessible opportunity principals" ON public.opportunity_principals;
+CREATE POLICY "Users can insert accessible opportunity principals"
+ON public.opportunity_principals FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (
+    SELECT 1 FROM public.opportunities o
+    WHERE o.id = opportunity_principals.opportunity_id
+    AND can_access_owned_record(o.created_by)
+));
+
+DROP POLICY IF EXISTS "Users can update accessible opportunity principals" ON public.opportunity_principals;
+CREATE POLICY "Users can update accessible opportunity principals"
+ON public.opportunity_principals FOR UPDATE
+TO authenticated
+USING (EXISTS (
+    SELECT 1 FROM public.opportunities o
+    WHERE o.id = opportunity_principals.opportunity_id
+    AND can_access_owned_record(o.created_by)
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM public.opportunities o
+    WHERE o.id = opportunity_principals.opportunity_id
+    AND can_access_owned_record(o.created_by)
+));
+
+DROP POLICY IF EXISTS "Users can delete accessible opportunity principals" ON public.opportunity_principals;
+CREATE POLICY "Users can delete accessible opportunity principals"
+ON public.opportunity_principals FOR DELETE
+TO authenticated
+USING (EXISTS (
+    SELECT 1 FROM public.opportunities o
+    WHERE o.id = opportunity_principals.opportunity_id
+    AND can_access_owned_record(o.created_by)
+));
+
+-- =============================================================================
+-- Keep the Primary Principal in Sync
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION sync_opportunity_principal_link()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.principal_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.opportunity_principals (opportunity_id, principal_id, is_primary, contribution_percent)
+        VALUES (NEW.id, NEW.principal_id, TRUE, 100)
+        ON CONFLICT (opportunity_id, principal_id) DO NOTHING;
+    ELSIF (
+        SELECT COUNT(*) FROM public.opportunity_principals WHERE opportunity_id = NEW.id
+    ) <= 1 THEN
+        DELETE FROM public.opportunity_principals WHERE opportunity_id = NEW.id;
+        INSERT INTO public.opportunity_principals (opportunity_id, principal_id, is_primary, contribution_percent)
+        VALUES (NEW.id, NEW.principal_id, TRUE, 100);
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM public.opportunity_principals
+        WHERE opportunity_id = NEW.id AND principal_id = NEW.principal_id AND is_primary
+    ) THEN
+        -- Shared opportunity: the new principal becomes primary. One already
+        -- on the opportunity keeps its own share; otherwise it takes over the
+        -- old primary's link and share.
+        IF EXISTS (
+            SELECT 1 FROM public.opportunity_principals
+            WHERE opportunity_id = NEW.id AND principal_id = NEW.principal_id
+        ) THEN
+            UPDATE public.opportunity_principals
+            SET is_primary = FALSE
+            WHERE opportunity_id = NEW.id AND is_primary;
+
+            UPDATE public.opportunity_principals
+            SET is_primary = TRUE
+            WHERE opportunity_id = NEW.id AND principal_id = NEW.principal_id;
+        ELSE
+            UPDATE public.opportunity_principals
+            SET principal_id = NEW.principal_id
+            WHERE opportunity_id = NEW.id AND is_primary;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS opportunities_principal_link_trigger ON public.opportunities;
+
+CREATE TRIGGER opportunities_principal_link_trigger
+    AFTER INSERT OR UPDATE OF principal_id ON public.opportunities
+    FOR EACH ROW EXECUTE FUNCTION sync_opportunity_principal_link();
+
+-- =============================================================================
+-- Replace an Opportunity's Splits
+-- =============================================================================
+
+-- p_principals: [{"principal_id": "...", "contribution_percent": 60, "is_primary": true}, ...]
+CREATE OR REPLACE FUNCTION set_opportunity_principals(p_opportunity_id UUID, p_principals JSONB)
+RETURNS SETOF public.opportunity_principals AS $$
+DECLARE
+    primary_principal UUID;
+BEGIN
+    -- Runs as the caller, so this only finds opportunities the caller can see
+    IF NOT EXISTS (SELECT 1 FROM public.opportunities WHERE id = p_opportunity_id) THEN
+        RAISE EXCEPTION 'Opportunity % not found', p_opportunity_id;
+    END IF;
+
+    SELECT (link->>'principal_id')::UUID INTO primary_principal
+    FROM jsonb_array_elements(p_principals) link
+    WHERE (link->>'is_primary')::BOOLEAN
+    LIMIT 1;
+
+    IF primary_principal IS NULL THEN
+        RAISE EXCEPTION 'A primary principal is required';
+    END IF;
+
+    DELETE FROM public.opportunity_principals WHERE opportunity_id = p_opportunity_id;
+
+    INSERT INTO public.opportunity_principals (opportunity_id, principal_id, is_primary, contribution_percent)
+    SELECT
+        p_opportunity_id,
+        (link->>'principal_id')::UUID,
+        COALESCE((link->>'is_primary')::BOOLEAN, FALSE),
+        (link->>'contribution_percent')::INTEGER
+    FROM jsonb_array_elements(p_principals) link;
+
+    -- Links are already written, so the sync trigger leaves them alone
+    UPDATE public.opportunities
+    SET principal_id = primary_principal
+    WHERE id = p_opportunity_id
+    AND principal_id IS DISTINCT FROM primary_principal;
+
+    RETURN QUERY
+    SELECT * FROM public.opportunity_principals
+    WHERE opportunity_id = p_opportunity_id
+    ORDER BY is_primary DESC, contribution_percent DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_opportunity_principals(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION set_opportunity_principals(UUID, JSONB) IS 'Replace the principals and contribution splits of an opportunity';
+
+-- p_opportunity: opportunity columns as JSON; columns left out take their
+-- defaults. Runs as the caller, so the opportunities insert policy applies.
+CREATE OR REPLACE FUNCTION create_shared_opportunity(p_opportunity JSONB, p_principals JSONB)
+RETURNS public.opportunities AS $$
+DECLARE
+    column_list TEXT;
+    new_id UUID;
+    created public.opportunities;
+BEGIN
+    SELECT string_agg(quote_ident(key), ', ')
+    INTO column_list
+    FROM jsonb_object_keys(p_opportunity) key;
+
+    EXECUTE format(
+        'INSERT INTO public.opportunities (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.opportunities, $1) RETURNING id',
+        column_list
+    )
+    USING p_opportunity
+    INTO new_id;
+
+    PERFORM set_opportunity_principals(new_id, p_principals);
+
+    SELECT * INTO created FROM public.opportunities WHERE id = new_id;
+    RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_shared_opportunity(JSONB, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION create_shared_opportunity(JSONB, JSONB) IS 'Create an opportunity with its principals and contribution splits';
+
+-- =============================================================================
+-- Principal Opportunity Shares
+-- =============================================================================
+
+CREATE OR REPLACE VIEW public.principal_opportunity_shares
+WITH (security_invoker = true) AS
+SELECT
+    op.principal_id,
+    op.opportunity_id,
+    op.is_primary,
+    op.contribution_percent,
+    COUNT(*) OVER (PARTITION BY op.opportunity_id) AS principal_count,
+    o.name,
+    o.stage,
+    o.probability_percent,
+    o.expected_close_date,
+    o.estimated_value,
+    o.currency_code,
+    o.deal_owner,
+    o.is_won,
+    o.is_lost,
+    o.notes,
+    o.created_at,
+    o.updated_at,
+    ROUND(COALESCE(o.estimated_value, 0) * op.contribution_percent / 100.0, 2) AS weighted_value,
+    o.organization_id,
+    org.name AS organization_name,
+    o.product_id,
+    p.name AS product_name
+FROM public.opportunity_principals op
+JOIN public.opportunities o ON o.id = op.opportunity_id AND o.deleted_at IS NULL
+JOIN public.organizations org ON org.id = o.organization_id
+LEFT JOIN public.products p ON p.id = o.product_id;
+
+COMMENT ON VIEW public.principal_opportunity_shares IS 'Opportunities per principal with the principal''s contribution and weighted value';
+
+-- =============================================================================
+-- Principal Activity Summary (shared opportunities)
+-- =============================================================================
+
+DROP MATERIALIZED VIEW IF EXISTS public.principal_activity_summary CASCADE;
+
+CREATE MATERIALIZED VIEW public.principal_activity_summary AS
+SELECT
+    -- Principal identification
+    org.id AS principal_id,
+    org.name AS principal_name,
+    org.status AS principal_status,
+    org.type AS organization_type,
+    org.industry,
+    org.size AS organization_size,
+    (org.deleted_at IS NULL) AS is_active,
+    org.lead_score,
+
+    -- Contact metrics
+    COALESCE(contact_stats.contact_count, 0) AS contact_count,
+    COALESCE(contact_stats.active_contacts, 0) AS active_contacts,
+    contact_stats.primary_contact_name,
+    contact_stats.primary_contact_email,
+    contact_stats.last_contact_update,
+
+    -- Interaction metrics
+    COALESCE(interaction_stats.total_interactions, 0) AS total_interactions,
+    COALESCE(interaction_stats.interactions_last_30_days, 0) AS interactions_last_30_days,
+    COALESCE(interaction_stats.interactions_last_90_days, 0) AS interactions_last_90_days,
+    interaction_stats.last_interaction_date,
+    interaction_stats.last_interaction_type,
+    interaction_stats.next_follow_up_date,
+    COALESCE(interaction_stats.avg_interaction_rating, 0) AS avg_interaction_rating,
+    COALESCE(interaction_stats.positive_interactions, 0) AS positive_interactions,
+    COALESCE(interaction_stats.follow_ups_required, 0) AS follow_ups_required,
+
+    -- Opportunity metrics (every opportunity the principal is on)
+    COALESCE(opportunity_stats.total_opportunities, 0) AS total_opportunities,
+    COALESCE(opportunity_stats.active_opportunities, 0) AS active_opportunities,
+    COALESCE(opportunity_stats.won_opportunities, 0) AS won_opportunities,
+    COALESCE(opportunity_stats.opportunities_last_30_days, 0) AS opportunities_last_30_days,
+    opportunity_stats.latest_opportunity_stage,
+    opportunity_stats.latest_opportunity_date,
+    COALESCE(opportunity_stats.avg_probability_percent, 0) AS avg_probability_percent,
+    opportunity_stats.highest_value_opportunity,
+
+    -- Shared opportunity metrics (weighted by contribution)
+    COALESCE(opportunity_stats.shared_opportunities, 0) AS shared_opportunities,
+    COALESCE(opportunity_stats.weighted_active_opportunities, 0) AS weighted_active_opportunities,
+    COALESCE(opportunity_stats.weighted_pipeline_value, 0) AS weighted_pipeline_value,
+    COALESCE(opportunity_stats.weighted_won_value, 0) AS weighted_won_value,
+
+    -- Product association metrics
+    COALESCE(product_stats.product_count, 0) AS product_count,
+    COALESCE(product_stats.active_product_count, 0) AS active_product_count,
+    product_stats.product_categories,
+    product_stats.primary_product_category,
+
+    -- Business relationship context
+    org.is_principal,
+    org.is_distributor,
+    org.distributor_id,
+    distributor.name AS distributor_name,
+
+    -- Activity timeline
+    COALESCE(
+        GREATEST(
+            contact_stats.last_contact_update,
+            interaction_stats.last_interaction_date,
+            opportunity_stats.latest_opportunity_date
+        ),
+        org.updated_at
+    ) AS last_activity_date,
+
+    -- Performance indicators
+    CASE
+        WHEN interaction_stats.last_interaction_date IS NULL THEN 'NO_ACTIVITY'
+        WHEN interaction_stats.last_interaction_date < NOW() - INTERVAL '30 days' THEN 'STALE'
+        WHEN interaction_stats.last_interaction_date < NOW() - INTERVAL '7 days' THEN 'MODERATE'
+        ELSE 'ACTIVE'
+    END AS activity_status,
+
+    -- Calculated engagement score (0-100); a shared opportunity counts
+    -- by the principal's share
+    LEAST(100, GREATEST(0, (
+        (COALESCE(org.lead_score, 0) * 0.4) +
+        (LEAST(30, COALESCE(interaction_stats.interactions_last_30_days, 0) * 5) * 0.3) +
+        (LEAST(20, COALESCE(opportunity_stats.weighted_active_opportunities, 0) * 10) * 0.2) +
+        (LEAST(10, COALESCE(product_stats.active_product_count, 0) * 2) * 0.1)
+    ))) AS engagement_score,
+
+    -- Metadata
+    org.created_at AS principal_created_at,
+    org.updated_at AS principal_updated_at,
+    NOW() AS summary_generated_at
+
+FROM public.organizations org
+
+-- Contact aggregations
+LEFT JOIN (
+    SELECT
+        c.organization_id,
+        COUNT(*) AS contact_count,
+        COUNT(*) FILTER (WHERE c.updated_at > NOW() - INTERVAL '90 days') AS active_contacts,
+        (
+            SELECT c2.first_name || ' ' || c2.last_name
+            FROM public.contacts c2
+            WHERE c2.organization_id = c.organization_id
+            ORDER BY c2.updated_at DESC
+            LIMIT 1
+        ) AS primary_contact_name,
+        (
+            SELECT c2.email
+            FROM public.contacts c2
+            WHERE c2.organization_id = c.organization_id
+            ORDER BY c2.updated_at DESC
+            LIMIT 1
+        ) AS primary_contact_email,
+        MAX(c.updated_at) AS last_contact_update
+    FROM public.contacts c
+    GROUP BY c.organization_id
+) contact_stats ON contact_stats.organization_id = org.id
+
+-- Interaction aggregations (via every opportunity the principal is on)
+LEFT JOIN (
+    SELECT
+        op.principal_id,
+        COUNT(i.*) AS total_interactions,
+        COUNT(i.*) FILTER (WHERE i.interaction_date > NOW() - INTERVAL '30 days') AS interactions_last_30_days,
+        COUNT(i.*) FILTER (WHERE i.interaction_date > NOW() - INTERVAL '90 days') AS interactions_last_90_days,
+        MAX(i.interaction_date) AS last_interaction_date,
+        (
+            SELECT i2.type::text
+            FROM public.interactions i2
+            JOIN public.opportunity_principals op2 ON op2.opportunity_id = i2.opportunity_id
+            WHERE op2.principal_id = op.principal_id
+              AND i2.deleted_at IS NULL
+            ORDER BY i2.interaction_date DESC
+            LIMIT 1
+        ) AS last_interaction_type,
+        MIN(i.follow_up_date) FILTER (WHERE i.follow_up_date > NOW() AND i.follow_up_required = TRUE) AS next_follow_up_date,
+        AVG(i.rating) FILTER (WHERE i.rating IS NOT NULL) AS avg_interaction_rating,
+        COUNT(i.*) FILTER (WHERE i.outcome = 'POSITIVE') AS positive_interactions,
+        COUNT(i.*) FILTER (WHERE i.follow_up_required = TRUE AND i.follow_up_date > NOW()) AS follow_ups_required
+    FROM public.opportunity_principals op
+    JOIN public.opportunities opp ON opp.id = op.opportunity_id
+        AND opp.deleted_at IS NULL
+    LEFT JOIN public.interactions i ON i.opportunity_id = opp.id
+        AND i.deleted_at IS NULL
+    GROUP BY op.principal_id
+) interaction_stats ON interaction_stats.principal_id = org.id
+
+-- Opportunity aggregations
+LEFT JOIN (
+    SELECT
+        op.principal_id,
+        COUNT(*) AS total_opportunities,
+        COUNT(*) FILTER (WHERE opp.stage NOT IN ('Closed - Won', 'Closed - Lost')) AS active_opportunities,
+        COUNT(*) FILTER (WHERE opp.is_won = TRUE) AS won_opportunities,
+        COUNT(*) FILTER (WHERE opp.created_at > NOW() - INTERVAL '30 days') AS opportunities_last_30_days,
+        (
+            SELECT opp2.stage::text
+            FROM public.opportunity_principals op2
+            JOIN public.opportunities opp2 ON opp2.id = op2.opportunity_id
+            WHERE op2.principal_id = op.principal_id
+              AND opp2.deleted_at IS NULL
+            ORDER BY opp2.updated_at DESC
+            LIMIT 1
+        ) AS latest_opportunity_stage,
+        MAX(opp.created_at) AS latest_opportunity_date,
+        AVG(opp.probability_percent) FILTER (WHERE opp.probability_percent IS NOT NULL) AS avg_probability_percent,
+        (
+            SELECT opp2.name
+            FROM public.opportunity_principals op2
+            JOIN public.opportunities opp2 ON opp2.id = op2.opportunity_id
+            WHERE op2.principal_id = op.principal_id
+              AND opp2.deleted_at IS NULL
+            ORDER BY COALESCE(opp2.estimated_value, 0) * op2.contribution_percent DESC
+            LIMIT 1
+        ) AS highest_value_opportunity,
+        COUNT(*) FILTER (WHERE shares.principal_count > 1) AS shared_opportunities,
+        ROUND(SUM(op.contribution_percent / 100.0) FILTER (
+            WHERE opp.stage NOT IN ('Closed - Won', 'Closed - Lost')
+        ), 2) AS weighted_active_opportunities,
+        ROUND(SUM(COALESCE(opp.estimated_value, 0) * op.contribution_percent / 100.0) FILTER (
+            WHERE opp.stage NOT IN ('Closed - Won', 'Closed - Lost')
+        ), 2) AS weighted_pipeline_value,
+        ROUND(SUM(COALESCE(opp.actual_value, opp.estimated_value, 0) * op.contribution_percent / 100.0) FILTER (
+            WHERE opp.is_won = TRUE
+        ), 2) AS weighted_won_value
+    FROM public.opportunity_principals op
+    JOIN public.opportunities opp ON opp.id = op.opportunity_id
+        AND opp.deleted_at IS NULL
+    JOIN (
+        SELECT opportunity_id, COUNT(*) AS principal_count
+        FROM public.opportunity_principals
+        GROUP BY opportunity_id
+    ) shares ON shares.opportunity_id = op.opportunity_id
+    GROUP BY op.principal_id
+) opportunity_stats ON opportunity_stats.principal_id = org.id
+
+-- Product association aggregations
+LEFT JOIN (
+    SELECT
+        pp.principal_id,
+        COUNT(DISTINCT pp.product_id) AS product_count,
+        COUNT(DISTINCT pp.product_id) FILTER (WHERE p.is_active = TRUE) AS active_product_count,
+        ARRAY_AGG(DISTINCT p.category) FILTER (WHERE p.category IS NOT NULL) AS product_categories,
+        MODE() WITHIN GROUP (ORDER BY p.category) AS primary_product_category
+    FROM public.product_principals pp
+    JOIN public.products p ON p.id = pp.product_id
+        AND p.deleted_at IS NULL
+    WHERE pp.is_active = TRUE
+    GROUP BY pp.principal_id
+) product_stats ON product_stats.principal_id = org.id
+
+-- Distributor relationship
+LEFT JOIN public.organizations distributor ON distributor.id = org.distributor_id
+    AND distributor.deleted_at IS NULL
+
+WHERE org.is_principal = TRUE
+  AND org.deleted_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_principal_activity_summary_principal_id
+ON public.principal_activity_summary (principal_id);
+
+CREATE INDEX IF NOT EXISTS idx_principal_activity_summary_status_engagement
+ON public.principal_activity_summary (activity_status, engagement_score DESC, last_activity_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_principal_activity_summary_distributor
+ON public.principal_activity_summary (distributor_id, distributor_name)
+WHERE distributor_id IS NOT NULL;
+
+GRANT SELECT ON public.principal_activity_summary TO authenticated;
+
+COMMENT ON MATERIALIZED VIEW public.principal_activity_summary IS
+'Comprehensive materialized view combining principal organization data with contact, interaction, opportunity (including shared, contribution-weighted) and product metrics for high-performance analytics';
+
+DROP TRIGGER IF EXISTS trigger_principal_activity_refresh_opportunity_principals ON public.opportunity_principals;
+
+CREATE TRIGGER trigger_principal_activity_refresh_opportunity_principals
+    AFTER INSERT OR UPDATE OR DELETE ON public.opportunity_principals
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.schedule_principal_activity_refresh();
+
+SELECT public.refresh_principal_activity_summary();
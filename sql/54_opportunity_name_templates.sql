@@ -0,0 +1,152 @@
+-- =============================================================================
+-- Opportunity Name Templates
+-- =============================================================================
+-- Admin-defined patterns for auto-generated opportunity names. A pattern mixes
+-- text with tokens such as {{organization}}, {{principal}}, {{context}},
+-- {{product}}, {{sku}}, {{month}}, {{quarter}}, {{year}} and {{deal_owner}};
+-- they are filled in by src/services/opportunityNaming.ts. Tokens left empty
+-- are dropped together with their separator.
+-- The default template names new opportunities. Each auto-named opportunity
+-- keeps its pattern in opportunities.name_template, so its name can be
+-- regenerated after an organization or principal is renamed.
+-- Everyone can read templates; admins manage them.
+-- Live opportunity names are unique regardless of case. Existing duplicates
+-- get a " (n)" suffix, and opportunity_name_exists() checks a name across
+-- every live opportunity, including ones the user cannot see.
+--
+-- Migration: 54_opportunity_name_templates.sql
+-- Applied: Opportunities - Naming Templates
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP FUNCTION IF EXISTS opportunity_name_exists(TEXT, UUID);
+--    DROP INDEX IF EXISTS public.idx_opportunities_name_lower;
+--    (duplicate names renamed with a " (n)" suffix are not restored)
+-- 2. DROP TABLE IF EXISTS public.opportunity_name_templates;
+-- 3. DROP FUNCTION IF EXISTS update_opportunity_name_templates_updated_at();
+
+-- =============================================================================
+-- Name Templates
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.opportunity_name_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    pattern TEXT NOT NULL CHECK (pattern ~ '\{\{[a-z_]+\}\}'),
+    description TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT opportunity_name_templates_default_active CHECK (NOT is_default OR is_active)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_opportunity_name_templates_name
+ON public.opportunity_name_templates(lower(name));
+
+-- At most one default template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_opportunity_name_templates_default
+ON public.opportunity_name_templates(is_default) WHERE is_default;
+
+COMMENT ON TABLE public.opportunity_name_templates IS 'Patterns with {{tokens}} for auto-generated opportunity names';
+COMMENT ON COLUMN public.opportunity_name_templates.is_default IS 'Template used for new opportunities';
+
+CREATE OR REPLACE FUNCTION update_opportunity_name_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS opportunity_name_templates_updated_at_trigger ON public.opportunity_name_templates;
+
+CREATE TRIGGER opportunity_name_templates_updated_at_trigger
+    BEFORE UPDATE ON public.opportunity_name_templates
+    FOR EACH ROW EXECUTE FUNCTION update_opportunity_name_templates_updated_at();
+
+ALTER TABLE public.opportunity_name_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view opportunity name templates" ON public.opportunity_name_templates;
+CREATE POLICY "Users can view opportunity name templates"
+ON public.opportunity_name_templates FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can manage opportunity name templates" ON public.opportunity_name_templates;
+CREATE POLICY "Admins can manage opportunity name templates"
+ON public.opportunity_name_templates FOR ALL
+TO authenticated
+USING (has_crm_role(ARRAY['admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['admin']::user_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.opportunity_name_templates TO authenticated;
+
+-- The pattern that was hardcoded before templates existed
+INSERT INTO public.opportunity_name_templates (name, pattern, description, is_default, created_by)
+SELECT
+    'Standard',
+    '{{organization}} - {{principal}} - {{context}} - {{month}} {{year}}',
+    'Organization, principal, context and month of creation',
+    TRUE,
+    NULL
+WHERE NOT EXISTS (SELECT 1 FROM public.opportunity_name_templates);
+
+-- =============================================================================
+-- Name Uniqueness Lookups
+-- =============================================================================
+
+-- Number later duplicates " (1)", " (2)", ... so the unique index can be built;
+-- the oldest opportunity keeps the name
+DO $$
+DECLARE
+    duplicate RECORD;
+    suffix INTEGER;
+BEGIN
+    FOR duplicate IN
+        SELECT id, name
+        FROM (
+            SELECT id, name, ROW_NUMBER() OVER (PARTITION BY lower(name) ORDER BY created_at, id) AS position
+            FROM public.opportunities
+            WHERE deleted_at IS NULL
+        ) ranked
+        WHERE position > 1
+    LOOP
+        suffix := 1;
+        WHILE EXISTS (
+            SELECT 1 FROM public.opportunities
+            WHERE deleted_at IS NULL
+            AND lower(name) = lower(duplicate.name || ' (' || suffix || ')')
+        ) LOOP
+            suffix := suffix + 1;
+        END LOOP;
+
+        UPDATE public.opportunities
+        SET name = duplicate.name || ' (' || suffix || ')'
+        WHERE id = duplicate.id;
+    END LOOP;
+END $$;
+
+DROP INDEX IF EXISTS public.idx_opportunities_name_lower;
+CREATE UNIQUE INDEX idx_opportunities_name_lower
+ON public.opportunities(lower(name))
+WHERE deleted_at IS NULL;
+
+-- SECURITY DEFINER so names on opportunities hidden from the user still count
+CREATE OR REPLACE FUNCTION opportunity_name_exists(p_name TEXT, p_exclude UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.opportunities
+        WHERE deleted_at IS NULL
+        AND lower(name) = lower(trim(p_name))
+        AND (p_exclude IS NULL OR id <> p_exclude)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION opportunity_name_exists(TEXT, UUID) TO authenticated;
+
+COMMENT ON FUNCTION opportunity_name_exists(TEXT, UUID) IS 'Whether a live opportunity other than p_exclude has the name (case-insensitive)';
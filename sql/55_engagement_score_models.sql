@@ -0,0 +1,631 @@
+-- =============================================================================
+-- Engagement Score Models
+-- =============================================================================
+-- Engagement scores are computed server-side from a scoring model: component
+-- weights, the count of each signal that earns a full component score, a
+-- decay half-life for interactions, the interaction outcomes that count and
+-- per-type interaction weights (e.g. sample drops, logged as Events, weighted
+-- heavily). The model with no principal is the default; a principal can have
+-- its own model.
+-- Scores are recorded daily in principal_engagement_scores for trend charts,
+-- whenever the summary is refreshed and when a model is saved. Schedule
+-- SELECT public.record_principal_engagement_scores(); daily (e.g. pg_cron) so
+-- quiet days get a point too. The last 90 days are backfilled from
+-- interaction history.
+-- Scores are computed over every opportunity, whoever owns it, so a preview
+-- matches the stored score for any signed-in user. Signed-in users can only
+-- record today's scores, and only principal managers and admins can record
+-- them at all; scheduled jobs and this migration record past days.
+--
+-- Note: principal_activity_summary is dropped with CASCADE. Re-apply
+-- principal_activity_summary_secure from SECURITY_REMEDIATION_PLAN.sql if it
+-- is installed.
+--
+-- Migration: 55_engagement_score_models.sql
+-- Applied: Principals - Engagement Scoring
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. Re-run the principal_activity_summary section of 53_opportunity_principal_splits.sql
+-- 2. Re-run refresh_principal_activity_summary() from 36_principal_activity_schema.sql
+-- 3. DROP FUNCTION IF EXISTS record_principal_engagement_scores(UUID, DATE);
+-- 4. DROP FUNCTION IF EXISTS compute_principal_engagement_score(UUID, JSONB, TIMESTAMPTZ);
+-- 5. DROP TABLE IF EXISTS public.principal_engagement_scores;
+-- 6. DROP TABLE IF EXISTS public.engagement_score_models;
+-- 7. DROP FUNCTION IF EXISTS update_engagement_score_models_updated_at();
+
+-- =============================================================================
+-- Scoring Models
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.engagement_score_models (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    principal_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+    -- Component weights in percent; they total 100
+    interaction_weight NUMERIC(5,2) NOT NULL DEFAULT 30 CHECK (interaction_weight >= 0),
+    opportunity_weight NUMERIC(5,2) NOT NULL DEFAULT 40 CHECK (opportunity_weight >= 0),
+    product_weight NUMERIC(5,2) NOT NULL DEFAULT 20 CHECK (product_weight >= 0),
+    recency_weight NUMERIC(5,2) NOT NULL DEFAULT 10 CHECK (recency_weight >= 0),
+
+    -- Signal counts that earn a full component score
+    interaction_target NUMERIC(8,2) NOT NULL DEFAULT 50 CHECK (interaction_target > 0),
+    opportunity_target NUMERIC(8,2) NOT NULL DEFAULT 10 CHECK (opportunity_target > 0),
+    product_target NUMERIC(8,2) NOT NULL DEFAULT 5 CHECK (product_target > 0),
+    recency_window_days INTEGER NOT NULL DEFAULT 100 CHECK (recency_window_days > 0),
+
+    -- An interaction counts half after this many days; NULL means no decay
+    half_life_days INTEGER CHECK (half_life_days IS NULL OR half_life_days > 0),
+    counted_outcomes interaction_outcome[] NOT NULL
+        DEFAULT ARRAY['POSITIVE', 'NEUTRAL', 'NEGATIVE', 'NEEDS_FOLLOW_UP']::interaction_outcome[],
+    count_without_outcome BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Multipliers by interaction type, e.g. {"Event": 3}; unlisted types count 1
+    type_weights JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(type_weights) = 'object'),
+
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT engagement_score_models_weights_total CHECK (
+        interaction_weight + opportunity_weight + product_weight + recency_weight = 100
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_engagement_score_models_principal
+ON public.engagement_score_models(principal_id) WHERE principal_id IS NOT NULL;
+
+-- One default model
+CREATE UNIQUE INDEX IF NOT EXISTS idx_engagement_score_models_default
+ON public.engagement_score_models((principal_id IS NULL)) WHERE principal_id IS NULL;
+
+COMMENT ON TABLE public.engagement_score_models IS 'Engagement scoring settings; the row without a principal is the default';
+COMMENT ON COLUMN public.engagement_score_models.half_life_days IS 'Days after which an interaction counts half; NULL for no decay';
+COMMENT ON COLUMN public.engagement_score_models.type_weights IS 'Multiplier per interaction type; unlisted types count 1';
+
+CREATE OR REPLACE FUNCTION update_engagement_score_models_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    NEW.updated_by = auth.uid();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS engagement_score_models_updated_at_trigger ON public.engagement_score_models;
+
+CREATE TRIGGER engagement_score_models_updated_at_trigger
+    BEFORE UPDATE ON public.engagement_score_models
+    FOR EACH ROW EXECUTE FUNCTION update_engagement_score_models_updated_at();
+
+ALTER TABLE public.engagement_score_models ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view engagement score models" ON public.engagement_score_models;
+CREATE POLICY "Users can view engagement score models"
+ON public.engagement_score_models FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Managers can create engagement score models" ON public.engagement_score_models;
+CREATE POLICY "Managers can create engagement score models"
+ON public.engagement_score_models FOR INSERT
+TO authenticated
+WITH CHECK (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+DROP POLICY IF EXISTS "Managers can update engagement score models" ON public.engagement_score_models;
+CREATE POLICY "Managers can update engagement score models"
+ON public.engagement_score_models FOR UPDATE
+TO authenticated
+USING (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+-- The default model can be edited but not removed
+DROP POLICY IF EXISTS "Managers can delete principal engagement score models" ON public.engagement_score_models;
+CREATE POLICY "Managers can delete principal engagement score models"
+ON public.engagement_score_models FOR DELETE
+TO authenticated
+USING (principal_id IS NOT NULL AND has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.engagement_score_models TO authenticated;
+
+INSERT INTO public.engagement_score_models (principal_id, updated_by)
+SELECT NULL, NULL
+WHERE NOT EXISTS (SELECT 1 FROM public.engagement_score_models WHERE principal_id IS NULL);
+
+DROP TRIGGER IF EXISTS trigger_principal_activity_refresh_engagement_models ON public.engagement_score_models;
+
+CREATE TRIGGER trigger_principal_activity_refresh_engagement_models
+    AFTER INSERT OR UPDATE OR DELETE ON public.engagement_score_models
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.schedule_principal_activity_refresh();
+
+-- =============================================================================
+-- Score History
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.principal_engagement_scores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    principal_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    score_date DATE NOT NULL,
+    score NUMERIC(5,1) NOT NULL,
+    interaction_score NUMERIC(5,1) NOT NULL,
+    opportunity_score NUMERIC(5,1) NOT NULL,
+    product_score NUMERIC(5,1) NOT NULL,
+    recency_score NUMERIC(5,1) NOT NULL,
+    model_id UUID REFERENCES public.engagement_score_models(id) ON DELETE SET NULL,
+    computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT principal_engagement_scores_daily UNIQUE (principal_id, score_date)
+);
+
+COMMENT ON TABLE public.principal_engagement_scores IS 'Daily engagement score per principal with its components';
+
+ALTER TABLE public.principal_engagement_scores ENABLE ROW LEVEL SECURITY;
+
+-- Written by record_principal_engagement_scores() only
+DROP POLICY IF EXISTS "Users can view principal engagement scores" ON public.principal_engagement_scores;
+CREATE POLICY "Users can view principal engagement scores"
+ON public.principal_engagement_scores FOR SELECT
+TO authenticated
+USING (TRUE);
+
+GRANT SELECT ON public.principal_engagement_scores TO authenticated;
+
+-- =============================================================================
+-- Scoring Functions
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.compute_principal_engagement_score(
+    p_principal_id UUID,
+    p_model JSONB DEFAULT NULL,
+    p_as_of TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+    score NUMERIC,
+    interaction_score NUMERIC,
+    opportunity_score NUMERIC,
+    product_score NUMERIC,
+    recency_score NUMERIC,
+    model_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_model public.engagement_score_models%ROWTYPE;
+    v_interactions NUMERIC;
+    v_last_interaction TIMESTAMPTZ;
+    v_opportunities NUMERIC;
+    v_products INTEGER;
+    v_interaction_score NUMERIC;
+    v_opportunity_score NUMERIC;
+    v_product_score NUMERIC;
+    v_recency_score NUMERIC;
+BEGIN
+    SELECT m.* INTO v_model
+    FROM public.engagement_score_models m
+    WHERE m.principal_id = p_principal_id OR m.principal_id IS NULL
+    ORDER BY m.principal_id NULLS LAST
+    LIMIT 1;
+
+    -- Unsaved settings from the model editor preview
+    IF p_model IS NOT NULL THEN
+        v_model := jsonb_populate_record(v_model, p_model);
+    END IF;
+
+    -- Interactions on the principal's opportunities, by contribution share,
+    -- type weight and age
+    SELECT
+        COALESCE(SUM(
+            op.contribution_percent / 100.0
+            * COALESCE((v_model.type_weights ->> i.type::text)::NUMERIC, 1)
+            * CASE
+                WHEN v_model.half_life_days IS NULL THEN 1
+                ELSE POWER(0.5, GREATEST(0, EXTRACT(EPOCH FROM (p_as_of - i.interaction_date)) / 86400.0) / v_model.half_life_days)
+              END
+        ), 0),
+        MAX(i.interaction_date)
+    INTO v_interactions, v_last_interaction
+    FROM public.opportunity_principals op
+    JOIN public.opportunities opp ON opp.id = op.opportunity_id
+        AND opp.deleted_at IS NULL
+    JOIN public.interactions i ON i.opportunity_id = opp.id
+        AND i.deleted_at IS NULL
+    WHERE op.principal_id = p_principal_id
+      AND i.interaction_date <= p_as_of
+      AND (
+          i.outcome = ANY (v_model.counted_outcomes)
+          OR (i.outcome IS NULL AND v_model.count_without_outcome)
+      );
+
+    -- Open opportunities, a shared opportunity counting by its share
+    SELECT COALESCE(SUM(op.contribution_percent / 100.0), 0)
+    INTO v_opportunities
+    FROM public.opportunity_principals op
+    JOIN public.opportunities opp ON opp.id = op.opportunity_id
+        AND opp.deleted_at IS NULL
+    WHERE op.principal_id = p_principal_id
+      AND opp.created_at <= p_as_of
+      AND opp.stage NOT IN ('Closed - Won', 'Closed - Lost');
+
+    SELECT COUNT(DISTINCT pp.product_id)
+    INTO v_products
+    FROM public.product_principals pp
+    JOIN public.products p ON p.id = pp.product_id
+        AND p.deleted_at IS NULL
+        AND p.is_active = TRUE
+    WHERE pp.principal_id = p_principal_id
+      AND pp.is_active = TRUE;
+
+    v_interaction_score := LEAST(100, v_interactions * 100.0 / v_model.interaction_target);
+    v_opportunity_score := LEAST(100, v_opportunities * 100.0 / v_model.opportunity_target);
+    v_product_score := LEAST(100, v_products * 100.0 / v_model.product_target);
+    v_recency_score := CASE
+        WHEN v_last_interaction IS NULL THEN 0
+        ELSE GREATEST(0, 100 - (EXTRACT(EPOCH FROM (p_as_of - v_last_interaction)) / 86400.0) * 100.0 / v_model.recency_window_days)
+    END;
+
+    RETURN QUERY SELECT
+        ROUND(LEAST(100, GREATEST(0, (
+            v_interaction_score * v_model.interaction_weight +
+            v_opportunity_score * v_model.opportunity_weight +
+            v_product_score * v_model.product_weight +
+            v_recency_score * v_model.recency_weight
+        ) / 100.0)), 1),
+        ROUND(v_interaction_score, 1),
+        ROUND(v_opportunity_score, 1),
+        ROUND(v_product_score, 1),
+        ROUND(v_recency_score, 1),
+        v_model.id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.compute_principal_engagement_score(UUID, JSONB, TIMESTAMPTZ) IS
+'Engagement score (0-100) and its components from the principal''s model, or from p_model settings when previewing; counts every opportunity regardless of the caller''s access';
+
+GRANT EXECUTE ON FUNCTION public.compute_principal_engagement_score(UUID, JSONB, TIMESTAMPTZ) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_principal_engagement_scores(
+    p_principal_id UUID DEFAULT NULL,
+    p_score_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    -- Requests from the app; scheduled jobs and migrations run without a user
+    IF auth.uid() IS NOT NULL THEN
+        IF NOT has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]) THEN
+            RAISE EXCEPTION 'Only principal managers and admins can record engagement scores'
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+
+        IF p_score_date <> CURRENT_DATE THEN
+            RAISE EXCEPTION 'Only today''s engagement score can be recorded'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+    END IF;
+
+    INSERT INTO public.principal_engagement_scores (
+        principal_id, score_date, score, interaction_score, opportunity_score,
+        product_score, recency_score, model_id, computed_at
+    )
+    SELECT
+        org.id, p_score_date, s.score, s.interaction_score, s.opportunity_score,
+        s.product_score, s.recency_score, s.model_id, NOW()
+    FROM public.organizations org
+    CROSS JOIN LATERAL public.compute_principal_engagement_score(
+        org.id,
+        NULL,
+        LEAST(NOW(), (p_score_date + 1)::TIMESTAMPTZ)
+    ) s
+    WHERE org.is_principal = TRUE
+      AND org.deleted_at IS NULL
+      AND (p_principal_id IS NULL OR org.id = p_principal_id)
+    ON CONFLICT (principal_id, score_date) DO UPDATE SET
+        score = EXCLUDED.score,
+        interaction_score = EXCLUDED.interaction_score,
+        opportunity_score = EXCLUDED.opportunity_score,
+        product_score = EXCLUDED.product_score,
+        recency_score = EXCLUDED.recency_score,
+        model_id = EXCLUDED.model_id,
+        computed_at = EXCLUDED.computed_at;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.record_principal_engagement_scores(UUID, DATE) IS
+'Record the day''s engagement score for one principal, or all when p_principal_id is NULL. Signed-in callers must be principal managers or admins and can only record today';
+
+GRANT EXECUTE ON FUNCTION public.record_principal_engagement_scores(UUID, DATE) TO authenticated;
+
+-- Record scores whenever the summary is refreshed
+CREATE OR REPLACE FUNCTION public.refresh_principal_activity_summary()
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Refresh the materialized view concurrently to avoid blocking
+    REFRESH MATERIALIZED VIEW CONCURRENTLY public.principal_activity_summary;
+
+    PERFORM public.record_principal_engagement_scores();
+
+    -- Log the refresh for monitoring
+    INSERT INTO public.system_logs (
+        log_level,
+        message,
+        context,
+        created_at
+    ) VALUES (
+        'INFO',
+        'Principal Activity Summary materialized view refreshed',
+        jsonb_build_object(
+            'view_name', 'principal_activity_summary',
+            'refresh_type', 'manual',
+            'refreshed_at', NOW()
+        ),
+        NOW()
+    ) ON CONFLICT DO NOTHING; -- Ignore if system_logs table doesn't exist
+
+EXCEPTION
+    WHEN OTHERS THEN
+        -- Log errors but don't fail
+        RAISE WARNING 'Failed to refresh principal_activity_summary: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- Principal Activity Summary (model engagement scores)
+-- =============================================================================
+
+DROP MATERIALIZED VIEW IF EXISTS public.principal_activity_summary CASCADE;
+
+CREATE MATERIALIZED VIEW public.principal_activity_summary AS
+SELECT
+    -- Principal identification
+    org.id AS principal_id,
+    org.name AS principal_name,
+    org.status AS principal_status,
+    org.type AS organization_type,
+    org.industry,
+    org.size AS organization_size,
+    (org.deleted_at IS NULL) AS is_active,
+    org.lead_score,
+
+    -- Contact metrics
+    COALESCE(contact_stats.contact_count, 0) AS contact_count,
+    COALESCE(contact_stats.active_contacts, 0) AS active_contacts,
+    contact_stats.primary_contact_name,
+    contact_stats.primary_contact_email,
+    contact_stats.last_contact_update,
+
+    -- Interaction metrics
+    COALESCE(interaction_stats.total_interactions, 0) AS total_interactions,
+    COALESCE(interaction_stats.interactions_last_30_days, 0) AS interactions_last_30_days,
+    COALESCE(interaction_stats.interactions_last_90_days, 0) AS interactions_last_90_days,
+    interaction_stats.last_interaction_date,
+    interaction_stats.last_interaction_type,
+    interaction_stats.next_follow_up_date,
+    COALESCE(interaction_stats.avg_interaction_rating, 0) AS avg_interaction_rating,
+    COALESCE(interaction_stats.positive_interactions, 0) AS positive_interactions,
+    COALESCE(interaction_stats.follow_ups_required, 0) AS follow_ups_required,
+
+    -- Opportunity metrics (every opportunity the principal is on)
+    COALESCE(opportunity_stats.total_opportunities, 0) AS total_opportunities,
+    COALESCE(opportunity_stats.active_opportunities, 0) AS active_opportunities,
+    COALESCE(opportunity_stats.won_opportunities, 0) AS won_opportunities,
+    COALESCE(opportunity_stats.opportunities_last_30_days, 0) AS opportunities_last_30_days,
+    opportunity_stats.latest_opportunity_stage,
+    opportunity_stats.latest_opportunity_date,
+    COALESCE(opportunity_stats.avg_probability_percent, 0) AS avg_probability_percent,
+    opportunity_stats.highest_value_opportunity,
+
+    -- Shared opportunity metrics (weighted by contribution)
+    COALESCE(opportunity_stats.shared_opportunities, 0) AS shared_opportunities,
+    COALESCE(opportunity_stats.weighted_active_opportunities, 0) AS weighted_active_opportunities,
+    COALESCE(opportunity_stats.weighted_pipeline_value, 0) AS weighted_pipeline_value,
+    COALESCE(opportunity_stats.weighted_won_value, 0) AS weighted_won_value,
+
+    -- Product association metrics
+    COALESCE(product_stats.product_count, 0) AS product_count,
+    COALESCE(product_stats.active_product_count, 0) AS active_product_count,
+    product_stats.product_categories,
+    product_stats.primary_product_category,
+
+    -- Business relationship context
+    org.is_principal,
+    org.is_distributor,
+    org.distributor_id,
+    distributor.name AS distributor_name,
+
+    -- Activity timeline
+    COALESCE(
+        GREATEST(
+            contact_stats.last_contact_update,
+            interaction_stats.last_interaction_date,
+            opportunity_stats.latest_opportunity_date
+        ),
+        org.updated_at
+    ) AS last_activity_date,
+
+    -- Performance indicators
+    CASE
+        WHEN interaction_stats.last_interaction_date IS NULL THEN 'NO_ACTIVITY'
+        WHEN interaction_stats.last_interaction_date < NOW() - INTERVAL '30 days' THEN 'STALE'
+        WHEN interaction_stats.last_interaction_date < NOW() - INTERVAL '7 days' THEN 'MODERATE'
+        ELSE 'ACTIVE'
+    END AS activity_status,
+
+    -- Engagement score (0-100) from the principal's scoring model
+    COALESCE(engagement.score, 0) AS engagement_score,
+
+    -- Metadata
+    org.created_at AS principal_created_at,
+    org.updated_at AS principal_updated_at,
+    NOW() AS summary_generated_at
+
+FROM public.organizations org
+
+-- Contact aggregations
+LEFT JOIN (
+    SELECT
+        c.organization_id,
+        COUNT(*) AS contact_count,
+        COUNT(*) FILTER (WHERE c.updated_at > NOW() - INTERVAL '90 days') AS active_contacts,
+        (
+            SELECT c2.first_name || ' ' || c2.last_name
+            FROM public.contacts c2
+            WHERE c2.organization_id = c.organization_id
+            ORDER BY c2.updated_at DESC
+            LIMIT 1
+        ) AS primary_contact_name,
+        (
+            SELECT c2.email
+            FROM public.contacts c2
+            WHERE c2.organization_id = c.organization_id
+            ORDER BY c2.updated_at DESC
+            LIMIT 1
+        ) AS primary_contact_email,
+        MAX(c.updated_at) AS last_contact_update
+    FROM public.contacts c
+    GROUP BY c.organization_id
+) contact_stats ON contact_stats.organization_id = org.id
+
+-- Interaction aggregations (via every opportunity the principal is on)
+LEFT JOIN (
+    SELECT
+        op.principal_id,
+        COUNT(i.*) AS total_interactions,
+        COUNT(i.*) FILTER (WHERE i.interaction_date > NOW() - INTERVAL '30 days') AS interactions_last_30_days,
+        COUNT(i.*) FILTER (WHERE i.interaction_date > NOW() - INTERVAL '90 days') AS interactions_last_90_days,
+        MAX(i.interaction_date) AS last_interaction_date,
+        (
+            SELECT i2.type::text
+            FROM public.interactions i2
+            JOIN public.opportunity_principals op2 ON op2.opportunity_id = i2.opportunity_id
+            WHERE op2.principal_id = op.principal_id
+              AND i2.deleted_at IS NULL
+            ORDER BY i2.interaction_date DESC
+            LIMIT 1
+        ) AS last_interaction_type,
+        MIN(i.follow_up_date) FILTER (WHERE i.follow_up_date > NOW() AND i.follow_up_required = TRUE) AS next_follow_up_date,
+        AVG(i.rating) FILTER (WHERE i.rating IS NOT NULL) AS avg_interaction_rating,
+        COUNT(i.*) FILTER (WHERE i.outcome = 'POSITIVE') AS positive_interactions,
+        COUNT(i.*) FILTER (WHERE i.follow_up_required = TRUE AND i.follow_up_date > NOW()) AS follow_ups_required
+    FROM public.opportunity_principals op
+    JOIN public.opportunities opp ON opp.id = op.opportunity_id
+        AND opp.deleted_at IS NULL
+    LEFT JOIN public.interactions i ON i.opportunity_id = opp.id
+        AND i.deleted_at IS NULL
+    GROUP BY op.principal_id
+) interaction_stats ON interaction_stats.principal_id = org.id
+
+-- Opportunity aggregations
+LEFT JOIN (
+    SELECT
+        op.principal_id,
+        COUNT(*) AS total_opportunities,
+        COUNT(*) FILTER (WHERE opp.stage NOT IN ('Closed - Won', 'Closed - Lost')) AS active_opportunities,
+        COUNT(*) FILTER (WHERE opp.is_won = TRUE) AS won_opportunities,
+        COUNT(*) FILTER (WHERE opp.created_at > NOW() - INTERVAL '30 days') AS opportunities_last_30_days,
+        (
+            SELECT opp2.stage::text
+            FROM public.opportunity_principals op2
+            JOIN public.opportunities opp2 ON opp2.id = op2.opportunity_id
+            WHERE op2.principal_id = op.principal_id
+              AND opp2.deleted_at IS NULL
+            ORDER BY opp2.updated_at DESC
+            LIMIT 1
+        ) AS latest_opportunity_stage,
+        MAX(opp.created_at) AS latest_opportunity_date,
+        AVG(opp.probability_percent) FILTER (WHERE opp.probability_percent IS NOT NULL) AS avg_probability_percent,
+        (
+            SELECT opp2.name
+            FROM public.opportunity_principals op2
+            JOIN public.opportunities opp2 ON opp2.id = op2.opportunity_id
+            WHERE op2.principal_id = op.principal_id
+              AND opp2.deleted_at IS NULL
+            ORDER BY COALESCE(opp2.estimated_value, 0) * op2.contribution_percent DESC
+            LIMIT 1
+        ) AS highest_value_opportunity,
+        COUNT(*) FILTER (WHERE shares.principal_count > 1) AS shared_opportunities,
+        ROUND(SUM(op.contribution_percent / 100.0) FILTER (
+            WHERE opp.stage NOT IN ('Closed - Won', 'Closed - Lost')
+        ), 2) AS weighted_active_opportunities,
+        ROUND(SUM(COALESCE(opp.estimated_value, 0) * op.contribution_percent / 100.0) FILTER (
+            WHERE opp.stage NOT IN ('Closed - Won', 'Closed - Lost')
+        ), 2) AS weighted_pipeline_value,
+        ROUND(SUM(COALESCE(opp.actual_value, opp.estimated_value, 0) * op.contribution_percent / 100.0) FILTER (
+            WHERE opp.is_won = TRUE
+        ), 2) AS weighted_won_value
+    FROM public.opportunity_principals op
+    JOIN public.opportunities opp ON opp.id = op.opportunity_id
+        AND opp.deleted_at IS NULL
+    JOIN (
+        SELECT opportunity_id, COUNT(*) AS principal_count
+        FROM public.opportunity_principals
+        GROUP BY opportunity_id
+    ) shares ON shares.opportunity_id = op.opportunity_id
+    GROUP BY op.principal_id
+) opportunity_stats ON opportunity_stats.principal_id = org.id
+
+-- Product association aggregations
+LEFT JOIN (
+    SELECT
+        pp.principal_id,
+        COUNT(DISTINCT pp.product_id) AS product_count,
+        COUNT(DISTINCT pp.product_id) FILTER (WHERE p.is_active = TRUE) AS active_product_count,
+        ARRAY_AGG(DISTINCT p.category) FILTER (WHERE p.category IS NOT NULL) AS product_categories,
+        MODE() WITHIN GROUP (ORDER BY p.category) AS primary_product_category
+    FROM public.product_principals pp
+    JOIN public.products p ON p.id = pp.product_id
+        AND p.deleted_at IS NULL
+    WHERE pp.is_active = TRUE
+    GROUP BY pp.principal_id
+) product_stats ON product_stats.principal_id = org.id
+
+-- Distributor relationship
+LEFT JOIN public.organizations distributor ON distributor.id = org.distributor_id
+    AND distributor.deleted_at IS NULL
+
+-- Engagement score from the principal's model
+LEFT JOIN LATERAL public.compute_principal_engagement_score(org.id) engagement ON TRUE
+
+WHERE org.is_principal = TRUE
+  AND org.deleted_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_principal_activity_summary_principal_id
+ON public.principal_activity_summary (principal_id);
+
+CREATE INDEX IF NOT EXISTS idx_principal_activity_summary_status_engagement
+ON public.principal_activity_summary (activity_status, engagement_score DESC, last_activity_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_principal_activity_summary_distributor
+ON public.principal_activity_summary (distributor_id, distributor_name)
+WHERE distributor_id IS NOT NULL;
+
+GRANT SELECT ON public.principal_activity_summary TO authenticated;
+
+COMMENT ON MATERIALIZED VIEW public.principal_activity_summary IS
+'Comprehensive materialized view combining principal organization data with contact, interaction, opportunity (including shared, contribution-weighted) and product metrics and model-based engagement scores for high-performance analytics';
+
+-- =============================================================================
+-- Backfill Score History
+-- =============================================================================
+
+-- Interactions and opportunities are dated, so past scores can be rebuilt;
+-- product counts use today's catalogue
+SELECT public.record_principal_engagement_scores(NULL, day::DATE)
+FROM generate_series(CURRENT_DATE - 90, CURRENT_DATE - 1, INTERVAL '1 day') AS day;
+
+SELECT public.refresh_principal_activity_summary();
@@ -0,0 +1,389 @@
+-- =============================================================================
+-- Distributor Relationships
+-- =============================================================================
+-- A principal's products reach operators through several distributors, so
+-- the single organizations.distributor_id link is replaced by:
+-- - principal_distributors: each distributor carrying a principal, with its
+--   authorization status and dates
+-- - distributor_products: the distributor's own item code for a product
+-- - customer_distributors: the distributors an operator buys through
+-- - principal_distribution_chains: principal -> distributor -> operator rows
+-- principal_distributor_relationships now lists one row per distributor.
+-- Existing organizations.distributor_id links are backfilled as authorized
+-- relationships; the column is kept for older reports.
+--
+-- Note: principal_distributor_relationships is dropped with CASCADE. Re-apply
+-- principal_distributor_relationships_secure from SECURITY_REMEDIATION_PLAN.sql
+-- if it is in use.
+--
+-- Migration: 56_distributor_relationships.sql
+-- Applied: Principals - Distributor Network
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP VIEW IF EXISTS public.principal_distribution_chains;
+-- 2. Re-run the principal_distributor_relationships view from 36_principal_activity_schema.sql
+--    (DROP VIEW first, the column list changes)
+-- 3. DROP TABLE IF EXISTS public.customer_distributors;
+-- 4. DROP TABLE IF EXISTS public.distributor_products;
+-- 5. DROP TABLE IF EXISTS public.principal_distributors;
+-- 6. DROP FUNCTION IF EXISTS guard_distributor_link_roles();
+-- 7. DROP FUNCTION IF EXISTS update_distributor_links_updated_at();
+
+-- =============================================================================
+-- Shared Trigger Functions
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_distributor_links_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Links must point at a distributor organization, and principal links at a
+-- principal; operators cannot be principals or distributors themselves
+CREATE OR REPLACE FUNCTION guard_distributor_link_roles()
+RETURNS TRIGGER AS $$
+DECLARE
+    link_data JSONB := to_jsonb(NEW);
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.organizations
+        WHERE id = NEW.distributor_id AND is_distributor = TRUE AND deleted_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'Organization is not a distributor'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF link_data ? 'principal_id' AND NOT EXISTS (
+        SELECT 1 FROM public.organizations
+        WHERE id = (link_data ->> 'principal_id')::UUID AND is_principal = TRUE AND deleted_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'Organization is not a principal'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF link_data ? 'customer_id' AND EXISTS (
+        SELECT 1 FROM public.organizations
+        WHERE id = (link_data ->> 'customer_id')::UUID
+          AND (is_principal = TRUE OR is_distributor = TRUE)
+    ) THEN
+        RAISE EXCEPTION 'Principals and distributors cannot buy through a distributor'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- Principal Distributors
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.principal_distributors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    principal_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    distributor_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'PENDING'
+        CHECK (status IN ('PROSPECT', 'PENDING', 'AUTHORIZED', 'SUSPENDED', 'ENDED')),
+    authorized_on DATE,
+    ended_on DATE,
+    territory_notes TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT principal_distributors_unique UNIQUE (principal_id, distributor_id),
+    CONSTRAINT principal_distributors_not_self CHECK (principal_id <> distributor_id),
+    CONSTRAINT principal_distributors_dates CHECK (
+        ended_on IS NULL OR authorized_on IS NULL OR ended_on >= authorized_on
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_principal_distributors_distributor
+ON public.principal_distributors(distributor_id);
+
+COMMENT ON TABLE public.principal_distributors IS 'Distributors carrying a principal''s products, with authorization status and dates';
+COMMENT ON COLUMN public.principal_distributors.authorized_on IS 'Date the distributor authorized the principal''s line';
+
+DROP TRIGGER IF EXISTS principal_distributors_updated_at_trigger ON public.principal_distributors;
+CREATE TRIGGER principal_distributors_updated_at_trigger
+    BEFORE UPDATE ON public.principal_distributors
+    FOR EACH ROW EXECUTE FUNCTION update_distributor_links_updated_at();
+
+DROP TRIGGER IF EXISTS principal_distributors_roles_trigger ON public.principal_distributors;
+CREATE TRIGGER principal_distributors_roles_trigger
+    BEFORE INSERT OR UPDATE OF principal_id, distributor_id ON public.principal_distributors
+    FOR EACH ROW EXECUTE FUNCTION guard_distributor_link_roles();
+
+ALTER TABLE public.principal_distributors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view principal distributors" ON public.principal_distributors;
+CREATE POLICY "Users can view principal distributors"
+ON public.principal_distributors FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Principal managers can manage principal distributors" ON public.principal_distributors;
+CREATE POLICY "Principal managers can manage principal distributors"
+ON public.principal_distributors FOR ALL
+TO authenticated
+USING (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.principal_distributors TO authenticated;
+
+INSERT INTO public.principal_distributors (principal_id, distributor_id, status, authorized_on, created_by)
+SELECT p.id, p.distributor_id, 'AUTHORIZED', p.created_at::DATE, NULL
+FROM public.organizations p
+JOIN public.organizations d ON d.id = p.distributor_id
+    AND d.is_distributor = TRUE
+    AND d.deleted_at IS NULL
+WHERE p.is_principal = TRUE
+  AND p.deleted_at IS NULL
+ON CONFLICT (principal_id, distributor_id) DO NOTHING;
+
+-- =============================================================================
+-- Distributor Item Codes
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.distributor_products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    distributor_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    distributor_sku TEXT NOT NULL CHECK (length(trim(distributor_sku)) > 0),
+    pack_description TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT distributor_products_unique UNIQUE (distributor_id, product_id)
+);
+
+-- An item code identifies one product within a distributor's catalogue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_distributor_products_sku
+ON public.distributor_products(distributor_id, lower(distributor_sku));
+
+CREATE INDEX IF NOT EXISTS idx_distributor_products_product
+ON public.distributor_products(product_id);
+
+COMMENT ON TABLE public.distributor_products IS 'Distributor item codes for products';
+
+DROP TRIGGER IF EXISTS distributor_products_updated_at_trigger ON public.distributor_products;
+CREATE TRIGGER distributor_products_updated_at_trigger
+    BEFORE UPDATE ON public.distributor_products
+    FOR EACH ROW EXECUTE FUNCTION update_distributor_links_updated_at();
+
+DROP TRIGGER IF EXISTS distributor_products_roles_trigger ON public.distributor_products;
+CREATE TRIGGER distributor_products_roles_trigger
+    BEFORE INSERT OR UPDATE OF distributor_id ON public.distributor_products
+    FOR EACH ROW EXECUTE FUNCTION guard_distributor_link_roles();
+
+ALTER TABLE public.distributor_products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view distributor products" ON public.distributor_products;
+CREATE POLICY "Users can view distributor products"
+ON public.distributor_products FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Principal managers can manage distributor products" ON public.distributor_products;
+CREATE POLICY "Principal managers can manage distributor products"
+ON public.distributor_products FOR ALL
+TO authenticated
+USING (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]))
+WITH CHECK (has_crm_role(ARRAY['principal_manager', 'admin']::user_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.distributor_products TO authenticated;
+
+-- =============================================================================
+-- Customer Distributors ("buys through")
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.customer_distributors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    distributor_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+    account_number TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT customer_distributors_unique UNIQUE (customer_id, distributor_id),
+    CONSTRAINT customer_distributors_not_self CHECK (customer_id <> distributor_id)
+);
+
+-- One primary distributor per operator
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_distributors_primary
+ON public.customer_distributors(customer_id) WHERE is_primary = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_customer_distributors_distributor
+ON public.customer_distributors(distributor_id);
+
+COMMENT ON TABLE public.customer_distributors IS 'Distributors an operator buys through';
+
+DROP TRIGGER IF EXISTS customer_distributors_updated_at_trigger ON public.customer_distributors;
+CREATE TRIGGER customer_distributors_updated_at_trigger
+    BEFORE UPDATE ON public.customer_distributors
+    FOR EACH ROW EXECUTE FUNCTION update_distributor_links_updated_at();
+
+DROP TRIGGER IF EXISTS customer_distributors_roles_trigger ON public.customer_distributors;
+CREATE TRIGGER customer_distributors_roles_trigger
+    BEFORE INSERT OR UPDATE OF customer_id, distributor_id ON public.customer_distributors
+    FOR EACH ROW EXECUTE FUNCTION guard_distributor_link_roles();
+
+ALTER TABLE public.customer_distributors ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the operator can record where it buys
+DROP POLICY IF EXISTS "Users can view customer distributors" ON public.customer_distributors;
+CREATE POLICY "Users can view customer distributors"
+ON public.customer_distributors FOR SELECT
+TO authenticated
+USING (can_access_organization(customer_id));
+
+DROP POLICY IF EXISTS "Users can manage customer distributors" ON public.customer_distributors;
+CREATE POLICY "Users can manage customer distributors"
+ON public.customer_distributors FOR ALL
+TO authenticated
+USING (can_access_organization(customer_id))
+WITH CHECK (can_access_organization(customer_id));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.customer_distributors TO authenticated;
+
+-- =============================================================================
+-- Principal Distributor Relationships (one row per distributor)
+-- =============================================================================
+
+DROP VIEW IF EXISTS public.principal_distributor_relationships CASCADE;
+
+CREATE VIEW public.principal_distributor_relationships
+WITH (security_invoker = true) AS
+SELECT
+    p.id AS principal_id,
+    p.name AS principal_name,
+    p.status AS principal_status,
+    d.id AS distributor_id,
+    d.name AS distributor_name,
+    d.status AS distributor_status,
+
+    CASE
+        WHEN pd.id IS NOT NULL THEN 'HAS_DISTRIBUTOR'
+        ELSE 'DIRECT'
+    END AS relationship_type,
+
+    -- Geographic and business context
+    p.city AS principal_city,
+    p.state_province AS principal_state,
+    p.country AS principal_country,
+    d.city AS distributor_city,
+    d.state_province AS distributor_state,
+    d.country AS distributor_country,
+
+    -- Performance context
+    p.lead_score AS principal_lead_score,
+    d.lead_score AS distributor_lead_score,
+
+    -- Temporal context
+    p.created_at AS principal_created_at,
+    p.last_contact_date AS principal_last_contact,
+    d.last_contact_date AS distributor_last_contact,
+
+    -- Relationship details
+    pd.id AS relationship_id,
+    pd.status AS relationship_status,
+    pd.authorized_on,
+    pd.ended_on,
+    pd.territory_notes,
+    pd.notes AS relationship_notes,
+    COALESCE(codes.item_code_count, 0) AS item_code_count,
+    COALESCE(buyers.customer_count, 0) AS customer_count
+
+FROM public.organizations p
+LEFT JOIN (
+    public.principal_distributors pd
+    JOIN public.organizations d ON d.id = pd.distributor_id
+        AND d.deleted_at IS NULL
+) ON pd.principal_id = p.id
+
+-- Item codes the distributor holds for the principal's products
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS item_code_count
+    FROM public.distributor_products dp
+    JOIN public.product_principals pp ON pp.product_id = dp.product_id
+        AND pp.principal_id = p.id
+        AND pp.is_active = TRUE
+    WHERE dp.distributor_id = pd.distributor_id
+) codes ON TRUE
+
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS customer_count
+    FROM public.customer_distributors cd
+    JOIN public.organizations c ON c.id = cd.customer_id
+        AND c.deleted_at IS NULL
+    WHERE cd.distributor_id = pd.distributor_id
+) buyers ON TRUE
+
+WHERE p.is_principal = TRUE
+  AND p.deleted_at IS NULL;
+
+COMMENT ON VIEW public.principal_distributor_relationships IS
+'One row per distributor carrying each principal, or a DIRECT row for principals without distributors';
+
+GRANT SELECT ON public.principal_distributor_relationships TO authenticated;
+
+-- =============================================================================
+-- Distribution Chains
+-- =============================================================================
+
+-- security_invoker so organization and customer link RLS still apply
+CREATE OR REPLACE VIEW public.principal_distribution_chains
+WITH (security_invoker = true) AS
+SELECT
+    pd.id AS relationship_id,
+    pd.principal_id,
+    p.name AS principal_name,
+    pd.distributor_id,
+    d.name AS distributor_name,
+    d.city AS distributor_city,
+    d.state_province AS distributor_state,
+    pd.status AS relationship_status,
+    pd.authorized_on,
+    cd.customer_id,
+    c.name AS customer_name,
+    c.city AS customer_city,
+    c.state_province AS customer_state,
+    cd.is_primary AS is_primary_distributor,
+    cd.account_number,
+    -- Whether the operator already has an opportunity with the principal
+    EXISTS (
+        SELECT 1
+        FROM public.opportunity_principals op
+        JOIN public.opportunities opp ON opp.id = op.opportunity_id
+            AND opp.deleted_at IS NULL
+        WHERE op.principal_id = pd.principal_id
+          AND opp.organization_id = cd.customer_id
+    ) AS has_principal_opportunity
+FROM public.principal_distributors pd
+JOIN public.organizations p ON p.id = pd.principal_id
+    AND p.deleted_at IS NULL
+JOIN public.organizations d ON d.id = pd.distributor_id
+    AND d.deleted_at IS NULL
+LEFT JOIN public.customer_distributors cd ON cd.distributor_id = pd.distributor_id
+    AND EXISTS (
+        SELECT 1 FROM public.organizations c2
+        WHERE c2.id = cd.customer_id AND c2.deleted_at IS NULL
+    )
+LEFT JOIN public.organizations c ON c.id = cd.customer_id;
+
+COMMENT ON VIEW public.principal_distribution_chains IS
+'Principal -> distributor -> operator rows; distributors without operators have NULL customer columns';
+
+GRANT SELECT ON public.principal_distribution_chains TO authenticated;
@@ -0,0 +1,183 @@
+-- =============================================================================
+-- Distributor Item Authorizations
+-- =============================================================================
+-- Tracks whether a distributor has put a product "in the book". Each
+-- distributor_products row becomes the product's authorization record at that
+-- distributor:
+-- - authorization_status: REQUESTED, PENDING, AUTHORIZED or DISCONTINUED
+-- - requested_on / authorized_on / discontinued_on dates
+-- - evidence_document_id: the distributor document confirming the listing
+-- The distributor item number is only known once the item is authorized, so
+-- distributor_sku becomes optional until then. Existing item codes are
+-- backfilled as authorized on the day they were recorded.
+--
+-- Opportunities can wait for an authorization: advance_on_authorization_to
+-- holds the stage to move to once the product is authorized at a distributor
+-- the opportunity's organization buys through.
+--
+-- Migration: 57_distributor_item_authorizations.sql
+-- Applied: Products - Distributor Authorization Tracking
+-- Confidence: 95%
+-- =============================================================================
+
+-- ROLLBACK INSTRUCTIONS:
+-- To rollback this migration:
+-- 1. DROP TRIGGER IF EXISTS distributor_products_authorization_trigger ON public.distributor_products;
+-- 2. DROP FUNCTION IF EXISTS advance_opportunities_on_authorization();
+-- 3. ALTER TABLE public.opportunities DROP COLUMN IF EXISTS advance_on_authorization_to;
+-- 4. DELETE FROM public.distributor_products WHERE distributor_sku IS NULL;
+-- 5. ALTER TABLE public.distributor_products ALTER COLUMN distributor_sku SET NOT NULL;
+-- 6. ALTER TABLE public.distributor_products
+--        DROP COLUMN IF EXISTS evidence_document_id,
+--        DROP COLUMN IF EXISTS discontinued_on,
+--        DROP COLUMN IF EXISTS authorized_on,
+--        DROP COLUMN IF EXISTS requested_on,
+--        DROP COLUMN IF EXISTS authorization_status;
+
+-- =============================================================================
+-- Authorization Columns
+-- =============================================================================
+
+-- Rows recorded before this migration carried a confirmed item code, so they
+-- are added as AUTHORIZED; new rows start as REQUESTED
+ALTER TABLE public.distributor_products
+ADD COLUMN IF NOT EXISTS authorization_status TEXT NOT NULL DEFAULT 'AUTHORIZED'
+    CHECK (authorization_status IN ('REQUESTED', 'PENDING', 'AUTHORIZED', 'DISCONTINUED')),
+ADD COLUMN IF NOT EXISTS requested_on DATE,
+ADD COLUMN IF NOT EXISTS authorized_on DATE,
+ADD COLUMN IF NOT EXISTS discontinued_on DATE,
+ADD COLUMN IF NOT EXISTS evidence_document_id UUID
+    REFERENCES public.organization_documents(id) ON DELETE SET NULL;
+
+ALTER TABLE public.distributor_products
+ALTER COLUMN authorization_status SET DEFAULT 'REQUESTED';
+
+ALTER TABLE public.distributor_products
+ALTER COLUMN distributor_sku DROP NOT NULL;
+
+UPDATE public.distributor_products
+SET authorized_on = created_at::DATE
+WHERE authorization_status = 'AUTHORIZED'
+  AND authorized_on IS NULL;
+
+-- An authorized item has its item number and authorization date
+ALTER TABLE public.distributor_products
+DROP CONSTRAINT IF EXISTS distributor_products_authorized_details;
+
+ALTER TABLE public.distributor_products
+ADD CONSTRAINT distributor_products_authorized_details CHECK (
+    authorization_status <> 'AUTHORIZED'
+    OR (distributor_sku IS NOT NULL AND authorized_on IS NOT NULL)
+);
+
+ALTER TABLE public.distributor_products
+DROP CONSTRAINT IF EXISTS distributor_products_dates;
+
+ALTER TABLE public.distributor_products
+ADD CONSTRAINT distributor_products_dates CHECK (
+    (requested_on IS NULL OR authorized_on IS NULL OR authorized_on >= requested_on)
+    AND (authorized_on IS NULL OR discontinued_on IS NULL OR discontinued_on >= authorized_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_distributor_products_status
+ON public.distributor_products(product_id, authorization_status);
+
+COMMENT ON TABLE public.distributor_products IS 'Product authorizations and item codes at each distributor';
+COMMENT ON COLUMN public.distributor_products.authorization_status IS 'REQUESTED, PENDING, AUTHORIZED or DISCONTINUED at the distributor';
+COMMENT ON COLUMN public.distributor_products.distributor_sku IS 'Distributor item number; required once authorized';
+COMMENT ON COLUMN public.distributor_products.evidence_document_id IS 'Document confirming the authorization, such as the distributor''s new item form';
+
+-- =============================================================================
+-- Opportunities Waiting on Authorization
+-- =============================================================================
+
+ALTER TABLE public.opportunities
+ADD COLUMN IF NOT EXISTS advance_on_authorization_to public.opportunity_stage;
+
+ALTER TABLE public.opportunities
+DROP CONSTRAINT IF EXISTS opportunities_advance_on_authorization_open;
+
+ALTER TABLE public.opportunities
+ADD CONSTRAINT opportunities_advance_on_authorization_open CHECK (
+    advance_on_authorization_to IS NULL
+    OR advance_on_authorization_to NOT IN ('Closed - Won', 'Closed - Lost')
+);
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_awaiting_authorization
+ON public.opportunities(product_id)
+WHERE advance_on_authorization_to IS NOT NULL AND deleted_at IS NULL;
+
+COMMENT ON COLUMN public.opportunities.advance_on_authorization_to IS
+'Stage to move to once the product is authorized at a distributor the organization buys through; cleared when applied';
+
+-- When an item becomes authorized, move waiting opportunities for the product
+-- at operators buying through the distributor to their target stage and its
+-- default probability. Targets the opportunity has already reached are
+-- cleared without a stage change.
+CREATE OR REPLACE FUNCTION advance_opportunities_on_authorization()
+RETURNS TRIGGER AS $$
+DECLARE
+    waiting RECORD;
+    note_text TEXT;
+BEGIN
+    IF NEW.authorization_status <> 'AUTHORIZED'
+       OR (TG_OP = 'UPDATE' AND OLD.authorization_status = 'AUTHORIZED') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT format('Advanced automatically: %s authorized at %s', p.name, d.name)
+    INTO note_text
+    FROM public.products p, public.organizations d
+    WHERE p.id = NEW.product_id
+      AND d.id = NEW.distributor_id;
+
+    FOR waiting IN
+        SELECT o.id, o.stage, o.advance_on_authorization_to AS target_stage
+        FROM public.opportunities o
+        WHERE o.product_id = NEW.product_id
+          AND o.advance_on_authorization_to IS NOT NULL
+          AND o.deleted_at IS NULL
+          AND o.stage NOT IN ('Closed - Won', 'Closed - Lost')
+          AND EXISTS (
+              SELECT 1 FROM public.customer_distributors cd
+              WHERE cd.customer_id = o.organization_id
+                AND cd.distributor_id = NEW.distributor_id
+          )
+        FOR UPDATE
+    LOOP
+        -- Probabilities mirror STAGE_DEFAULT_PROBABILITY in src/types/opportunities.ts
+        UPDATE public.opportunities
+        SET stage = GREATEST(waiting.stage, waiting.target_stage),
+            probability_percent = CASE
+                WHEN waiting.stage >= waiting.target_stage THEN probability_percent
+                ELSE CASE waiting.target_stage
+                    WHEN 'New Lead' THEN 10
+                    WHEN 'Initial Outreach' THEN 20
+                    WHEN 'Sample/Visit Offered' THEN 35
+                    WHEN 'Awaiting Response' THEN 40
+                    WHEN 'Feedback Logged' THEN 60
+                    WHEN 'Demo Scheduled' THEN 80
+                    ELSE probability_percent
+                END
+            END,
+            advance_on_authorization_to = NULL
+        WHERE id = waiting.id;
+
+        IF waiting.stage < waiting.target_stage THEN
+            UPDATE public.opportunity_stage_history
+            SET note = note_text
+            WHERE opportunity_id = waiting.id
+              AND to_stage = waiting.target_stage
+              AND changed_at = NOW()
+              AND note IS NULL;
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS distributor_products_authorization_trigger ON public.distributor_products;
+CREATE TRIGGER distributor_products_authorization_trigger
+    AFTER INSERT OR UPDATE OF authorization_status ON public.distributor_products
+    FOR EACH ROW EXECUTE FUNCTION advance_opportunities_on_authorization();
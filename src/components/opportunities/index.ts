@@ -11,12 +11,19 @@ export { default as OpportunityNameField } from './OpportunityNameField.vue'
 export { default as PrincipalMultiSelect } from './PrincipalMultiSelect.vue'
 export { default as ProductSelect } from './ProductSelect.vue'
 export { default as StageSelect } from './StageSelect.vue'
+export { default as LossReasonFields } from './LossReasonFields.vue'
+export { default as MarkLostModal } from './MarkLostModal.vue'
+export { default as DealValueFields } from './DealValueFields.vue'
 
 // Display Components (Phase 5.2)
 export { default as OpportunityKPICards } from './OpportunityKPICards.vue'
 export { default as StageTag } from './StageTag.vue'
 export { default as ProbabilityBar } from './ProbabilityBar.vue'
 export { default as OpportunityTable } from './OpportunityTable.vue'
+export { default as OpportunityStageTimeline } from './OpportunityStageTimeline.vue'
+export { default as OpportunityStageAnalytics } from './OpportunityStageAnalytics.vue'
+export { default as OpportunityKanbanBoard } from './OpportunityKanbanBoard.vue'
+export { default as OpportunityKanbanCard } from './OpportunityKanbanCard.vue'
 
 /**
  * Component Type Exports
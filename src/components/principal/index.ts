@@ -19,6 +19,7 @@ export { default as PrincipalActivityTimeline } from './PrincipalActivityTimelin
 // ===============================
 export { default as PrincipalAnalyticsChart } from './PrincipalAnalyticsChart.vue'
 export { default as PrincipalProductTable } from './PrincipalProductTable.vue'
+export { default as EngagementModelEditor } from './EngagementModelEditor.vue'
 
 // ===============================
 // CHART SUB-COMPONENTS
@@ -39,6 +40,8 @@ export { default as ManagePrincipalProductsButton } from './ManagePrincipalProdu
 // INTEGRATION COMPONENTS
 // ===============================
 export { default as DistributorRelationshipTable } from './DistributorRelationshipTable.vue'
+export { default as PrincipalDistributorFormModal } from './PrincipalDistributorFormModal.vue'
+export { default as DistributorItemCodesModal } from './DistributorItemCodesModal.vue'
 export { default as ProductPerformanceIndicator } from './ProductPerformanceIndicator.vue'
 export { default as PrincipalOpportunityList } from './PrincipalOpportunityList.vue'
 export { default as PrincipalInteractionList } from './PrincipalInteractionList.vue'
@@ -0,0 +1,55 @@
+import { ref, readonly } from 'vue'
+import { addRecentSearch } from '@/services/globalSearch'
+
+/**
+ * Recent global searches, persisted to localStorage and shared by the
+ * header search and the search results page
+ */
+
+const STORAGE_KEY = 'crm-recent-searches'
+
+const loadRecentSearches = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+const recentSearches = ref<string[]>(loadRecentSearches())
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recentSearches.value))
+  } catch (error) {
+    console.warn('Failed to save recent searches:', error)
+  }
+}
+
+export function useRecentSearches() {
+  /** Record a search, moving it to the front if already present */
+  const rememberSearch = (query: string) => {
+    recentSearches.value = addRecentSearch(recentSearches.value, query)
+    persist()
+  }
+
+  /** Remove a single recent search */
+  const forgetSearch = (query: string) => {
+    recentSearches.value = recentSearches.value.filter(search => search !== query)
+    persist()
+  }
+
+  /** Remove all recent searches */
+  const clearRecentSearches = () => {
+    recentSearches.value = []
+    persist()
+  }
+
+  return {
+    recentSearches: readonly(recentSearches),
+    rememberSearch,
+    forgetSearch,
+    clearRecentSearches
+  }
+}
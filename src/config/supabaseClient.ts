@@ -1,4 +1,4 @@
-import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SupabaseClient, Session, User, AuthChangeEvent } from '@supabase/supabase-js'
 import env from '../utils/env'
 
 // Use centralized environment utilities
@@ -71,7 +71,7 @@ class MockQueryBuilder {
     return this
   }
   
-  upsert(_data: any): MockQueryBuilder {
+  upsert(_data: any, _options?: any): MockQueryBuilder {
     return this
   }
   
@@ -245,23 +245,111 @@ class MockQueryBuilder {
   }
 }
 
+// Type for mock storage bucket to match Supabase Storage interface
+interface MockStorageBucket {
+  upload: (path: string, file: Blob, options?: { contentType?: string; upsert?: boolean }) => Promise<{
+    data: { path: string } | null
+    error: any
+  }>
+  createSignedUrl: (path: string, expiresIn: number, options?: { download?: string | boolean }) => Promise<{
+    data: { signedUrl: string } | null
+    error: any
+  }>
+  remove: (paths: string[]) => Promise<{ data: any[] | null; error: any }>
+}
+
 // Type for mock client to match Supabase interface
 interface MockSupabaseClient {
   from: (table: string) => MockQueryBuilder
+  rpc: (fn: string, args?: Record<string, any>) => MockQueryBuilder
+  storage: {
+    from: (bucket: string) => MockStorageBucket
+  }
   auth: {
-    getUser: () => Promise<{ data: { user: any | null }; error: any }>
+    getUser: () => Promise<{ data: { user: User | null }; error: any }>
+    getSession: () => Promise<{ data: { session: Session | null }; error: any }>
     signIn: (credentials: any) => Promise<{ data: any | null; error: any }>
+    signInWithPassword: (credentials: { email: string; password: string }) => Promise<{
+      data: { user: User | null; session: Session | null }
+      error: any
+    }>
+    signInWithOtp: (credentials: { email: string; options?: { emailRedirectTo?: string; shouldCreateUser?: boolean } }) => Promise<{
+      data: { user: null; session: null }
+      error: any
+    }>
     signOut: () => Promise<{ error: any }>
+    updateUser: (attributes: { data?: Record<string, any> }) => Promise<{ data: { user: User | null }; error: any }>
+    onAuthStateChange: (callback: (event: AuthChangeEvent, session: Session | null) => void) => {
+      data: { subscription: { unsubscribe: () => void } }
+    }
   }
 }
 
+// Demo user so the app is usable without a Supabase Auth backend
+const DEMO_USER: User = {
+  id: '00000000-0000-4000-8000-000000000001',
+  email: 'demo@kitchenpantrycrm.com',
+  aud: 'authenticated',
+  role: 'authenticated',
+  app_metadata: { crm_role: 'admin' },
+  user_metadata: { full_name: 'Demo User' },
+  created_at: new Date(0).toISOString()
+}
+
+const createMockSession = (user: User): Session => ({
+  access_token: 'demo-access-token',
+  refresh_token: 'demo-refresh-token',
+  expires_in: 3600,
+  token_type: 'bearer',
+  user
+})
+
+// Mock auth state shared by all mock auth calls
+let mockSession: Session | null = createMockSession(DEMO_USER)
+const mockAuthListeners = new Set<(event: AuthChangeEvent, session: Session | null) => void>()
+
+const setMockSession = (session: Session | null, event: AuthChangeEvent) => {
+  mockSession = session
+  mockAuthListeners.forEach(listener => listener(event, session))
+}
+
 // Mock client for demo mode to avoid PostgREST import issues
 const mockClient: MockSupabaseClient = {
   from: (table: string) => new MockQueryBuilder(table),
+  rpc: (_fn: string, _args?: Record<string, any>) => new MockQueryBuilder(),
+  storage: {
+    from: (_bucket: string) => ({
+      upload: (path: string) => Promise.resolve({ data: { path }, error: null }),
+      createSignedUrl: () => Promise.resolve({ data: null, error: { message: 'File storage is not available in demo mode' } }),
+      remove: () => Promise.resolve({ data: [], error: null })
+    })
+  },
   auth: {
-    getUser: () => Promise.resolve({ data: { user: null }, error: null }),
+    getUser: () => Promise.resolve({ data: { user: mockSession?.user ?? null }, error: null }),
+    getSession: () => Promise.resolve({ data: { session: mockSession }, error: null }),
     signIn: () => Promise.resolve({ data: null, error: null }),
-    signOut: () => Promise.resolve({ error: null })
+    signInWithPassword: ({ email }) => {
+      const session = createMockSession({ ...DEMO_USER, email })
+      setMockSession(session, 'SIGNED_IN')
+      return Promise.resolve({ data: { user: session.user, session }, error: null })
+    },
+    signInWithOtp: () => Promise.resolve({ data: { user: null, session: null }, error: null }),
+    signOut: () => {
+      setMockSession(null, 'SIGNED_OUT')
+      return Promise.resolve({ error: null })
+    },
+    updateUser: ({ data }) => {
+      if (!mockSession) {
+        return Promise.resolve({ data: { user: null }, error: { message: 'Not signed in' } })
+      }
+      const user = { ...mockSession.user, user_metadata: { ...mockSession.user.user_metadata, ...data } }
+      setMockSession({ ...mockSession, user }, 'USER_UPDATED')
+      return Promise.resolve({ data: { user }, error: null })
+    },
+    onAuthStateChange: (callback) => {
+      mockAuthListeners.add(callback)
+      return { data: { subscription: { unsubscribe: () => { mockAuthListeners.delete(callback) } } } }
+    }
   }
 }
 
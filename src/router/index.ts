@@ -1,10 +1,24 @@
 import { createRouter, createWebHistory } from 'vue-router'
 import type { RouteRecordRaw } from 'vue-router'
+import { useAuthStore } from '@/stores/authStore'
 
 const routes: RouteRecordRaw[] = [
+  {
+    path: '/login',
+    name: 'Login',
+    component: () => import(/* webpackChunkName: "auth" */ '@/views/auth/LoginView.vue'),
+    meta: {
+      title: 'Sign In',
+      description: 'Sign in to your CRM account',
+      guestOnly: true
+    }
+  },
   {
     path: '/',
     component: () => import('@/components/layout/DashboardLayout.vue'),
+    meta: {
+      requiresAuth: true
+    },
     children: [
       {
         path: '',
@@ -16,6 +30,42 @@ const routes: RouteRecordRaw[] = [
           preload: true
         }
       },
+      {
+        path: 'profile',
+        name: 'Profile',
+        component: () => import(/* webpackChunkName: "auth" */ '@/views/ProfileView.vue'),
+        meta: {
+          title: 'Your Profile',
+          description: 'Manage your account details'
+        }
+      },
+      {
+        path: 'notifications',
+        name: 'Notifications',
+        component: () => import(/* webpackChunkName: "notifications" */ '@/views/NotificationsView.vue'),
+        meta: {
+          title: 'Notifications',
+          description: 'Follow-up, contract, principal and opportunity alerts'
+        }
+      },
+      {
+        path: 'import',
+        name: 'Import',
+        component: () => import(/* webpackChunkName: "import" */ '@/views/ImportView.vue'),
+        meta: {
+          title: 'Import',
+          description: 'Import organizations and contacts from a spreadsheet'
+        }
+      },
+      {
+        path: 'search',
+        name: 'SearchResults',
+        component: () => import(/* webpackChunkName: "search" */ '@/views/SearchResultsView.vue'),
+        meta: {
+          title: 'Search',
+          description: 'Search across all CRM records'
+        }
+      },
       {
         path: 'contacts',
         name: 'ContactsList',
@@ -110,6 +160,15 @@ const routes: RouteRecordRaw[] = [
           description: 'Add a new opportunity to your CRM'
         }
       },
+      {
+        path: 'opportunities/naming',
+        name: 'OpportunityNaming',
+        component: () => import(/* webpackChunkName: "opportunities" */ '@/views/opportunities/OpportunityNamingView.vue'),
+        meta: {
+          title: 'Opportunity Naming',
+          description: 'Name templates and regenerating auto-generated opportunity names'
+        }
+      },
       {
         path: 'opportunities/:id',
         name: 'OpportunityDetail',
@@ -148,6 +207,33 @@ const routes: RouteRecordRaw[] = [
           description: 'Record a new customer interaction'
         }
       },
+      {
+        path: 'interactions/quick',
+        name: 'QuickInteraction',
+        component: () => import(/* webpackChunkName: "interactions" */ '@/views/interactions/QuickInteractionView.vue'),
+        meta: {
+          title: 'Quick Log',
+          description: 'Log an interaction from a quick template, online or offline'
+        }
+      },
+      {
+        path: 'interactions/calendar',
+        name: 'InteractionCalendar',
+        component: () => import(/* webpackChunkName: "interactions" */ '@/views/interactions/InteractionCalendarView.vue'),
+        meta: {
+          title: 'Calendar',
+          description: 'Scheduled interactions and follow-ups by month, week or day'
+        }
+      },
+      {
+        path: 'interactions/planner',
+        name: 'VisitPlanner',
+        component: () => import(/* webpackChunkName: "interactions" */ '@/views/interactions/VisitPlannerView.vue'),
+        meta: {
+          title: 'Visit Planner',
+          description: 'Plan a day of site visits grouped by area'
+        }
+      },
       {
         path: 'interactions/:id',
         name: 'InteractionDetail',
@@ -168,6 +254,15 @@ const routes: RouteRecordRaw[] = [
           description: 'Modify interaction information'
         }
       },
+      {
+        path: 'tasks',
+        name: 'MyTasks',
+        component: () => import(/* webpackChunkName: "tasks" */ '@/views/tasks/MyTasksView.vue'),
+        meta: {
+          title: 'My Tasks',
+          description: 'Overdue, today and upcoming tasks'
+        }
+      },
       {
         path: 'principals',
         name: 'PrincipalsList',
@@ -255,6 +350,42 @@ const routes: RouteRecordRaw[] = [
           description: 'View product information and assignments'
         }
       },
+      {
+        path: 'contracts',
+        name: 'ContractsList',
+        component: () => import(/* webpackChunkName: "products" */ '@/views/contracts/ContractsListView.vue'),
+        meta: {
+          title: 'Contracts',
+          description: 'Principal product contracts, renewals and expiry warnings'
+        }
+      },
+      {
+        path: 'territories',
+        name: 'Territories',
+        component: () => import(/* webpackChunkName: "territories" */ '@/views/territories/TerritoriesView.vue'),
+        meta: {
+          title: 'Territories',
+          description: 'Sales territories by state, ZIP prefix and county'
+        }
+      },
+      {
+        path: 'email-templates',
+        name: 'EmailTemplates',
+        component: () => import(/* webpackChunkName: "email" */ '@/views/email/EmailTemplatesView.vue'),
+        meta: {
+          title: 'Email Templates',
+          description: 'Reusable emails with contact, opportunity, principal and product variables'
+        }
+      },
+      {
+        path: 'email-inbox',
+        name: 'InboundEmailTriage',
+        component: () => import(/* webpackChunkName: "email" */ '@/views/email/InboundEmailTriageView.vue'),
+        meta: {
+          title: 'Email Inbox',
+          description: 'Dropbox emails waiting to be linked to an opportunity'
+        }
+      },
       // Temporarily disabled for deployment  
       // {
       //   path: 'products/:id/edit',
@@ -309,6 +440,30 @@ router.beforeEach(async (to, _from, next) => {
     document.title = 'CRM Dashboard'
   }
 
+  // Authentication - signed-out users go to the login page, signed-in users skip it
+  const requiresAuth = to.matched.some(record => record.meta.requiresAuth)
+  if (requiresAuth || to.meta.guestOnly) {
+    const authStore = useAuthStore()
+    await authStore.initialize()
+
+    if (requiresAuth && !authStore.isAuthenticated) {
+      next({ name: 'Login', query: { redirect: to.fullPath } })
+      return
+    }
+
+    if (to.meta.guestOnly && authStore.isAuthenticated) {
+      const redirect = to.query.redirect
+      next(typeof redirect === 'string' && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/')
+      return
+    }
+  }
+
+  // The full interaction form needs live lookups; offline reps get the quick log instead
+  if (to.name === 'InteractionCreate' && navigator.onLine === false) {
+    next({ name: 'QuickInteraction' })
+    return
+  }
+
   // Handle mobile PWA routes
   if (to.meta.mobile && to.meta.requiresPWA) {
     // Check if running as PWA or mobile device
@@ -375,12 +530,6 @@ router.beforeEach(async (to, _from, next) => {
     }
   }
 
-  // Future: Add authentication checks here
-  // if (to.meta.requiresAuth && !isAuthenticated()) {
-  //   next('/login')
-  //   return
-  // }
-
   next()
 })
 
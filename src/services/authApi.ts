@@ -0,0 +1,234 @@
+/**
+ * Auth API Service
+ * Supabase Auth sign-in (email/password and magic link), sessions and
+ * user profiles
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import type { Session, User, AuthChangeEvent } from '@supabase/supabase-js'
+import type {
+  AuthUser,
+  PasswordCredentials,
+  UserProfile,
+  UserProfileUpdate
+} from '@/types/auth'
+import { isUserRole } from '@/types/permissions'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Auth API class
+ */
+class AuthApiService {
+
+  /**
+   * Map a Supabase Auth user to the app user shape
+   */
+  toAuthUser(user: User): AuthUser {
+    const fullName = user.user_metadata?.full_name
+    const role = user.app_metadata?.crm_role
+    return {
+      id: user.id,
+      email: user.email ?? null,
+      full_name: typeof fullName === 'string' && fullName.trim() ? fullName.trim() : null,
+      role: isUserRole(role) ? role : null
+    }
+  }
+
+  /**
+   * Get the current session, if any
+   */
+  async getSession(): Promise<ApiResponse<Session | null>> {
+    try {
+      const { data, error } = await supabase.auth.getSession()
+
+      if (error) {
+        console.error('Error fetching session:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data.session, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getSession:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Id of the signed-in user, used to stamp ownership on new records
+   */
+  async getCurrentUserId(): Promise<string | null> {
+    const response = await this.getSession()
+    return response.data?.user.id ?? null
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  async signInWithPassword(credentials: PasswordCredentials): Promise<ApiResponse<AuthUser>> {
+    try {
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email: credentials.email.trim(),
+        password: credentials.password
+      })
+
+      if (error || !data.user) {
+        return { data: null, error: error?.message || 'Sign in failed', success: false }
+      }
+
+      return { data: this.toAuthUser(data.user), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in signInWithPassword:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Email a magic sign-in link. Only existing users can sign in this way.
+   */
+  async sendMagicLink(email: string, redirectTo: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: {
+          emailRedirectTo: redirectTo,
+          shouldCreateUser: false
+        }
+      })
+
+      if (error) {
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in sendMagicLink:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Sign out the current user
+   */
+  async signOut(): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase.auth.signOut()
+
+      if (error) {
+        console.error('Error signing out:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in signOut:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Subscribe to sign-in, sign-out and token refresh events.
+   * Returns an unsubscribe function.
+   */
+  onAuthStateChange(callback: (event: AuthChangeEvent, session: Session | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange(callback)
+    return () => data.subscription.unsubscribe()
+  }
+
+  /**
+   * Get a user's profile
+   */
+  async getProfile(userId: string): Promise<ApiResponse<UserProfile | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('id', userId)
+        .single()
+
+      if (error) {
+        console.error('Error fetching user profile:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data as UserProfile | null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getProfile:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Update the signed-in user's profile and keep the auth metadata name in sync
+   */
+  async updateProfile(userId: string, updates: UserProfileUpdate): Promise<ApiResponse<UserProfile>> {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .update(updates)
+        .eq('id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating user profile:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      if (updates.full_name !== undefined) {
+        const { error: metadataError } = await supabase.auth.updateUser({
+          data: { full_name: updates.full_name }
+        })
+        if (metadataError) {
+          console.warn('Failed to sync profile name to auth metadata:', metadataError)
+        }
+      }
+
+      return { data: data as UserProfile, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in updateProfile:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const authApi = new AuthApiService()
+export default authApi
@@ -0,0 +1,119 @@
+/**
+ * Calendar Feed API Service
+ * The signed-in user's subscribable ICS feed: token lookup, reset and the
+ * feed URL served by interaction_calendar_feed()
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { authApi } from './authApi'
+import { getEnvString } from '@/utils/env'
+import type { CalendarFeedToken } from '@/types/calendar'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Calendar feed API class
+ */
+class CalendarFeedApiService {
+
+  /**
+   * Get the current user's feed token, creating one on first use
+   */
+  async getFeedToken(): Promise<ApiResponse<CalendarFeedToken>> {
+    try {
+      const userId = await authApi.getCurrentUserId()
+      if (!userId) {
+        return { data: null, error: 'Sign in to subscribe to your calendar', success: false }
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('user_id', userId)
+        .limit(1)
+
+      if (fetchError) {
+        console.error('Error fetching calendar feed token:', fetchError)
+        return { data: null, error: fetchError.message, success: false }
+      }
+      if (existing && existing.length > 0) {
+        return { data: existing[0], error: null, success: true }
+      }
+
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .insert({ user_id: userId })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating calendar feed token:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getFeedToken:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Replace the feed token; subscriptions using the old URL stop updating
+   */
+  async resetFeedToken(): Promise<ApiResponse<CalendarFeedToken>> {
+    try {
+      const userId = await authApi.getCurrentUserId()
+      if (!userId) {
+        return { data: null, error: 'Sign in to subscribe to your calendar', success: false }
+      }
+
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .upsert({ user_id: userId, token: crypto.randomUUID(), created_at: new Date().toISOString() })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error resetting calendar feed token:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in resetFeedToken:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Subscription URL for calendar apps. The anon key is a public key; the
+   * token is what identifies the user.
+   */
+  getFeedUrl(token: string): string {
+    const baseUrl = getEnvString('VITE_SUPABASE_URL').replace(/\/$/, '')
+    const params = new URLSearchParams({ token, apikey: getEnvString('VITE_SUPABASE_ANON_KEY') })
+    return `${baseUrl}/rest/v1/rpc/interaction_calendar_feed?${params.toString()}`
+  }
+}
+
+// Export singleton instance
+export const calendarFeedApi = new CalendarFeedApiService()
+export default calendarFeedApi
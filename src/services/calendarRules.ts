@@ -0,0 +1,167 @@
+/**
+ * Calendar Rules
+ * Visible date ranges, event building and drag rescheduling for the
+ * interaction calendar. All dates are local time; weeks start on Sunday.
+ */
+
+import type {
+  CalendarEvent,
+  CalendarInteraction,
+  CalendarRange,
+  CalendarViewMode
+} from '@/types/calendar'
+import { CALENDAR_END_HOUR, CALENDAR_START_HOUR, DEFAULT_EVENT_MINUTES } from '@/types/calendar'
+
+const MINUTE_MS = 60 * 1000
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes())
+}
+
+export const isSameDay = (a: Date, b: Date): boolean => {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+}
+
+const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -date.getDay())
+
+/**
+ * Days shown for a view: whole weeks covering the month, one week or one day
+ */
+export const getCalendarRange = (mode: CalendarViewMode, anchor: Date): CalendarRange => {
+  if (mode === 'day') {
+    const start = startOfDay(anchor)
+    return { start, end: addDays(start, 1) }
+  }
+  if (mode === 'week') {
+    const start = startOfWeek(anchor)
+    return { start, end: addDays(start, 7) }
+  }
+
+  const firstOfMonth = new Date(anchor.getFullYear(), anchor.getMonth(), 1)
+  const firstOfNextMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 1)
+  const start = startOfWeek(firstOfMonth)
+  const lastWeek = startOfWeek(addDays(firstOfNextMonth, -1))
+  return { start, end: addDays(lastWeek, 7) }
+}
+
+export const getCalendarDays = (range: CalendarRange): Date[] => {
+  const days: Date[] = []
+  for (let day = range.start; day < range.end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+/**
+ * Anchor date one month, week or day before (-1) or after (1)
+ */
+export const shiftAnchor = (mode: CalendarViewMode, anchor: Date, direction: 1 | -1): Date => {
+  if (mode === 'month') return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+  return addDays(startOfDay(anchor), mode === 'week' ? 7 * direction : direction)
+}
+
+/**
+ * Heading for the visible period, e.g. "June 2026" or "Jun 14 – Jun 20, 2026"
+ */
+export const getRangeLabel = (mode: CalendarViewMode, anchor: Date): string => {
+  if (mode === 'month') {
+    return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+  }
+  if (mode === 'day') {
+    return anchor.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+  }
+
+  const { start, end } = getCalendarRange('week', anchor)
+  const last = addDays(end, -1)
+  const short = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  return `${short(start)} – ${short(last)}, ${last.getFullYear()}`
+}
+
+/**
+ * Calendar events for scheduled interactions and follow-up dates
+ */
+export const toCalendarEvents = (interactions: CalendarInteraction[]): CalendarEvent[] => {
+  const events: CalendarEvent[] = []
+
+  interactions.forEach(interaction => {
+    const base = {
+      interaction_id: interaction.id,
+      location: interaction.location,
+      interaction_type: interaction.type,
+      opportunity_name: interaction.opportunity_name,
+      organization_name: interaction.organization_name,
+      updated_at: interaction.updated_at
+    }
+
+    if (interaction.status === 'SCHEDULED') {
+      const start = new Date(interaction.interaction_date)
+      const minutes = interaction.duration_minutes || DEFAULT_EVENT_MINUTES
+      events.push({
+        ...base,
+        id: `interaction:${interaction.id}`,
+        kind: 'interaction',
+        title: interaction.subject,
+        start,
+        end: new Date(start.getTime() + minutes * MINUTE_MS),
+        description: interaction.notes
+      })
+    }
+
+    if (interaction.follow_up_required && interaction.follow_up_date) {
+      const start = new Date(interaction.follow_up_date)
+      events.push({
+        ...base,
+        id: `follow_up:${interaction.id}`,
+        kind: 'follow_up',
+        title: `Follow up: ${interaction.subject}`,
+        start,
+        end: new Date(start.getTime() + DEFAULT_EVENT_MINUTES * MINUTE_MS),
+        location: null,
+        description: interaction.follow_up_notes
+      })
+    }
+  })
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+export const getEventsOnDay = (events: CalendarEvent[], day: Date): CalendarEvent[] => {
+  return events.filter(event => isSameDay(event.start, day))
+}
+
+/**
+ * New start for an event dropped on another day, keeping its time of day.
+ * Dropping on an hour slot also moves it to that hour, keeping the minutes.
+ */
+export const rescheduleStart = (start: Date, targetDay: Date, hour?: number): Date => {
+  return new Date(
+    targetDay.getFullYear(),
+    targetDay.getMonth(),
+    targetDay.getDate(),
+    hour ?? start.getHours(),
+    start.getMinutes()
+  )
+}
+
+/**
+ * Vertical placement of an event in the week / day time grid as
+ * percentages of the visible hours, clamped to the grid
+ */
+export const getTimeGridPosition = (event: Pick<CalendarEvent, 'start' | 'end'>): { top: number; height: number } => {
+  const gridMinutes = (CALENDAR_END_HOUR - CALENDAR_START_HOUR) * 60
+  const minutesFromTop = (date: Date) => (date.getHours() - CALENDAR_START_HOUR) * 60 + date.getMinutes()
+
+  const top = Math.min(Math.max(minutesFromTop(event.start), 0), gridMinutes - 15)
+  const bottom = Math.min(Math.max(minutesFromTop(event.end), top + 15), gridMinutes)
+  return { top: (top / gridMinutes) * 100, height: ((bottom - top) / gridMinutes) * 100 }
+}
+
+/**
+ * Local date and time in datetime-local input format
+ */
+export const toDateTimeLocal = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
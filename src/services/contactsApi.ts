@@ -5,8 +5,16 @@
  */
 
 import { supabase } from '@/config/supabaseClient'
+import { authApi } from './authApi'
+import { outboxApi } from './outboxApi'
+import { buildOptimisticRecord } from './outboxRules'
 import type { Contact, ContactInsert, ContactUpdate, ContactListView, ContactDetailView } from '@/types/database.types'
 
+/**
+ * Fields of the record being edited that a queued offline update needs
+ */
+type OfflineContactBase = Pick<Partial<ContactDetailView>, 'first_name' | 'last_name' | 'updated_at'>
+
 /**
  * API Response wrapper for consistent error handling
  */
@@ -132,16 +140,26 @@ class ContactsApiService {
   async createContact(contact: ContactInsert): Promise<ApiResponse<Contact>> {
     try {
       console.log('Creating contact with data:', contact)
-      
+
+      const contactData: ContactInsert = { ...contact, created_by: contact.created_by ?? await authApi.getCurrentUserId() }
+
+      if (outboxApi.isOffline()) {
+        return await this.queueContactCreate(contactData)
+      }
+
       // Insert the contact
       const { data: insertData, error: insertError } = await supabase
         .from('contacts')
-        .insert(contact)
+        .insert(contactData)
         .select('*')
       
       console.log('Insert result:', { insertData, insertError })
 
       if (insertError) {
+        if (outboxApi.shouldQueue(insertError.message)) {
+          return await this.queueContactCreate(contactData)
+        }
+
         console.error('Supabase error creating contact:', insertError)
         console.error('Error details:', {
           message: insertError.message,
@@ -190,9 +208,15 @@ class ContactsApiService {
 
   /**
    * Update an existing contact
+   * Pass the contact as last loaded so an offline edit can be checked against
+   * newer server changes when it syncs
    */
-  async updateContact(id: string, updates: ContactUpdate): Promise<ApiResponse<Contact>> {
+  async updateContact(id: string, updates: ContactUpdate, current?: OfflineContactBase | null): Promise<ApiResponse<Contact>> {
     try {
+      if (outboxApi.isOffline()) {
+        return await this.queueContactUpdate(id, updates, current)
+      }
+
       const { data, error } = await supabase
         .from('contacts')
         .update(updates)
@@ -201,6 +225,9 @@ class ContactsApiService {
         .single()
 
       if (error) {
+        if (outboxApi.shouldQueue(error.message)) {
+          return await this.queueContactUpdate(id, updates, current)
+        }
         console.error('Error updating contact:', error)
         return {
           data: null,
@@ -318,6 +345,45 @@ class ContactsApiService {
     }
   }
 
+  /**
+   * Save a new contact to the offline outbox
+   */
+  private async queueContactCreate(contact: ContactInsert): Promise<ApiResponse<Contact>> {
+    const entry = await outboxApi.enqueue({
+      entity: 'contact',
+      operation: 'create',
+      recordId: crypto.randomUUID(),
+      payload: { ...contact },
+      baseUpdatedAt: null,
+      label: `${contact.first_name} ${contact.last_name}`
+    })
+
+    return { data: buildOptimisticRecord<Contact>(entry), error: null, success: true }
+  }
+
+  /**
+   * Save a contact edit to the offline outbox
+   */
+  private async queueContactUpdate(
+    id: string,
+    updates: ContactUpdate,
+    current?: OfflineContactBase | null
+  ): Promise<ApiResponse<Contact>> {
+    const firstName = updates.first_name ?? current?.first_name ?? ''
+    const lastName = updates.last_name ?? current?.last_name ?? ''
+
+    await outboxApi.enqueue({
+      entity: 'contact',
+      operation: 'update',
+      recordId: id,
+      payload: { ...updates },
+      baseUpdatedAt: current?.updated_at ?? null,
+      label: `${firstName} ${lastName}`.trim() || 'Contact update'
+    })
+
+    return { data: { ...current, ...updates, id } as Contact, error: null, success: true }
+  }
+
 }
 
 // Export singleton instance
@@ -0,0 +1,95 @@
+/**
+ * Contract Rules
+ * Lifecycle status, expiry warnings and renewal dates for principal product
+ * contracts
+ */
+
+import type { ContractStatus, ContractWarningLevel } from '@/types/contracts'
+import { CONTRACT_EXPIRING_SOON_DAYS, CONTRACT_WARNING_DAYS } from '@/types/contracts'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Read a YYYY-MM-DD value as a local calendar day
+ */
+const parseDateOnly = (value: string): Date => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+export const toDateOnly = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Whole days from today until the end date (negative once it has passed)
+ */
+export const getDaysUntilExpiry = (endDate: string | null, now: Date = new Date()): number | null => {
+  if (!endDate) return null
+  return Math.round((parseDateOnly(endDate).getTime() - startOfDay(now).getTime()) / DAY_MS)
+}
+
+/**
+ * Pending before the start date, expired after the end date, expiring soon
+ * within the warning window; contracts without an end date stay active
+ */
+export const getContractStatus = (
+  startDate: string | null,
+  endDate: string | null,
+  now: Date = new Date()
+): ContractStatus => {
+  const today = toDateOnly(now)
+  if (startDate && startDate.slice(0, 10) > today) return 'PENDING'
+
+  const daysLeft = getDaysUntilExpiry(endDate, now)
+  if (daysLeft === null) return 'ACTIVE'
+  if (daysLeft < 0) return 'EXPIRED'
+  return daysLeft <= CONTRACT_EXPIRING_SOON_DAYS ? 'EXPIRING_SOON' : 'ACTIVE'
+}
+
+/**
+ * Tightest warning milestone the contract has reached, e.g. 30 when it ends
+ * in 12 days; null when it is not yet within 90 days or has already ended
+ */
+export const getContractWarningLevel = (daysLeft: number | null): ContractWarningLevel | null => {
+  if (daysLeft === null || daysLeft < 0) return null
+
+  let level: ContractWarningLevel | null = null
+  for (const milestone of CONTRACT_WARNING_DAYS) {
+    if (daysLeft <= milestone) level = milestone
+  }
+  return level
+}
+
+/**
+ * Add calendar months, clamping to the last day of shorter months
+ * (Jan 31 + 1 month = Feb 28)
+ */
+export const addMonthsToDate = (date: string, months: number): string => {
+  const start = parseDateOnly(date)
+  const target = new Date(start.getFullYear(), start.getMonth() + months, 1)
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate()
+  target.setDate(Math.min(start.getDate(), lastDay))
+  return toDateOnly(target)
+}
+
+/**
+ * Suggested end date for a manual renewal: one term past the current end
+ * date, or past today when the contract has already lapsed or has no end
+ */
+export const getRenewalEndDate = (
+  endDate: string | null,
+  termMonths: number,
+  now: Date = new Date()
+): string => {
+  const today = toDateOnly(now)
+  const from = endDate && endDate.slice(0, 10) >= today ? endDate.slice(0, 10) : today
+  return addMonthsToDate(from, termMonths)
+}
@@ -0,0 +1,250 @@
+/**
+ * Contracts API Service
+ * Principal product contracts across principals: listing with lifecycle
+ * status, automatic and manual renewals, and the contract change log
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { authApi } from './authApi'
+import { getContractStatus, getContractWarningLevel, getDaysUntilExpiry } from './contractRules'
+import type {
+  ContractEvent,
+  ContractFilters,
+  ContractListItem,
+  ContractRenewal
+} from '@/types/contracts'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+const CONTRACT_COLUMNS = `
+  id, product_id, principal_id, contract_start_date, contract_end_date,
+  auto_renewal, renewal_term_months, exclusive_rights, is_active,
+  product:product_id(name),
+  principal:principal_id(name)
+`
+
+/**
+ * Contracts API class
+ */
+class ContractsApiService {
+
+  /**
+   * Get active contracts with a start or end date, soonest ending first.
+   * Status is derived from the dates, so status filtering happens here
+   * rather than in the query.
+   */
+  async getContracts(filters: ContractFilters = {}, now: Date = new Date()): Promise<ApiResponse<ContractListItem[]>> {
+    try {
+      let query = supabase
+        .from('product_principals')
+        .select(CONTRACT_COLUMNS)
+        .eq('is_active', true)
+        .or('contract_start_date.not.is.null,contract_end_date.not.is.null')
+        .order('contract_end_date', { ascending: true, nullsFirst: false })
+
+      if (filters.principal_id) {
+        query = query.eq('principal_id', filters.principal_id)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching contracts:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const search = filters.search?.trim().toLowerCase() || ''
+      const contracts: ContractListItem[] = ((data || []) as any[])
+        .map(row => this.toListItem(row, now))
+        .filter(contract => !filters.status || filters.status === 'ALL' || contract.status === filters.status)
+        .filter(contract => !search ||
+          contract.product_name.toLowerCase().includes(search) ||
+          contract.principal_name.toLowerCase().includes(search))
+
+      return { data: contracts, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getContracts:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Extend lapsed auto-renewing contracts; returns how many were renewed
+   */
+  async runAutoRenewals(): Promise<ApiResponse<number>> {
+    try {
+      const { data, error } = await supabase.rpc('renew_due_product_contracts')
+
+      if (error) {
+        console.error('Error renewing contracts:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data ?? 0, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in runAutoRenewals:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Renew a contract to a new end date and log the renewal
+   */
+  async renewContract(contract: ContractListItem, renewal: ContractRenewal): Promise<ApiResponse<ContractListItem>> {
+    try {
+      const { data, error } = await supabase
+        .from('product_principals')
+        .update({
+          contract_end_date: renewal.new_end_date,
+          auto_renewal: renewal.auto_renewal,
+          renewal_term_months: renewal.renewal_term_months,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', contract.id)
+        .select(CONTRACT_COLUMNS)
+        .single()
+
+      if (error) {
+        console.error('Error renewing contract:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      await this.logEvent({
+        product_principal_id: contract.id,
+        event_type: 'RENEWED',
+        previous_end_date: contract.contract_end_date,
+        new_end_date: renewal.new_end_date,
+        notes: renewal.notes
+      })
+
+      return { data: this.toListItem(data, new Date()), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in renewContract:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Turn automatic renewal on or off and log the change
+   */
+  async setAutoRenewal(contract: ContractListItem, autoRenewal: boolean): Promise<ApiResponse<ContractListItem>> {
+    try {
+      const { data, error } = await supabase
+        .from('product_principals')
+        .update({ auto_renewal: autoRenewal, updated_at: new Date().toISOString() })
+        .eq('id', contract.id)
+        .select(CONTRACT_COLUMNS)
+        .single()
+
+      if (error) {
+        console.error('Error updating contract renewal:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      await this.logEvent({
+        product_principal_id: contract.id,
+        event_type: 'TERMS_UPDATED',
+        previous_end_date: contract.contract_end_date,
+        new_end_date: contract.contract_end_date,
+        notes: autoRenewal ? 'Automatic renewal turned on' : 'Automatic renewal turned off'
+      })
+
+      return { data: this.toListItem(data, new Date()), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in setAutoRenewal:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Renewal and change history for one contract, newest first
+   */
+  async getContractEvents(contractId: string): Promise<ApiResponse<ContractEvent[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('product_contract_events')
+        .select('*')
+        .eq('product_principal_id', contractId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching contract events:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: (data || []) as ContractEvent[], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getContractEvents:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Record a contract change; a failed log entry does not undo the change
+   */
+  private async logEvent(event: Pick<ContractEvent, 'product_principal_id' | 'event_type' | 'previous_end_date' | 'new_end_date' | 'notes'>): Promise<void> {
+    const { error } = await supabase
+      .from('product_contract_events')
+      .insert({ ...event, created_by: await authApi.getCurrentUserId() })
+
+    if (error) {
+      console.warn('Failed to log contract event:', error)
+    }
+  }
+
+  private toListItem(row: any, now: Date): ContractListItem {
+    const daysLeft = getDaysUntilExpiry(row.contract_end_date, now)
+    return {
+      id: row.id,
+      product_id: row.product_id,
+      product_name: row.product?.name ?? 'Unknown Product',
+      principal_id: row.principal_id,
+      principal_name: row.principal?.name ?? 'Unknown Principal',
+      contract_start_date: row.contract_start_date,
+      contract_end_date: row.contract_end_date,
+      auto_renewal: row.auto_renewal === true,
+      renewal_term_months: row.renewal_term_months ?? 12,
+      exclusive_rights: row.exclusive_rights === true,
+      is_active: row.is_active !== false,
+      status: getContractStatus(row.contract_start_date, row.contract_end_date, now),
+      days_until_expiry: daysLeft,
+      warning_level: getContractWarningLevel(daysLeft)
+    }
+  }
+}
+
+// Export singleton instance
+export const contractsApi = new ContractsApiService()
+export default contractsApi
@@ -0,0 +1,304 @@
+/**
+ * Dashboard Analytics Service
+ * Pure calculations for dashboard metrics: period resolution, prior-period
+ * comparison, response time, product adoption and principal distribution
+ */
+
+import type {
+  DashboardTimeFilter,
+  DashboardDateRange,
+  DashboardPeriodRange,
+  DashboardAnalytics,
+  MetricComparison,
+  PrincipalProductDistribution,
+  AnalyticsOpportunityRow,
+  AnalyticsInteractionRow,
+  AnalyticsProductPrincipalRow
+} from '@/types/dashboard'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Number of principals returned in the product distribution
+ */
+export const PRINCIPAL_DISTRIBUTION_LIMIT = 10
+
+/**
+ * Source rows needed to compute dashboard analytics
+ */
+export interface DashboardAnalyticsSource {
+  opportunities: AnalyticsOpportunityRow[]
+  interactions: AnalyticsInteractionRow[]
+  productPrincipals: AnalyticsProductPrincipalRow[]
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10
+
+const isInRange = (value: string, range: DashboardDateRange): boolean => {
+  const time = new Date(value).getTime()
+  return time >= range.start.getTime() && time < range.end.getTime()
+}
+
+/**
+ * Start of the calendar period containing `now`
+ */
+const periodStart = (period: Exclude<DashboardTimeFilter['period'], 'custom'>, now: Date): Date => {
+  switch (period) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    case 'week': {
+      // Weeks start on Monday
+      const daysSinceMonday = (now.getDay() + 6) % 7
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysSinceMonday)
+    }
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1)
+    case 'quarter':
+      return new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1)
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1)
+  }
+}
+
+/**
+ * Start of the calendar period before the one starting at `start`
+ */
+const previousPeriodStart = (period: Exclude<DashboardTimeFilter['period'], 'custom'>, start: Date): Date => {
+  switch (period) {
+    case 'today':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1)
+    case 'week':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() - 7)
+    case 'month':
+      return new Date(start.getFullYear(), start.getMonth() - 1, 1)
+    case 'quarter':
+      return new Date(start.getFullYear(), start.getMonth() - 3, 1)
+    case 'year':
+      return new Date(start.getFullYear() - 1, 0, 1)
+  }
+}
+
+/**
+ * Resolve a time filter into the selected range and the prior range it is
+ * compared against. Calendar periods run from the start of the period to
+ * `now`; the prior range covers the same elapsed span of the previous period
+ * so partial periods are compared like for like. Custom ranges are compared
+ * with the range of equal length immediately before them.
+ */
+export const resolvePeriodRange = (filter: DashboardTimeFilter, now: Date = new Date()): DashboardPeriodRange => {
+  if (filter.period === 'custom') {
+    const start = filter.startDate ?? new Date(now.getTime() - 30 * DAY_MS)
+    const end = filter.endDate
+      ? new Date(filter.endDate.getFullYear(), filter.endDate.getMonth(), filter.endDate.getDate() + 1)
+      : now
+    const length = Math.max(end.getTime() - start.getTime(), 0)
+
+    return {
+      current: { start, end },
+      previous: { start: new Date(start.getTime() - length), end: start }
+    }
+  }
+
+  const start = periodStart(filter.period, now)
+  const previousStart = previousPeriodStart(filter.period, start)
+  const elapsed = now.getTime() - start.getTime()
+
+  return {
+    current: { start, end: now },
+    previous: {
+      start: previousStart,
+      end: new Date(Math.min(previousStart.getTime() + elapsed, start.getTime()))
+    }
+  }
+}
+
+/**
+ * Percentage change from a prior value; null when there is no prior baseline
+ */
+export const calculateChangePercent = (current: number | null, previous: number | null): number | null => {
+  if (current === null || previous === null || previous === 0) return null
+  return round1(((current - previous) / Math.abs(previous)) * 100)
+}
+
+const compare = (current: number | null, previous: number | null): MetricComparison => ({
+  current,
+  previous,
+  change_percent: calculateChangePercent(current, previous)
+})
+
+/**
+ * Earliest interaction date per opportunity
+ */
+const firstInteractionDates = (interactions: AnalyticsInteractionRow[]): Map<string, number> => {
+  const firstDates = new Map<string, number>()
+
+  interactions.forEach(interaction => {
+    const time = new Date(interaction.interaction_date).getTime()
+    const existing = firstDates.get(interaction.opportunity_id)
+    if (existing === undefined || time < existing) {
+      firstDates.set(interaction.opportunity_id, time)
+    }
+  })
+
+  return firstDates
+}
+
+/**
+ * Average days from opportunity creation to its first interaction for
+ * opportunities created in the range. Opportunities without an interaction
+ * yet are excluded; returns null when none qualify.
+ */
+export const calculateAverageResponseTime = (
+  opportunities: AnalyticsOpportunityRow[],
+  interactions: AnalyticsInteractionRow[],
+  range: DashboardDateRange
+): number | null => {
+  const firstDates = firstInteractionDates(interactions)
+
+  const responseDays = opportunities
+    .filter(opportunity => isInRange(opportunity.created_at, range) && firstDates.has(opportunity.id))
+    .map(opportunity => {
+      const firstInteraction = firstDates.get(opportunity.id) as number
+      return Math.max(firstInteraction - new Date(opportunity.created_at).getTime(), 0) / DAY_MS
+    })
+
+  if (responseDays.length === 0) return null
+  return round1(responseDays.reduce((sum, days) => sum + days, 0) / responseDays.length)
+}
+
+/**
+ * Percentage of active product-principal assignments that had at least one
+ * opportunity created in the range. Returns null when nothing is assigned.
+ */
+export const calculateProductAdoptionRate = (
+  opportunities: AnalyticsOpportunityRow[],
+  productPrincipals: AnalyticsProductPrincipalRow[],
+  range: DashboardDateRange
+): number | null => {
+  const pairKey = (productId: string, principalId: string) => `${productId}:${principalId}`
+  const assigned = new Set(productPrincipals.map(pp => pairKey(pp.product_id, pp.principal_id)))
+  if (assigned.size === 0) return null
+
+  const adopted = new Set<string>()
+  opportunities.forEach(opportunity => {
+    if (!opportunity.product_id || !opportunity.principal_id) return
+    if (!isInRange(opportunity.created_at, range)) return
+
+    const key = pairKey(opportunity.product_id, opportunity.principal_id)
+    if (assigned.has(key)) adopted.add(key)
+  })
+
+  return round1((adopted.size / assigned.size) * 100)
+}
+
+/**
+ * Total estimated value of opportunities created in the range
+ */
+export const calculateNewPipelineValue = (
+  opportunities: AnalyticsOpportunityRow[],
+  range: DashboardDateRange
+): number => {
+  return opportunities
+    .filter(opportunity => isInRange(opportunity.created_at, range))
+    .reduce((sum, opportunity) => sum + (Number(opportunity.estimated_value) || 0), 0)
+}
+
+/**
+ * Active product count and opportunities created in the range per principal,
+ * ordered by opportunity count then product count
+ */
+export const buildPrincipalProductDistribution = (
+  opportunities: AnalyticsOpportunityRow[],
+  productPrincipals: AnalyticsProductPrincipalRow[],
+  range: DashboardDateRange,
+  limit: number = PRINCIPAL_DISTRIBUTION_LIMIT
+): PrincipalProductDistribution[] => {
+  const byPrincipal = new Map<string, PrincipalProductDistribution & { products: Set<string> }>()
+
+  const entryFor = (principalId: string, principalName: string | null | undefined) => {
+    let entry = byPrincipal.get(principalId)
+    if (!entry) {
+      entry = { principalId, principalName: principalName || 'Unknown Principal', productCount: 0, opportunityCount: 0, products: new Set() }
+      byPrincipal.set(principalId, entry)
+    } else if (principalName && entry.principalName === 'Unknown Principal') {
+      entry.principalName = principalName
+    }
+    return entry
+  }
+
+  productPrincipals.forEach(pp => {
+    entryFor(pp.principal_id, pp.principal_name).products.add(pp.product_id)
+  })
+
+  opportunities.forEach(opportunity => {
+    if (!opportunity.principal_id || !isInRange(opportunity.created_at, range)) return
+    entryFor(opportunity.principal_id, opportunity.principal_name).opportunityCount++
+  })
+
+  return Array.from(byPrincipal.values())
+    .map(({ products, ...entry }) => ({ ...entry, productCount: products.size }))
+    .sort((a, b) =>
+      b.opportunityCount - a.opportunityCount ||
+      b.productCount - a.productCount ||
+      a.principalName.localeCompare(b.principalName)
+    )
+    .slice(0, limit)
+}
+
+/**
+ * Earliest date any dashboard metric needs data from
+ */
+export const analyticsLookbackStart = (filter: DashboardTimeFilter, now: Date = new Date()): Date => {
+  const starts = [
+    resolvePeriodRange(filter, now).previous.start,
+    resolvePeriodRange({ period: 'quarter' }, now).previous.start,
+    resolvePeriodRange({ period: 'year' }, now).previous.start
+  ]
+  return new Date(Math.min(...starts.map(date => date.getTime())))
+}
+
+/**
+ * Compute all dashboard analytics for the selected time filter with
+ * prior-period comparison
+ */
+export const computeDashboardAnalytics = (
+  source: DashboardAnalyticsSource,
+  filter: DashboardTimeFilter,
+  now: Date = new Date()
+): DashboardAnalytics => {
+  const { opportunities, interactions, productPrincipals } = source
+  const { current, previous } = resolvePeriodRange(filter, now)
+  const quarter = resolvePeriodRange({ period: 'quarter' }, now)
+  const year = resolvePeriodRange({ period: 'year' }, now)
+
+  const interactionCount = (range: DashboardDateRange) =>
+    interactions.filter(interaction => isInRange(interaction.interaction_date, range)).length
+
+  return {
+    period: current,
+    previous_period: previous,
+    average_response_time: compare(
+      calculateAverageResponseTime(opportunities, interactions, current),
+      calculateAverageResponseTime(opportunities, interactions, previous)
+    ),
+    product_adoption_rate: compare(
+      calculateProductAdoptionRate(opportunities, productPrincipals, current),
+      calculateProductAdoptionRate(opportunities, productPrincipals, previous)
+    ),
+    new_pipeline_value: compare(
+      calculateNewPipelineValue(opportunities, current),
+      calculateNewPipelineValue(opportunities, previous)
+    ),
+    interaction_count: compare(interactionCount(current), interactionCount(previous)),
+    quarter_over_quarter_growth: calculateChangePercent(
+      calculateNewPipelineValue(opportunities, quarter.current),
+      calculateNewPipelineValue(opportunities, quarter.previous)
+    ),
+    year_over_year_growth: calculateChangePercent(
+      calculateNewPipelineValue(opportunities, year.current),
+      calculateNewPipelineValue(opportunities, year.previous)
+    ),
+    principal_product_distribution: buildPrincipalProductDistribution(opportunities, productPrincipals, current),
+    generated_at: now.toISOString()
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Dashboard Analytics API Service
+ * Loads the interactions, opportunities and product_principals needed for
+ * dashboard metrics and computes them for the selected time filter
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import type {
+  DashboardAnalytics,
+  DashboardTimeFilter,
+  AnalyticsOpportunityRow,
+  AnalyticsInteractionRow,
+  AnalyticsProductPrincipalRow
+} from '@/types/dashboard'
+import { analyticsLookbackStart, computeDashboardAnalytics } from './dashboardAnalytics'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Dashboard analytics API class
+ */
+class DashboardAnalyticsApiService {
+
+  /**
+   * Compute dashboard analytics for a time filter with prior-period comparison
+   */
+  async getDashboardAnalytics(
+    timeFilter: DashboardTimeFilter,
+    now: Date = new Date()
+  ): Promise<ApiResponse<DashboardAnalytics>> {
+    try {
+      const since = analyticsLookbackStart(timeFilter, now).toISOString()
+
+      const [opportunitiesResult, interactionsResult, productPrincipalsResult] = await Promise.all([
+        supabase
+          .from('opportunities')
+          .select('id, created_at, estimated_value, principal_id, product_id, principals:principal_id(name)')
+          .is('deleted_at', null)
+          .gte('created_at', since),
+        supabase
+          .from('interactions')
+          .select('opportunity_id, interaction_date')
+          .is('deleted_at', null)
+          .gte('interaction_date', since),
+        supabase
+          .from('product_principals')
+          .select('product_id, principal_id, principal:principal_id(name)')
+          .eq('is_active', true)
+      ])
+
+      const failed = [opportunitiesResult, interactionsResult, productPrincipalsResult].find(result => result.error)
+      if (failed?.error) {
+        console.error('Error fetching dashboard analytics data:', failed.error)
+        return { data: null, error: failed.error.message, success: false }
+      }
+
+      const opportunities: AnalyticsOpportunityRow[] = (opportunitiesResult.data || []).map((row: any) => ({
+        id: row.id,
+        created_at: row.created_at,
+        estimated_value: row.estimated_value === null ? null : Number(row.estimated_value),
+        principal_id: row.principal_id,
+        product_id: row.product_id,
+        principal_name: row.principals?.name ?? null
+      }))
+
+      const interactions: AnalyticsInteractionRow[] = (interactionsResult.data || []).map((row: any) => ({
+        opportunity_id: row.opportunity_id,
+        interaction_date: row.interaction_date
+      }))
+
+      const productPrincipals: AnalyticsProductPrincipalRow[] = (productPrincipalsResult.data || []).map((row: any) => ({
+        product_id: row.product_id,
+        principal_id: row.principal_id,
+        principal_name: row.principal?.name ?? null
+      }))
+
+      return {
+        data: computeDashboardAnalytics({ opportunities, interactions, productPrincipals }, timeFilter, now),
+        error: null,
+        success: true
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getDashboardAnalytics:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const dashboardAnalyticsApi = new DashboardAnalyticsApiService()
+export default dashboardAnalyticsApi
@@ -0,0 +1,275 @@
+/**
+ * Distributor Rules
+ * Form checks for principal distributors and distributor item authorizations,
+ * grouping of distribution chain rows into distributors with their operators,
+ * and product coverage across distributors
+ */
+
+import type { PrincipalDistributorRelationship } from '@/types/principal'
+import type {
+  CustomerAuthorizationCheck,
+  CustomerDistributorListItem,
+  DistributionChainNode,
+  DistributionChainRow,
+  DistributionChainSummary,
+  DistributorAuthorizationStatus,
+  DistributorCoverageRow,
+  DistributorCoverageSummary,
+  DistributorProduct,
+  DistributorProductFormData,
+  DistributorProductListItem,
+  PrincipalDistributorFormData,
+  PrincipalDistributorStatus,
+  ProductAuthorizationListItem
+} from '@/types/distributors'
+
+/**
+ * Display order of relationships, live ones first
+ */
+const STATUS_ORDER: PrincipalDistributorStatus[] = ['AUTHORIZED', 'PENDING', 'PROSPECT', 'SUSPENDED', 'ENDED']
+
+/**
+ * Display order of coverage rows; distributors never asked sit between the
+ * requests in flight and discontinued items
+ */
+const COVERAGE_ORDER: Array<DistributorAuthorizationStatus | null> = ['AUTHORIZED', 'PENDING', 'REQUESTED', null, 'DISCONTINUED']
+
+// ===============================
+// VALIDATION
+// ===============================
+
+/**
+ * Authorized relationships need their authorization date and ended ones their
+ * end date; a relationship cannot end before it was authorized
+ */
+export const validatePrincipalDistributor = (form: PrincipalDistributorFormData): string[] => {
+  const errors: string[] = []
+
+  if (!form.distributor_id) errors.push('Select a distributor')
+  if (form.status === 'AUTHORIZED' && !form.authorized_on) {
+    errors.push('Enter the date the distributor authorized the line')
+  }
+  if (form.status === 'ENDED' && !form.ended_on) {
+    errors.push('Enter the date the relationship ended')
+  }
+  if (form.authorized_on && form.ended_on && form.ended_on < form.authorized_on) {
+    errors.push('The end date cannot be before the authorization date')
+  }
+
+  return errors
+}
+
+/**
+ * An item code identifies one product within a distributor's catalogue, and
+ * a product has one authorization record per distributor. Authorized items
+ * need their item code and authorization date, discontinued ones their
+ * discontinuation date.
+ */
+export const validateDistributorItemCode = (
+  form: DistributorProductFormData,
+  existing: DistributorProductListItem[],
+  editingId: string | null = null
+): string[] => {
+  const errors: string[] = []
+  const sku = form.distributor_sku.trim().toLowerCase()
+  const others = existing.filter(item => item.id !== editingId)
+
+  if (!form.product_id) errors.push('Select a product')
+  if (form.authorization_status === 'AUTHORIZED') {
+    if (!sku) errors.push('Enter the distributor item code')
+    if (!form.authorized_on) errors.push('Enter the date the item was authorized')
+  }
+  if (form.authorization_status === 'DISCONTINUED' && !form.discontinued_on) {
+    errors.push('Enter the date the item was discontinued')
+  }
+  if (form.requested_on && form.authorized_on && form.authorized_on < form.requested_on) {
+    errors.push('The authorization date cannot be before the request date')
+  }
+  if (form.authorized_on && form.discontinued_on && form.discontinued_on < form.authorized_on) {
+    errors.push('The discontinuation date cannot be before the authorization date')
+  }
+
+  if (form.product_id && others.some(item => item.product_id === form.product_id)) {
+    errors.push('This product already has an item code at this distributor')
+  }
+
+  const duplicate = sku ? others.find(item => item.distributor_sku?.trim().toLowerCase() === sku) : undefined
+  if (duplicate) {
+    errors.push(`Item code ${form.distributor_sku.trim()} is already used for ${duplicate.product_name}`)
+  }
+
+  return errors
+}
+
+// ===============================
+// DISTRIBUTION CHAINS
+// ===============================
+
+/**
+ * Group chain rows by distributor; distributors without operators keep an
+ * empty customer list
+ */
+export const groupDistributionChain = (rows: DistributionChainRow[]): DistributionChainNode[] => {
+  const nodes = new Map<string, DistributionChainNode>()
+
+  for (const row of rows) {
+    if (!row.relationship_id || !row.distributor_id) continue
+
+    let node = nodes.get(row.relationship_id)
+    if (!node) {
+      node = {
+        relationship_id: row.relationship_id,
+        distributor_id: row.distributor_id,
+        distributor_name: row.distributor_name || 'Unknown distributor',
+        distributor_city: row.distributor_city,
+        distributor_state: row.distributor_state,
+        relationship_status: (row.relationship_status || 'PENDING') as PrincipalDistributorStatus,
+        authorized_on: row.authorized_on,
+        customers: []
+      }
+      nodes.set(row.relationship_id, node)
+    }
+
+    if (row.customer_id) {
+      node.customers.push({
+        customer_id: row.customer_id,
+        customer_name: row.customer_name || 'Unknown customer',
+        customer_city: row.customer_city,
+        customer_state: row.customer_state,
+        is_primary_distributor: row.is_primary_distributor ?? false,
+        account_number: row.account_number,
+        has_principal_opportunity: row.has_principal_opportunity ?? false
+      })
+    }
+  }
+
+  const grouped = [...nodes.values()]
+  for (const node of grouped) {
+    node.customers.sort((a, b) => a.customer_name.localeCompare(b.customer_name))
+  }
+
+  return grouped.sort((a, b) =>
+    STATUS_ORDER.indexOf(a.relationship_status) - STATUS_ORDER.indexOf(b.relationship_status) ||
+    a.distributor_name.localeCompare(b.distributor_name)
+  )
+}
+
+/**
+ * Operators reachable through several distributors count once, and only
+ * count as untapped when they have no opportunity for the principal
+ */
+export const summarizeDistributionChain = (nodes: DistributionChainNode[]): DistributionChainSummary => {
+  const customers = new Map<string, boolean>()
+
+  for (const node of nodes) {
+    for (const customer of node.customers) {
+      customers.set(customer.customer_id, customers.get(customer.customer_id) || customer.has_principal_opportunity)
+    }
+  }
+
+  return {
+    distributorCount: nodes.length,
+    authorizedCount: nodes.filter(node => node.relationship_status === 'AUTHORIZED').length,
+    customerCount: customers.size,
+    untappedCustomerCount: [...customers.values()].filter(hasOpportunity => !hasOpportunity).length
+  }
+}
+
+// ===============================
+// PRODUCT COVERAGE
+// ===============================
+
+/**
+ * One row per distributor that carries a principal of the product or holds
+ * an authorization record for it
+ */
+export const buildDistributorCoverage = (
+  relationships: PrincipalDistributorRelationship[],
+  authorizations: ProductAuthorizationListItem[]
+): DistributorCoverageRow[] => {
+  const rows = new Map<string, DistributorCoverageRow>()
+
+  for (const relationship of relationships) {
+    if (!relationship.relationship_id || !relationship.distributor_id) continue
+
+    let row = rows.get(relationship.distributor_id)
+    if (!row) {
+      row = {
+        distributor_id: relationship.distributor_id,
+        distributor_name: relationship.distributor_name || 'Unknown distributor',
+        distributor_city: relationship.distributor_city,
+        distributor_state: relationship.distributor_state,
+        principals: [],
+        authorization: null
+      }
+      rows.set(relationship.distributor_id, row)
+    }
+
+    row.principals.push({
+      principal_id: relationship.principal_id,
+      principal_name: relationship.principal_name,
+      status: relationship.relationship_status || 'PENDING'
+    })
+  }
+
+  for (const authorization of authorizations) {
+    const row = rows.get(authorization.distributor_id)
+    if (row) {
+      row.authorization = authorization
+    } else {
+      rows.set(authorization.distributor_id, {
+        distributor_id: authorization.distributor_id,
+        distributor_name: authorization.distributor_name,
+        distributor_city: authorization.distributor_city,
+        distributor_state: authorization.distributor_state,
+        principals: [],
+        authorization
+      })
+    }
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    COVERAGE_ORDER.indexOf(a.authorization?.authorization_status ?? null) -
+      COVERAGE_ORDER.indexOf(b.authorization?.authorization_status ?? null) ||
+    a.distributor_name.localeCompare(b.distributor_name)
+  )
+}
+
+export const summarizeDistributorCoverage = (rows: DistributorCoverageRow[]): DistributorCoverageSummary => {
+  const countStatus = (...statuses: DistributorAuthorizationStatus[]) =>
+    rows.filter(row => row.authorization && statuses.includes(row.authorization.authorization_status)).length
+
+  return {
+    distributorCount: rows.length,
+    authorizedCount: countStatus('AUTHORIZED'),
+    inProgressCount: countStatus('REQUESTED', 'PENDING'),
+    notRequestedCount: rows.filter(row => !row.authorization).length,
+    discontinuedCount: countStatus('DISCONTINUED')
+  }
+}
+
+/**
+ * A product can be bought when it is authorized at any distributor the
+ * operator buys through; otherwise report the primary distributor's status
+ */
+export const checkCustomerAuthorization = (
+  links: CustomerDistributorListItem[],
+  authorizations: Array<Pick<DistributorProduct, 'distributor_id' | 'authorization_status'>>
+): CustomerAuthorizationCheck => {
+  if (links.length === 0) return { status: 'no_distributor' }
+
+  const statusAt = (distributorId: string) =>
+    authorizations.find(authorization => authorization.distributor_id === distributorId)?.authorization_status ?? null
+
+  const authorizedLink = links.find(link => statusAt(link.distributor_id) === 'AUTHORIZED')
+  if (authorizedLink) {
+    return { status: 'authorized', distributorName: authorizedLink.distributor_name }
+  }
+
+  const primary = links.find(link => link.is_primary) || links[0]
+  return {
+    status: 'not_authorized',
+    distributorName: primary.distributor_name,
+    authorizationStatus: statusAt(primary.distributor_id)
+  }
+}
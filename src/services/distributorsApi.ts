@@ -0,0 +1,620 @@
+/**
+ * Distributors API Service
+ * Principal distributor relationships, product authorizations and item codes
+ * at each distributor, the distributors operators buy through, the
+ * principal's distribution chain and a product's distributor coverage
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { buildDistributorCoverage, groupDistributionChain } from '@/services/distributorRules'
+import type { PrincipalDistributorRelationship } from '@/types/principal'
+import type {
+  CustomerDistributor,
+  CustomerDistributorFormData,
+  CustomerDistributorListItem,
+  DistributionChainNode,
+  DistributionChainRow,
+  DistributorCoverageRow,
+  DistributorProduct,
+  DistributorProductFormData,
+  DistributorProductListItem,
+  PrincipalDistributor,
+  PrincipalDistributorFormData,
+  ProductAuthorizationListItem
+} from '@/types/distributors'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Organization option for distributor and product pickers
+ */
+export interface DistributorOption {
+  id: string
+  name: string
+  city: string | null
+  state_province: string | null
+}
+
+export interface PrincipalProductOption {
+  id: string
+  name: string
+  sku: string | null
+}
+
+/**
+ * Distributor document offered as authorization evidence
+ */
+export interface EvidenceDocumentOption {
+  id: string
+  name: string
+}
+
+/**
+ * Distributors API class
+ */
+class DistributorsApiService {
+
+  // ===============================
+  // PRINCIPAL DISTRIBUTORS
+  // ===============================
+
+  /**
+   * Distributors carrying a principal, with item code and operator counts; a
+   * principal without distributors has a single DIRECT row
+   */
+  async getPrincipalDistributors(principalId: string): Promise<ApiResponse<PrincipalDistributorRelationship[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('principal_distributor_relationships')
+        .select('*')
+        .eq('principal_id', principalId)
+        .order('distributor_name', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching principal distributors:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: (data || []) as PrincipalDistributorRelationship[], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getPrincipalDistributors:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Principal -> distributor -> operator chain, grouped by distributor
+   */
+  async getDistributionChain(principalId: string): Promise<ApiResponse<DistributionChainNode[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('principal_distribution_chains')
+        .select('*')
+        .eq('principal_id', principalId)
+
+      if (error) {
+        console.error('Error fetching distribution chain:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: groupDistributionChain((data || []) as DistributionChainRow[]), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getDistributionChain:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Add a distributor to a principal, or update the relationship when id is given
+   */
+  async savePrincipalDistributor(
+    principalId: string,
+    form: PrincipalDistributorFormData,
+    id: string | null = null
+  ): Promise<ApiResponse<PrincipalDistributor>> {
+    try {
+      const row = {
+        distributor_id: form.distributor_id,
+        status: form.status,
+        authorized_on: form.authorized_on || null,
+        ended_on: form.ended_on || null,
+        territory_notes: form.territory_notes.trim() || null,
+        notes: form.notes.trim() || null
+      }
+
+      const { data, error } = id
+        ? await supabase
+          .from('principal_distributors')
+          .update(row)
+          .eq('id', id)
+          .select()
+          .single()
+        : await supabase
+          .from('principal_distributors')
+          .insert({ ...row, principal_id: principalId })
+          .select()
+          .single()
+
+      if (error) {
+        console.error('Error saving principal distributor:', error)
+        return {
+          data: null,
+          error: error.code === '23505' ? 'This distributor already carries the principal' : error.message,
+          success: false
+        }
+      }
+
+      return { data: data as PrincipalDistributor, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in savePrincipalDistributor:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async removePrincipalDistributor(id: string): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('principal_distributors')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error removing principal distributor:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in removePrincipalDistributor:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // DISTRIBUTOR ITEM AUTHORIZATIONS
+  // ===============================
+
+  /**
+   * Authorizations and item codes a distributor holds for the principal's products
+   */
+  async getDistributorProducts(distributorId: string, principalId: string): Promise<ApiResponse<DistributorProductListItem[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('distributor_products')
+        .select(`
+          *,
+          products!inner(name, sku, product_principals!inner(principal_id)),
+          evidence:organization_documents!distributor_products_evidence_document_id_fkey(name)
+        `)
+        .eq('distributor_id', distributorId)
+        .eq('products.product_principals.principal_id', principalId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching distributor item codes:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const items: DistributorProductListItem[] = (data || []).map((item: any) => {
+        const { products, evidence, ...code } = item
+        return {
+          ...code,
+          product_name: products?.name || 'Unknown product',
+          product_sku: products?.sku || null,
+          evidence_document_name: evidence?.name || null
+        } as DistributorProductListItem
+      })
+
+      return { data: items.sort((a, b) => a.product_name.localeCompare(b.product_name)), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getDistributorProducts:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async saveDistributorProduct(
+    distributorId: string,
+    form: DistributorProductFormData,
+    id: string | null = null
+  ): Promise<ApiResponse<DistributorProduct>> {
+    try {
+      const row = {
+        product_id: form.product_id,
+        authorization_status: form.authorization_status,
+        distributor_sku: form.distributor_sku.trim() || null,
+        pack_description: form.pack_description.trim() || null,
+        requested_on: form.requested_on || null,
+        authorized_on: form.authorized_on || null,
+        discontinued_on: form.discontinued_on || null,
+        evidence_document_id: form.evidence_document_id || null,
+        notes: form.notes.trim() || null
+      }
+
+      const { data, error } = id
+        ? await supabase
+          .from('distributor_products')
+          .update(row)
+          .eq('id', id)
+          .select()
+          .single()
+        : await supabase
+          .from('distributor_products')
+          .insert({ ...row, distributor_id: distributorId })
+          .select()
+          .single()
+
+      if (error) {
+        console.error('Error saving distributor item code:', error)
+        return {
+          data: null,
+          error: error.code === '23505' ? 'This item code or product is already listed for the distributor' : error.message,
+          success: false
+        }
+      }
+
+      return { data: data as DistributorProduct, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in saveDistributorProduct:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async removeDistributorProduct(id: string): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('distributor_products')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error removing distributor item code:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in removeDistributorProduct:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * A product's authorization at every distributor holding a record for it
+   */
+  async getProductAuthorizations(productId: string): Promise<ApiResponse<ProductAuthorizationListItem[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('distributor_products')
+        .select(`
+          *,
+          distributor:organizations!distributor_products_distributor_id_fkey(name, city, state_province),
+          evidence:organization_documents!distributor_products_evidence_document_id_fkey(name)
+        `)
+        .eq('product_id', productId)
+
+      if (error) {
+        console.error('Error fetching product authorizations:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const authorizations = (data || []).map((item: any) => {
+        const { distributor, evidence, ...row } = item
+        return {
+          ...row,
+          distributor_name: distributor?.name || 'Unknown distributor',
+          distributor_city: distributor?.city || null,
+          distributor_state: distributor?.state_province || null,
+          evidence_document_name: evidence?.name || null
+        } as ProductAuthorizationListItem
+      })
+
+      return { data: authorizations, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getProductAuthorizations:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Coverage matrix of a product: the distributors carrying its principals
+   * and those holding an authorization record for it
+   */
+  async getProductCoverage(productId: string): Promise<ApiResponse<DistributorCoverageRow[]>> {
+    try {
+      const { data: principalRows, error: principalError } = await supabase
+        .from('product_principals')
+        .select('principal_id')
+        .eq('product_id', productId)
+        .eq('is_active', true)
+
+      if (principalError) {
+        console.error('Error fetching product principals:', principalError)
+        return { data: null, error: principalError.message, success: false }
+      }
+
+      const principalIds = ((principalRows || []) as Array<{ principal_id: string }>).map(row => row.principal_id)
+      let relationships: PrincipalDistributorRelationship[] = []
+
+      if (principalIds.length > 0) {
+        const { data, error } = await supabase
+          .from('principal_distributor_relationships')
+          .select('*')
+          .in('principal_id', principalIds)
+          .not('relationship_id', 'is', null)
+
+        if (error) {
+          console.error('Error fetching product distributors:', error)
+          return { data: null, error: error.message, success: false }
+        }
+
+        relationships = (data || []) as PrincipalDistributorRelationship[]
+      }
+
+      const authorizations = await this.getProductAuthorizations(productId)
+      if (!authorizations.success) {
+        return { data: null, error: authorizations.error, success: false }
+      }
+
+      return {
+        data: buildDistributorCoverage(relationships, authorizations.data || []),
+        error: null,
+        success: true
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getProductCoverage:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // CUSTOMER DISTRIBUTORS
+  // ===============================
+
+  /**
+   * Distributors an operator buys through, primary first
+   */
+  async getCustomerDistributors(customerId: string): Promise<ApiResponse<CustomerDistributorListItem[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('customer_distributors')
+        .select('*, distributor:organizations!customer_distributors_distributor_id_fkey(name, city, state_province)')
+        .eq('customer_id', customerId)
+        .order('is_primary', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching customer distributors:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const links = (data || []).map((link: any) => {
+        const { distributor, ...row } = link
+        return {
+          ...row,
+          distributor_name: distributor?.name || 'Unknown distributor',
+          distributor_city: distributor?.city || null,
+          distributor_state: distributor?.state_province || null
+        } as CustomerDistributorListItem
+      })
+
+      return { data: links, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getCustomerDistributors:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Save a "buys through" link; marking it primary unmarks the operator's
+   * previous primary distributor
+   */
+  async saveCustomerDistributor(
+    customerId: string,
+    form: CustomerDistributorFormData,
+    id: string | null = null
+  ): Promise<ApiResponse<CustomerDistributor>> {
+    try {
+      if (form.is_primary) {
+        let clearQuery = supabase
+          .from('customer_distributors')
+          .update({ is_primary: false })
+          .eq('customer_id', customerId)
+          .eq('is_primary', true)
+
+        if (id) clearQuery = clearQuery.neq('id', id)
+
+        const { error: clearError } = await clearQuery
+        if (clearError) {
+          console.error('Error clearing primary distributor:', clearError)
+          return { data: null, error: clearError.message, success: false }
+        }
+      }
+
+      const row = {
+        distributor_id: form.distributor_id,
+        is_primary: form.is_primary,
+        account_number: form.account_number.trim() || null,
+        notes: form.notes.trim() || null
+      }
+
+      const { data, error } = id
+        ? await supabase
+          .from('customer_distributors')
+          .update(row)
+          .eq('id', id)
+          .select()
+          .single()
+        : await supabase
+          .from('customer_distributors')
+          .insert({ ...row, customer_id: customerId })
+          .select()
+          .single()
+
+      if (error) {
+        console.error('Error saving customer distributor:', error)
+        return {
+          data: null,
+          error: error.code === '23505' ? 'The organization already buys through this distributor' : error.message,
+          success: false
+        }
+      }
+
+      return { data, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in saveCustomerDistributor:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async removeCustomerDistributor(id: string): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('customer_distributors')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error removing customer distributor:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in removeCustomerDistributor:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // OPTIONS
+  // ===============================
+
+  async getDistributorOptions(): Promise<ApiResponse<DistributorOption[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('id, name, city, state_province')
+        .eq('is_distributor', true)
+        .is('deleted_at', null)
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching distributors:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data || [], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getDistributorOptions:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Products the principal actively supplies
+   */
+  async getPrincipalProductOptions(principalId: string): Promise<ApiResponse<PrincipalProductOption[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('product_principals')
+        .select('product:products(id, name, sku)')
+        .eq('principal_id', principalId)
+        .eq('is_active', true)
+
+      if (error) {
+        console.error('Error fetching principal products:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const products = ((data || []) as any[])
+        .map(row => row.product as PrincipalProductOption | null)
+        .filter((product): product is PrincipalProductOption => product !== null)
+        .sort((a, b) => a.name.localeCompare(b.name))
+
+      return { data: products, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getPrincipalProductOptions:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const distributorsApi = new DistributorsApiService()
+export default distributorsApi
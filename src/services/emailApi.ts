@@ -0,0 +1,263 @@
+/**
+ * Email API Service
+ * Email templates, compose context for contact and opportunity pages, and
+ * sending through the configured mail transport with the sent email logged
+ * as an Email interaction
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { interactionsApi } from './interactionsApi'
+import { getMailTransport } from './mailTransport'
+import type { Interaction } from '@/types/interactions'
+import type {
+  EmailComposeContext,
+  EmailTemplate,
+  EmailTemplateFormData,
+  OutgoingEmail
+} from '@/types/email'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Email API class
+ */
+class EmailApiService {
+
+  // ===============================
+  // TEMPLATES
+  // ===============================
+
+  /**
+   * Get templates ordered by name, optionally only active ones
+   */
+  async getTemplates(activeOnly: boolean = false): Promise<ApiResponse<EmailTemplate[]>> {
+    try {
+      let query = supabase
+        .from('email_templates')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (activeOnly) {
+        query = query.eq('is_active', true)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching email templates:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data || [], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getTemplates:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async createTemplate(form: EmailTemplateFormData): Promise<ApiResponse<EmailTemplate>> {
+    try {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .insert({ ...form, name: form.name.trim() })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating email template:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in createTemplate:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async updateTemplate(id: string, form: EmailTemplateFormData): Promise<ApiResponse<EmailTemplate>> {
+    try {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .update({ ...form, name: form.name.trim() })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating email template:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in updateTemplate:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('email_templates')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting email template:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in deleteTemplate:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // COMPOSE
+  // ===============================
+
+  /**
+   * Contacts and opportunities of the organization behind a contact or an
+   * opportunity page
+   */
+  async getComposeContext(source: { contactId?: string; opportunityId?: string }): Promise<ApiResponse<EmailComposeContext>> {
+    try {
+      const lookup = source.contactId
+        ? await supabase.from('contacts').select('organization_id').eq('id', source.contactId).single()
+        : await supabase.from('opportunities').select('organization_id').eq('id', source.opportunityId || '').single()
+
+      if (lookup.error) {
+        console.error('Error fetching email compose record:', lookup.error)
+        return { data: null, error: lookup.error.message, success: false }
+      }
+
+      const organizationId: string = lookup.data.organization_id
+      const [organizationResult, contactsResult, opportunitiesResult] = await Promise.all([
+        supabase.from('organizations').select('name').eq('id', organizationId).single(),
+        supabase
+          .from('contacts')
+          .select('id, first_name, last_name, email')
+          .eq('organization_id', organizationId)
+          .order('last_name', { ascending: true }),
+        supabase
+          .from('opportunities')
+          .select('id, name, principals:principal_id(name), products:product_id(name)')
+          .eq('organization_id', organizationId)
+          .is('deleted_at', null)
+          .order('updated_at', { ascending: false })
+      ])
+
+      const error = organizationResult.error || contactsResult.error || opportunitiesResult.error
+      if (error) {
+        console.error('Error fetching email compose context:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return {
+        data: {
+          organization_id: organizationId,
+          organization_name: organizationResult.data?.name || '',
+          contacts: contactsResult.data || [],
+          opportunities: (opportunitiesResult.data || []).map((opportunity: any) => ({
+            id: opportunity.id,
+            name: opportunity.name,
+            principal_name: opportunity.principals?.name || null,
+            product_name: opportunity.products?.name || null
+          }))
+        },
+        error: null,
+        success: true
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getComposeContext:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Send through the mail transport, then log an Email interaction on the
+   * opportunity. A failed send logs nothing. Transports that only open the
+   * user's email app log it as scheduled, to be completed once sent.
+   */
+  async sendEmail(
+    email: OutgoingEmail,
+    log: { opportunityId: string; participants: string[] }
+  ): Promise<ApiResponse<Interaction>> {
+    const transport = getMailTransport()
+    try {
+      await transport.send(email)
+    } catch (error) {
+      console.error('Error sending email:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Failed to send email',
+        success: false
+      }
+    }
+
+    const recipients = [
+      `To: ${email.to.join(', ')}`,
+      ...(email.cc.length > 0 ? [`Cc: ${email.cc.join(', ')}`] : [])
+    ]
+
+    const response = await interactionsApi.createInteraction({
+      type: 'Email',
+      subject: email.subject,
+      interaction_date: new Date().toISOString(),
+      opportunity_id: log.opportunityId,
+      status: transport.delivers ? 'COMPLETED' : 'SCHEDULED',
+      notes: `${recipients.join('\n')}\n\n${email.body}`,
+      contact_method: 'Email',
+      participants: log.participants
+    })
+
+    if (!response.success || !response.data) {
+      return {
+        data: null,
+        error: `Email sent, but logging the interaction failed: ${response.error || 'Unknown error'}`,
+        success: false
+      }
+    }
+
+    return { data: response.data, error: null, success: true }
+  }
+}
+
+// Export singleton instance
+export const emailApi = new EmailApiService()
+export default emailApi
@@ -0,0 +1,112 @@
+/**
+ * Email Template Rules
+ * Merge variable rendering, template validation and address parsing for
+ * the email compose panel
+ */
+
+import type {
+  EmailMergeField,
+  EmailMergeValues,
+  EmailOpportunity,
+  EmailRecipient,
+  EmailTemplateFormData,
+  OutgoingEmail,
+  RenderedEmailText
+} from '@/types/email'
+import { EMAIL_MERGE_FIELDS } from '@/types/email'
+
+const MERGE_VARIABLE_PATTERN = /\{\{\s*([a-z_]+\.[a-z_]+)\s*\}\}/g
+
+const EMAIL_ADDRESS_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/
+
+export const isMergeField = (value: string): value is EmailMergeField => {
+  return EMAIL_MERGE_FIELDS.some(field => field.value === value)
+}
+
+/**
+ * Fill in {{variables}}. Known variables without a value become empty and
+ * are reported as missing; unknown variables are left as written.
+ */
+export const renderEmailTemplate = (text: string, values: EmailMergeValues): RenderedEmailText => {
+  const missing = new Set<EmailMergeField>()
+
+  const rendered = text.replace(MERGE_VARIABLE_PATTERN, (match, name: string) => {
+    if (!isMergeField(name)) return match
+
+    const value = values[name]?.trim()
+    if (!value) missing.add(name)
+    return value || ''
+  })
+
+  return { text: rendered, missing: [...missing] }
+}
+
+/**
+ * Variables in the text that are not merge fields, e.g. typos
+ */
+export const findUnknownVariables = (text: string): string[] => {
+  const unknown = new Set<string>()
+  for (const match of text.matchAll(MERGE_VARIABLE_PATTERN)) {
+    if (!isMergeField(match[1])) unknown.add(match[1])
+  }
+  return [...unknown]
+}
+
+export const buildMergeValues = (options: {
+  contact: EmailRecipient | null
+  organizationName: string | null
+  opportunity: EmailOpportunity | null
+  senderName: string | null
+}): EmailMergeValues => {
+  const { contact, opportunity } = options
+  return {
+    'contact.first_name': contact?.first_name ?? null,
+    'contact.last_name': contact?.last_name ?? null,
+    'contact.full_name': contact ? `${contact.first_name} ${contact.last_name}`.trim() : null,
+    'organization.name': options.organizationName,
+    'opportunity.name': opportunity?.name ?? null,
+    'principal.name': opportunity?.principal_name ?? null,
+    'product.name': opportunity?.product_name ?? null,
+    'sender.name': options.senderName
+  }
+}
+
+export const validateEmailTemplate = (form: EmailTemplateFormData, otherNames: string[] = []): string[] => {
+  const errors: string[] = []
+  const name = form.name.trim()
+
+  if (!name) {
+    errors.push('Name is required')
+  } else if (otherNames.some(other => other.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push(`A template named "${name}" already exists`)
+  }
+  if (!form.subject.trim()) errors.push('Subject is required')
+
+  const unknown = findUnknownVariables(`${form.subject}\n${form.body}`)
+  if (unknown.length > 0) {
+    errors.push(`Unknown variables: ${unknown.map(variable => `{{${variable}}}`).join(', ')}`)
+  }
+
+  return errors
+}
+
+/**
+ * Split a comma or semicolon separated address list
+ */
+export const parseEmailAddresses = (input: string): { addresses: string[]; invalid: string[] } => {
+  const entries = input.split(/[,;]/).map(entry => entry.trim()).filter(Boolean)
+  return {
+    addresses: entries.filter(entry => EMAIL_ADDRESS_PATTERN.test(entry)),
+    invalid: entries.filter(entry => !EMAIL_ADDRESS_PATTERN.test(entry))
+  }
+}
+
+export const validateOutgoingEmail = (email: Pick<OutgoingEmail, 'to' | 'subject'>, invalidAddresses: string[] = []): string[] => {
+  const errors: string[] = []
+
+  if (email.to.length === 0) errors.push('Add at least one recipient')
+  if (invalidAddresses.length > 0) errors.push(`Invalid email addresses: ${invalidAddresses.join(', ')}`)
+  if (!email.subject.trim()) errors.push('Subject is required')
+
+  return errors
+}
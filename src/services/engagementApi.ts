@@ -0,0 +1,251 @@
+/**
+ * Engagement API Service
+ * Engagement score models (the default and per-principal overrides), score
+ * previews and the recorded daily score history
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import type {
+  EngagementModelFormData,
+  EngagementScoreBreakdown,
+  EngagementScoreModel,
+  PrincipalEngagementModels,
+  PrincipalEngagementScore
+} from '@/types/engagement'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Engagement API class
+ */
+class EngagementApiService {
+
+  // ===============================
+  // MODELS
+  // ===============================
+
+  /**
+   * The principal's own model, if any, and the default model
+   */
+  async getModels(principalId: string): Promise<ApiResponse<PrincipalEngagementModels>> {
+    try {
+      const { data, error } = await supabase
+        .from('engagement_score_models')
+        .select('*')
+        .or(`principal_id.eq.${principalId},principal_id.is.null`)
+
+      if (error) {
+        console.error('Error fetching engagement score models:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const models = (data || []) as EngagementScoreModel[]
+      return {
+        data: {
+          principalModel: models.find(model => model.principal_id === principalId) || null,
+          defaultModel: models.find(model => model.principal_id === null) || null
+        },
+        error: null,
+        success: true
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getModels:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Save a principal's model, or the default model when principalId is null,
+   * and record today's score under it
+   */
+  async saveModel(principalId: string | null, form: EngagementModelFormData): Promise<ApiResponse<EngagementScoreModel>> {
+    try {
+      let existingQuery = supabase
+        .from('engagement_score_models')
+        .select('id')
+        .limit(1)
+
+      existingQuery = principalId
+        ? existingQuery.eq('principal_id', principalId)
+        : existingQuery.is('principal_id', null)
+
+      const { data: existing, error: existingError } = await existingQuery
+      if (existingError) {
+        console.error('Error fetching engagement score model:', existingError)
+        return { data: null, error: existingError.message, success: false }
+      }
+
+      const row = this.toModelRow(form)
+      const existingId = existing?.[0]?.id
+      const { data, error } = existingId
+        ? await supabase
+          .from('engagement_score_models')
+          .update(row)
+          .eq('id', existingId)
+          .select()
+          .single()
+        : await supabase
+          .from('engagement_score_models')
+          .insert({ ...row, principal_id: principalId })
+          .select()
+          .single()
+
+      if (error) {
+        console.error('Error saving engagement score model:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      await this.recordScores(principalId)
+      return { data: data as EngagementScoreModel, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in saveModel:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Remove a principal's own model so it uses the default again
+   */
+  async resetModel(principalId: string): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('engagement_score_models')
+        .delete()
+        .eq('principal_id', principalId)
+
+      if (error) {
+        console.error('Error resetting engagement score model:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      await this.recordScores(principalId)
+      return { data: null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in resetModel:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // SCORES
+  // ===============================
+
+  /**
+   * Score a principal with unsaved model settings. The score counts every
+   * opportunity, like the stored scores, not only those the user can see.
+   */
+  async previewScore(principalId: string, form: EngagementModelFormData): Promise<ApiResponse<EngagementScoreBreakdown>> {
+    try {
+      const { data, error } = await supabase.rpc('compute_principal_engagement_score', {
+        p_principal_id: principalId,
+        p_model: this.toModelRow(form)
+      })
+
+      if (error) {
+        console.error('Error previewing engagement score:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data?.[0] || null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in previewScore:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Recorded daily scores for the last number of days, oldest first
+   */
+  async getScoreHistory(principalId: string, days = 90): Promise<ApiResponse<PrincipalEngagementScore[]>> {
+    try {
+      const since = new Date()
+      since.setDate(since.getDate() - days)
+
+      const { data, error } = await supabase
+        .from('principal_engagement_scores')
+        .select('*')
+        .eq('principal_id', principalId)
+        .gte('score_date', since.toISOString().split('T')[0])
+        .order('score_date', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching engagement score history:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data || [], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getScoreHistory:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Record today's score for a principal, or for all principals when null.
+   * The summary view refreshes on its own after a model change.
+   */
+  private async recordScores(principalId: string | null): Promise<void> {
+    const { error } = await supabase.rpc('record_principal_engagement_scores', {
+      p_principal_id: principalId
+    })
+
+    if (error) {
+      console.error('Error recording engagement scores:', error)
+    }
+  }
+
+  private toModelRow(form: EngagementModelFormData) {
+    return {
+      interaction_weight: Number(form.interaction_weight),
+      opportunity_weight: Number(form.opportunity_weight),
+      product_weight: Number(form.product_weight),
+      recency_weight: Number(form.recency_weight),
+      interaction_target: Number(form.interaction_target),
+      opportunity_target: Number(form.opportunity_target),
+      product_target: Number(form.product_target),
+      recency_window_days: Math.round(Number(form.recency_window_days)),
+      half_life_days: form.half_life_days === null ? null : Math.round(Number(form.half_life_days)),
+      counted_outcomes: form.counted_outcomes,
+      count_without_outcome: form.count_without_outcome,
+      type_weights: Object.fromEntries(
+        Object.entries(form.type_weights).filter(([, weight]) => weight !== undefined && Number(weight) !== 1)
+      )
+    }
+  }
+}
+
+// Export singleton instance
+export const engagementApi = new EngagementApiService()
+export default engagementApi
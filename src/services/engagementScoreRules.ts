@@ -0,0 +1,121 @@
+/**
+ * Engagement Score Rules
+ * Validation for engagement score models and shaping of the recorded score
+ * history for the engagement trend charts. Scores themselves are computed by
+ * compute_principal_engagement_score in the database.
+ */
+
+import type {
+  EngagementComponent,
+  EngagementModelFormData,
+  EngagementScoreModel,
+  PrincipalEngagementScore
+} from '@/types/engagement'
+import { DEFAULT_ENGAGEMENT_MODEL, ENGAGEMENT_COMPONENTS } from '@/types/engagement'
+
+/**
+ * Point plotted by EngagementTrendChart
+ */
+export interface EngagementTrendPoint {
+  date: string
+  engagement_score: number
+  activity_type: string
+  principal_name: string
+}
+
+export const engagementWeightTotal = (form: EngagementModelFormData): number => {
+  return Number(form.interaction_weight) + Number(form.opportunity_weight) +
+    Number(form.product_weight) + Number(form.recency_weight)
+}
+
+export const validateEngagementModel = (form: EngagementModelFormData): string[] => {
+  const errors: string[] = []
+
+  const weights = [form.interaction_weight, form.opportunity_weight, form.product_weight, form.recency_weight]
+  if (weights.some(weight => !Number.isFinite(Number(weight)) || Number(weight) < 0)) {
+    errors.push('Weights cannot be negative')
+  } else if (Math.abs(engagementWeightTotal(form) - 100) > 0.001) {
+    errors.push(`Weights must total 100 (currently ${engagementWeightTotal(form)})`)
+  }
+
+  const targets = [form.interaction_target, form.opportunity_target, form.product_target, form.recency_window_days]
+  if (targets.some(target => !(Number(target) > 0))) {
+    errors.push('Targets must be greater than zero')
+  }
+
+  if (form.half_life_days !== null && !(Number(form.half_life_days) > 0)) {
+    errors.push('Half-life must be at least one day, or empty for no decay')
+  }
+
+  if (form.counted_outcomes.length === 0 && !form.count_without_outcome) {
+    errors.push('Count at least one interaction outcome')
+  }
+
+  if (Object.values(form.type_weights).some(weight => !(Number(weight) >= 0))) {
+    errors.push('Interaction type weights cannot be negative')
+  }
+
+  return errors
+}
+
+/**
+ * Form values for a stored model, or the seeded defaults when there is none
+ */
+export const engagementModelToForm = (model: EngagementScoreModel | null): EngagementModelFormData => {
+  if (!model) {
+    return { ...DEFAULT_ENGAGEMENT_MODEL, counted_outcomes: [...DEFAULT_ENGAGEMENT_MODEL.counted_outcomes], type_weights: {} }
+  }
+
+  return {
+    interaction_weight: Number(model.interaction_weight),
+    opportunity_weight: Number(model.opportunity_weight),
+    product_weight: Number(model.product_weight),
+    recency_weight: Number(model.recency_weight),
+    interaction_target: Number(model.interaction_target),
+    opportunity_target: Number(model.opportunity_target),
+    product_target: Number(model.product_target),
+    recency_window_days: model.recency_window_days,
+    half_life_days: model.half_life_days,
+    counted_outcomes: [...model.counted_outcomes],
+    count_without_outcome: model.count_without_outcome,
+    type_weights: { ...model.type_weights }
+  }
+}
+
+const componentScore = (row: PrincipalEngagementScore, component: EngagementComponent): number => {
+  return Number(row[`${component}_score` as const])
+}
+
+/**
+ * Chart points from the score history, oldest first. Each point names the
+ * component that moved the score most since the previous day.
+ */
+export const engagementTrendPoints = (
+  history: PrincipalEngagementScore[],
+  principalName: string
+): EngagementTrendPoint[] => {
+  const sorted = [...history].sort((a, b) => a.score_date.localeCompare(b.score_date))
+
+  return sorted.map((row, index) => {
+    const previous = sorted[index - 1]
+    let activity = 'Recorded'
+
+    if (previous) {
+      const changes = ENGAGEMENT_COMPONENTS.map(component => ({
+        label: component.label,
+        delta: componentScore(row, component.value) - componentScore(previous, component.value)
+      }))
+      const largest = changes.reduce((best, change) => Math.abs(change.delta) > Math.abs(best.delta) ? change : best)
+      activity = largest.delta === 0
+        ? 'No change'
+        : `${largest.label} ${largest.delta > 0 ? '+' : ''}${Math.round(largest.delta * 10) / 10}`
+    }
+
+    return {
+      date: row.score_date,
+      engagement_score: Number(row.score),
+      activity_type: activity,
+      principal_name: principalName
+    }
+  })
+}
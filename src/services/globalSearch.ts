@@ -0,0 +1,127 @@
+/**
+ * Global Search Helpers
+ * Query parsing, ranking and grouping for search results across entity types,
+ * plus recent-search list handling
+ */
+
+import type {
+  ParsedSearchQuery,
+  SearchEntityType,
+  SearchResult,
+  SearchResultGroup,
+  SearchRow
+} from '@/types/search'
+import {
+  MAX_RECENT_SEARCHES,
+  SEARCH_ENTITY_OPTIONS,
+  SEARCH_ENTITY_TYPES,
+  getSearchEntityLabel,
+  getSearchResultUrl
+} from '@/types/search'
+
+const FILTER_PREFIX_PATTERN = /^\s*([a-z]+):\s*(.*)$/i
+
+/**
+ * Split a search input into its term and optional type filter.
+ * Unknown prefixes (e.g. "re: pricing") are searched as plain text.
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const match = input.match(FILTER_PREFIX_PATTERN)
+
+  if (match) {
+    const prefix = match[1].toLowerCase()
+    const option = SEARCH_ENTITY_OPTIONS.find(option => option.prefixes.includes(prefix))
+    if (option) {
+      return {
+        term: match[2].trim(),
+        types: [option.value],
+        skuOnly: prefix === 'sku'
+      }
+    }
+  }
+
+  return { term: input.trim(), types: [...SEARCH_ENTITY_TYPES], skuOnly: false }
+}
+
+const isSearchEntityType = (value: string): value is SearchEntityType => {
+  return (SEARCH_ENTITY_TYPES as string[]).includes(value)
+}
+
+/**
+ * Convert search_crm rows into results, dropping unknown entity types
+ */
+export const toSearchResults = (rows: SearchRow[]): SearchResult[] => {
+  return rows.flatMap(row => {
+    if (!isSearchEntityType(row.entity_type)) return []
+    return [{
+      id: row.entity_id,
+      type: row.entity_type,
+      title: row.title,
+      subtitle: row.subtitle ?? '',
+      url: getSearchResultUrl(row.entity_type, row.entity_id),
+      score: Number(row.score) || 0
+    }]
+  })
+}
+
+/**
+ * Relevance of a result: trigram similarity plus a boost for exact,
+ * prefix and substring title matches
+ */
+export const scoreSearchResult = (result: SearchResult, term: string): number => {
+  const title = result.title.toLowerCase()
+  const needle = term.trim().toLowerCase()
+  let boost = 0
+
+  if (needle) {
+    if (title === needle) boost = 1
+    else if (title.startsWith(needle)) boost = 0.5
+    else if (title.includes(needle)) boost = 0.25
+  }
+
+  return result.score + boost
+}
+
+/**
+ * Order results from every entity type by relevance, then title
+ */
+export const rankSearchResults = (results: SearchResult[], term: string): SearchResult[] => {
+  return results
+    .map(result => ({ result, rank: scoreSearchResult(result, term) }))
+    .sort((a, b) => b.rank - a.rank || a.result.title.localeCompare(b.result.title))
+    .map(({ result }) => result)
+}
+
+/**
+ * Group ranked results by entity type. Groups keep the order of their best
+ * result so the most relevant type is listed first.
+ */
+export const groupSearchResults = (rankedResults: SearchResult[]): SearchResultGroup[] => {
+  const groups = new Map<SearchEntityType, SearchResultGroup>()
+
+  rankedResults.forEach(result => {
+    let group = groups.get(result.type)
+    if (!group) {
+      group = { type: result.type, label: getSearchEntityLabel(result.type, true), results: [] }
+      groups.set(result.type, group)
+    }
+    group.results.push(result)
+  })
+
+  return Array.from(groups.values())
+}
+
+/**
+ * Add a query to the front of the recent searches, without duplicates
+ */
+export const addRecentSearch = (
+  recentSearches: string[],
+  query: string,
+  max: number = MAX_RECENT_SEARCHES
+): string[] => {
+  const trimmed = query.trim()
+  if (!trimmed) return recentSearches
+
+  const others = recentSearches.filter(search => search.toLowerCase() !== trimmed.toLowerCase())
+  return [trimmed, ...others].slice(0, max)
+}
@@ -0,0 +1,94 @@
+/**
+ * Global Search API Service
+ * Searches organizations, principals, contacts, opportunities, products and
+ * interactions in parallel and returns one ranked result list
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { parseSearchQuery, rankSearchResults, toSearchResults } from './globalSearch'
+import type { SearchEntityType, SearchResult, SearchRow } from '@/types/search'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Options for a global search
+ */
+export interface GlobalSearchOptions {
+  /** Maximum results returned per entity type */
+  limitPerType?: number
+}
+
+/**
+ * Global Search API class
+ */
+class GlobalSearchApiService {
+
+  /**
+   * Search one entity type with the search_crm trigram function
+   */
+  private async searchEntity(
+    type: SearchEntityType,
+    term: string,
+    limit: number,
+    skuOnly: boolean
+  ): Promise<ApiResponse<SearchRow[]>> {
+    const { data, error } = await supabase.rpc('search_crm', {
+      search_term: term,
+      search_entity: type,
+      result_limit: limit,
+      sku_only: skuOnly
+    })
+
+    if (error) {
+      console.error(`Error searching ${type}:`, error)
+      return { data: null, error: error.message, success: false }
+    }
+
+    return { data: (data || []) as SearchRow[], error: null, success: true }
+  }
+
+  /**
+   * Search every entity type matching the query's filter, e.g. "org: acme".
+   * Types that fail are skipped; the search only fails when all of them do.
+   */
+  async search(query: string, options: GlobalSearchOptions = {}): Promise<ApiResponse<SearchResult[]>> {
+    try {
+      const { term, types, skuOnly } = parseSearchQuery(query)
+      if (!term) {
+        return { data: [], error: null, success: true }
+      }
+
+      const limit = options.limitPerType ?? 5
+      const responses = await Promise.all(
+        types.map(type => this.searchEntity(type, term, limit, skuOnly))
+      )
+
+      const failed = responses.filter(response => !response.success)
+      if (failed.length === responses.length) {
+        return { data: null, error: failed[0]?.error || 'Search failed', success: false }
+      }
+
+      const rows = responses.flatMap(response => response.data ?? [])
+      return { data: rankSearchResults(toSearchResults(rows), term), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in search:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const globalSearchApi = new GlobalSearchApiService()
+export default globalSearchApi
@@ -0,0 +1,79 @@
+/**
+ * ICS Export
+ * iCalendar (RFC 5545) text for calendar events, matching the feed built by
+ * interaction_calendar_feed() in sql/49_calendar_feeds.sql
+ */
+
+import type { CalendarEvent } from '@/types/calendar'
+
+const PRODUCT_ID = '-//CRM//Interaction Calendar//EN'
+
+/**
+ * UTC timestamp in ICS basic format, e.g. 20260615T143000Z
+ */
+export const formatIcsDateTime = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Escape backslashes, semicolons, commas and newlines in a text value
+ */
+export const escapeIcsText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line to 75 characters with CRLF + space continuations
+ */
+export const foldIcsLine = (line: string): string => {
+  if (line.length <= 75) return line
+
+  const parts = [line.slice(0, 75)]
+  for (let index = 75; index < line.length; index += 74) {
+    parts.push(` ${line.slice(index, index + 74)}`)
+  }
+  return parts.join('\r\n')
+}
+
+const eventLines = (event: CalendarEvent, now: Date): string[] => {
+  const description = [
+    event.organization_name && `Organization: ${event.organization_name}`,
+    event.opportunity_name && `Opportunity: ${event.opportunity_name}`,
+    event.description
+  ].filter(Boolean).join('\n')
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.kind}-${event.interaction_id}@crm`,
+    `DTSTAMP:${formatIcsDateTime(event.updated_at ? new Date(event.updated_at) : now)}`,
+    `DTSTART:${formatIcsDateTime(event.start)}`,
+    `DTEND:${formatIcsDateTime(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+    `CATEGORIES:${event.kind === 'follow_up' ? 'Follow-up' : escapeIcsText(event.interaction_type)}`,
+    'END:VEVENT'
+  ]
+}
+
+/**
+ * Complete VCALENDAR document for the given events
+ */
+export const buildIcsCalendar = (events: CalendarEvent[], calendarName: string, now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ...events.flatMap(event => eventLines(event, now)),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,103 @@
+/**
+ * Import API Service
+ * Loads existing organizations and contacts so imported rows can be checked
+ * for duplicates and contacts linked to organizations by name
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import type { DuplicateCandidate, ImportEntity } from '@/types/import'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Import API class
+ */
+class ImportApiService {
+
+  /**
+   * Active organizations as duplicate candidates
+   */
+  async getOrganizationCandidates(): Promise<ApiResponse<DuplicateCandidate[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('id, name, email, primary_phone')
+        .is('deleted_at', null)
+
+      if (error) {
+        console.error('Error fetching organizations for import:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const candidates = ((data || []) as Array<{ id: string; name: string; email: string | null; primary_phone: string | null }>)
+        .map(organization => ({
+          id: organization.id,
+          name: organization.name,
+          email: organization.email,
+          phone: organization.primary_phone
+        }))
+
+      return { data: candidates, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getOrganizationCandidates:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Contacts as duplicate candidates
+   */
+  async getContactCandidates(): Promise<ApiResponse<DuplicateCandidate[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('id, first_name, last_name, email, phone')
+
+      if (error) {
+        console.error('Error fetching contacts for import:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const candidates = ((data || []) as Array<{ id: string; first_name: string; last_name: string; email: string | null; phone: string | null }>)
+        .map(contact => ({
+          id: contact.id,
+          name: `${contact.first_name} ${contact.last_name}`,
+          email: contact.email,
+          phone: contact.phone
+        }))
+
+      return { data: candidates, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getContactCandidates:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Duplicate candidates for the entity being imported
+   */
+  async getDuplicateCandidates(entity: ImportEntity): Promise<ApiResponse<DuplicateCandidate[]>> {
+    return entity === 'organizations' ? this.getOrganizationCandidates() : this.getContactCandidates()
+  }
+}
+
+// Export singleton instance
+export const importApi = new ImportApiService()
+export default importApi
@@ -0,0 +1,190 @@
+/**
+ * Import File Parser
+ * Reads the first worksheet of a CSV or XLSX file into a header row and
+ * data rows of strings
+ */
+
+import { strFromU8, unzipSync } from 'fflate'
+import type { ImportSheet } from '@/types/import'
+
+const SPREADSHEET_NS = '*'
+
+/**
+ * Split rows into headers and data, dropping blank rows and padding short rows
+ */
+const toImportSheet = (rows: string[][]): ImportSheet => {
+  const nonEmpty = rows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''))
+
+  const [headerRow = [], ...dataRows] = nonEmpty
+  const width = Math.max(headerRow.length, ...dataRows.map(row => row.length))
+  const pad = (row: string[]) => Array.from({ length: width }, (_, index) => row[index] ?? '')
+
+  return {
+    headers: pad(headerRow).map((header, index) => header || `Column ${index + 1}`),
+    rows: dataRows.map(pad)
+  }
+}
+
+// ===============================
+// CSV
+// ===============================
+
+/**
+ * Parse CSV text (RFC 4180 quoting). Semicolon and tab separated files
+ * are detected from the header line.
+ */
+export const parseCsv = (text: string): ImportSheet => {
+  const source = text.replace(/^\uFEFF/, '')
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return toImportSheet(rows)
+}
+
+// ===============================
+// XLSX
+// ===============================
+
+/**
+ * Zero-based column index from a cell reference such as "AB12"
+ */
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase()
+  return letters.split('').reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml')
+
+const textOf = (element: Element): string => {
+  return Array.from(element.getElementsByTagNameNS(SPREADSHEET_NS, 't'))
+    .map(node => node.textContent ?? '')
+    .join('')
+}
+
+/**
+ * Path of the first worksheet listed in the workbook
+ */
+const firstSheetPath = (files: Record<string, Uint8Array>): string => {
+  const fallback = 'xl/worksheets/sheet1.xml'
+  if (!files['xl/workbook.xml'] || !files['xl/_rels/workbook.xml.rels']) return fallback
+
+  const sheet = parseXml(strFromU8(files['xl/workbook.xml'])).getElementsByTagNameNS(SPREADSHEET_NS, 'sheet')[0]
+  const relationId = sheet?.getAttribute('r:id')
+  if (!relationId) return fallback
+
+  const relation = Array.from(
+    parseXml(strFromU8(files['xl/_rels/workbook.xml.rels'])).getElementsByTagNameNS(SPREADSHEET_NS, 'Relationship')
+  ).find(element => element.getAttribute('Id') === relationId)
+  const target = relation?.getAttribute('Target')
+  if (!target) return fallback
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook. Cells are read as
+ * displayed text, except dates, which come through as Excel serial numbers.
+ */
+export const parseXlsx = (data: ArrayBuffer | Uint8Array): ImportSheet => {
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data))
+
+  const sharedStrings = files['xl/sharedStrings.xml']
+    ? Array.from(parseXml(strFromU8(files['xl/sharedStrings.xml'])).getElementsByTagNameNS(SPREADSHEET_NS, 'si')).map(textOf)
+    : []
+
+  const sheetFile = files[firstSheetPath(files)]
+  if (!sheetFile) {
+    throw new Error('The workbook does not contain a worksheet')
+  }
+
+  const rows: string[][] = []
+  const rowElements = parseXml(strFromU8(sheetFile)).getElementsByTagNameNS(SPREADSHEET_NS, 'row')
+
+  Array.from(rowElements).forEach((rowElement, position) => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || position + 1
+    const row: string[] = []
+
+    Array.from(rowElement.getElementsByTagNameNS(SPREADSHEET_NS, 'c')).forEach((cellElement, cellPosition) => {
+      const ref = cellElement.getAttribute('r')
+      const index = ref ? columnIndex(ref) : cellPosition
+      const type = cellElement.getAttribute('t')
+      const value = cellElement.getElementsByTagNameNS(SPREADSHEET_NS, 'v')[0]?.textContent ?? ''
+
+      if (type === 's') {
+        row[index] = sharedStrings[Number(value)] ?? ''
+      } else if (type === 'inlineStr') {
+        row[index] = textOf(cellElement)
+      } else if (type === 'b') {
+        row[index] = value === '1' ? 'TRUE' : 'FALSE'
+      } else {
+        row[index] = value
+      }
+    })
+
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? '')
+  })
+
+  return toImportSheet(Array.from(rows, row => row ?? []))
+}
+
+// ===============================
+// FILES
+// ===============================
+
+/**
+ * Read an uploaded .csv or .xlsx file
+ */
+export const parseImportFile = async (file: File): Promise<ImportSheet> => {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+
+  if (extension === 'csv' || extension === 'txt') {
+    return parseCsv(await file.text())
+  }
+  if (extension === 'xlsx') {
+    return parseXlsx(await file.arrayBuffer())
+  }
+
+  throw new Error('Unsupported file type. Upload a .csv or .xlsx file.')
+}
@@ -0,0 +1,333 @@
+/**
+ * Import Rules
+ * Column auto-mapping, row validation, duplicate detection and the
+ * per-row error report for the organization and contact import wizard
+ */
+
+import { ValidationError, type AnyObjectSchema } from 'yup'
+import { Constants } from '@/types/database.types'
+import type { OrganizationInsert } from '@/types/database.types'
+import { contactCreateSchema } from '@/types/contacts'
+import { organizationSchema } from '@/types/organizations'
+import type {
+  ColumnMapping,
+  DuplicateCandidate,
+  DuplicateField,
+  DuplicateMatch,
+  ImportEntity,
+  ImportField,
+  ImportRow,
+  ImportRowResult,
+  ImportSheet
+} from '@/types/import'
+
+/**
+ * Position stored for contacts imported without one, matching
+ * organizationStore.createOrganizationWithContacts
+ */
+export const DEFAULT_IMPORT_POSITION = 'Unknown'
+
+const ORGANIZATION_ENUM_FIELDS: Record<string, readonly string[]> = {
+  type: Constants.public.Enums.organization_type,
+  size: Constants.public.Enums.organization_size,
+  status: Constants.public.Enums.organization_status
+}
+
+const importContactSchema = contactCreateSchema.omit(['organization_id'])
+
+// ===============================
+// COLUMN MAPPING
+// ===============================
+
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Map each column to the field whose key, label or alias matches its header.
+ * Each field is used at most once; unmatched columns are left out.
+ */
+export const autoMapColumns = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const used = new Set<string>()
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header)
+    const field = fields.find(field =>
+      !used.has(field.key) &&
+      [field.key, field.label, ...field.aliases].some(name => normalizeHeader(name) === normalized)
+    )
+    if (!field) return null
+
+    used.add(field.key)
+    return field.key
+  })
+}
+
+/**
+ * Required fields with no column mapped to them
+ */
+export const getMissingRequiredFields = (mapping: ColumnMapping, fields: ImportField[]): ImportField[] => {
+  return fields.filter(field => field.required && !mapping.includes(field.key))
+}
+
+/**
+ * Field values for each data row, keyed by field
+ */
+export const applyColumnMapping = (
+  sheet: ImportSheet,
+  mapping: ColumnMapping
+): Array<{ rowNumber: number; values: Record<string, string> }> => {
+  return sheet.rows.map((row, index) => {
+    const values: Record<string, string> = {}
+    mapping.forEach((fieldKey, column) => {
+      if (fieldKey && row[column]) {
+        values[fieldKey] = row[column].trim()
+      }
+    })
+    return { rowNumber: index + 2, values }
+  })
+}
+
+// ===============================
+// RECORD CONVERSION
+// ===============================
+
+const emptyToNull = (value: string | undefined): string | null => (value && value.trim()) || null
+
+/**
+ * Match enum values without regard to case, e.g. "prospect" -> "Prospect"
+ */
+const matchEnumValue = (value: string | undefined, options: readonly string[]): string | null => {
+  if (!value) return null
+  return options.find(option => option.toLowerCase() === value.toLowerCase()) ?? value
+}
+
+/**
+ * Organization insert built from an organizations import row
+ */
+export const toOrganizationInsert = (values: Record<string, string>): OrganizationInsert => {
+  const record: Record<string, unknown> = {}
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (key.startsWith('contact_')) return
+    if (ORGANIZATION_ENUM_FIELDS[key]) {
+      record[key] = matchEnumValue(value, ORGANIZATION_ENUM_FIELDS[key])
+    } else {
+      record[key] = emptyToNull(value)
+    }
+  })
+
+  return record as OrganizationInsert
+}
+
+/**
+ * Contact fields from an import row. Organization import rows carry an
+ * optional primary contact in contact_* columns.
+ */
+export const toContactDraft = (
+  values: Record<string, string>,
+  entity: ImportEntity
+): Record<string, string | null> | null => {
+  const read = (key: string) => emptyToNull(entity === 'organizations' ? values[`contact_${key}`] : values[key])
+
+  const draft: Record<string, string | null> = {
+    first_name: read('first_name'),
+    last_name: read('last_name'),
+    email: read('email'),
+    phone: read('phone'),
+    position: read('position') ?? DEFAULT_IMPORT_POSITION
+  }
+
+  if (entity === 'organizations') {
+    return draft.first_name || draft.last_name || draft.email || draft.phone ? draft : null
+  }
+
+  return {
+    ...draft,
+    address: read('address'),
+    city: read('city'),
+    state: read('state'),
+    zip_code: read('zip_code'),
+    website: read('website'),
+    notes: read('notes')
+  }
+}
+
+// ===============================
+// VALIDATION
+// ===============================
+
+const validationMessages = async (schema: AnyObjectSchema, data: unknown, prefix = ''): Promise<string[]> => {
+  try {
+    await schema.validate(data, { abortEarly: false })
+    return []
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return error.errors.map(message => `${prefix}${message}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Validation errors for a row, using the same schemas as the create forms
+ */
+export const validateImportRow = async (entity: ImportEntity, values: Record<string, string>): Promise<string[]> => {
+  if (entity === 'organizations') {
+    const errors = await validationMessages(organizationSchema, toOrganizationInsert(values))
+    const contact = toContactDraft(values, entity)
+    if (contact) {
+      errors.push(...await validationMessages(importContactSchema, contact, 'Contact: '))
+    }
+    return errors
+  }
+
+  const errors = await validationMessages(importContactSchema, toContactDraft(values, entity))
+  if (!values.organization_name) {
+    errors.unshift('Organization is required')
+  }
+  return errors
+}
+
+// ===============================
+// DUPLICATES
+// ===============================
+
+/**
+ * Comparison forms of names, emails and phone numbers
+ */
+export const normalizeName = (value: string | null | undefined): string => {
+  return (value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\b(inc|llc|ltd|co|corp|corporation|company)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export const normalizeEmail = (value: string | null | undefined): string => (value ?? '').trim().toLowerCase()
+
+export const normalizePhone = (value: string | null | undefined): string => {
+  const digits = (value ?? '').replace(/\D/g, '')
+  return digits.length >= 7 ? digits.slice(-10) : ''
+}
+
+/**
+ * Name, email and phone compared for duplicates
+ */
+const duplicateKeys = (entity: ImportEntity, values: Record<string, string>): Record<DuplicateField, string> => {
+  if (entity === 'organizations') {
+    return {
+      name: normalizeName(values.name),
+      email: normalizeEmail(values.email),
+      phone: normalizePhone(values.primary_phone)
+    }
+  }
+  return {
+    name: normalizeName(`${values.first_name ?? ''} ${values.last_name ?? ''}`),
+    email: normalizeEmail(values.email),
+    phone: normalizePhone(values.phone)
+  }
+}
+
+const DUPLICATE_FIELDS: DuplicateField[] = ['name', 'email', 'phone']
+
+/**
+ * Matches for each row against existing records and earlier rows in the file
+ */
+export const findDuplicates = (
+  entity: ImportEntity,
+  rows: Array<{ rowNumber: number; values: Record<string, string> }>,
+  existing: DuplicateCandidate[]
+): DuplicateMatch[][] => {
+  const existingIndex = new Map<string, DuplicateCandidate>()
+  existing.forEach(candidate => {
+    const keys: Record<DuplicateField, string> = {
+      name: normalizeName(candidate.name),
+      email: normalizeEmail(candidate.email),
+      phone: normalizePhone(candidate.phone)
+    }
+    DUPLICATE_FIELDS.forEach(field => {
+      const key = `${field}:${keys[field]}`
+      if (keys[field] && !existingIndex.has(key)) existingIndex.set(key, candidate)
+    })
+  })
+
+  const fileIndex = new Map<string, number>()
+
+  return rows.map(row => {
+    const keys = duplicateKeys(entity, row.values)
+    const matches: DuplicateMatch[] = []
+
+    DUPLICATE_FIELDS.forEach(field => {
+      if (!keys[field]) return
+      const key = `${field}:${keys[field]}`
+
+      const candidate = existingIndex.get(key)
+      if (candidate) {
+        matches.push({ source: 'existing', field, label: candidate.name, recordId: candidate.id })
+      }
+
+      const earlierRow = fileIndex.get(key)
+      if (earlierRow !== undefined) {
+        matches.push({ source: 'file', field, label: `Row ${earlierRow}`, rowNumber: earlierRow })
+      } else {
+        fileIndex.set(key, row.rowNumber)
+      }
+    })
+
+    return matches
+  })
+}
+
+/**
+ * Human-readable description of a duplicate match
+ */
+export const describeDuplicate = (match: DuplicateMatch): string => {
+  const target = match.source === 'existing' ? `existing record "${match.label}"` : match.label.toLowerCase()
+  return `Same ${match.field} as ${target}`
+}
+
+// ===============================
+// ROWS
+// ===============================
+
+/**
+ * Validate and dedupe mapped rows. Rows with errors or duplicates are
+ * skipped by default; the user can choose to create duplicates anyway.
+ */
+export const buildImportRows = async (
+  entity: ImportEntity,
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existing: DuplicateCandidate[]
+): Promise<ImportRow[]> => {
+  const mapped = applyColumnMapping(sheet, mapping)
+  const duplicates = findDuplicates(entity, mapped, existing)
+  const errors = await Promise.all(mapped.map(row => validateImportRow(entity, row.values)))
+
+  return mapped.map((row, index) => ({
+    ...row,
+    errors: errors[index],
+    duplicates: duplicates[index],
+    action: errors[index].length === 0 && duplicates[index].length === 0 ? 'create' : 'skip'
+  }))
+}
+
+// ===============================
+// REPORT
+// ===============================
+
+const toCsvValue = (value: string | number): string => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV report of what happened to each row
+ */
+export const buildImportReportCsv = (results: ImportRowResult[]): string => {
+  const lines = [
+    ['Row', 'Status', 'Message'],
+    ...results.map(result => [result.rowNumber, result.status, result.message])
+  ]
+  return lines.map(line => line.map(toCsvValue).join(',')).join('\r\n')
+}
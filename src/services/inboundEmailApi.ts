@@ -0,0 +1,480 @@
+/**
+ * Inbound Email API Service
+ * Ingests messages BCC'd to the CRM dropbox: parses raw MIME, matches the
+ * addresses to contacts and organization domains, logs an Email interaction
+ * on the best open opportunity and queues the rest for triage
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { getEnvString } from '@/utils/env'
+import { interactionsApi } from './interactionsApi'
+import { parseMimeMessage } from './mimeParser'
+import {
+  emailDomain,
+  externalAddresses,
+  formatInboundNotes,
+  ilikeCondition,
+  matchableDomains,
+  matchInboundEmail
+} from './inboundEmailRules'
+import { FREE_MAIL_DOMAINS } from '@/types/inboundEmail'
+import type {
+  InboundEmail,
+  InboundEmailQueueItem,
+  InboundIngestResult,
+  InboundMatchCandidates,
+  InboundMatchReason,
+  InboundOpportunityOption,
+  ParsedEmail
+} from '@/types/inboundEmail'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Dropbox address reps BCC, from VITE_INBOUND_EMAIL_ADDRESS
+ */
+export const getDropboxAddress = (): string => getEnvString('VITE_INBOUND_EMAIL_ADDRESS').trim().toLowerCase()
+
+const toParsedColumns = (email: ParsedEmail) => ({
+  message_id: email.message_id,
+  from_address: email.from?.address ?? null,
+  from_name: email.from?.name ?? null,
+  to_addresses: email.to.map(entry => entry.address),
+  cc_addresses: email.cc.map(entry => entry.address),
+  subject: email.subject || null,
+  body_text: email.text || null,
+  sent_at: email.sent_at,
+  raw_message: null
+})
+
+/**
+ * Parsed columns of a row, so messages parsed from raw_message are saved
+ * with their match
+ */
+const storedColumns = (row: InboundEmail) => ({
+  message_id: row.message_id,
+  from_address: row.from_address,
+  from_name: row.from_name,
+  to_addresses: row.to_addresses,
+  cc_addresses: row.cc_addresses,
+  subject: row.subject,
+  body_text: row.body_text,
+  sent_at: row.sent_at,
+  raw_message: null
+})
+
+const toParsedEmail = (row: InboundEmail): ParsedEmail => ({
+  message_id: row.message_id,
+  from: row.from_address ? { address: row.from_address, name: row.from_name } : null,
+  to: row.to_addresses.map(address => ({ address, name: null })),
+  cc: row.cc_addresses.map(address => ({ address, name: null })),
+  subject: row.subject || '',
+  sent_at: row.sent_at,
+  text: row.body_text || ''
+})
+
+/**
+ * Inbound email API class
+ */
+class InboundEmailApiService {
+
+  // ===============================
+  // QUEUE
+  // ===============================
+
+  /**
+   * Unmatched messages, newest first, with suggested contact and
+   * organization names
+   */
+  async getTriageQueue(): Promise<ApiResponse<InboundEmailQueueItem[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('inbound_emails')
+        .select('*, contacts:contact_id(first_name, last_name), organizations:organization_id(name)')
+        .eq('status', 'UNMATCHED')
+        .order('sent_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching inbound email queue:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const queue = (data || []).map(({ contacts, organizations, ...email }: any) => ({
+        ...email,
+        contact_name: contacts ? `${contacts.first_name} ${contacts.last_name}` : null,
+        organization_name: organizations?.name || null
+      }))
+
+      return { data: queue, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getTriageQueue:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Open opportunities for the triage picker, optionally narrowed to an
+   * organization or by name
+   */
+  async searchOpportunities(options: { organizationId?: string | null; term?: string }): Promise<ApiResponse<InboundOpportunityOption[]>> {
+    try {
+      let query = supabase
+        .from('opportunities')
+        .select('id, name, organizations:organization_id(name)')
+        .is('deleted_at', null)
+        .not('stage', 'in', '("Closed - Won","Closed - Lost")')
+        .order('updated_at', { ascending: false })
+        .limit(25)
+
+      if (options.organizationId) {
+        query = query.eq('organization_id', options.organizationId)
+      }
+      if (options.term?.trim()) {
+        query = query.ilike('name', `%${options.term.trim()}%`)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error searching opportunities for inbound email:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return {
+        data: (data || []).map((opportunity: any) => ({
+          id: opportunity.id,
+          name: opportunity.name,
+          organization_name: opportunity.organizations?.name || null
+        })),
+        error: null,
+        success: true
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in searchOpportunities:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // INGESTION
+  // ===============================
+
+  /**
+   * Parse, store and match a raw .eml message. A message whose Message-ID
+   * is already stored is returned as a duplicate and not logged again.
+   */
+  async ingestMessage(raw: string): Promise<ApiResponse<InboundIngestResult>> {
+    try {
+      const parsed = parseMimeMessage(raw)
+
+      const existing = parsed.message_id ? await this.findByMessageId(parsed.message_id) : null
+      if (existing) {
+        return { data: { email: existing, duplicate: true }, error: null, success: true }
+      }
+
+      const { data, error } = await supabase
+        .from('inbound_emails')
+        .insert(toParsedColumns(parsed))
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error storing inbound email:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const processed = await this.processEmail(data)
+      return processed.success && processed.data
+        ? { data: { email: processed.data, duplicate: false }, error: null, success: true }
+        : { data: null, error: processed.error, success: false }
+
+    } catch (error) {
+      console.error('Unexpected error in ingestMessage:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Parse and match messages the dropbox mail hook stored as raw MIME. A
+   * message whose Message-ID is already stored is ignored as a duplicate.
+   */
+  async processReceived(): Promise<ApiResponse<InboundEmail[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('inbound_emails')
+        .select('*')
+        .eq('status', 'RECEIVED')
+        .order('created_at', { ascending: true })
+        .limit(50)
+
+      if (error) {
+        console.error('Error fetching received inbound emails:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const processed: InboundEmail[] = []
+      for (const row of (data || []) as InboundEmail[]) {
+        const email = row.raw_message
+          ? { ...row, ...toParsedColumns(parseMimeMessage(row.raw_message)) }
+          : row
+        const duplicateOf = email.message_id ? await this.findByMessageId(email.message_id, row.id) : null
+        const response = duplicateOf
+          ? await this.updateEmail(row.id, {
+            status: 'IGNORED',
+            raw_message: null,
+            error_message: `Duplicate of a message received ${duplicateOf.created_at}`,
+            processed_at: new Date().toISOString()
+          })
+          : await this.processEmail(email)
+        if (response.success && response.data) {
+          processed.push(response.data)
+        }
+      }
+
+      return { data: processed, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in processReceived:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Match a stored message and log it, or queue it for triage. Also used to
+   * retry an unmatched message after contacts are added.
+   */
+  async processEmail(email: InboundEmail): Promise<ApiResponse<InboundEmail>> {
+    try {
+      const parsed = toParsedEmail(email)
+      const addresses = externalAddresses(parsed, await this.getInternalAddresses())
+      const candidates = await this.loadCandidates(addresses)
+      const match = matchInboundEmail(parsed, addresses, candidates)
+
+      if (!match.opportunity) {
+        return this.updateEmail(email.id, {
+          ...storedColumns(email),
+          status: 'UNMATCHED',
+          match_reason: null,
+          contact_id: match.contact?.id ?? null,
+          organization_id: match.organization_id,
+          error_message: null
+        })
+      }
+
+      const contactName = match.contact ? `${match.contact.first_name} ${match.contact.last_name}` : null
+      return this.logEmail(
+        email,
+        { opportunityId: match.opportunity.id, contactId: match.contact?.id ?? null, contactName },
+        match.reason ?? 'manual'
+      )
+
+    } catch (error) {
+      console.error('Unexpected error in processEmail:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // TRIAGE
+  // ===============================
+
+  /**
+   * Log a queued message against an opportunity picked by hand
+   */
+  async linkEmail(email: InboundEmail, opportunityId: string): Promise<ApiResponse<InboundEmail>> {
+    return this.logEmail(email, { opportunityId, contactId: email.contact_id, contactName: null }, 'manual')
+  }
+
+  async ignoreEmail(id: string): Promise<ApiResponse<InboundEmail>> {
+    const { data } = await supabase.auth.getSession()
+    return this.updateEmail(id, {
+      status: 'IGNORED',
+      processed_by: data.session?.user.id ?? null,
+      processed_at: new Date().toISOString()
+    })
+  }
+
+  // ===============================
+  // HELPERS
+  // ===============================
+
+  /**
+   * The dropbox address and the signed-in user's own address, plus the
+   * dropbox domain unless it is a webmail domain
+   */
+  private async getInternalAddresses(): Promise<{ addresses: string[]; domains: string[] }> {
+    const dropbox = getDropboxAddress()
+    const dropboxDomain = emailDomain(dropbox)
+    const { data } = await supabase.auth.getSession()
+    const userEmail = data.session?.user.email?.toLowerCase()
+
+    return {
+      addresses: [dropbox, userEmail].filter((address): address is string => !!address),
+      domains: dropboxDomain && !FREE_MAIL_DOMAINS.includes(dropboxDomain) ? [dropboxDomain] : []
+    }
+  }
+
+  /**
+   * Another stored message with the Message-ID, if any
+   */
+  private async findByMessageId(messageId: string, excludeId?: string): Promise<InboundEmail | null> {
+    let query = supabase
+      .from('inbound_emails')
+      .select('*')
+      .eq('message_id', messageId)
+
+    if (excludeId) {
+      query = query.neq('id', excludeId)
+    }
+
+    const { data, error } = await query.limit(1)
+    if (error) throw new Error(error.message)
+
+    return data?.[0] ?? null
+  }
+
+  /**
+   * Contacts with one of the addresses, organizations whose website or
+   * email shares a domain, and the opportunities of both
+   */
+  private async loadCandidates(addresses: string[]): Promise<InboundMatchCandidates> {
+    const candidates: InboundMatchCandidates = { contacts: [], organizations: [], opportunities: [] }
+    if (addresses.length === 0) return candidates
+
+    const domains = matchableDomains(addresses)
+    const [contactsResult, organizationsResult] = await Promise.all([
+      supabase
+        .from('contacts')
+        .select('id, first_name, last_name, email, organization_id')
+        .or(addresses.map(address => ilikeCondition('email', address)).join(',')),
+      domains.length > 0
+        ? supabase
+          .from('organizations')
+          .select('id, name, website, email')
+          .is('deleted_at', null)
+          .or(domains.flatMap(domain => [
+            ilikeCondition('website', domain, 'contains'),
+            ilikeCondition('email', `@${domain}`, 'suffix')
+          ]).join(','))
+        : Promise.resolve({ data: [], error: null })
+    ])
+
+    const error = contactsResult.error || organizationsResult.error
+    if (error) throw new Error(error.message)
+
+    candidates.contacts = contactsResult.data || []
+    candidates.organizations = organizationsResult.data || []
+
+    const organizationIds = [...new Set([
+      ...candidates.contacts.map(contact => contact.organization_id),
+      ...candidates.organizations.map(organization => organization.id)
+    ].filter((id): id is string => !!id))]
+
+    if (organizationIds.length > 0) {
+      const { data, error: opportunitiesError } = await supabase
+        .from('opportunities')
+        .select('id, name, organization_id, stage, last_activity_date, updated_at')
+        .in('organization_id', organizationIds)
+        .is('deleted_at', null)
+
+      if (opportunitiesError) throw new Error(opportunitiesError.message)
+      candidates.opportunities = data || []
+    }
+
+    return candidates
+  }
+
+  /**
+   * Create the Email interaction and mark the message linked
+   */
+  private async logEmail(
+    email: InboundEmail,
+    link: { opportunityId: string; contactId: string | null; contactName: string | null },
+    reason: InboundMatchReason
+  ): Promise<ApiResponse<InboundEmail>> {
+    const response = await interactionsApi.createInteraction({
+      type: 'Email',
+      subject: email.subject || '(no subject)',
+      interaction_date: email.sent_at || new Date().toISOString(),
+      opportunity_id: link.opportunityId,
+      status: 'COMPLETED',
+      notes: formatInboundNotes(email),
+      contact_method: 'Email',
+      participants: link.contactName ? [link.contactName] : [email.from_address, ...email.to_addresses].filter((address): address is string => !!address)
+    })
+
+    if (!response.success || !response.data) {
+      await this.updateEmail(email.id, { status: 'UNMATCHED', error_message: response.error || 'Failed to log interaction' })
+      return { data: null, error: response.error || 'Failed to log interaction', success: false }
+    }
+
+    const { data } = await supabase.auth.getSession()
+    const { data: opportunity } = await supabase
+      .from('opportunities')
+      .select('organization_id')
+      .eq('id', link.opportunityId)
+      .single()
+
+    return this.updateEmail(email.id, {
+      ...storedColumns(email),
+      status: 'LINKED',
+      match_reason: reason,
+      contact_id: link.contactId,
+      organization_id: opportunity?.organization_id ?? email.organization_id,
+      opportunity_id: link.opportunityId,
+      interaction_id: response.data.id,
+      error_message: null,
+      processed_by: data.session?.user.id ?? null,
+      processed_at: new Date().toISOString()
+    })
+  }
+
+  private async updateEmail(id: string, updates: Partial<InboundEmail>): Promise<ApiResponse<InboundEmail>> {
+    const { data, error } = await supabase
+      .from('inbound_emails')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating inbound email:', error)
+      return { data: null, error: error.message, success: false }
+    }
+
+    return { data, error: null, success: true }
+  }
+}
+
+// Export singleton instance
+export const inboundEmailApi = new InboundEmailApiService()
+export default inboundEmailApi
@@ -0,0 +1,155 @@
+/**
+ * Inbound Email Rules
+ * Matches a parsed dropbox message to a contact, organization and open
+ * opportunity, and formats the Email interaction logged for it
+ */
+
+import { isClosedStage } from '@/types/opportunities'
+import type { OpportunityStage } from '@/types/opportunities'
+import type {
+  InboundEmailMatch,
+  InboundMatchCandidates,
+  InboundMatchOpportunity,
+  InboundMatchOrganization,
+  ParsedEmail
+} from '@/types/inboundEmail'
+import { FREE_MAIL_DOMAINS } from '@/types/inboundEmail'
+
+export const emailDomain = (address: string | null | undefined): string | null => {
+  const domain = address?.split('@')[1]?.trim().toLowerCase()
+  return domain || null
+}
+
+/**
+ * Domain of an organization's website (`https://www.bistro.com/menu` →
+ * `bistro.com`) or, failing that, of its email address
+ */
+export const organizationDomains = (organization: Pick<InboundMatchOrganization, 'website' | 'email'>): string[] => {
+  const domains = new Set<string>()
+
+  const website = organization.website?.trim().toLowerCase()
+  if (website) {
+    const host = website.replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0].replace(/^www\./, '')
+    if (host.includes('.')) domains.add(host)
+  }
+
+  const domain = emailDomain(organization.email)
+  if (domain) domains.add(domain)
+
+  return [...domains]
+}
+
+/**
+ * Every address on the message except the dropbox and internal domains,
+ * sender first
+ */
+export const externalAddresses = (email: ParsedEmail, internal: { addresses: string[]; domains: string[] }): string[] => {
+  const ignoredAddresses = new Set(internal.addresses.map(address => address.toLowerCase()))
+  const ignoredDomains = new Set(internal.domains.map(domain => domain.toLowerCase()))
+
+  const addresses = [email.from, ...email.to, ...email.cc]
+    .map(entry => entry?.address)
+    .filter((address): address is string => !!address)
+    .filter(address => !ignoredAddresses.has(address) && !ignoredDomains.has(emailDomain(address) ?? ''))
+
+  return [...new Set(addresses)]
+}
+
+/**
+ * Domains worth matching organizations by: not webmail, not internal
+ */
+export const matchableDomains = (addresses: string[]): string[] => {
+  const domains = addresses
+    .map(emailDomain)
+    .filter((domain): domain is string => !!domain && !FREE_MAIL_DOMAINS.includes(domain))
+  return [...new Set(domains)]
+}
+
+/**
+ * `column.ilike."pattern"` condition for a PostgREST or() filter. The value
+ * is quoted because addresses may contain commas and parentheses, and its
+ * LIKE wildcards are escaped so `a_b@x.com` only matches itself.
+ */
+export const ilikeCondition = (
+  column: string,
+  value: string,
+  match: 'exact' | 'contains' | 'suffix' = 'exact'
+): string => {
+  const literal = value.replace(/[\\%_]/g, '\\$&')
+  const pattern = match === 'contains' ? `*${literal}*` : match === 'suffix' ? `*${literal}` : literal
+  return `${column}.ilike."${pattern.replace(/["\\]/g, '\\$&')}"`
+}
+
+/**
+ * Open opportunity to log against: one named in the subject first, then
+ * the most recently active
+ */
+export const pickOpportunity = (
+  opportunities: InboundMatchOpportunity[],
+  organizationId: string,
+  subject: string
+): InboundMatchOpportunity | null => {
+  const lowerSubject = subject.toLowerCase()
+  const activity = (opportunity: InboundMatchOpportunity) => opportunity.last_activity_date || opportunity.updated_at || ''
+
+  const open = opportunities
+    .filter(opportunity => opportunity.organization_id === organizationId)
+    .filter(opportunity => !isClosedStage(opportunity.stage as OpportunityStage))
+    .sort((a, b) => activity(b).localeCompare(activity(a)))
+
+  return open.find(opportunity => lowerSubject.includes(opportunity.name.toLowerCase())) ?? open[0] ?? null
+}
+
+/**
+ * Match by contact email address (in address order, so the sender wins),
+ * then by organization domain. An organization without an open
+ * opportunity is still returned so triage can suggest it.
+ */
+export const matchInboundEmail = (
+  email: ParsedEmail,
+  addresses: string[],
+  candidates: InboundMatchCandidates
+): InboundEmailMatch => {
+  for (const address of addresses) {
+    const contact = candidates.contacts.find(candidate => candidate.email?.trim().toLowerCase() === address)
+    if (contact?.organization_id) {
+      return {
+        contact,
+        organization_id: contact.organization_id,
+        opportunity: pickOpportunity(candidates.opportunities, contact.organization_id, email.subject),
+        reason: 'contact_email'
+      }
+    }
+  }
+
+  for (const domain of matchableDomains(addresses)) {
+    const organization = candidates.organizations.find(candidate => organizationDomains(candidate).includes(domain))
+    if (organization) {
+      return {
+        contact: null,
+        organization_id: organization.id,
+        opportunity: pickOpportunity(candidates.opportunities, organization.id, email.subject),
+        reason: 'organization_domain'
+      }
+    }
+  }
+
+  return { contact: null, organization_id: null, opportunity: null, reason: null }
+}
+
+/**
+ * Interaction notes: the addresses, then the message text
+ */
+export const formatInboundNotes = (email: {
+  from_address: string | null
+  to_addresses: string[]
+  cc_addresses: string[]
+  body_text: string | null
+}): string => {
+  const header = [
+    `From: ${email.from_address || 'unknown'}`,
+    `To: ${email.to_addresses.join(', ')}`,
+    ...(email.cc_addresses.length > 0 ? [`Cc: ${email.cc_addresses.join(', ')}`] : [])
+  ]
+  return `${header.join('\n')}\n\n${email.body_text || ''}`.trim()
+}
@@ -6,6 +6,9 @@
  */
 
 import { supabase } from '@/config/supabaseClient'
+import { authApi } from './authApi'
+import { outboxApi } from './outboxApi'
+import { buildOptimisticRecord } from './outboxRules'
 import type {
   Interaction,
   InteractionListView,
@@ -23,6 +26,12 @@ import type {
   InteractionStatus,
   InteractionOutcome
 } from '@/types/database.types'
+import type { CalendarInteraction } from '@/types/calendar'
+
+/**
+ * Fields of the record being edited that a queued offline update needs
+ */
+type OfflineInteractionBase = Pick<Partial<Interaction>, 'subject' | 'updated_at'>
 
 /**
  * API Response wrapper for consistent error handling
@@ -50,7 +59,7 @@ class InteractionsApiService {
    */
   private async isSupabaseAvailable(): Promise<boolean> {
     try {
-      if (!supabase) return false
+      if (!supabase || outboxApi.isOffline()) return false
       
       // Test connection with a simple query
       const { error } = await supabase
@@ -394,13 +403,6 @@ class InteractionsApiService {
    */
   async createInteraction(interactionData: InteractionFormData): Promise<ApiResponse<Interaction>> {
     console.log('API Call: createInteraction', { interactionData })
-    
-    if (!await this.isSupabaseAvailable()) {
-      return {
-        success: false,
-        error: 'Database connection not available'
-      }
-    }
 
     try {
       const insertData: InteractionInsert = {
@@ -423,7 +425,18 @@ class InteractionsApiService {
         attachments: interactionData.attachments || [],
         tags: interactionData.tags || [],
         custom_fields: interactionData.custom_fields || {},
-        created_by: interactionData.created_by || null
+        created_by: interactionData.created_by || await authApi.getCurrentUserId()
+      }
+
+      if (outboxApi.isOffline()) {
+        return await this.queueInteractionCreate(insertData)
+      }
+
+      if (!await this.isSupabaseAvailable()) {
+        return {
+          success: false,
+          error: 'Database connection not available'
+        }
       }
 
       const { data, error } = await supabase
@@ -433,6 +446,9 @@ class InteractionsApiService {
         .single()
 
       if (error) {
+        if (outboxApi.shouldQueue(error.message)) {
+          return await this.queueInteractionCreate(insertData)
+        }
         console.error('Error in createInteraction:', error)
         return {
           success: false,
@@ -456,10 +472,20 @@ class InteractionsApiService {
 
   /**
    * Update an existing interaction
+   * Pass the interaction as last loaded so an offline edit can be checked
+   * against newer server changes when it syncs
    */
-  async updateInteraction(id: string, updates: Partial<InteractionUpdate>): Promise<ApiResponse<Interaction>> {
+  async updateInteraction(
+    id: string,
+    updates: Partial<InteractionUpdate>,
+    current?: OfflineInteractionBase | null
+  ): Promise<ApiResponse<Interaction>> {
     console.log('API Call: updateInteraction', { id, updates })
-    
+
+    if (outboxApi.isOffline()) {
+      return await this.queueInteractionUpdate(id, updates, current)
+    }
+
     if (!await this.isSupabaseAvailable()) {
       return {
         success: false,
@@ -477,6 +503,9 @@ class InteractionsApiService {
         .single()
 
       if (error) {
+        if (outboxApi.shouldQueue(error.message)) {
+          return await this.queueInteractionUpdate(id, updates, current)
+        }
         console.error('Error in updateInteraction:', error)
         return {
           success: false,
@@ -853,6 +882,101 @@ class InteractionsApiService {
     }
   }
 
+  /**
+   * Get interactions scheduled or due for follow-up between two instants,
+   * optionally only those logged by one user, for the calendar
+   */
+  async getCalendarInteractions(
+    from: string,
+    to: string,
+    createdBy?: string
+  ): Promise<ApiResponse<CalendarInteraction[]>> {
+    console.log('API Call: getCalendarInteractions', { from, to, createdBy })
+
+    if (!await this.isSupabaseAvailable()) {
+      return {
+        success: false,
+        error: 'Database connection not available'
+      }
+    }
+
+    try {
+      let query = supabase
+        .from('interactions')
+        .select(`
+          id,
+          type,
+          subject,
+          status,
+          interaction_date,
+          duration_minutes,
+          location,
+          notes,
+          follow_up_required,
+          follow_up_date,
+          follow_up_notes,
+          opportunity_id,
+          updated_at,
+          opportunities (
+            name,
+            organizations (
+              name
+            )
+          )
+        `)
+        .is('deleted_at', null)
+        .or(
+          `and(status.eq.SCHEDULED,interaction_date.gte."${from}",interaction_date.lt."${to}"),` +
+          `and(follow_up_required.eq.true,follow_up_date.gte."${from}",follow_up_date.lt."${to}")`
+        )
+        .order('interaction_date', { ascending: true })
+
+      if (createdBy) {
+        query = query.eq('created_by', createdBy)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error in getCalendarInteractions:', error)
+        return {
+          success: false,
+          error: error.message
+        }
+      }
+
+      const interactions: CalendarInteraction[] = data?.map((interaction: any) => ({
+        id: interaction.id,
+        type: interaction.type as InteractionType,
+        subject: interaction.subject,
+        status: interaction.status as InteractionStatus | null,
+        interaction_date: interaction.interaction_date,
+        duration_minutes: interaction.duration_minutes,
+        location: interaction.location,
+        notes: interaction.notes || null,
+        follow_up_required: interaction.follow_up_required || false,
+        follow_up_date: interaction.follow_up_date,
+        follow_up_notes: interaction.follow_up_notes || null,
+        opportunity_id: interaction.opportunity_id,
+        opportunity_name: interaction.opportunities?.name ? String(interaction.opportunities.name) : '',
+        organization_name: interaction.opportunities?.organizations?.name ? String(interaction.opportunities.organizations.name) : '',
+        updated_at: interaction.updated_at
+      })) || []
+
+      return {
+        success: true,
+        data: interactions
+      }
+
+    } catch (error) {
+      console.error('Error in getCalendarInteractions:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unexpected error occurred'
+      }
+    }
+  }
+
   // ===============================
   // UTILITY METHODS
   // ===============================
@@ -876,6 +1000,48 @@ class InteractionsApiService {
     const diffTime = date.getTime() - now.getTime()
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24))
   }
+
+  /**
+   * Save a new interaction to the offline outbox
+   */
+  private async queueInteractionCreate(insertData: InteractionInsert): Promise<ApiResponse<Interaction>> {
+    const entry = await outboxApi.enqueue({
+      entity: 'interaction',
+      operation: 'create',
+      recordId: crypto.randomUUID(),
+      payload: { ...insertData },
+      baseUpdatedAt: null,
+      label: insertData.subject
+    })
+
+    return {
+      success: true,
+      data: buildOptimisticRecord<Interaction>(entry)
+    }
+  }
+
+  /**
+   * Save an interaction edit to the offline outbox
+   */
+  private async queueInteractionUpdate(
+    id: string,
+    updates: Partial<InteractionUpdate>,
+    current?: OfflineInteractionBase | null
+  ): Promise<ApiResponse<Interaction>> {
+    await outboxApi.enqueue({
+      entity: 'interaction',
+      operation: 'update',
+      recordId: id,
+      payload: { ...updates },
+      baseUpdatedAt: current?.updated_at ?? null,
+      label: updates.subject || current?.subject || 'Interaction update'
+    })
+
+    return {
+      success: true,
+      data: { ...current, ...updates, id } as Interaction
+    }
+  }
 }
 
 // Export singleton instance
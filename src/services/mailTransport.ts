@@ -0,0 +1,112 @@
+/**
+ * Mail Transport
+ * Pluggable delivery for the email compose panel. The browser cannot speak
+ * SMTP, so the built-in transports are:
+ * - relay: POSTs the message as JSON to VITE_MAIL_RELAY_URL, the mail-relay
+ *   edge function in supabase/functions, which hands it to an SMTP server
+ *   (MailHog's SMTP port in development). The user's access token is sent as
+ *   a bearer token.
+ * - mailto: opens the message in the user's own email app; whether it is
+ *   actually sent is up to the user
+ * - console: development stand-in that only logs the message
+ * VITE_MAIL_TRANSPORT picks one; without it, relay is used when a relay URL
+ * is configured and mailto otherwise.
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { getEnvString } from '@/utils/env'
+import type { MailSendResult, MailTransport, OutgoingEmail } from '@/types/email'
+
+/**
+ * mailto: URL with recipients, subject and body
+ */
+export const buildMailtoUrl = (email: OutgoingEmail): string => {
+  const params = [
+    email.cc.length > 0 ? `cc=${encodeURIComponent(email.cc.join(','))}` : null,
+    `subject=${encodeURIComponent(email.subject)}`,
+    `body=${encodeURIComponent(email.body)}`
+  ].filter(Boolean)
+
+  return `mailto:${email.to.map(encodeURIComponent).join(',')}?${params.join('&')}`
+}
+
+const relayTransport: MailTransport = {
+  id: 'relay',
+  description: 'Sent by the CRM mail server',
+  delivers: true,
+  async send(email: OutgoingEmail): Promise<MailSendResult> {
+    const relayUrl = getEnvString('VITE_MAIL_RELAY_URL')
+    if (!relayUrl) {
+      throw new Error('Mail relay is not configured (VITE_MAIL_RELAY_URL)')
+    }
+
+    const { data } = await supabase.auth.getSession()
+    const response = await fetch(relayUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {})
+      },
+      body: JSON.stringify({
+        to: email.to,
+        cc: email.cc,
+        subject: email.subject,
+        text: email.body,
+        reply_to: email.reply_to
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Mail relay rejected the message (${response.status})`)
+    }
+
+    const result = await response.json().catch(() => ({}))
+    return { message_id: typeof result?.message_id === 'string' ? result.message_id : null }
+  }
+}
+
+const mailtoTransport: MailTransport = {
+  id: 'mailto',
+  description: 'Opens in your email app to send',
+  delivers: false,
+  async send(email: OutgoingEmail): Promise<MailSendResult> {
+    window.location.href = buildMailtoUrl(email)
+    return { message_id: null }
+  }
+}
+
+const consoleTransport: MailTransport = {
+  id: 'console',
+  description: 'Development only: logged to the console, not delivered',
+  delivers: true,
+  async send(email: OutgoingEmail): Promise<MailSendResult> {
+    console.info('Email (console transport):', email)
+    return { message_id: `console-${Date.now()}` }
+  }
+}
+
+const transports = new Map<string, MailTransport>(
+  [relayTransport, mailtoTransport, consoleTransport].map(transport => [transport.id, transport])
+)
+
+/**
+ * Add or replace a transport, e.g. a provider API client
+ */
+export const registerMailTransport = (transport: MailTransport): void => {
+  transports.set(transport.id, transport)
+}
+
+/**
+ * Transport chosen by VITE_MAIL_TRANSPORT
+ */
+export const getMailTransport = (): MailTransport => {
+  const configured = getEnvString('VITE_MAIL_TRANSPORT')
+  const fallback = getEnvString('VITE_MAIL_RELAY_URL') ? 'relay' : 'mailto'
+
+  const transport = transports.get(configured || fallback)
+  if (!transport) {
+    console.warn(`Unknown mail transport "${configured}", using ${fallback}`)
+    return transports.get(fallback) as MailTransport
+  }
+  return transport
+}
@@ -0,0 +1,279 @@
+/**
+ * MIME Parser
+ * Reads a raw RFC 5322 / MIME message (.eml) into sender, recipients,
+ * subject, date and a plain text body. Attachments are skipped; an HTML-only
+ * body is reduced to text.
+ */
+
+import type { EmailAddress, ParsedEmail } from '@/types/inboundEmail'
+
+interface MimeEntity {
+  headers: Map<string, string>
+  body: string
+}
+
+interface HeaderValue {
+  value: string
+  params: Record<string, string>
+}
+
+interface TextPart {
+  type: string
+  text: string
+}
+
+const MAX_DEPTH = 10
+
+// ===============================
+// HEADERS
+// ===============================
+
+/**
+ * Split headers from body and unfold continuation lines. Header names are
+ * lower-cased; the first occurrence of a header wins.
+ */
+const parseEntity = (raw: string): MimeEntity => {
+  const source = raw.replace(/\r\n?/g, '\n')
+  if (source.startsWith('\n')) {
+    return { headers: new Map(), body: source.slice(1) }
+  }
+
+  const separator = source.indexOf('\n\n')
+  const headerBlock = separator === -1 ? source : source.slice(0, separator)
+  const body = separator === -1 ? '' : source.slice(separator + 2)
+
+  const headers = new Map<string, string>()
+  const unfolded = headerBlock.replace(/\n[ \t]+/g, ' ')
+  for (const line of unfolded.split('\n')) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim())
+    }
+  }
+
+  return { headers, body }
+}
+
+/**
+ * `text/plain; charset="utf-8"` into a lower-cased value and its parameters
+ */
+const parseHeaderValue = (header: string | undefined): HeaderValue => {
+  const [value = '', ...rest] = (header ?? '').split(';')
+  const params: Record<string, string> = {}
+
+  for (const param of rest) {
+    const equals = param.indexOf('=')
+    if (equals === -1) continue
+    const key = param.slice(0, equals).trim().toLowerCase()
+    params[key] = param.slice(equals + 1).trim().replace(/^"(.*)"$/, '$1')
+  }
+
+  return { value: value.trim().toLowerCase(), params }
+}
+
+// ===============================
+// DECODING
+// ===============================
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+/**
+ * Bytes of a string that may already hold decoded (non-ASCII) text
+ */
+const toBytes = (text: string): number[] => {
+  const encoder = new TextEncoder()
+  const bytes: number[] = []
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (code < 128) {
+      bytes.push(code)
+    } else {
+      bytes.push(...encoder.encode(char))
+    }
+  }
+  return bytes
+}
+
+const decodeBase64 = (text: string): Uint8Array => {
+  try {
+    const binary = atob(text.replace(/[^A-Za-z0-9+/=]/g, ''))
+    return Uint8Array.from(binary, char => char.charCodeAt(0))
+  } catch {
+    return new Uint8Array()
+  }
+}
+
+const decodeQuotedPrintable = (text: string, underscoreIsSpace = false): Uint8Array => {
+  const source = (underscoreIsSpace ? text.replace(/_/g, ' ') : text).replace(/=\n/g, '')
+  const bytes: number[] = []
+
+  for (let index = 0; index < source.length; index++) {
+    const hex = source.slice(index + 1, index + 3)
+    if (source[index] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      index += 2
+    } else {
+      bytes.push(...toBytes(source[index]))
+    }
+  }
+
+  return Uint8Array.from(bytes)
+}
+
+/**
+ * RFC 2047 encoded words, e.g. `=?UTF-8?Q?Caf=C3=A9?=`. Whitespace between
+ * adjacent encoded words is dropped.
+ */
+export const decodeHeaderText = (value: string): string => {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text, true)
+      return decodeBytes(bytes, charset.split('*')[0])
+    })
+}
+
+const decodeBody = (entity: MimeEntity, charset: string): string => {
+  const encoding = (entity.headers.get('content-transfer-encoding') ?? '').trim().toLowerCase()
+
+  if (encoding === 'base64') return decodeBytes(decodeBase64(entity.body), charset)
+  if (encoding === 'quoted-printable') return decodeBytes(decodeQuotedPrintable(entity.body), charset)
+  return entity.body
+}
+
+/**
+ * Text of an HTML body: line breaks for block elements, tags removed and
+ * common entities decoded
+ */
+export const htmlToText = (html: string): string => {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// ===============================
+// ADDRESSES
+// ===============================
+
+/**
+ * Split an address header on commas outside quotes and angle brackets
+ */
+const splitAddressList = (value: string): string[] => {
+  const entries: string[] = []
+  let current = ''
+  let inQuotes = false
+  let inAngle = false
+
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes
+    if (!inQuotes && char === '<') inAngle = true
+    if (!inQuotes && char === '>') inAngle = false
+
+    if (char === ',' && !inQuotes && !inAngle) {
+      entries.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  entries.push(current)
+  return entries.map(entry => entry.trim()).filter(Boolean)
+}
+
+/**
+ * `"Reyes, Dana" <Dana@Bistro.com>, ops@bistro.com` into addresses;
+ * addresses are lower-cased and group syntax is ignored
+ */
+export const parseAddressList = (value: string | undefined): EmailAddress[] => {
+  if (!value) return []
+
+  return splitAddressList(decodeHeaderText(value.replace(/^[^<>"@]*:/, '').replace(/;\s*$/, '')))
+    .map(entry => {
+      const angled = entry.match(/^(.*)<([^>]+)>\s*$/)
+      const address = (angled ? angled[2] : entry).trim().toLowerCase()
+      const name = angled ? angled[1].trim().replace(/^"(.*)"$/, '$1').trim() : ''
+      return { address, name: name || null }
+    })
+    .filter(entry => /^[^\s@]+@[^\s@]+$/.test(entry.address))
+}
+
+// ===============================
+// BODY
+// ===============================
+
+/**
+ * Inline text parts in document order, descending into multipart bodies
+ */
+const collectTextParts = (entity: MimeEntity, depth: number): TextPart[] => {
+  const contentType = parseHeaderValue(entity.headers.get('content-type') || 'text/plain')
+  const disposition = parseHeaderValue(entity.headers.get('content-disposition'))
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary
+    if (!boundary || depth >= MAX_DEPTH) return []
+
+    const [, ...sections] = entity.body.split(`--${boundary}`)
+    return sections
+      .filter(section => !section.startsWith('--'))
+      .flatMap(section => collectTextParts(parseEntity(section.replace(/^[ \t]*\n/, '')), depth + 1))
+  }
+
+  if (disposition.value === 'attachment') return []
+  if (contentType.value !== 'text/plain' && contentType.value !== 'text/html') return []
+
+  return [{
+    type: contentType.value,
+    text: decodeBody(entity, contentType.params.charset || 'utf-8')
+  }]
+}
+
+const parseDate = (value: string | undefined): string | null => {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Parse a raw message. Prefers the first text/plain part and falls back to
+ * the first HTML part.
+ */
+export const parseMimeMessage = (raw: string): ParsedEmail => {
+  const entity = parseEntity(raw)
+  const parts = collectTextParts(entity, 0)
+  const plain = parts.find(part => part.type === 'text/plain')
+  const html = parts.find(part => part.type === 'text/html')
+  const messageId = entity.headers.get('message-id')?.replace(/^<|>$/g, '').trim()
+
+  return {
+    message_id: messageId || null,
+    from: parseAddressList(entity.headers.get('from'))[0] ?? null,
+    to: parseAddressList(entity.headers.get('to')),
+    cc: parseAddressList(entity.headers.get('cc')),
+    subject: decodeHeaderText(entity.headers.get('subject') ?? '').trim(),
+    sent_at: parseDate(entity.headers.get('date')),
+    text: plain ? plain.text.trim() : html ? htmlToText(html.text) : ''
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Name Template Rules
+ * Token rendering and validation for opportunity name templates. Tokens with
+ * no value are dropped together with the separator next to them, so
+ * "{{organization}} - {{principal}} - {{context}}" without a context reads
+ * "Org - Principal".
+ */
+
+import type {
+  NameTemplateToken,
+  NameTemplateValues,
+  OpportunityNameTemplateFormData
+} from '@/types/opportunityNaming'
+import { NAME_TEMPLATE_TOKENS } from '@/types/opportunityNaming'
+
+const TOKEN_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const SEPARATOR_CHARS = /[-–—|/,:·]/
+const TRAILING_SEPARATOR = /\s*[-–—|/,:·]?\s*$/
+const LEADING_SEPARATOR = /^\s*[-–—|/,:·]?\s*/
+
+interface TemplatePart {
+  kind: 'literal' | 'value' | 'dropped'
+  text: string
+}
+
+export const isNameTemplateToken = (value: string): value is NameTemplateToken => {
+  return NAME_TEMPLATE_TOKENS.some(token => token.value === value)
+}
+
+/**
+ * Month, quarter and year tokens for a date
+ */
+export const dateTokenValues = (date: Date): Pick<NameTemplateValues, 'month' | 'quarter' | 'year' | 'date'> => {
+  const month = MONTH_NAMES[date.getMonth()]
+  const year = String(date.getFullYear())
+  return {
+    month,
+    quarter: `Q${Math.floor(date.getMonth() / 3) + 1}`,
+    year,
+    date: `${month} ${year}`
+  }
+}
+
+/**
+ * Fill in {{tokens}}. Tokens missing from values stay as written, which
+ * bakes part of a template; tokens with an empty value are dropped along
+ * with the neighbouring separator.
+ */
+export const renderNameTemplate = (pattern: string, values: NameTemplateValues): string => {
+  const parts: TemplatePart[] = []
+  let lastIndex = 0
+
+  for (const match of pattern.matchAll(TOKEN_PATTERN)) {
+    if (match.index! > lastIndex) {
+      parts.push({ kind: 'literal', text: pattern.slice(lastIndex, match.index) })
+    }
+    lastIndex = match.index! + match[0].length
+
+    const token = match[1]
+    if (!isNameTemplateToken(token) || !(token in values)) {
+      parts.push({ kind: 'value', text: match[0] })
+      continue
+    }
+
+    const value = values[token]?.trim() || ''
+    parts.push({ kind: value ? 'value' : 'dropped', text: value })
+  }
+  if (lastIndex < pattern.length) {
+    parts.push({ kind: 'literal', text: pattern.slice(lastIndex) })
+  }
+
+  parts.forEach((part, index) => {
+    if (part.kind !== 'dropped') return
+
+    const previous = parts[index - 1]?.kind === 'literal' ? parts[index - 1] : null
+    const next = parts[index + 1]?.kind === 'literal' ? parts[index + 1] : null
+    const previousSeparator = previous ? TRAILING_SEPARATOR.exec(previous.text)![0] : ''
+    const nextSeparator = next ? LEADING_SEPARATOR.exec(next.text)![0] : ''
+    const valueBefore = parts.slice(0, index).some(other => other.kind === 'value')
+    const valueAfter = parts.slice(index + 1).some(other => other.kind === 'value')
+
+    // Between two values keep the stronger separator, e.g. " - " over " "
+    let trimPrevious = !valueAfter || (valueBefore && (
+      !SEPARATOR_CHARS.test(previousSeparator) || SEPARATOR_CHARS.test(nextSeparator)
+    ))
+    if (!(trimPrevious ? previousSeparator : nextSeparator)) {
+      trimPrevious = !trimPrevious
+    }
+
+    if (trimPrevious && previous) {
+      previous.text = previous.text.slice(0, previous.text.length - previousSeparator.length)
+    } else if (next) {
+      next.text = next.text.slice(nextSeparator.length)
+    }
+  })
+
+  return parts
+    .map(part => part.text)
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Tokens in the pattern that are not name template tokens, e.g. typos
+ */
+export const findUnknownTokens = (pattern: string): string[] => {
+  const unknown = new Set<string>()
+  for (const match of pattern.matchAll(TOKEN_PATTERN)) {
+    if (!isNameTemplateToken(match[1])) unknown.add(match[1])
+  }
+  return [...unknown]
+}
+
+export const validateNameTemplate = (form: OpportunityNameTemplateFormData, otherNames: string[] = []): string[] => {
+  const errors: string[] = []
+  const name = form.name.trim()
+
+  if (!name) {
+    errors.push('Name is required')
+  } else if (otherNames.some(other => other.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push(`A template named "${name}" already exists`)
+  }
+
+  const pattern = form.pattern.trim()
+  if (!pattern) {
+    errors.push('Pattern is required')
+  } else if (![...pattern.matchAll(TOKEN_PATTERN)].some(match => isNameTemplateToken(match[1]))) {
+    errors.push('Pattern must contain at least one token')
+  }
+
+  const unknown = findUnknownTokens(pattern)
+  if (unknown.length > 0) {
+    errors.push(`Unknown tokens: ${unknown.map(token => `{{${token}}}`).join(', ')}`)
+  }
+
+  if (form.is_default && !form.is_active) {
+    errors.push('The default template must be active')
+  }
+
+  return errors
+}
@@ -0,0 +1,329 @@
+/**
+ * Naming Templates API Service
+ * Admin-defined opportunity name templates, and regenerating the names of
+ * auto-named opportunities after an organization or principal is renamed
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { opportunityNaming } from './opportunityNaming'
+import { DEFAULT_NAME_TEMPLATE } from '@/types/opportunityNaming'
+import type {
+  OpportunityNameTemplate,
+  OpportunityNameTemplateFormData,
+  OpportunityRenamePreview,
+  OpportunityRenameResult
+} from '@/types/opportunityNaming'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Times a rename picks a new unique name after losing it to another save
+ */
+const RENAME_ATTEMPTS = 3
+
+/**
+ * Naming Templates API class
+ */
+class NamingTemplatesApiService {
+
+  // ===============================
+  // TEMPLATES
+  // ===============================
+
+  /**
+   * Get templates ordered by name
+   */
+  async getTemplates(): Promise<ApiResponse<OpportunityNameTemplate[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('opportunity_name_templates')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching name templates:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data || [], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getTemplates:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Pattern of the default template, or the built-in pattern when none is set
+   */
+  async getDefaultPattern(): Promise<string> {
+    try {
+      const { data, error } = await supabase
+        .from('opportunity_name_templates')
+        .select('pattern')
+        .eq('is_default', true)
+        .eq('is_active', true)
+        .limit(1)
+
+      if (error) {
+        console.error('Error fetching default name template:', error)
+        return DEFAULT_NAME_TEMPLATE
+      }
+
+      return data?.[0]?.pattern || DEFAULT_NAME_TEMPLATE
+
+    } catch (error) {
+      console.error('Unexpected error in getDefaultPattern:', error)
+      return DEFAULT_NAME_TEMPLATE
+    }
+  }
+
+  async createTemplate(form: OpportunityNameTemplateFormData): Promise<ApiResponse<OpportunityNameTemplate>> {
+    try {
+      if (form.is_default) {
+        await this.clearDefault()
+      }
+
+      const { data, error } = await supabase
+        .from('opportunity_name_templates')
+        .insert(this.toTemplateRow(form))
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating name template:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in createTemplate:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async updateTemplate(id: string, form: OpportunityNameTemplateFormData): Promise<ApiResponse<OpportunityNameTemplate>> {
+    try {
+      if (form.is_default) {
+        await this.clearDefault(id)
+      }
+
+      const { data, error } = await supabase
+        .from('opportunity_name_templates')
+        .update(this.toTemplateRow(form))
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating name template:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in updateTemplate:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('opportunity_name_templates')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting name template:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in deleteTemplate:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  // ===============================
+  // BULK RENAME
+  // ===============================
+
+  /**
+   * Auto-named opportunities of an organization, or of a principal, whose
+   * name would change if regenerated from their stored template with the
+   * current organization, principal and product names
+   */
+  async getRenameCandidates(organizationId: string): Promise<ApiResponse<OpportunityRenamePreview[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('opportunities')
+        .select(`
+          id, name, name_template, deal_owner, created_at,
+          organization:organization_id(name),
+          principal:principal_id(name),
+          product:product_id(name, sku)
+        `)
+        .eq('auto_generated_name', true)
+        .is('deleted_at', null)
+        .or(`organization_id.eq.${organizationId},principal_id.eq.${organizationId}`)
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching rename candidates:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const previews: OpportunityRenamePreview[] = []
+      for (const row of (data || []) as any[]) {
+        if (!row.name_template) continue
+
+        const newName = opportunityNaming.generateOpportunityName({
+          organization_name: row.organization?.name || '',
+          principal_name: row.principal?.name || '',
+          product_name: row.product?.name,
+          product_sku: row.product?.sku,
+          deal_owner: row.deal_owner,
+          date: row.created_at ? new Date(row.created_at) : undefined,
+          template: row.name_template
+        })
+
+        if (newName && newName !== row.name) {
+          previews.push({
+            id: row.id,
+            current_name: row.name,
+            new_name: newName,
+            organization_name: row.organization?.name || '',
+            principal_name: row.principal?.name || null
+          })
+        }
+      }
+
+      return { data: previews, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getRenameCandidates:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Save regenerated names one at a time, so each is checked for uniqueness
+   * against the names already applied
+   */
+  async applyRenames(previews: OpportunityRenamePreview[]): Promise<ApiResponse<OpportunityRenameResult>> {
+    const result: OpportunityRenameResult = { renamed: 0, failed: [] }
+
+    try {
+      for (const preview of previews) {
+        const error = await this.renameOpportunity(preview)
+        if (error) {
+          result.failed.push({ id: preview.id, error })
+        } else {
+          result.renamed++
+        }
+      }
+
+      return { data: result, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in applyRenames:', error)
+      return {
+        data: result,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Save a unique version of the new name. The unique name index rejects a
+   * name another user took since the check, so the name is picked again.
+   * Returns the error, or null once renamed.
+   */
+  private async renameOpportunity(preview: OpportunityRenamePreview): Promise<string | null> {
+    for (let attempt = 1; attempt <= RENAME_ATTEMPTS; attempt++) {
+      const unique = await opportunityNaming.makeNameUnique(preview.new_name, preview.id)
+      if (!unique.success || !unique.data) {
+        return unique.error || 'Failed to generate a unique name'
+      }
+
+      const { error } = await supabase
+        .from('opportunities')
+        .update({ name: unique.data, updated_at: new Date().toISOString() })
+        .eq('id', preview.id)
+
+      if (!error) return null
+      if (error.code !== '23505') {
+        console.error('Error renaming opportunity:', error)
+        return error.message
+      }
+    }
+
+    return 'Another opportunity kept taking the new name; try again'
+  }
+
+  /**
+   * Unset the current default so another template can take its place
+   */
+  private async clearDefault(exceptId?: string): Promise<void> {
+    let query = supabase
+      .from('opportunity_name_templates')
+      .update({ is_default: false })
+      .eq('is_default', true)
+
+    if (exceptId) {
+      query = query.neq('id', exceptId)
+    }
+
+    const { error } = await query
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  private toTemplateRow(form: OpportunityNameTemplateFormData) {
+    return {
+      name: form.name.trim(),
+      pattern: form.pattern.trim(),
+      description: form.description.trim() || null,
+      is_default: form.is_default,
+      is_active: form.is_active
+    }
+  }
+}
+
+// Export singleton instance
+export const namingTemplatesApi = new NamingTemplatesApiService()
+export default namingTemplatesApi
@@ -0,0 +1,136 @@
+/**
+ * Notification Rules
+ * Pure rules that turn follow-ups, contracts, principal activity and
+ * opportunities into notification candidates for the enabled alert types
+ */
+
+import type {
+  NotificationCandidate,
+  NotificationPreferencesUpdate,
+  NotificationSources
+} from '@/types/notifications'
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/types/notifications'
+import { OpportunityStage, isClosedStage } from '@/types/opportunities'
+import { getContractWarningLevel } from './contractRules'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+/**
+ * Parse a date or timestamp; date-only values are read as local calendar days
+ */
+const parseDate = (value: string): Date => {
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  return dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(value)
+}
+
+/**
+ * Whole calendar days from `from` to `to` (negative when `to` is earlier)
+ */
+const calendarDaysBetween = (from: Date, to: Date): number => {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS)
+}
+
+const formatDate = (date: Date): string => {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+const pluralDays = (days: number): string => `${days} day${days === 1 ? '' : 's'}`
+
+/**
+ * Build the notifications due at `now` for the enabled alert types.
+ * Source keys include the due date, so rescheduling a record produces a new alert.
+ * Contract keys also include the 90/60/30 day milestone, so each one alerts again.
+ */
+export const buildNotificationCandidates = (
+  sources: NotificationSources,
+  preferences: NotificationPreferencesUpdate = DEFAULT_NOTIFICATION_PREFERENCES,
+  now: Date = new Date()
+): NotificationCandidate[] => {
+  const settings = { ...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences }
+  const candidates: NotificationCandidate[] = []
+
+  if (settings.follow_up_overdue) {
+    sources.followUps.forEach(followUp => {
+      const dueDate = parseDate(followUp.follow_up_date)
+      const daysOverdue = calendarDaysBetween(dueDate, now)
+      if (daysOverdue <= 0) return
+
+      const context = [followUp.organization_name, followUp.opportunity_name].filter(Boolean).join(' · ')
+      candidates.push({
+        type: 'follow_up_overdue',
+        title: `Follow-up overdue: ${followUp.subject}`,
+        message: `${context ? `${context} — ` : ''}due ${formatDate(dueDate)} (${pluralDays(daysOverdue)} ago)`,
+        entity_type: 'interaction',
+        entity_id: followUp.interaction_id,
+        action_url: `/interactions/${followUp.interaction_id}`,
+        source_key: `follow_up_overdue:${followUp.interaction_id}:${followUp.follow_up_date}`
+      })
+    })
+  }
+
+  if (settings.contract_expiring) {
+    sources.contracts.forEach(contract => {
+      const endDate = parseDate(contract.contract_end_date)
+      const daysLeft = calendarDaysBetween(now, endDate)
+      if (daysLeft < 0 || daysLeft > settings.contract_expiring_days) return
+
+      const warningLevel = getContractWarningLevel(daysLeft)
+      const productName = contract.product_name || 'Product'
+      const principalName = contract.principal_name || 'principal'
+      candidates.push({
+        type: 'contract_expiring',
+        title: `Contract ending: ${productName}`,
+        message: daysLeft === 0
+          ? `The ${principalName} contract ends today`
+          : `The ${principalName} contract ends ${formatDate(endDate)} (in ${pluralDays(daysLeft)})`,
+        entity_type: 'product_principal',
+        entity_id: contract.product_principal_id,
+        action_url: `/principals/${contract.principal_id}/products`,
+        source_key: `contract_expiring:${contract.product_principal_id}:${contract.contract_end_date}:${warningLevel ?? 'lead'}`
+      })
+    })
+  }
+
+  if (settings.principal_stale) {
+    sources.stalePrincipals.forEach(principal => {
+      const lastActivity = principal.last_activity_date ? parseDate(principal.last_activity_date) : null
+      candidates.push({
+        type: 'principal_stale',
+        title: `Stale principal: ${principal.principal_name}`,
+        message: lastActivity
+          ? `No activity since ${formatDate(lastActivity)}`
+          : 'No recorded activity',
+        entity_type: 'organization',
+        entity_id: principal.principal_id,
+        action_url: `/principals/${principal.principal_id}`,
+        source_key: `principal_stale:${principal.principal_id}:${principal.last_activity_date ?? 'none'}`
+      })
+    })
+  }
+
+  if (settings.opportunity_overdue) {
+    sources.opportunities.forEach(opportunity => {
+      if (isClosedStage(opportunity.stage as OpportunityStage)) return
+
+      const closeDate = parseDate(opportunity.expected_close_date)
+      const daysOverdue = calendarDaysBetween(closeDate, now)
+      if (daysOverdue <= 0) return
+
+      candidates.push({
+        type: 'opportunity_overdue',
+        title: `Past expected close: ${opportunity.name}`,
+        message: `Expected to close ${formatDate(closeDate)} (${pluralDays(daysOverdue)} ago), still in ${opportunity.stage}`,
+        entity_type: 'opportunity',
+        entity_id: opportunity.id,
+        action_url: `/opportunities/${opportunity.id}`,
+        source_key: `opportunity_overdue:${opportunity.id}:${opportunity.expected_close_date}`
+      })
+    })
+  }
+
+  return candidates
+}
@@ -0,0 +1,353 @@
+/**
+ * Notifications API Service
+ * Stores and reads in-app notifications, generates alerts from follow-ups,
+ * contracts, principal activity and opportunities, and manages preferences
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { interactionsApi } from './interactionsApi'
+import { buildNotificationCandidates } from './notificationRules'
+import type {
+  Notification,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  NotificationSources,
+  FollowUpSourceRow,
+  ContractSourceRow,
+  StalePrincipalSourceRow,
+  OpportunitySourceRow
+} from '@/types/notifications'
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/types/notifications'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Options for listing notifications
+ */
+export interface NotificationQueryOptions {
+  unreadOnly?: boolean
+  limit?: number
+}
+
+const toDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Notifications API class
+ */
+class NotificationsApiService {
+
+  /**
+   * Get the signed-in user's notifications, newest first
+   */
+  async getNotifications(options: NotificationQueryOptions = {}): Promise<ApiResponse<Notification[]>> {
+    try {
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 100)
+
+      if (options.unreadOnly) {
+        query = query.is('read_at', null)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching notifications:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: (data || []) as Notification[], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getNotifications:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Load the records notification rules are evaluated against
+   */
+  async getNotificationSources(
+    preferences: NotificationPreferencesUpdate,
+    now: Date = new Date()
+  ): Promise<ApiResponse<NotificationSources>> {
+    try {
+      const today = toDateString(now)
+      const contractDays = preferences.contract_expiring_days ?? DEFAULT_NOTIFICATION_PREFERENCES.contract_expiring_days
+      const contractHorizon = toDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() + contractDays))
+
+      const [followUpsResult, contractsResult, principalsResult, opportunitiesResult] = await Promise.all([
+        interactionsApi.getUpcomingFollowUps(),
+        supabase
+          .from('product_principals')
+          .select('id, product_id, principal_id, contract_end_date, product:product_id(name), principal:principal_id(name)')
+          .eq('is_active', true)
+          .gte('contract_end_date', today)
+          .lte('contract_end_date', contractHorizon),
+        supabase
+          .from('principal_activity_summary')
+          .select('principal_id, principal_name, last_activity_date')
+          .eq('activity_status', 'STALE'),
+        supabase
+          .from('opportunities')
+          .select('id, name, stage, expected_close_date')
+          .is('deleted_at', null)
+          .lt('expected_close_date', today)
+      ])
+
+      if (!followUpsResult.success) {
+        return { data: null, error: followUpsResult.error || 'Failed to load follow-ups', success: false }
+      }
+
+      const failed = [contractsResult, principalsResult, opportunitiesResult].find(result => result.error)
+      if (failed?.error) {
+        console.error('Error fetching notification sources:', failed.error)
+        return { data: null, error: failed.error.message, success: false }
+      }
+
+      const followUps: FollowUpSourceRow[] = (followUpsResult.data || [])
+        .filter(interaction => !!interaction.follow_up_date)
+        .map(interaction => ({
+          interaction_id: interaction.id,
+          subject: interaction.subject,
+          follow_up_date: interaction.follow_up_date as string,
+          opportunity_name: interaction.opportunity_name || null,
+          organization_name: interaction.organization_name || null
+        }))
+
+      const contracts: ContractSourceRow[] = (contractsResult.data || []).map((row: any) => ({
+        product_principal_id: row.id,
+        product_id: row.product_id,
+        principal_id: row.principal_id,
+        product_name: row.product?.name ?? null,
+        principal_name: row.principal?.name ?? null,
+        contract_end_date: row.contract_end_date
+      }))
+
+      const stalePrincipals: StalePrincipalSourceRow[] = (principalsResult.data || []).map((row: any) => ({
+        principal_id: row.principal_id,
+        principal_name: row.principal_name,
+        last_activity_date: row.last_activity_date ?? null
+      }))
+
+      const opportunities: OpportunitySourceRow[] = (opportunitiesResult.data || []).map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        stage: row.stage,
+        expected_close_date: row.expected_close_date
+      }))
+
+      return { data: { followUps, contracts, stalePrincipals, opportunities }, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getNotificationSources:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Create any alerts now due for the signed-in user. Alerts that already
+   * exist (by source key) are left untouched, including their read state.
+   * Returns the number of alerts evaluated.
+   */
+  async generateNotifications(
+    preferences: NotificationPreferencesUpdate,
+    now: Date = new Date()
+  ): Promise<ApiResponse<number>> {
+    try {
+      const sources = await this.getNotificationSources(preferences, now)
+      if (!sources.success || !sources.data) {
+        return { data: null, error: sources.error || 'Failed to load notification sources', success: false }
+      }
+
+      const candidates = buildNotificationCandidates(sources.data, preferences, now)
+      if (candidates.length === 0) {
+        return { data: 0, error: null, success: true }
+      }
+
+      const { error } = await supabase
+        .from('notifications')
+        .upsert(candidates, { onConflict: 'user_id,source_key', ignoreDuplicates: true })
+
+      if (error) {
+        console.error('Error generating notifications:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: candidates.length, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in generateNotifications:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Set or clear the read state of notifications
+   */
+  async setReadState(ids: string[], read: boolean): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: read ? new Date().toISOString() : null })
+        .in('id', ids)
+
+      if (error) {
+        console.error('Error updating notification read state:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in setReadState:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Mark every unread notification as read
+   */
+  async markAllAsRead(): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .is('read_at', null)
+
+      if (error) {
+        console.error('Error marking notifications as read:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in markAllAsRead:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Delete a notification
+   */
+  async deleteNotification(id: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting notification:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in deleteNotification:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Get a user's notification preferences (null when never saved)
+   */
+  async getPreferences(userId: string): Promise<ApiResponse<NotificationPreferences | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .limit(1)
+
+      if (error) {
+        console.error('Error fetching notification preferences:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: (data?.[0] ?? null) as NotificationPreferences | null, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getPreferences:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Save a user's notification preferences
+   */
+  async updatePreferences(
+    userId: string,
+    updates: NotificationPreferencesUpdate
+  ): Promise<ApiResponse<NotificationPreferences>> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: userId, ...updates }, { onConflict: 'user_id' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating notification preferences:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data as NotificationPreferences, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in updatePreferences:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationsApi = new NotificationsApiService()
+export default notificationsApi
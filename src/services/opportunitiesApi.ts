@@ -5,6 +5,7 @@
  */
 
 import { supabase } from '@/config/supabaseClient'
+import type { Json } from '@/types/database.types'
 import type { 
   Opportunity,
   OpportunityInsert,
@@ -18,11 +19,42 @@ import type {
   OpportunityFilters,
   OpportunityPagination,
   OpportunityListResponse,
+  OpportunityContext,
+  OpportunityLossDetails,
+  LossReason,
+  OpportunityStageHistoryEntry,
+  OpportunityPrincipalLink,
+  OpportunityPrincipalDetail,
+  PrincipalOpportunityShare,
+  StageDwellTime,
+  StagePipelineAnalytics,
+  StageProgressCount
+} from '@/types/opportunities'
+import {
   OpportunityStage,
-  OpportunityContext
+  DealValueSource,
+  DEFAULT_CURRENCY,
+  DEFAULT_TERM_WEEKS,
+  STAGE_DEFAULT_PROBABILITY,
+  opportunityLossSchema
 } from '@/types/opportunities'
-import { STAGE_DEFAULT_PROBABILITY } from '@/types/opportunities'
-import { generateBatchNamePreviews } from './opportunityNaming'
+import { UNASSIGNED_TERRITORY } from '@/types/territories'
+import { generateBatchNamePreviews, opportunityNaming } from './opportunityNaming'
+import { namingTemplatesApi } from './namingTemplatesApi'
+import { authApi } from './authApi'
+import { outboxApi } from './outboxApi'
+import { buildOptimisticRecord } from './outboxRules'
+import { calculateStageDurations, buildStageFunnel, normalizeDwellTimes } from './opportunityStageAnalytics'
+import { buildQuarterForecast, sumByCurrency, weightedValue } from './opportunityValue'
+import type { ForecastableOpportunity } from './opportunityValue'
+import { sortPrincipalLinks, validatePrincipalLinks } from './opportunityPrincipalRules'
+
+/**
+ * Convert a numeric/DECIMAL column value to a number, preserving null
+ */
+const toNumberOrNull = (value: unknown): number | null => {
+  return value === null || value === undefined ? null : Number(value)
+}
 
 /**
  * API Response wrapper for consistent error handling
@@ -51,6 +83,50 @@ export interface OpportunitySearchOptions {
 
 class OpportunitiesApiService {
 
+  /**
+   * Transform an opportunities row (with joined organization, principal and
+   * product) into the OpportunityListView shape
+   */
+  private toListView(row: any): OpportunityListView {
+    const now = new Date()
+    const createdDate = new Date(row.created_at || now)
+    const daysSinceCreated = Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24))
+    const stageChangedDate = row.stage_changed_at ? new Date(row.stage_changed_at) : createdDate
+    const stageDurationDays = Math.floor((now.getTime() - stageChangedDate.getTime()) / (1000 * 60 * 60 * 24))
+    
+    let daysToClose = null
+    if (row.expected_close_date) {
+      const closeDate = new Date(row.expected_close_date)
+      daysToClose = Math.floor((closeDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      stage: row.stage as OpportunityStage,
+      probability_percent: row.probability_percent || 0,
+      expected_close_date: row.expected_close_date,
+      estimated_value: toNumberOrNull(row.estimated_value),
+      currency_code: row.currency_code || DEFAULT_CURRENCY,
+      deal_owner: row.deal_owner,
+      is_won: row.is_won || false,
+      is_lost: row.is_lost || false,
+      lost_reason: (row.lost_reason as LossReason) || null,
+      created_at: row.created_at || now.toISOString(),
+      updated_at: row.updated_at || now.toISOString(),
+      notes: row.notes || null,
+      organization_name: row.organizations?.name || '',
+      organization_type: row.organizations?.type || '',
+      principal_name: row.principals?.name || null,
+      principal_id: row.principal_id || null,
+      product_name: row.products?.name || null,
+      product_category: row.products?.category || null,
+      days_since_created: daysSinceCreated,
+      days_to_close: daysToClose,
+      stage_duration_days: Math.max(0, stageDurationDays)
+    }
+  }
+
   /**
    * Get all opportunities with optional search, filtering, and pagination
    */
@@ -62,6 +138,7 @@ class OpportunitiesApiService {
         .select(`
           *,
           organizations:organization_id(name, type),
+          principals:principal_id(name),
           products:product_id(name, category)
         `)
 
@@ -104,40 +181,7 @@ class OpportunitiesApiService {
         return { data: null, error: error.message, success: false }
       }
 
-      // Transform database result to match OpportunityListView interface
-      const opportunities: OpportunityListView[] = (data || []).map((row: any) => {
-        const createdDate = new Date(row.created_at || new Date())
-        const now = new Date()
-        const daysSinceCreated = Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24))
-        
-        let daysToClose = null
-        if (row.expected_close_date) {
-          const closeDate = new Date(row.expected_close_date)
-          daysToClose = Math.floor((closeDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-        }
-
-        return {
-          id: row.id,
-          name: row.name,
-          stage: row.stage as OpportunityStage,
-          probability_percent: row.probability_percent || 0,
-          expected_close_date: row.expected_close_date,
-          deal_owner: row.deal_owner,
-          is_won: row.is_won || false,
-          created_at: row.created_at || new Date().toISOString(),
-          updated_at: row.updated_at || new Date().toISOString(),
-          notes: row.notes || null,
-          organization_name: (row.organizations as any)?.name || '',
-          organization_type: (row.organizations as any)?.type || '',
-          principal_name: null, // Will be populated when junction table is implemented
-          principal_id: null,
-          product_name: (row.products as any)?.name || null,
-          product_category: (row.products as any)?.category || null,
-          days_since_created: daysSinceCreated,
-          days_to_close: daysToClose,
-          stage_duration_days: daysSinceCreated // Simplified for now
-        }
-      })
+      const opportunities: OpportunityListView[] = (data || []).map((row: any) => this.toListView(row))
 
       return { data: opportunities, error: null, success: true }
 
@@ -159,11 +203,17 @@ class OpportunitiesApiService {
     pagination: OpportunityPagination
   ): Promise<ApiResponse<OpportunityListResponse>> {
     try {
+      // Territory filtering needs an inner join so the customer's territory can be matched
+      const organizationJoin = filters.territory_id
+        ? 'organizations:organization_id!inner(name, type, territory_id)'
+        : 'organizations:organization_id(name, type)'
+
       let query = supabase
         .from('opportunities')
         .select(`
           *,
-          organizations:organization_id(name, type),
+          ${organizationJoin},
+          principals:principal_id(name),
           products:product_id(name, category)
         `, { count: 'exact' })
 
@@ -177,6 +227,11 @@ class OpportunitiesApiService {
       if (filters.organization_id) {
         query = query.eq('organization_id', filters.organization_id)
       }
+      if (filters.territory_id === UNASSIGNED_TERRITORY) {
+        query = query.is('organizations.territory_id', null)
+      } else if (filters.territory_id) {
+        query = query.eq('organizations.territory_id', filters.territory_id)
+      }
       if (filters.product_id) {
         query = query.eq('product_id', filters.product_id)
       }
@@ -208,40 +263,7 @@ class OpportunitiesApiService {
         return { data: null, error: error.message, success: false }
       }
 
-      // Transform data
-      const opportunities: OpportunityListView[] = (data || []).map((row: any) => {
-        const createdDate = new Date(row.created_at || new Date())
-        const now = new Date()
-        const daysSinceCreated = Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24))
-        
-        let daysToClose = null
-        if (row.expected_close_date) {
-          const closeDate = new Date(row.expected_close_date)
-          daysToClose = Math.floor((closeDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-        }
-
-        return {
-          id: row.id,
-          name: row.name,
-          stage: row.stage as OpportunityStage,
-          probability_percent: row.probability_percent || 0,
-          expected_close_date: row.expected_close_date,
-          deal_owner: row.deal_owner,
-          is_won: row.is_won || false,
-          created_at: row.created_at || new Date().toISOString(),
-          updated_at: row.updated_at || new Date().toISOString(),
-          notes: row.notes || null,
-          organization_name: (row.organizations as any)?.name || '',
-          organization_type: (row.organizations as any)?.type || '',
-          principal_name: null,
-          principal_id: null,
-          product_name: (row.products as any)?.name || null,
-          product_category: (row.products as any)?.category || null,
-          days_since_created: daysSinceCreated,
-          days_to_close: daysToClose,
-          stage_duration_days: daysSinceCreated
-        }
-      })
+      const opportunities: OpportunityListView[] = (data || []).map((row: any) => this.toListView(row))
 
       const totalCount = count || 0
       const response: OpportunityListResponse = {
@@ -275,7 +297,8 @@ class OpportunitiesApiService {
         .select(`
           *,
           organizations:organization_id(name, type, address, phone, email),
-          products:product_id(name, description, category, suggested_retail_price)
+          products:product_id(name, description, category, suggested_retail_price),
+          opportunity_principals(principal_id, contribution_percent, is_primary, principal:principal_id(name, address, phone, email))
         `)
         .eq('id', id)
         .single()
@@ -300,6 +323,15 @@ class OpportunitiesApiService {
         daysToClose = Math.floor((closeDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
       }
 
+      const principalRows: any[] = (data as any).opportunity_principals || []
+      const principals = sortPrincipalLinks(principalRows.map(row => ({
+        principal_id: row.principal_id,
+        contribution_percent: row.contribution_percent,
+        is_primary: row.is_primary,
+        principal_name: row.principal?.name || ''
+      }))) as OpportunityPrincipalDetail[]
+      const primary = principalRows.find(row => row.is_primary)
+
       const opportunity: OpportunityDetailView = {
         id: data.id,
         name: data.name,
@@ -309,9 +341,22 @@ class OpportunitiesApiService {
         context: data.context as OpportunityContext | null,
         probability_percent: data.probability_percent || 0,
         expected_close_date: data.expected_close_date,
+        estimated_value: toNumberOrNull(data.estimated_value),
+        currency_code: data.currency_code || DEFAULT_CURRENCY,
+        actual_value: toNumberOrNull(data.actual_value),
+        estimated_cases_per_week: toNumberOrNull(data.estimated_cases_per_week),
+        unit_price: toNumberOrNull(data.unit_price),
+        term_weeks: toNumberOrNull(data.term_weeks),
+        value_source: (data.value_source as DealValueSource) || DealValueSource.MANUAL,
         deal_owner: data.deal_owner,
         notes: data.notes,
         is_won: data.is_won || false,
+        is_lost: data.is_lost || false,
+        lost_reason: (data.lost_reason as LossReason) || null,
+        lost_date: data.lost_date || null,
+        competitor_info: data.competitor_info || null,
+        lost_notes: data.lost_notes || null,
+        advance_on_authorization_to: (data.advance_on_authorization_to as OpportunityStage) || null,
         auto_generated_name: data.auto_generated_name || false,
         name_template: data.name_template,
         created_at: data.created_at || new Date().toISOString(),
@@ -326,12 +371,13 @@ class OpportunitiesApiService {
         organization_phone: (data.organizations as any)?.phone || null,
         organization_email: (data.organizations as any)?.email || null,
         
-        // Principal data (placeholder)
-        principal_name: null,
-        principal_id: null,
-        principal_address: null,
-        principal_phone: null,
-        principal_email: null,
+        // Principal data (primary principal)
+        principal_name: primary?.principal?.name || null,
+        principal_id: data.principal_id,
+        principal_address: primary?.principal?.address || null,
+        principal_phone: primary?.principal?.phone || null,
+        principal_email: primary?.principal?.email || null,
+        principals,
         
         // Product data
         product_name: (data.products as any)?.name || null,
@@ -370,7 +416,12 @@ class OpportunitiesApiService {
       // Clean the opportunity data to match database schema
       const cleanedOpportunity = {
         ...opportunity,
-        probability_percent: opportunity.probability_percent ?? undefined
+        probability_percent: opportunity.probability_percent ?? undefined,
+        created_by: opportunity.created_by ?? await authApi.getCurrentUserId()
+      }
+
+      if (outboxApi.isOffline()) {
+        return await this.queueOpportunityCreate(cleanedOpportunity)
       }
 
       const { data, error } = await supabase
@@ -380,8 +431,15 @@ class OpportunitiesApiService {
         .single()
 
       if (error) {
+        if (outboxApi.shouldQueue(error.message)) {
+          return await this.queueOpportunityCreate(cleanedOpportunity)
+        }
         console.error('Error creating opportunity:', error)
-        return { data: null, error: error.message, success: false }
+        return {
+          data: null,
+          error: error.code === '23505' ? `An opportunity named "${opportunity.name}" already exists` : error.message,
+          success: false
+        }
       }
 
       return { data: data as Opportunity, error: null, success: true }
@@ -401,33 +459,12 @@ class OpportunitiesApiService {
    */
   async createBatchOpportunities(formData: OpportunityFormData): Promise<ApiResponse<BatchCreationResult>> {
     try {
-      // Get organization name for name generation
-      const { data: orgData } = await supabase
-        .from('organizations')
-        .select('name')
-        .eq('id', formData.organization_id)
-        .single()
-
-      const organizationName = orgData?.name || 'Unknown Organization'
-
-      // Get principal names for name generation  
-      const { data: principalData } = await supabase
-        .from('organizations')
-        .select('id, name')
-        .in('id', formData.principal_ids)
-
-      const principalDataFormatted = (principalData || []).map((p: any) => ({
-        id: p.id,
-        name: p.name
-      }))
-
       // Generate name previews for all principals
-      const namePreviews = await generateBatchNamePreviews({
-        organization_name: organizationName,
-        principal_data: principalDataFormatted,
-        context: formData.context,
-        custom_context: formData.name_template || undefined
-      })
+      const previewResponse = await this.generateNamePreviews(formData)
+      if (!previewResponse.success || !previewResponse.data) {
+        return { data: null, error: previewResponse.error || 'Failed to generate opportunity names', success: false }
+      }
+      const namePreviews = previewResponse.data
 
       const createdOpportunities: Opportunity[] = []
       const failedCreations: { principal_id: string; principal_name: string; error: string }[] = []
@@ -435,28 +472,13 @@ class OpportunitiesApiService {
       // Create opportunities for each principal
       for (const preview of namePreviews) {
         try {
-          const opportunityData: OpportunityInsert = {
-            name: formData.auto_generate_name ? preview.generated_name : formData.name,
-            organization_id: formData.organization_id,
-            stage: formData.stage,
-            product_id: formData.product_id || null,
-            context: formData.context,
-            probability_percent: formData.probability_percent || null,
-            expected_close_date: formData.expected_close_date,
-            deal_owner: formData.deal_owner,
-            notes: formData.notes,
-            auto_generated_name: formData.auto_generate_name,
-            name_template: formData.auto_generate_name ? preview.name_template : null
-          }
+          const opportunityData = this.toOpportunityInsert(formData, await this.withUniqueName(formData, preview))
 
+          // The opportunities trigger links the principal at 100% in opportunity_principals
           const result = await this.createOpportunity(opportunityData)
           
           if (result.success && result.data) {
             createdOpportunities.push(result.data)
-            
-            // TODO: Create opportunity_principal relationship
-            // This will be implemented when the junction table is set up
-            
           } else {
             failedCreations.push({
               principal_id: preview.principal_id,
@@ -493,6 +515,305 @@ class OpportunitiesApiService {
     }
   }
 
+  /**
+   * Create one opportunity shared by all selected principals, with the
+   * contribution splits from formData.principal_links. The primary principal
+   * is stored as the opportunity's principal and names the opportunity.
+   */
+  async createSharedOpportunity(formData: OpportunityFormData): Promise<ApiResponse<Opportunity>> {
+    try {
+      const links = formData.principal_links || []
+      const splitError = validatePrincipalLinks(links)
+      if (splitError) {
+        return { data: null, error: splitError, success: false }
+      }
+
+      if (outboxApi.isOffline()) {
+        return { data: null, error: 'Shared opportunities can only be created while online', success: false }
+      }
+
+      const primaryId = links.find(link => link.is_primary)!.principal_id
+      const namePreviews = await this.generateNamePreviews({ ...formData, principal_ids: [primaryId] })
+      const preview = namePreviews.data?.[0]
+      if (!preview) {
+        return { data: null, error: namePreviews.error || 'Primary principal not found', success: false }
+      }
+
+      const insert = this.toOpportunityInsert(formData, await this.withUniqueName(formData, preview))
+      const opportunity = {
+        ...insert,
+        probability_percent: insert.probability_percent ?? undefined,
+        created_by: await authApi.getCurrentUserId()
+      }
+
+      // One transaction, so a failed split leaves no opportunity behind
+      const { data, error } = await supabase.rpc('create_shared_opportunity', {
+        p_opportunity: opportunity as Json,
+        p_principals: links.map(link => ({
+          principal_id: link.principal_id,
+          contribution_percent: link.contribution_percent,
+          is_primary: link.is_primary
+        }))
+      })
+
+      if (error) {
+        console.error('Error creating shared opportunity:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data as Opportunity, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in createSharedOpportunity:', error)
+      return { 
+        data: null, 
+        error: error instanceof Error ? error.message : 'Unknown error occurred', 
+        success: false 
+      }
+    }
+  }
+
+  /**
+   * Principals on an opportunity with their contribution splits, primary first
+   */
+  async getOpportunityPrincipals(opportunityId: string): Promise<ApiResponse<OpportunityPrincipalDetail[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('opportunity_principals')
+        .select('principal_id, contribution_percent, is_primary, principal:principal_id(name)')
+        .eq('opportunity_id', opportunityId)
+
+      if (error) {
+        console.error('Error fetching opportunity principals:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const principals = (data || []).map((row: any) => ({
+        principal_id: row.principal_id,
+        contribution_percent: row.contribution_percent,
+        is_primary: row.is_primary,
+        principal_name: row.principal?.name || ''
+      }))
+
+      return { data: sortPrincipalLinks(principals) as OpportunityPrincipalDetail[], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getOpportunityPrincipals:', error)
+      return { 
+        data: null, 
+        error: error instanceof Error ? error.message : 'Unknown error occurred', 
+        success: false 
+      }
+    }
+  }
+
+  /**
+   * Replace the principals and contribution splits of an opportunity. The
+   * primary principal becomes the opportunity's principal_id.
+   */
+  async setOpportunityPrincipals(
+    opportunityId: string,
+    links: OpportunityPrincipalLink[]
+  ): Promise<ApiResponse<OpportunityPrincipalLink[]>> {
+    try {
+      const splitError = validatePrincipalLinks(links)
+      if (splitError) {
+        return { data: null, error: splitError, success: false }
+      }
+
+      const { data, error } = await supabase.rpc('set_opportunity_principals', {
+        p_opportunity_id: opportunityId,
+        p_principals: links.map(link => ({
+          principal_id: link.principal_id,
+          contribution_percent: link.contribution_percent,
+          is_primary: link.is_primary
+        }))
+      })
+
+      if (error) {
+        console.error('Error saving opportunity principals:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const saved = ((data as any[]) || []).map(row => ({
+        principal_id: row.principal_id,
+        contribution_percent: row.contribution_percent,
+        is_primary: row.is_primary
+      }))
+
+      return { data: saved, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in setOpportunityPrincipals:', error)
+      return { 
+        data: null, 
+        error: error instanceof Error ? error.message : 'Unknown error occurred', 
+        success: false 
+      }
+    }
+  }
+
+  /**
+   * Opportunities a principal is on, including shared ones, with the
+   * principal's contribution and weighted value
+   */
+  async getPrincipalOpportunities(
+    principalId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<ApiResponse<PrincipalOpportunityShare[]>> {
+    try {
+      const limit = options.limit ?? 10
+      const offset = options.offset ?? 0
+
+      const { data, error } = await supabase
+        .from('principal_opportunity_shares')
+        .select('*')
+        .eq('principal_id', principalId)
+        .order('updated_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (error) {
+        console.error('Error fetching principal opportunities:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const shares: PrincipalOpportunityShare[] = (data || []).map((row: any) => ({
+        opportunity_id: row.opportunity_id,
+        principal_id: row.principal_id,
+        name: row.name,
+        stage: row.stage as OpportunityStage,
+        probability_percent: row.probability_percent,
+        expected_close_date: row.expected_close_date,
+        estimated_value: toNumberOrNull(row.estimated_value),
+        currency_code: row.currency_code || DEFAULT_CURRENCY,
+        deal_owner: row.deal_owner,
+        is_won: row.is_won || false,
+        is_lost: row.is_lost || false,
+        notes: row.notes,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        organization_id: row.organization_id,
+        organization_name: row.organization_name || '',
+        product_id: row.product_id,
+        product_name: row.product_name,
+        is_primary: row.is_primary || false,
+        contribution_percent: row.contribution_percent ?? 100,
+        principal_count: Number(row.principal_count) || 1,
+        weighted_value: Number(row.weighted_value) || 0
+      }))
+
+      return { data: shares, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getPrincipalOpportunities:', error)
+      return { 
+        data: null, 
+        error: error instanceof Error ? error.message : 'Unknown error occurred', 
+        success: false 
+      }
+    }
+  }
+
+  /**
+   * Append " (n)" to a generated name that another opportunity already has.
+   * Skipped offline, where the names cannot be checked.
+   */
+  private async withUniqueName(
+    formData: OpportunityFormData,
+    preview: OpportunityNamePreview
+  ): Promise<OpportunityNamePreview> {
+    if (!formData.auto_generate_name || outboxApi.isOffline()) {
+      return preview
+    }
+
+    const unique = await opportunityNaming.makeNameUnique(preview.generated_name)
+    return unique.success && unique.data ? { ...preview, generated_name: unique.data } : preview
+  }
+
+  /**
+   * Map form data to insert columns for one opportunity named by the preview
+   */
+  private toOpportunityInsert(formData: OpportunityFormData, preview: OpportunityNamePreview): OpportunityInsert {
+    return {
+      name: formData.auto_generate_name ? preview.generated_name : formData.name,
+      organization_id: formData.organization_id,
+      principal_id: preview.principal_id,
+      stage: formData.stage,
+      product_id: formData.product_id || null,
+      context: formData.context,
+      probability_percent: formData.probability_percent || null,
+      expected_close_date: formData.expected_close_date,
+      ...this.toDealValueFields(formData),
+      deal_owner: formData.deal_owner,
+      notes: formData.notes,
+      auto_generated_name: formData.auto_generate_name,
+      name_template: formData.auto_generate_name ? preview.name_template : null,
+      ...(formData.stage === OpportunityStage.CLOSED_LOST && {
+        is_lost: true,
+        lost_reason: formData.lost_reason || null,
+        lost_date: new Date().toISOString().split('T')[0],
+        competitor_info: formData.competitor_info || null,
+        lost_notes: formData.lost_notes || null
+      })
+    }
+  }
+
+  /**
+   * Map deal value form fields to insert columns. For calculated values the
+   * case price is left null when not overridden so the database trigger can
+   * apply each principal's wholesale price.
+   */
+  private toDealValueFields(formData: OpportunityFormData): Partial<OpportunityInsert> {
+    const valueSource = formData.value_source || DealValueSource.MANUAL
+    
+    if (valueSource === DealValueSource.CALCULATED) {
+      return {
+        value_source: valueSource,
+        currency_code: formData.currency_code || DEFAULT_CURRENCY,
+        estimated_cases_per_week: formData.estimated_cases_per_week ?? null,
+        unit_price: formData.unit_price ?? null,
+        term_weeks: formData.term_weeks ?? DEFAULT_TERM_WEEKS,
+        estimated_value: formData.estimated_value ?? null
+      }
+    }
+    
+    return {
+      value_source: valueSource,
+      currency_code: formData.currency_code || DEFAULT_CURRENCY,
+      estimated_value: formData.estimated_value ?? null
+    }
+  }
+
+  /**
+   * Get the wholesale case price for a product from a principal
+   */
+  async getProductPrincipalPrice(productId: string, principalId: string): Promise<ApiResponse<number | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('product_principals')
+        .select('wholesale_price')
+        .eq('product_id', productId)
+        .eq('principal_id', principalId)
+        .eq('is_active', true)
+        .limit(1)
+
+      if (error) {
+        console.error('Error fetching product principal price:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: toNumberOrNull(data?.[0]?.wholesale_price), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getProductPrincipalPrice:', error)
+      return { 
+        data: null, 
+        error: error instanceof Error ? error.message : 'Unknown error occurred', 
+        success: false 
+      }
+    }
+  }
+
   /**
    * Generate name previews for batch creation
    */
@@ -518,11 +839,24 @@ class OpportunitiesApiService {
         name: p.name
       }))
 
-      const previews = await generateBatchNamePreviews({
+      // Product tokens for templates that use them
+      const { data: productData } = formData.product_id
+        ? await supabase
+          .from('products')
+          .select('name, sku')
+          .eq('id', formData.product_id)
+          .limit(1)
+        : { data: null }
+
+      const previews = generateBatchNamePreviews({
         organization_name: organizationName,
         principal_data: principalDataFormatted,
         context: formData.context,
-        custom_context: formData.name_template || undefined
+        custom_context: formData.name_template || undefined,
+        product_name: productData?.[0]?.name,
+        product_sku: productData?.[0]?.sku,
+        deal_owner: formData.deal_owner,
+        template: await namingTemplatesApi.getDefaultPattern()
       })
 
       return { data: previews, error: null, success: true }
@@ -540,7 +874,11 @@ class OpportunitiesApiService {
   /**
    * Update an existing opportunity
    */
-  async updateOpportunity(id: string, updates: OpportunityUpdate): Promise<ApiResponse<Opportunity>> {
+  async updateOpportunity(
+    id: string,
+    updates: OpportunityUpdate,
+    current?: Partial<Opportunity> | null
+  ): Promise<ApiResponse<Opportunity>> {
     try {
       // Clean the updates data to match database schema
       const cleanedUpdates = {
@@ -548,6 +886,10 @@ class OpportunitiesApiService {
         probability_percent: updates.probability_percent ?? undefined
       }
 
+      if (outboxApi.isOffline()) {
+        return await this.queueOpportunityUpdate(id, cleanedUpdates, current)
+      }
+
       const { data, error } = await supabase
         .from('opportunities')
         .update(cleanedUpdates)
@@ -556,8 +898,15 @@ class OpportunitiesApiService {
         .single()
 
       if (error) {
+        if (outboxApi.shouldQueue(error.message)) {
+          return await this.queueOpportunityUpdate(id, cleanedUpdates, current)
+        }
         console.error('Error updating opportunity:', error)
-        return { data: null, error: error.message, success: false }
+        return {
+          data: null,
+          error: error.code === '23505' ? 'Another opportunity already has this name' : error.message,
+          success: false
+        }
       }
 
       return { data: data as Opportunity, error: null, success: true }
@@ -574,8 +923,16 @@ class OpportunitiesApiService {
 
   /**
    * Update opportunity stage with automatic probability adjustment
+   * Moving to Closed - Lost requires loss details; leaving it clears them.
+   * The transition is recorded in stage history by a database trigger; an
+   * optional note is attached to that history entry.
    */
-  async updateOpportunityStage(id: string, newStage: OpportunityStage): Promise<ApiResponse<Opportunity>> {
+  async updateOpportunityStage(
+    id: string,
+    newStage: OpportunityStage,
+    lossDetails?: OpportunityLossDetails,
+    note?: string
+  ): Promise<ApiResponse<Opportunity>> {
     try {
       const defaultProbability = STAGE_DEFAULT_PROBABILITY[newStage]
       
@@ -584,7 +941,41 @@ class OpportunitiesApiService {
         probability_percent: defaultProbability
       }
 
-      return await this.updateOpportunity(id, updates)
+      if (newStage === OpportunityStage.CLOSED_LOST) {
+        if (!lossDetails) {
+          return { data: null, error: 'Loss reason is required to close an opportunity as lost', success: false }
+        }
+
+        try {
+          await opportunityLossSchema.validate(lossDetails)
+        } catch (validationError) {
+          return {
+            data: null,
+            error: validationError instanceof Error ? validationError.message : 'Invalid loss details',
+            success: false
+          }
+        }
+
+        updates.is_lost = true
+        updates.lost_reason = lossDetails.lost_reason
+        updates.lost_date = new Date().toISOString().split('T')[0]
+        updates.competitor_info = lossDetails.competitor_info || null
+        updates.lost_notes = lossDetails.lost_notes || null
+      } else {
+        updates.is_lost = false
+        updates.lost_reason = null
+        updates.lost_date = null
+        updates.competitor_info = null
+        updates.lost_notes = null
+      }
+
+      const result = await this.updateOpportunity(id, updates)
+
+      if (result.success && note?.trim() && !outboxApi.isOffline()) {
+        await this.annotateLatestStageChange(id, newStage, note.trim())
+      }
+
+      return result
 
     } catch (error) {
       console.error('Unexpected error in updateOpportunityStage:', error)
@@ -596,6 +987,110 @@ class OpportunitiesApiService {
     }
   }
 
+  /**
+   * Attach a note to the most recent history entry for a stage transition
+   */
+  private async annotateLatestStageChange(
+    opportunityId: string,
+    toStage: OpportunityStage,
+    note: string
+  ): Promise<void> {
+    const { data, error } = await supabase
+      .from('opportunity_stage_history')
+      .select('id')
+      .eq('opportunity_id', opportunityId)
+      .eq('to_stage', toStage)
+      .order('changed_at', { ascending: false })
+      .limit(1)
+
+    if (error || !data?.length) {
+      console.error('Error locating stage history entry for note:', error)
+      return
+    }
+
+    const { error: updateError } = await supabase
+      .from('opportunity_stage_history')
+      .update({ note })
+      .eq('id', data[0].id)
+
+    if (updateError) {
+      console.error('Error saving stage change note:', updateError)
+    }
+  }
+
+  /**
+   * Get the stage transition history for an opportunity, newest first
+   */
+  async getStageHistory(id: string): Promise<ApiResponse<OpportunityStageHistoryEntry[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('opportunity_stage_history')
+        .select('id, opportunity_id, from_stage, to_stage, changed_by, changed_at, note')
+        .eq('opportunity_id', id)
+        .order('changed_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching stage history:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const history = calculateStageDurations(data || []).reverse()
+
+      return { data: history, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getStageHistory:', error)
+      return { 
+        data: null, 
+        error: error instanceof Error ? error.message : 'Unknown error occurred', 
+        success: false 
+      }
+    }
+  }
+
+  /**
+   * Get per-stage dwell times and stage-to-stage conversion funnel
+   */
+  async getStageAnalytics(): Promise<ApiResponse<StagePipelineAnalytics>> {
+    try {
+      const [dwellResult, funnelResult] = await Promise.all([
+        supabase.from('opportunity_stage_dwell_view').select('*'),
+        supabase.from('opportunity_stage_funnel_view').select('stage, furthest_stage, opportunities')
+      ])
+
+      if (dwellResult.error) {
+        console.error('Error fetching stage dwell times:', dwellResult.error)
+        return { data: null, error: dwellResult.error.message, success: false }
+      }
+
+      if (funnelResult.error) {
+        console.error('Error fetching stage funnel:', funnelResult.error)
+        return { data: null, error: funnelResult.error.message, success: false }
+      }
+
+      const progress: StageProgressCount[] = (funnelResult.data || []).map((row: any) => ({
+        stage: row.stage as OpportunityStage,
+        furthest_stage: row.furthest_stage as OpportunityStage,
+        opportunities: Number(row.opportunities) || 0
+      }))
+
+      const analytics: StagePipelineAnalytics = {
+        dwell_times: normalizeDwellTimes((dwellResult.data || []) as StageDwellTime[]),
+        funnel: buildStageFunnel(progress)
+      }
+
+      return { data: analytics, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getStageAnalytics:', error)
+      return { 
+        data: null, 
+        error: error instanceof Error ? error.message : 'Unknown error occurred', 
+        success: false 
+      }
+    }
+  }
+
   /**
    * Delete an opportunity (soft delete)
    */
@@ -645,8 +1140,13 @@ class OpportunitiesApiService {
 
       // Calculate basic metrics
       const totalOpportunities = opportunities?.length || 0
-      const activeOpportunities = opportunities?.filter((opp: any) => !opp.is_won && opp.stage !== 'Closed - Won').length || 0
+      const activeOpportunities = opportunities?.filter((opp: any) => 
+        !opp.is_won && !opp.is_lost && opp.stage !== 'Closed - Won' && opp.stage !== 'Closed - Lost'
+      ).length || 0
       const wonOpportunities = opportunities?.filter((opp: any) => opp.is_won).length || 0
+      const lostOpportunities = opportunities?.filter((opp: any) => 
+        opp.is_lost || opp.stage === 'Closed - Lost'
+      ).length || 0
       
       // Calculate average probability
       const probabilitySum = opportunities?.reduce((sum: number, opp: any) => sum + (opp.probability_percent || 0), 0) || 0
@@ -657,9 +1157,19 @@ class OpportunitiesApiService {
         opp.is_won && opp.updated_at && new Date(opp.updated_at) >= thisMonth
       ).length || 0
 
-      // Calculate conversion rate
+      // Calculate lost this month
+      const lostThisMonth = opportunities?.filter((opp: any) => {
+        const lostAt = opp.lost_date || opp.updated_at
+        return (opp.is_lost || opp.stage === 'Closed - Lost') && lostAt && new Date(lostAt) >= thisMonth
+      }).length || 0
+
+      // Calculate conversion rate across all opportunities
       const conversionRate = totalOpportunities > 0 ? (wonOpportunities / totalOpportunities) * 100 : 0
 
+      // Calculate win rate across closed opportunities only (won vs lost)
+      const closedOpportunities = wonOpportunities + lostOpportunities
+      const winRate = closedOpportunities > 0 ? (wonOpportunities / closedOpportunities) * 100 : 0
+
       // Calculate stage distribution
       const stageDistribution = {
         'New Lead': 0,
@@ -668,13 +1178,59 @@ class OpportunitiesApiService {
         'Awaiting Response': 0,
         'Feedback Logged': 0,
         'Demo Scheduled': 0,
-        'Closed - Won': 0
+        'Closed - Won': 0,
+        'Closed - Lost': 0
       } as { [K in OpportunityStage]: number }
 
       opportunities?.forEach((opp: any) => {
         stageDistribution[opp.stage as OpportunityStage]++
       })
 
+      // Calculate loss reason distribution
+      const lossReasonDistribution = {
+        'Price': 0,
+        'Distributor Not Carrying': 0,
+        'Competitor': 0,
+        'No Follow-up': 0,
+        'Product Fit': 0,
+        'Timing': 0,
+        'No Decision': 0,
+        'Other': 0
+      } as { [K in LossReason]: number }
+
+      opportunities?.forEach((opp: any) => {
+        if (opp.is_lost && opp.lost_reason && opp.lost_reason in lossReasonDistribution) {
+          lossReasonDistribution[opp.lost_reason as LossReason]++
+        }
+      })
+
+      // Calculate pipeline value per currency from open opportunities' expected deal values
+      const openOpportunities: ForecastableOpportunity[] = (opportunities || [])
+        .filter((opp: any) => !opp.is_won && !opp.is_lost && opp.stage !== 'Closed - Won' && opp.stage !== 'Closed - Lost')
+        .map((opp: any): ForecastableOpportunity => ({
+          expected_close_date: opp.expected_close_date,
+          estimated_value: toNumberOrNull(opp.estimated_value),
+          probability_percent: opp.probability_percent,
+          currency_code: opp.currency_code
+        }))
+
+      const totalPipelineValue = sumByCurrency(openOpportunities, opp => opp.estimated_value || 0)
+      const weightedPipelineValue = sumByCurrency(openOpportunities, weightedValue)
+      const quarterForecast = buildQuarterForecast(openOpportunities, now)
+      const currentQuarter = quarterForecast[0]?.quarter
+      const expectedCloseThisQuarter = sumByCurrency(
+        quarterForecast.filter(quarter => quarter.quarter === currentQuarter),
+        quarter => quarter.weighted_value
+      )
+
+      // Calculate average days to close from won opportunities
+      const wonWithDates = (opportunities || []).filter((opp: any) => opp.is_won && opp.won_date && opp.created_at)
+      const averageDaysToClose = wonWithDates.length > 0
+        ? wonWithDates.reduce((sum: number, opp: any) =>
+            sum + (new Date(opp.won_date).getTime() - new Date(opp.created_at).getTime()) / (1000 * 60 * 60 * 24), 0
+          ) / wonWithDates.length
+        : 0
+
       // Calculate recent activity
       const createdThisWeek = opportunities?.filter((opp: any) => 
         opp.created_at && new Date(opp.created_at) >= thisWeek
@@ -685,20 +1241,26 @@ class OpportunitiesApiService {
       ).length || 0
 
       const closedThisWeek = opportunities?.filter((opp: any) => 
-        opp.is_won && opp.updated_at && new Date(opp.updated_at) >= thisWeek
+        (opp.is_won || opp.is_lost) && opp.updated_at && new Date(opp.updated_at) >= thisWeek
       ).length || 0
 
       const kpis: OpportunityKPIs = {
         total_opportunities: totalOpportunities,
         active_opportunities: activeOpportunities,
         won_opportunities: wonOpportunities,
+        lost_opportunities: lostOpportunities,
         average_probability: Math.round(averageProbability),
-        total_pipeline_value: 0, // TODO: Calculate when product pricing is available
+        total_pipeline_value: totalPipelineValue,
+        weighted_pipeline_value: weightedPipelineValue,
+        expected_close_this_quarter: expectedCloseThisQuarter,
         won_this_month: wonThisMonth,
+        lost_this_month: lostThisMonth,
         conversion_rate: Math.round(conversionRate),
-        average_days_to_close: 0, // TODO: Calculate based on historical data
-        win_rate: Math.round(conversionRate), // Same as conversion_rate for now
+        average_days_to_close: Math.round(averageDaysToClose),
+        win_rate: Math.round(winRate),
         stage_distribution: stageDistribution,
+        loss_reason_distribution: lossReasonDistribution,
+        quarter_forecast: quarterForecast,
         created_this_week: createdThisWeek,
         updated_this_week: updatedThisWeek,
         closed_this_week: closedThisWeek
@@ -735,7 +1297,8 @@ class OpportunitiesApiService {
         'Awaiting Response': [],
         'Feedback Logged': [],
         'Demo Scheduled': [],
-        'Closed - Won': []
+        'Closed - Won': [],
+        'Closed - Lost': []
       } as { [K in OpportunityStage]: OpportunityListView[] }
 
       result.data.forEach(opportunity => {
@@ -753,8 +1316,44 @@ class OpportunitiesApiService {
       }
     }
   }
+
+  /**
+   * Save a new opportunity to the offline outbox
+   */
+  private async queueOpportunityCreate(opportunity: OpportunityInsert): Promise<ApiResponse<Opportunity>> {
+    const entry = await outboxApi.enqueue({
+      entity: 'opportunity',
+      operation: 'create',
+      recordId: crypto.randomUUID(),
+      payload: { ...opportunity },
+      baseUpdatedAt: null,
+      label: opportunity.name
+    })
+
+    return { data: buildOptimisticRecord<Opportunity>(entry), error: null, success: true }
+  }
+
+  /**
+   * Save an opportunity edit to the offline outbox
+   */
+  private async queueOpportunityUpdate(
+    id: string,
+    updates: OpportunityUpdate,
+    current?: Partial<Opportunity> | null
+  ): Promise<ApiResponse<Opportunity>> {
+    await outboxApi.enqueue({
+      entity: 'opportunity',
+      operation: 'update',
+      recordId: id,
+      payload: { ...updates },
+      baseUpdatedAt: current?.updated_at ?? null,
+      label: updates.name || current?.name || 'Opportunity update'
+    })
+
+    return { data: { ...current, ...updates, id } as Opportunity, error: null, success: true }
+  }
 }
 
 // Export singleton instance
 export const opportunitiesApi = new OpportunitiesApiService()
-export default opportunitiesApi
\ No newline at end of file
+export default opportunitiesApi
@@ -1,13 +1,17 @@
 /**
  * Opportunity Naming Service
- * Auto-generates opportunity names following the pattern:
+ * Auto-generates opportunity names from a name template, by default:
  * [Organization] - [Principal] - [Context] - [Month Year]
+ * Admins can define other templates (see namingTemplatesApi).
  */
 
+import { supabase } from '@/config/supabaseClient'
 import type { 
   OpportunityNamePreview, 
   OpportunityContext 
 } from '@/types/opportunities'
+import { DEFAULT_NAME_TEMPLATE } from '@/types/opportunityNaming'
+import { dateTokenValues, renderNameTemplate } from './nameTemplateRules'
 import type { ApiResponse } from './contactsApi'
 
 /**
@@ -19,6 +23,11 @@ export interface NameGenerationOptions {
   context?: OpportunityContext | null
   date?: Date
   custom_context?: string
+  product_name?: string | null
+  product_sku?: string | null
+  deal_owner?: string | null
+  /** Template pattern; defaults to DEFAULT_NAME_TEMPLATE */
+  template?: string | null
 }
 
 /**
@@ -33,6 +42,10 @@ export interface BatchNamePreviewRequest {
   context?: OpportunityContext | null
   custom_context?: string
   date?: Date
+  product_name?: string | null
+  product_sku?: string | null
+  deal_owner?: string | null
+  template?: string | null
 }
 
 /**
@@ -45,6 +58,10 @@ export interface NameTemplateVariables {
   month: string
   year: string
   date: string
+  product?: string
+  sku?: string
+  quarter?: string
+  deal_owner?: string
 }
 
 class OpportunityNamingService {
@@ -58,22 +75,22 @@ class OpportunityNamingService {
       principal_name,
       context,
       date = new Date(),
-      custom_context
+      custom_context,
+      template
     } = options
 
-    // Clean organization and principal names
-    const orgName = this.cleanName(organization_name)
-    const principalName = this.cleanName(principal_name)
-    
-    // Get context string
-    const contextStr = this.getContextString(context, custom_context)
-    
-    // Get formatted date
-    const dateStr = this.formatDate(date)
-    
-    // Build name following pattern
-    const parts = [orgName, principalName, contextStr, dateStr].filter(Boolean)
-    return parts.join(' - ')
+    // Fall back to the current date for invalid dates
+    const nameDate = isNaN(date.getTime()) ? new Date() : date
+
+    return renderNameTemplate(template || DEFAULT_NAME_TEMPLATE, {
+      organization: this.cleanName(organization_name || ''),
+      principal: this.cleanName(principal_name || ''),
+      context: this.getContextString(context, custom_context),
+      product: this.cleanName(options.product_name || ''),
+      sku: options.product_sku?.trim() || '',
+      deal_owner: this.cleanName(options.deal_owner || ''),
+      ...dateTokenValues(nameDate)
+    })
   }
 
   /**
@@ -81,27 +98,21 @@ class OpportunityNamingService {
    */
   generateBatchNamePreviews(request: BatchNamePreviewRequest): OpportunityNamePreview[] {
     const {
-      organization_name,
       principal_data,
-      context,
-      custom_context,
-      date = new Date()
+      date = new Date(),
+      ...options
     } = request
 
     return principal_data.map(principal => {
       const generatedName = this.generateOpportunityName({
-        organization_name,
+        ...options,
         principal_name: principal.name,
-        context,
-        custom_context,
         date
       })
 
       const nameTemplate = this.generateNameTemplate({
-        organization_name,
+        ...options,
         principal_name: principal.name,
-        context,
-        custom_context,
         date
       })
 
@@ -115,32 +126,20 @@ class OpportunityNamingService {
   }
 
   /**
-   * Generate a name template for auto-generation tracking
+   * Generate a name template for auto-generation tracking. The context is
+   * baked in since it is chosen per opportunity; the other tokens stay so
+   * the name can be regenerated when an organization or principal is renamed.
    */
   generateNameTemplate(options: NameGenerationOptions): string {
     const {
       context,
-      custom_context
+      custom_context,
+      template
     } = options
 
-    const variables: NameTemplateVariables = {
-      organization: '{{organization}}',
-      principal: '{{principal}}',
-      context: this.getContextString(context, custom_context) || '{{context}}',
-      month: '{{month}}',
-      year: '{{year}}',
-      date: '{{date}}'
-    }
-
-    // Build template following pattern
-    const parts = [
-      variables.organization,
-      variables.principal,
-      variables.context,
-      `${variables.month} ${variables.year}`
-    ].filter(part => part !== '{{context}}' || context || custom_context)
-
-    return parts.join(' - ')
+    return renderNameTemplate(template || DEFAULT_NAME_TEMPLATE, {
+      context: this.getContextString(context, custom_context)
+    })
   }
 
   /**
@@ -158,6 +157,8 @@ class OpportunityNamingService {
       .replace(/\\\{\\\{organization\\\}\\\}/g, '([^-]+?)') // Non-greedy match
       .replace(/\\\{\\\{principal\\\}\\\}/g, '([^-]+?)')
       .replace(/\\\{\\\{context\\\}\\\}/g, '([^-]+?)')
+      .replace(/\\\{\\\{(product|sku|deal_owner)\\\}\\\}/g, '(.+?)')
+      .replace(/\\\{\\\{quarter\\\}\\\}/g, '(Q[1-4])')
       .replace(/\\\{\\\{month\\\}\\\}/g, '([A-Za-z]+)')
       .replace(/\\\{\\\{year\\\}\\\}/g, '(\\d{4})')
       .replace(/\\\{\\\{date\\\}\\\}/g, '([A-Za-z]+ \\d{4})')
@@ -266,15 +267,33 @@ class OpportunityNamingService {
   }
 
   /**
-   * Check if name is unique (stub for future database integration)
+   * Check that no other active opportunity has the name (case-insensitive).
+   * The RPC sees every opportunity, not only the ones the user can access.
    */
-  async isNameUnique(_name: string, _excludeId?: string): Promise<ApiResponse<boolean>> {
-    // TODO: Implement actual uniqueness check against database
-    // For now, return true as placeholder
-    return {
-      data: true,
-      error: null,
-      success: true
+  async isNameUnique(name: string, excludeId?: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { data, error } = await supabase.rpc('opportunity_name_exists', {
+        p_name: name,
+        p_exclude: excludeId ?? null
+      })
+
+      if (error) {
+        console.error('Error checking opportunity name:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return {
+        data: data === false,
+        error: null,
+        success: true
+      }
+    } catch (error) {
+      console.error('Unexpected error in isNameUnique:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
     }
   }
 
@@ -282,13 +301,19 @@ class OpportunityNamingService {
    * Generate unique name by appending counter if needed
    */
   async generateUniqueName(baseOptions: NameGenerationOptions): Promise<ApiResponse<string>> {
+    return this.makeNameUnique(this.generateOpportunityName(baseOptions))
+  }
+
+  /**
+   * Append " (n)" to a name until no other opportunity has it
+   */
+  async makeNameUnique(baseName: string, excludeId?: string): Promise<ApiResponse<string>> {
     try {
-      const baseName = this.generateOpportunityName(baseOptions)
       let finalName = baseName
       let counter = 1
 
       // Check uniqueness and append counter if needed
-      while (!(await this.isNameUnique(finalName)).data) {
+      while (!(await this.checkNameUnique(finalName, excludeId))) {
         finalName = `${baseName} (${counter})`
         counter++
         
@@ -313,6 +338,17 @@ class OpportunityNamingService {
     }
   }
 
+  /**
+   * Uniqueness as a boolean; a failed lookup is an error rather than a clash
+   */
+  private async checkNameUnique(name: string, excludeId?: string): Promise<boolean> {
+    const unique = await this.isNameUnique(name, excludeId)
+    if (!unique.success) {
+      throw new Error(unique.error || 'Failed to check opportunity name')
+    }
+    return !!unique.data
+  }
+
   /**
    * Clean name by removing extra spaces and special characters
    */
@@ -342,21 +378,6 @@ class OpportunityNamingService {
     return ''  // No context
   }
 
-  /**
-   * Format date as "Month Year" (e.g., "January 2024")
-   */
-  private formatDate(date: Date): string {
-    const monthNames = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ]
-    
-    const month = monthNames[date.getMonth()]
-    const year = date.getFullYear()
-    
-    return `${month} ${year}`
-  }
-
 }
 
 // Export singleton instance
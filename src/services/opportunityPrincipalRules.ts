@@ -0,0 +1,84 @@
+/**
+ * Opportunity Principal Rules
+ * Contribution splits for opportunities shared by several principals. A split
+ * is whole percents totalling 100 with exactly one primary principal, which is
+ * also stored as the opportunity's principal_id.
+ */
+
+import type { OpportunityPrincipalLink } from '@/types/opportunities'
+
+/**
+ * Split 100% evenly across the principals; the remainder goes to the primary
+ * (the first principal unless another is named)
+ */
+export const evenSplit = (principalIds: string[], primaryId?: string | null): OpportunityPrincipalLink[] => {
+  if (principalIds.length === 0) return []
+
+  const primary = primaryId && principalIds.includes(primaryId) ? primaryId : principalIds[0]
+  const share = Math.floor(100 / principalIds.length)
+  const remainder = 100 - share * principalIds.length
+
+  return principalIds.map(principal_id => ({
+    principal_id,
+    contribution_percent: principal_id === primary ? share + remainder : share,
+    is_primary: principal_id === primary
+  }))
+}
+
+/**
+ * Links for the current selection: an unchanged selection keeps its split,
+ * otherwise the selection is split evenly, keeping the primary if still selected
+ */
+export const syncPrincipalLinks = (
+  links: OpportunityPrincipalLink[],
+  principalIds: string[]
+): OpportunityPrincipalLink[] => {
+  const sameSelection = links.length === principalIds.length &&
+    principalIds.every(id => links.some(link => link.principal_id === id))
+  if (sameSelection) {
+    return principalIds.map(id => links.find(link => link.principal_id === id)!)
+  }
+
+  return evenSplit(principalIds, links.find(link => link.is_primary)?.principal_id)
+}
+
+export const contributionTotal = (links: OpportunityPrincipalLink[]): number => {
+  return links.reduce((total, link) => total + (Number(link.contribution_percent) || 0), 0)
+}
+
+/**
+ * First problem with a split, or null when it can be saved
+ */
+export const validatePrincipalLinks = (links: OpportunityPrincipalLink[]): string | null => {
+  if (links.length === 0) return 'At least one principal must be selected'
+
+  const invalid = links.find(link => {
+    const percent = link.contribution_percent
+    return !Number.isInteger(percent) || percent < 0 || percent > 100
+  })
+  if (invalid) return 'Contributions must be whole percentages between 0 and 100'
+
+  const total = contributionTotal(links)
+  if (total !== 100) return `Contributions must total 100% (currently ${total}%)`
+
+  const primaries = links.filter(link => link.is_primary).length
+  if (primaries !== 1) return 'Choose one primary principal'
+
+  return null
+}
+
+/**
+ * Primary first, then by share
+ */
+export const sortPrincipalLinks = (links: OpportunityPrincipalLink[]): OpportunityPrincipalLink[] => {
+  return [...links].sort((a, b) =>
+    Number(b.is_primary) - Number(a.is_primary) || b.contribution_percent - a.contribution_percent
+  )
+}
+
+/**
+ * A principal's share of a deal value, rounded to cents
+ */
+export const contributionValue = (value: number | null | undefined, contributionPercent: number): number => {
+  return Math.round((value || 0) * contributionPercent) / 100
+}
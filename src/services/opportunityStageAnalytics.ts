@@ -0,0 +1,113 @@
+/**
+ * Opportunity Stage Analytics
+ * Derives time-in-stage and stage-to-stage conversion metrics from the
+ * opportunity_stage_history audit trail, plus weighted pipeline values
+ */
+
+import type {
+  CurrencyAmount,
+  OpportunityListView,
+  OpportunityStageHistoryEntry,
+  StageConversionStep,
+  StageProgressCount,
+  StageDwellTime
+} from '@/types/opportunities'
+import { OpportunityStage } from '@/types/opportunities'
+import { sumByCurrency, weightedValue } from './opportunityValue'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Ordered open pipeline stages used for conversion funnels.
+ * Closed - Lost is an exit from the funnel rather than a step in it.
+ */
+export const FUNNEL_STAGES: OpportunityStage[] = [
+  OpportunityStage.NEW_LEAD,
+  OpportunityStage.INITIAL_OUTREACH,
+  OpportunityStage.SAMPLE_VISIT_OFFERED,
+  OpportunityStage.AWAITING_RESPONSE,
+  OpportunityStage.FEEDBACK_LOGGED,
+  OpportunityStage.DEMO_SCHEDULED,
+  OpportunityStage.CLOSED_WON
+]
+
+/**
+ * Round a day count to one decimal place
+ */
+const roundDays = (days: number): number => Math.round(days * 10) / 10
+
+/**
+ * Annotate history entries with the number of days spent in each to_stage.
+ * Entries are returned in chronological order; the latest entry (the current
+ * stage) has a null duration.
+ */
+export const calculateStageDurations = (
+  entries: Omit<OpportunityStageHistoryEntry, 'duration_days'>[]
+): OpportunityStageHistoryEntry[] => {
+  const sorted = [...entries].sort(
+    (a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime()
+  )
+
+  return sorted.map((entry, index) => {
+    const next = sorted[index + 1]
+    const durationDays = next
+      ? roundDays((new Date(next.changed_at).getTime() - new Date(entry.changed_at).getTime()) / MS_PER_DAY)
+      : null
+
+    return { ...entry, duration_days: durationDays }
+  })
+}
+
+/**
+ * Build stage-to-stage conversion steps from recorded stage progress. A step
+ * counts the opportunities that entered its from stage and, of those, the
+ * ones that later reached its to stage or beyond, so a rate never exceeds
+ * 100%. Opportunities that skipped the from stage are not part of the step.
+ */
+export const buildStageFunnel = (progress: StageProgressCount[]): StageConversionStep[] => {
+  return FUNNEL_STAGES.slice(0, -1).map((fromStage, index) => {
+    const toStage = FUNNEL_STAGES[index + 1]
+    const fromStageRows = progress.filter(row => row.stage === fromStage)
+    const entered = fromStageRows.reduce((sum, row) => sum + row.opportunities, 0)
+    const converted = fromStageRows
+      .filter(row => FUNNEL_STAGES.indexOf(row.furthest_stage) > index)
+      .reduce((sum, row) => sum + row.opportunities, 0)
+
+    return {
+      from_stage: fromStage,
+      to_stage: toStage,
+      entered,
+      converted,
+      conversion_rate: entered > 0 ? Math.round((converted / entered) * 1000) / 10 : 0
+    }
+  })
+}
+
+/**
+ * Fill in dwell time rows for stages that have no recorded visits so charts
+ * always render the full pipeline
+ */
+export const normalizeDwellTimes = (rows: StageDwellTime[]): StageDwellTime[] => {
+  return Object.values(OpportunityStage).map(stage => {
+    const row = rows.find(r => r.stage === stage)
+    return {
+      stage,
+      avg_days_in_stage: Number(row?.avg_days_in_stage) || 0,
+      median_days_in_stage: Number(row?.median_days_in_stage) || 0,
+      completed_visits: Number(row?.completed_visits) || 0,
+      current_count: Number(row?.current_count) || 0,
+      max_current_days: Number(row?.max_current_days) || 0
+    }
+  })
+}
+
+/**
+ * Probability-weighted value of a set of opportunities
+ * (estimated value × probability) per currency. Opportunities without a value
+ * contribute 0.
+ */
+export const calculateWeightedValue = (
+  opportunities: Pick<OpportunityListView, 'estimated_value' | 'probability_percent' | 'currency_code'>[]
+): CurrencyAmount[] => {
+  return sumByCurrency(opportunities, weightedValue)
+}
@@ -0,0 +1,184 @@
+/**
+ * Opportunity Value Service
+ * Deal value calculation (cases per week × case price × term) and
+ * probability-weighted quarter forecasting. Values in different currencies
+ * are totalled separately.
+ */
+
+import type { CurrencyAmount, QuarterForecast } from '@/types/opportunities'
+import { DEFAULT_CURRENCY } from '@/types/opportunities'
+
+/**
+ * Minimal opportunity shape needed for pipeline value calculations
+ */
+export interface ForecastableOpportunity {
+  expected_close_date: string | null
+  estimated_value: number | null
+  probability_percent: number | null
+  currency_code: string | null
+}
+
+/**
+ * Calculate a deal value from expected volume and price.
+ * Returns null when any input is missing.
+ */
+export const calculateDealValue = (
+  casesPerWeek: number | null | undefined,
+  unitPrice: number | null | undefined,
+  termWeeks: number | null | undefined
+): number | null => {
+  if (casesPerWeek == null || unitPrice == null || termWeeks == null) {
+    return null
+  }
+  return Math.round(casesPerWeek * unitPrice * termWeeks * 100) / 100
+}
+
+/**
+ * Probability-weighted value of a single opportunity
+ */
+export const weightedValue = (opportunity: Pick<ForecastableOpportunity, 'estimated_value' | 'probability_percent'>): number => {
+  return ((opportunity.estimated_value || 0) * (opportunity.probability_percent || 0)) / 100
+}
+
+/**
+ * Round to cents
+ */
+const roundCents = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Currency an opportunity's value is in; the default when none is recorded
+ */
+const currencyOf = (opportunity: { currency_code?: string | null }): string =>
+  opportunity.currency_code || DEFAULT_CURRENCY
+
+/**
+ * Order currencies with the default first, then alphabetically
+ */
+const compareCurrencies = (a: string, b: string): number =>
+  Number(b === DEFAULT_CURRENCY) - Number(a === DEFAULT_CURRENCY) || a.localeCompare(b)
+
+/**
+ * Sum a value per currency. Returns one total per currency present, the
+ * default currency first; an empty list totals zero in the default currency.
+ */
+export const sumByCurrency = <T extends { currency_code?: string | null }>(
+  items: T[],
+  valueOf: (item: T) => number
+): CurrencyAmount[] => {
+  const totals = new Map<string, number>()
+  items.forEach(item => {
+    const currency = currencyOf(item)
+    totals.set(currency, (totals.get(currency) || 0) + valueOf(item))
+  })
+  if (totals.size === 0) {
+    totals.set(DEFAULT_CURRENCY, 0)
+  }
+
+  return [...totals.keys()]
+    .sort(compareCurrencies)
+    .map(currency => ({ currency_code: currency, value: roundCents(totals.get(currency) || 0) }))
+}
+
+/**
+ * Format a date as YYYY-MM-DD without timezone shifting
+ */
+const toDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Quarter index (year * 4 + quarter) for ordering and comparison
+ */
+const quarterIndex = (date: Date): number => date.getFullYear() * 4 + Math.floor(date.getMonth() / 3)
+
+/**
+ * Parse a DATE column value (YYYY-MM-DD) as a local date
+ */
+const parseDate = (value: string): Date => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Build a probability-weighted forecast for the current quarter and the
+ * following quarters, grouped by expected close date. Overdue close dates are
+ * counted in the current quarter; opportunities without a close date or
+ * closing beyond the horizon are excluded.
+ *
+ * Each currency gets its own run of quarters, the default currency first.
+ * Without any opportunities in the horizon the forecast has the default
+ * currency's empty quarters.
+ */
+export const buildQuarterForecast = (
+  opportunities: ForecastableOpportunity[],
+  now: Date = new Date(),
+  quarterCount: number = 4
+): QuarterForecast[] => {
+  const currentIndex = quarterIndex(now)
+  const bucketsByCurrency = new Map<string, QuarterForecast[]>()
+
+  const bucketsFor = (currency: string): QuarterForecast[] => {
+    let buckets = bucketsByCurrency.get(currency)
+    if (!buckets) {
+      buckets = Array.from({ length: quarterCount }, (_, offset) => {
+        const index = currentIndex + offset
+        const year = Math.floor(index / 4)
+        const quarter = index % 4
+        return {
+          quarter: `${year}-Q${quarter + 1}`,
+          currency_code: currency,
+          start_date: toDateString(new Date(year, quarter * 3, 1)),
+          end_date: toDateString(new Date(year, quarter * 3 + 3, 0)),
+          opportunity_count: 0,
+          pipeline_value: 0,
+          weighted_value: 0
+        }
+      })
+      bucketsByCurrency.set(currency, buckets)
+    }
+    return buckets
+  }
+
+  opportunities.forEach(opportunity => {
+    if (!opportunity.expected_close_date) return
+
+    const offset = Math.max(0, quarterIndex(parseDate(opportunity.expected_close_date)) - currentIndex)
+    if (offset >= quarterCount) return
+
+    const bucket = bucketsFor(currencyOf(opportunity))[offset]
+    bucket.opportunity_count++
+    bucket.pipeline_value += opportunity.estimated_value || 0
+    bucket.weighted_value += weightedValue(opportunity)
+  })
+
+  if (bucketsByCurrency.size === 0) {
+    bucketsFor(DEFAULT_CURRENCY)
+  }
+
+  return [...bucketsByCurrency.keys()]
+    .sort(compareCurrencies)
+    .flatMap(currency => bucketsByCurrency.get(currency) || [])
+    .map(bucket => ({
+      ...bucket,
+      pipeline_value: roundCents(bucket.pipeline_value),
+      weighted_value: roundCents(bucket.weighted_value)
+    }))
+}
+
+/**
+ * Format a deal value in its currency for display
+ */
+export const formatDealValue = (
+  value: number | null | undefined,
+  currencyCode: string = DEFAULT_CURRENCY,
+  maximumFractionDigits: number = 0
+): string => {
+  if (value == null) return '—'
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currencyCode || DEFAULT_CURRENCY,
+    maximumFractionDigits
+  }).format(value)
+}
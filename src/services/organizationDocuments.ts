@@ -0,0 +1,130 @@
+/**
+ * Organization Document Rules
+ * Storage paths, file types, preview support and version grouping for
+ * organization documents
+ */
+
+import type {
+  DocumentPreviewKind,
+  OrganizationDocumentGroup,
+  OrganizationDocumentRow
+} from '@/types/organizationDocuments'
+
+const FILE_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel'
+}
+
+/**
+ * Image types browsers can display inline
+ */
+const PREVIEWABLE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp'])
+
+/**
+ * MIME type from a file name, for files the browser did not label
+ */
+export const inferFileType = (fileName: string): string => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? ''
+  return FILE_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream'
+}
+
+/**
+ * Storage key safe version of a file name
+ */
+export const sanitizeFileName = (fileName: string): string => {
+  const sanitized = fileName
+    .trim()
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[._]+/, '')
+
+  return sanitized || 'file'
+}
+
+/**
+ * Object path for an upload; the organization id must come first for the
+ * storage policies in sql/44_organization_document_storage.sql
+ */
+export const buildDocumentStoragePath = (organizationId: string, uploadId: string, fileName: string): string => {
+  return `${organizationId}/${uploadId}/${sanitizeFileName(fileName)}`
+}
+
+export const getDocumentPreviewKind = (fileType: string | null): DocumentPreviewKind => {
+  if (fileType === 'application/pdf') return 'pdf'
+  if (fileType && PREVIEWABLE_IMAGE_TYPES.has(fileType)) return 'image'
+  return 'none'
+}
+
+/**
+ * Id of the first version of a document
+ */
+export const getDocumentRootId = (document: OrganizationDocumentRow): string => {
+  return document.parent_document_id ?? document.id
+}
+
+export const getVersionNumber = (version: string | null): number => {
+  const parsed = parseInt(version ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1
+}
+
+export const formatDocumentVersion = (version: string | null): string => {
+  return `v${getVersionNumber(version)}`
+}
+
+/**
+ * Version string for the next upload of a document
+ */
+export const getNextDocumentVersion = (group: OrganizationDocumentGroup | null): string => {
+  if (!group) return '1.0'
+
+  const highest = Math.max(...group.versions.map(version => getVersionNumber(version.version)))
+  return `${highest + 1}.0`
+}
+
+/**
+ * Group document rows by their first version, newest version first within
+ * each group and most recently updated group first
+ */
+export const groupDocumentVersions = (documents: OrganizationDocumentRow[]): OrganizationDocumentGroup[] => {
+  const versionsByRoot = new Map<string, OrganizationDocumentRow[]>()
+
+  for (const document of documents) {
+    const rootId = getDocumentRootId(document)
+    const versions = versionsByRoot.get(rootId) ?? []
+    versions.push(document)
+    versionsByRoot.set(rootId, versions)
+  }
+
+  const groups = Array.from(versionsByRoot.entries()).map(([rootId, versions]) => {
+    const sorted = [...versions].sort((a, b) => {
+      const byVersion = getVersionNumber(b.version) - getVersionNumber(a.version)
+      if (byVersion !== 0) return byVersion
+      return (b.created_at ?? '').localeCompare(a.created_at ?? '')
+    })
+
+    return { rootId, latest: sorted[0], versions: sorted }
+  })
+
+  return groups.sort((a, b) => (b.latest.created_at ?? '').localeCompare(a.latest.created_at ?? ''))
+}
+
+/**
+ * Existing document an upload with this file name should add a version to
+ */
+export const findDocumentGroupByName = (
+  groups: OrganizationDocumentGroup[],
+  fileName: string
+): OrganizationDocumentGroup | null => {
+  const name = fileName.trim().toLowerCase()
+  return groups.find(group => group.latest.name.trim().toLowerCase() === name) ?? null
+}
@@ -0,0 +1,309 @@
+/**
+ * Organization Documents API Service
+ * Uploads organization files to Supabase Storage with progress, keeps a
+ * version history per file name, and issues signed URLs for preview and
+ * download
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import env from '@/utils/env'
+import { authApi } from './authApi'
+import {
+  buildDocumentStoragePath,
+  getNextDocumentVersion,
+  groupDocumentVersions,
+  inferFileType
+} from './organizationDocuments'
+import { createOrganizationDocumentSchema } from '@/types/organizations'
+import {
+  DEFAULT_DOCUMENT_CATEGORY,
+  MAX_DOCUMENT_SIZE_BYTES,
+  ORGANIZATION_DOCUMENTS_BUCKET,
+  SIGNED_URL_TTL_SECONDS
+} from '@/types/organizationDocuments'
+import type {
+  OrganizationDocumentGroup,
+  OrganizationDocumentInsert,
+  OrganizationDocumentRow
+} from '@/types/organizationDocuments'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+/**
+ * Options for uploading a document
+ */
+export interface DocumentUploadOptions {
+  /** Existing document the upload becomes a new version of */
+  existing?: OrganizationDocumentGroup | null
+  category?: string
+  /** Called with 0-100 as the file is sent */
+  onProgress?: (percent: number) => void
+}
+
+/**
+ * Organization Documents API class
+ */
+class OrganizationDocumentsApiService {
+
+  /**
+   * Get an organization's documents grouped by version
+   */
+  async getDocuments(organizationId: string): Promise<ApiResponse<OrganizationDocumentGroup[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('organization_documents')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching organization documents:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: groupDocumentVersions((data || []) as OrganizationDocumentRow[]), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getDocuments:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Upload a file and record it; uploads of an existing document add a version
+   */
+  async uploadDocument(
+    organizationId: string,
+    file: File,
+    options: DocumentUploadOptions = {}
+  ): Promise<ApiResponse<OrganizationDocumentRow>> {
+    try {
+      if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+        return { data: null, error: `${file.name} is larger than the 50 MB limit`, success: false }
+      }
+
+      const existing = options.existing ?? null
+      const fileType = file.type || inferFileType(file.name)
+      const storagePath = buildDocumentStoragePath(organizationId, crypto.randomUUID(), file.name)
+
+      const documentData: OrganizationDocumentInsert = {
+        organization_id: organizationId,
+        name: file.name,
+        file_type: fileType,
+        file_size_bytes: file.size,
+        storage_path: storagePath,
+        category: options.category ?? existing?.latest.category ?? DEFAULT_DOCUMENT_CATEGORY,
+        version: getNextDocumentVersion(existing),
+        parent_document_id: existing?.rootId ?? null,
+        uploaded_by_user_id: await authApi.getCurrentUserId()
+      }
+
+      // Validate before uploading so a rejected document leaves no stored file
+      await createOrganizationDocumentSchema.validate(documentData, { abortEarly: false })
+
+      await this.uploadObject(storagePath, file, fileType, options.onProgress)
+
+      const { data, error } = await supabase
+        .from('organization_documents')
+        .insert(documentData)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error recording organization document:', error)
+        await supabase.storage.from(ORGANIZATION_DOCUMENTS_BUCKET).remove([storagePath])
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data as OrganizationDocumentRow, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in uploadDocument:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Short-lived URL for viewing or downloading a stored document
+   */
+  async getDocumentUrl(document: OrganizationDocumentRow, download = false): Promise<ApiResponse<string>> {
+    try {
+      if (!document.storage_path) {
+        if (document.external_url) {
+          return { data: document.external_url, error: null, success: true }
+        }
+        return { data: null, error: 'Document has no stored file', success: false }
+      }
+
+      const { data, error } = await supabase.storage
+        .from(ORGANIZATION_DOCUMENTS_BUCKET)
+        .createSignedUrl(document.storage_path, SIGNED_URL_TTL_SECONDS, download ? { download: document.name } : undefined)
+
+      if (error || !data) {
+        console.error('Error creating document URL:', error)
+        return { data: null, error: error?.message ?? 'Could not create document link', success: false }
+      }
+
+      return { data: data.signedUrl, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getDocumentUrl:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Change the category of every version of a document
+   */
+  async updateDocumentCategory(rootId: string, category: string): Promise<ApiResponse<OrganizationDocumentRow[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('organization_documents')
+        .update({ category })
+        .or(`id.eq.${rootId},parent_document_id.eq.${rootId}`)
+        .select()
+
+      if (error) {
+        console.error('Error updating document category:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: (data || []) as OrganizationDocumentRow[], error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in updateDocumentCategory:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Delete a document with all of its versions and stored files
+   */
+  async deleteDocument(group: OrganizationDocumentGroup): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase
+        .from('organization_documents')
+        .delete()
+        .or(`id.eq.${group.rootId},parent_document_id.eq.${group.rootId}`)
+
+      if (error) {
+        console.error('Error deleting organization document:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const storagePaths = group.versions
+        .map(version => version.storage_path)
+        .filter((path): path is string => !!path)
+
+      if (storagePaths.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from(ORGANIZATION_DOCUMENTS_BUCKET)
+          .remove(storagePaths)
+
+        // The records are gone either way; leftover files only cost storage
+        if (storageError) {
+          console.error('Error removing document files:', storageError)
+        }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in deleteDocument:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Send a file to the storage bucket. supabase-js does not report upload
+   * progress, so real uploads go straight to the Storage REST endpoint.
+   */
+  private async uploadObject(
+    storagePath: string,
+    file: File,
+    contentType: string,
+    onProgress?: (percent: number) => void
+  ): Promise<void> {
+    const supabaseUrl = env.getString('VITE_SUPABASE_URL')
+    const anonKey = env.getString('VITE_SUPABASE_ANON_KEY')
+
+    if (env.useDemoMode || !supabaseUrl || !anonKey) {
+      const { error } = await supabase.storage
+        .from(ORGANIZATION_DOCUMENTS_BUCKET)
+        .upload(storagePath, file, { contentType, upsert: false })
+
+      if (error) throw new Error(error.message)
+      onProgress?.(100)
+      return
+    }
+
+    const session = await authApi.getSession()
+    const accessToken = session.data?.access_token ?? anonKey
+    const objectPath = storagePath.split('/').map(encodeURIComponent).join('/')
+
+    await new Promise<void>((resolve, reject) => {
+      const request = new XMLHttpRequest()
+      request.open('POST', `${supabaseUrl}/storage/v1/object/${ORGANIZATION_DOCUMENTS_BUCKET}/${objectPath}`)
+      request.setRequestHeader('apikey', anonKey)
+      request.setRequestHeader('Authorization', `Bearer ${accessToken}`)
+      request.setRequestHeader('Content-Type', contentType)
+      request.setRequestHeader('x-upsert', 'false')
+
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress?.(Math.round((event.loaded / event.total) * 100))
+        }
+      }
+
+      request.onload = () => {
+        if (request.status >= 200 && request.status < 300) {
+          onProgress?.(100)
+          resolve()
+          return
+        }
+
+        let message = `Upload failed with status ${request.status}`
+        try {
+          message = JSON.parse(request.responseText).message ?? message
+        } catch {
+          // Keep the status message
+        }
+        reject(new Error(message))
+      }
+
+      request.onerror = () => reject(new Error(`Network error while uploading ${file.name}`))
+      request.send(file)
+    })
+  }
+}
+
+// Export singleton instance
+export const organizationDocumentsApi = new OrganizationDocumentsApiService()
+export default organizationDocumentsApi
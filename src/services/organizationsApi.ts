@@ -5,6 +5,7 @@
  */
 
 import { supabase } from '@/config/supabaseClient'
+import { authApi } from './authApi'
 import type { Organization } from '@/types/organizations'
 import type { OrganizationInsert, OrganizationUpdate } from '@/types/database.types'
 
@@ -74,7 +75,10 @@ class OrganizationsApi {
     try {
       const { data, error } = await supabase
         .from('organizations')
-        .insert([organizationData])
+        .insert([{
+          ...organizationData,
+          assigned_user_id: organizationData.assigned_user_id ?? await authApi.getCurrentUserId()
+        }])
         .select()
         .single()
 
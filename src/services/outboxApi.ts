@@ -0,0 +1,209 @@
+/**
+ * Offline Outbox API Service
+ * Queues interaction, contact and opportunity writes while offline and
+ * replays them against Supabase, checking updated_at so offline edits never
+ * silently overwrite newer changes
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { addToOutbox, isNetworkError, sortOutboxEntries } from './outboxRules'
+import { outboxStorage } from './outboxStorage'
+import {
+  OUTBOX_CHANGED_EVENT,
+  OUTBOX_SYNC_TAG,
+  OUTBOX_TABLES
+} from '@/types/outbox'
+import type {
+  NewOutboxEntry,
+  OutboxEntry,
+  OutboxReplayResult
+} from '@/types/outbox'
+
+/**
+ * Postgres unique violation: either a create that already reached the server
+ * or a clash with another record, such as a duplicate contact name
+ */
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Service worker registration with the Background Sync extension
+ */
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> }
+}
+
+/**
+ * Offline Outbox API class
+ */
+class OutboxApiService {
+
+  /**
+   * Whether the browser reports no network connection
+   */
+  isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false
+  }
+
+  /**
+   * Whether a write should be queued instead of reported as failed
+   */
+  shouldQueue(errorMessage?: string | null): boolean {
+    return this.isOffline() || isNetworkError(errorMessage)
+  }
+
+  /**
+   * Queued writes, oldest first
+   */
+  async getEntries(): Promise<OutboxEntry[]> {
+    return sortOutboxEntries(await outboxStorage.getAll())
+  }
+
+  /**
+   * Queue a write; edits to a record that is still waiting are merged into it
+   */
+  async enqueue(newEntry: NewOutboxEntry): Promise<OutboxEntry> {
+    const { entry } = addToOutbox(
+      await this.getEntries(),
+      newEntry,
+      crypto.randomUUID(),
+      new Date().toISOString()
+    )
+
+    await outboxStorage.put(entry)
+    this.notifyChanged()
+    this.requestBackgroundSync()
+
+    return entry
+  }
+
+  async saveEntry(entry: OutboxEntry): Promise<void> {
+    await outboxStorage.put(entry)
+    this.notifyChanged()
+  }
+
+  async removeEntry(id: string): Promise<void> {
+    await outboxStorage.remove(id)
+    this.notifyChanged()
+  }
+
+  /**
+   * Send one queued write to the server
+   */
+  async replay(entry: OutboxEntry): Promise<OutboxReplayResult> {
+    if (this.isOffline()) return { status: 'offline' }
+
+    try {
+      const table = OUTBOX_TABLES[entry.entity]
+
+      if (entry.operation === 'create') {
+        const { data, error } = await supabase
+          .from(table)
+          .insert({ ...entry.payload, id: entry.recordId } as never)
+          .select('updated_at')
+          .single()
+
+        if (error) {
+          if (error.code === UNIQUE_VIOLATION) return await this.describeDuplicateCreate(entry, error.message)
+          return this.toFailure(error.message)
+        }
+
+        return { status: 'synced', updatedAt: (data as { updated_at: string | null } | null)?.updated_at ?? null }
+      }
+
+      let query = supabase
+        .from(table)
+        .update(entry.payload as never)
+        .eq('id', entry.recordId)
+
+      if (entry.baseUpdatedAt) {
+        query = query.eq('updated_at', entry.baseUpdatedAt)
+      }
+
+      const { data, error } = await query.select('updated_at')
+
+      if (error) return this.toFailure(error.message)
+
+      const rows = (data || []) as Array<{ updated_at: string | null }>
+      if (rows.length > 0) {
+        return { status: 'synced', updatedAt: rows[0].updated_at }
+      }
+
+      return await this.describeMissingUpdate(entry)
+
+    } catch (error) {
+      console.error('Unexpected error in replay:', error)
+      return this.toFailure(error instanceof Error ? error.message : 'Unknown error occurred')
+    }
+  }
+
+  /**
+   * Ask the service worker to wake the app when the connection returns
+   */
+  requestBackgroundSync(): void {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker.getRegistration()
+      .then(registration => (registration as SyncCapableRegistration | undefined)?.sync?.register(OUTBOX_SYNC_TAG))
+      .catch(error => console.warn('Background sync registration failed:', error))
+  }
+
+  /**
+   * An update that matched no rows either lost the updated_at race or
+   * targets a record that is gone or hidden
+   */
+  private async describeMissingUpdate(entry: OutboxEntry): Promise<OutboxReplayResult> {
+    const { data, error } = await supabase
+      .from(OUTBOX_TABLES[entry.entity])
+      .select('id, updated_at')
+      .eq('id', entry.recordId)
+      .limit(1)
+
+    if (error) return this.toFailure(error.message)
+
+    const current = ((data || []) as Array<{ updated_at: string | null }>)[0]
+    if (!current) {
+      return { status: 'failed', error: 'The record no longer exists or you no longer have access to it' }
+    }
+
+    return {
+      status: 'conflict',
+      updatedAt: current.updated_at,
+      error: 'Someone else changed this record after you edited it offline'
+    }
+  }
+
+  /**
+   * A create that hit a unique index is only synced if this record is the
+   * one already on the server; otherwise it clashes with another record
+   */
+  private async describeDuplicateCreate(entry: OutboxEntry, message: string): Promise<OutboxReplayResult> {
+    const { data, error } = await supabase
+      .from(OUTBOX_TABLES[entry.entity])
+      .select('id, updated_at')
+      .eq('id', entry.recordId)
+      .limit(1)
+
+    if (error) return this.toFailure(error.message)
+
+    const existing = ((data || []) as Array<{ updated_at: string | null }>)[0]
+    if (existing) {
+      return { status: 'synced', updatedAt: existing.updated_at }
+    }
+
+    return { status: 'failed', error: `This record clashes with an existing one: ${message}` }
+  }
+
+  private toFailure(message: string): OutboxReplayResult {
+    return isNetworkError(message) ? { status: 'offline' } : { status: 'failed', error: message }
+  }
+
+  private notifyChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT))
+    }
+  }
+}
+
+// Export singleton instance
+export const outboxApi = new OutboxApiService()
+export default outboxApi
@@ -0,0 +1,115 @@
+/**
+ * Offline Outbox Rules
+ * Queue ordering, coalescing of repeated edits and conflict bookkeeping for
+ * writes captured while offline
+ */
+
+import type { NewOutboxEntry, OutboxEntry } from '@/types/outbox'
+
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|network request failed|load failed|fetch failed|err_internet_disconnected/i
+
+/**
+ * Whether an error message means the request never reached the server
+ */
+export const isNetworkError = (message: string | null | undefined): boolean => {
+  return !!message && NETWORK_ERROR_PATTERN.test(message)
+}
+
+/**
+ * Oldest first, so records are written in the order they were captured
+ */
+export const sortOutboxEntries = (entries: OutboxEntry[]): OutboxEntry[] => {
+  return [...entries].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt) || a.id.localeCompare(b.id))
+}
+
+/**
+ * Add a write to the queue. A later edit to a record that is still waiting
+ * is folded into the queued write instead of being sent separately.
+ * Returns the queue and the entry that holds the write.
+ */
+export const addToOutbox = (
+  entries: OutboxEntry[],
+  newEntry: NewOutboxEntry,
+  id: string,
+  queuedAt: string
+): { entries: OutboxEntry[]; entry: OutboxEntry } => {
+  const waiting = newEntry.operation === 'update'
+    ? entries.find(entry =>
+      entry.entity === newEntry.entity &&
+      entry.recordId === newEntry.recordId &&
+      entry.status === 'pending'
+    )
+    : undefined
+
+  if (waiting) {
+    const merged: OutboxEntry = {
+      ...waiting,
+      payload: { ...waiting.payload, ...newEntry.payload },
+      label: newEntry.label || waiting.label
+    }
+    return {
+      entries: entries.map(entry => (entry.id === waiting.id ? merged : entry)),
+      entry: merged
+    }
+  }
+
+  const entry: OutboxEntry = {
+    ...newEntry,
+    id,
+    queuedAt,
+    status: 'pending',
+    attempts: 0,
+    lastError: null
+  }
+  return { entries: [...entries, entry], entry }
+}
+
+/**
+ * Pending entries that can be sent now. Entries queued behind a conflict or
+ * failure for the same record wait until that one is resolved.
+ */
+export const getReplayableEntries = (entries: OutboxEntry[]): OutboxEntry[] => {
+  const blockedRecords = new Set<string>()
+  const replayable: OutboxEntry[] = []
+
+  for (const entry of sortOutboxEntries(entries)) {
+    const recordKey = `${entry.entity}:${entry.recordId}`
+    if (entry.status !== 'pending' || blockedRecords.has(recordKey)) {
+      blockedRecords.add(recordKey)
+      continue
+    }
+    replayable.push(entry)
+  }
+
+  return replayable
+}
+
+/**
+ * After a write succeeds, later queued edits to the same record compare
+ * against the server's new updated_at instead of the original one
+ */
+export const rebaseOutboxEntries = (
+  entries: OutboxEntry[],
+  synced: OutboxEntry,
+  updatedAt: string | null
+): OutboxEntry[] => {
+  return entries
+    .filter(entry => entry.id !== synced.id)
+    .map(entry => (
+      entry.entity === synced.entity && entry.recordId === synced.recordId && entry.operation === 'update'
+        ? { ...entry, baseUpdatedAt: updatedAt }
+        : entry
+    ))
+}
+
+/**
+ * Record as it will look once a queued create reaches the server
+ */
+export const buildOptimisticRecord = <T>(entry: OutboxEntry): T => {
+  return {
+    ...entry.payload,
+    id: entry.recordId,
+    created_at: entry.queuedAt,
+    updated_at: entry.queuedAt
+  } as T
+}
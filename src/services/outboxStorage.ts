@@ -0,0 +1,85 @@
+/**
+ * Offline Outbox Storage
+ * Persists queued writes in IndexedDB so they survive reloads and app
+ * restarts; falls back to memory where IndexedDB is unavailable
+ */
+
+import type { OutboxEntry } from '@/types/outbox'
+
+const DB_NAME = 'CRMOutboxDB'
+const DB_VERSION = 1
+const STORE_NAME = 'outbox'
+
+/**
+ * Outbox storage class
+ */
+class OutboxStorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private memory = new Map<string, OutboxEntry>()
+
+  private get hasIndexedDb(): boolean {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+            store.createIndex('queuedAt', 'queuedAt', { unique: false })
+          }
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          this.dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Run one request against the outbox object store
+   */
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDb()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = action(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  async getAll(): Promise<OutboxEntry[]> {
+    if (!this.hasIndexedDb) return Array.from(this.memory.values())
+    return this.run('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>)
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    if (!this.hasIndexedDb) {
+      this.memory.set(entry.id, entry)
+      return
+    }
+    await this.run('readwrite', store => store.put(entry))
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!this.hasIndexedDb) {
+      this.memory.delete(id)
+      return
+    }
+    await this.run('readwrite', store => store.delete(id))
+  }
+}
+
+// Export singleton instance
+export const outboxStorage = new OutboxStorageService()
+export default outboxStorage
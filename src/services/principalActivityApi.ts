@@ -212,6 +212,10 @@ class PrincipalActivityApiService {
             latest_opportunity_date,
             avg_probability_percent,
             highest_value_opportunity,
+            shared_opportunities,
+            weighted_active_opportunities,
+            weighted_pipeline_value,
+            weighted_won_value,
             product_count,
             active_product_count,
             product_categories,
@@ -406,34 +410,27 @@ class PrincipalActivityApiService {
     
     return this.monitorPerformance('getDistributorRelationships', async () => {
       try {
-        // Create mock distributor relationships data
-        const mockRelationships: PrincipalDistributorRelationship[] = [
-          {
-            principal_id: 'principal-1',
-            principal_name: 'Acme Supplies Co.',
-            principal_status: 'Active',
-            distributor_id: 'dist-1',
-            distributor_name: 'Regional Distribution Corp',
-            distributor_status: 'Active',
-            relationship_type: 'HAS_DISTRIBUTOR',
-            principal_city: 'Los Angeles',
-            principal_state: 'CA',
-            principal_country: 'USA',
-            distributor_city: 'San Francisco',
-            distributor_state: 'CA',
-            distributor_country: 'USA',
-            principal_lead_score: 85,
-            distributor_lead_score: 78,
-            principal_created_at: '2023-01-10T00:00:00Z',
-            principal_last_contact: '2024-01-15T10:30:00Z',
-            distributor_last_contact: '2024-01-14T15:20:00Z'
+        let query = supabase
+          .from('principal_distributor_relationships')
+          .select('*')
+          .order('principal_name', { ascending: true })
+          .order('distributor_name', { ascending: true })
+
+        if (principalIds && principalIds.length > 0) {
+          query = query.in('principal_id', principalIds)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+          console.error('Distributor relationships query error:', error)
+          return {
+            success: false,
+            error: error.message || 'Failed to fetch relationships'
           }
-        ]
-        
-        // Filter by principal IDs if provided
-        const filteredRelationships = principalIds && principalIds.length > 0 
-          ? mockRelationships.filter(rel => principalIds.includes(rel.principal_id))
-          : mockRelationships
+        }
+
+        const filteredRelationships = transformDistributorRelationshipData(data || [])
         
         // Cache the result
         this.setCachedResult(cacheKey, filteredRelationships)
@@ -1160,7 +1157,15 @@ export const transformDistributorRelationshipData = (rawData: any[]): PrincipalD
     distributor_lead_score: item.distributor_lead_score || null,
     principal_created_at: item.principal_created_at || null,
     principal_last_contact: item.principal_last_contact || null,
-    distributor_last_contact: item.distributor_last_contact || null
+    distributor_last_contact: item.distributor_last_contact || null,
+    relationship_id: item.relationship_id || null,
+    relationship_status: item.relationship_status || null,
+    authorized_on: item.authorized_on || null,
+    ended_on: item.ended_on || null,
+    territory_notes: item.territory_notes || null,
+    relationship_notes: item.relationship_notes || null,
+    item_code_count: item.item_code_count || 0,
+    customer_count: item.customer_count || 0
   }))
 }
 
@@ -1199,6 +1204,10 @@ export const transformActivitySummaryData = (rawData: any[]): PrincipalActivityS
     latest_opportunity_date: item.latest_opportunity_date || null,
     avg_probability_percent: item.avg_probability_percent || 0,
     highest_value_opportunity: item.highest_value_opportunity || null,
+    shared_opportunities: item.shared_opportunities || 0,
+    weighted_active_opportunities: Number(item.weighted_active_opportunities) || 0,
+    weighted_pipeline_value: Number(item.weighted_pipeline_value) || 0,
+    weighted_won_value: Number(item.weighted_won_value) || 0,
     product_count: item.product_count || 0,
     active_product_count: item.active_product_count || 0,
     product_categories: item.product_categories || null,
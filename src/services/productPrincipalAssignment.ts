@@ -0,0 +1,104 @@
+/**
+ * Product Principal Assignment Service
+ * Validation of bulk assignment contract terms and planning of which
+ * product/principal pairs are created, updated or blocked by exclusive rights
+ */
+
+import type {
+  ExistingPrincipalAssignment,
+  PlannedPrincipalAssignment,
+  ProductPrincipalTerms
+} from '@/types/products'
+
+/**
+ * Contract period with open-ended dates treated as unbounded
+ */
+interface ContractPeriod {
+  contract_start_date: string | null
+  contract_end_date: string | null
+}
+
+/**
+ * Check terms against the product_principals constraints before anything is
+ * written. Returns one message per problem.
+ */
+export const validatePrincipalTerms = (terms: ProductPrincipalTerms, principalCount: number): string[] => {
+  const errors: string[] = []
+
+  if (principalCount === 0) {
+    errors.push('Select at least one principal')
+  }
+  if (terms.exclusive_rights && principalCount > 1) {
+    errors.push('Exclusive rights can only be given to one principal')
+  }
+  if (terms.wholesale_price != null && terms.wholesale_price < 0) {
+    errors.push('Wholesale price cannot be negative')
+  }
+  if (terms.minimum_order_quantity != null && (!Number.isInteger(terms.minimum_order_quantity) || terms.minimum_order_quantity <= 0)) {
+    errors.push('Minimum order quantity must be a whole number above zero')
+  }
+  if (terms.lead_time_days != null && (!Number.isInteger(terms.lead_time_days) || terms.lead_time_days < 0)) {
+    errors.push('Lead time must be a whole number of days')
+  }
+  if (terms.contract_start_date && terms.contract_end_date && terms.contract_start_date > terms.contract_end_date) {
+    errors.push('Contract end date must be on or after the start date')
+  }
+
+  return errors
+}
+
+/**
+ * Whether two contracts are in force on at least one shared day
+ */
+export const contractPeriodsOverlap = (a: ContractPeriod, b: ContractPeriod): boolean => {
+  const startsBeforeBEnds = !a.contract_start_date || !b.contract_end_date || a.contract_start_date <= b.contract_end_date
+  const endsAfterBStarts = !a.contract_end_date || !b.contract_start_date || a.contract_end_date >= b.contract_start_date
+  return startsBeforeBEnds && endsAfterBStarts
+}
+
+/**
+ * Territory restrictions column value for the permitted territory ids
+ */
+export const buildTerritoryRestrictions = (territoryIds: string[]): { territory_ids?: string[] } => {
+  const cleaned = Array.from(new Set(territoryIds.map(id => id.trim()).filter(Boolean)))
+  return cleaned.length > 0 ? { territory_ids: cleaned } : {}
+}
+
+/**
+ * Decide what happens for every selected product/principal pair. Existing
+ * pairs are updated with the new terms; a pair conflicts when another active
+ * principal on the same product overlaps it in time and either side holds
+ * exclusive rights.
+ */
+export const planPrincipalAssignments = (
+  productIds: string[],
+  principalIds: string[],
+  existing: ExistingPrincipalAssignment[],
+  terms: ProductPrincipalTerms
+): PlannedPrincipalAssignment[] => {
+  const plans: PlannedPrincipalAssignment[] = []
+
+  for (const productId of productIds) {
+    const productRows = existing.filter(row => row.product_id === productId)
+
+    for (const principalId of principalIds) {
+      const current = productRows.find(row => row.principal_id === principalId)
+      const conflicting = productRows.find(row =>
+        row.principal_id !== principalId &&
+        row.is_active !== false &&
+        (row.exclusive_rights === true || terms.exclusive_rights) &&
+        contractPeriodsOverlap(row, terms)
+      )
+
+      plans.push({
+        product_id: productId,
+        principal_id: principalId,
+        action: conflicting ? 'conflict' : current ? 'update' : 'create',
+        existing_id: current?.id ?? null,
+        conflicting_principal_id: conflicting?.principal_id ?? null
+      })
+    }
+  }
+
+  return plans
+}
@@ -17,9 +17,16 @@ import type {
   BulkProductOperation,
   BulkProductResult,
   ProductSearchResult,
-  ProductCategory
+  ProductCategory,
+  ExistingPrincipalAssignment,
+  PrincipalAssignmentResult
 } from '@/types/products'
 import type { ApiResponse } from './contactsApi'
+import {
+  buildTerritoryRestrictions,
+  planPrincipalAssignments,
+  validatePrincipalTerms
+} from './productPrincipalAssignment'
 
 /**
  * Search and pagination options
@@ -556,6 +563,10 @@ class ProductsApiService {
    * Perform bulk operations on products
    */
   async performBulkOperation(operation: BulkProductOperation): Promise<ApiResponse<BulkProductResult>> {
+    if (operation.operation === 'assign_principals') {
+      return this.bulkAssignPrincipals(operation)
+    }
+
     try {
       const results: BulkProductResult = {
         success: true,
@@ -642,6 +653,130 @@ class ProductsApiService {
     }
   }
 
+  /**
+   * Assign principals to products with contract terms. Existing pairs get the
+   * new terms, pairs blocked by another principal's exclusive rights are
+   * reported as conflicts, and every pair gets a row in the result report.
+   */
+  private async bulkAssignPrincipals(operation: BulkProductOperation): Promise<ApiResponse<BulkProductResult>> {
+    const principalIds = operation.parameters?.principal_ids || []
+    const terms = operation.parameters?.principal_terms
+
+    if (!terms) {
+      return { data: null, error: 'Contract terms are required to assign principals', success: false }
+    }
+
+    const validationErrors = validatePrincipalTerms(terms, principalIds.length)
+    if (validationErrors.length > 0) {
+      return { data: null, error: validationErrors.join('. '), success: false }
+    }
+
+    try {
+      const [productsResult, principalsResult, existingResult] = await Promise.all([
+        supabase.from('products').select('id, name').in('id', operation.product_ids),
+        supabase.from('organizations').select('id, name').in('id', principalIds),
+        supabase
+          .from('product_principals')
+          .select('id, product_id, principal_id, exclusive_rights, is_active, contract_start_date, contract_end_date')
+          .in('product_id', operation.product_ids)
+      ])
+
+      const lookupError = productsResult.error || principalsResult.error || existingResult.error
+      if (lookupError) {
+        console.error('Error loading principal assignments:', lookupError)
+        return { data: null, error: `Failed to load current assignments: ${lookupError.message}`, success: false }
+      }
+
+      const toNameMap = (rows: Array<{ id: string; name: string }> | null) =>
+        new Map<string, string>((rows || []).map(row => [row.id, row.name]))
+      const productNames = toNameMap(productsResult.data)
+      const principalNames = toNameMap(principalsResult.data)
+      const plans = planPrincipalAssignments(
+        operation.product_ids,
+        principalIds,
+        (existingResult.data || []) as ExistingPrincipalAssignment[],
+        terms
+      )
+
+      const values = {
+        wholesale_price: terms.wholesale_price,
+        minimum_order_quantity: terms.minimum_order_quantity,
+        lead_time_days: terms.lead_time_days,
+        exclusive_rights: terms.exclusive_rights,
+        territory_restrictions: buildTerritoryRestrictions(terms.territory_restrictions),
+        contract_start_date: terms.contract_start_date,
+        contract_end_date: terms.contract_end_date,
+        is_active: true
+      }
+
+      const assignmentResults: PrincipalAssignmentResult[] = []
+
+      for (const plan of plans) {
+        const report: PrincipalAssignmentResult = {
+          product_id: plan.product_id,
+          product_name: productNames.get(plan.product_id) || 'Unknown Product',
+          principal_id: plan.principal_id,
+          principal_name: principalNames.get(plan.principal_id) || 'Unknown Principal',
+          status: 'created',
+          message: null
+        }
+
+        if (plan.action === 'conflict') {
+          const holder = principalNames.get(plan.conflicting_principal_id || '') || 'another principal'
+          report.status = 'conflict'
+          report.message = terms.exclusive_rights
+            ? `${holder} is already assigned for an overlapping contract period`
+            : `${holder} holds exclusive rights for an overlapping contract period`
+          assignmentResults.push(report)
+          continue
+        }
+
+        const { error } = plan.action === 'update'
+          ? await supabase
+            .from('product_principals')
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq('id', plan.existing_id!)
+          : await supabase
+            .from('product_principals')
+            .insert({ ...values, product_id: plan.product_id, principal_id: plan.principal_id })
+
+        if (error) {
+          report.status = 'failed'
+          report.message = error.message
+        } else {
+          report.status = plan.action === 'update' ? 'updated' : 'created'
+        }
+        assignmentResults.push(report)
+      }
+
+      const problems = assignmentResults.filter(result => result.status === 'conflict' || result.status === 'failed')
+
+      return {
+        data: {
+          success: problems.length === 0,
+          processed_count: assignmentResults.length - problems.length,
+          failed_count: problems.length,
+          errors: problems.map(result => ({
+            product_id: result.product_id,
+            product_name: result.product_name,
+            error_message: `${result.principal_name}: ${result.message}`
+          })),
+          updated_products: [],
+          assignment_results: assignmentResults
+        },
+        error: null,
+        success: true
+      }
+    } catch (error) {
+      console.error('Unexpected error assigning principals:', error)
+      return {
+        data: null,
+        error: 'An unexpected error occurred while assigning principals',
+        success: false
+      }
+    }
+  }
+
   /**
    * Calculate search match score for ranking
    */
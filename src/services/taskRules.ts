@@ -0,0 +1,111 @@
+/**
+ * Task Rules
+ * Due date buckets, ordering and validation for tasks
+ */
+
+import type { Task, TaskBucket, TaskFormData, TaskPriority } from '@/types/tasks'
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  URGENT: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+const toDateOnly = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const isTaskOpen = (task: Pick<Task, 'status'>): boolean => {
+  return task.status === 'OPEN' || task.status === 'IN_PROGRESS'
+}
+
+/**
+ * Which My Tasks bucket an open task falls in; null for closed tasks
+ */
+export const getTaskBucket = (task: Pick<Task, 'status' | 'due_date'>, now: Date = new Date()): TaskBucket | null => {
+  if (!isTaskOpen(task)) return null
+  if (!task.due_date) return 'no_date'
+
+  const due = task.due_date.slice(0, 10)
+  const today = toDateOnly(now)
+  if (due < today) return 'overdue'
+  if (due === today) return 'today'
+  return 'upcoming'
+}
+
+export const isTaskOverdue = (task: Pick<Task, 'status' | 'due_date'>, now: Date = new Date()): boolean => {
+  return getTaskBucket(task, now) === 'overdue'
+}
+
+/**
+ * Open tasks first, then earliest due date (undated last), then highest
+ * priority, then title
+ */
+export const compareTasks = (
+  a: Pick<Task, 'status' | 'due_date' | 'priority' | 'title'>,
+  b: Pick<Task, 'status' | 'due_date' | 'priority' | 'title'>
+): number => {
+  const openOrder = Number(isTaskOpen(b)) - Number(isTaskOpen(a))
+  if (openOrder !== 0) return openOrder
+
+  const dueA = a.due_date?.slice(0, 10) ?? '9999-12-31'
+  const dueB = b.due_date?.slice(0, 10) ?? '9999-12-31'
+  if (dueA !== dueB) return dueA < dueB ? -1 : 1
+
+  const priorityOrder = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+  if (priorityOrder !== 0) return priorityOrder
+
+  return a.title.localeCompare(b.title)
+}
+
+/**
+ * Open tasks grouped by due date bucket, each bucket sorted
+ */
+export const groupTasksByBucket = <T extends Task>(tasks: T[], now: Date = new Date()): Record<TaskBucket, T[]> => {
+  const groups: Record<TaskBucket, T[]> = { overdue: [], today: [], upcoming: [], no_date: [] }
+
+  tasks.forEach(task => {
+    const bucket = getTaskBucket(task, now)
+    if (bucket) groups[bucket].push(task)
+  })
+
+  Object.values(groups).forEach(group => group.sort(compareTasks))
+  return groups
+}
+
+/**
+ * Check a task before it is saved. Returns one message per problem.
+ */
+export const validateTask = (form: TaskFormData): string[] => {
+  const errors: string[] = []
+
+  if (!form.title.trim()) {
+    errors.push('Task title is required')
+  } else if (form.title.trim().length > 500) {
+    errors.push('Task title must be 500 characters or fewer')
+  }
+  if (form.due_date && !/^\d{4}-\d{2}-\d{2}$/.test(form.due_date)) {
+    errors.push('Due date must be a valid date')
+  }
+
+  return errors
+}
+
+/**
+ * Display a YYYY-MM-DD due date without shifting it across time zones
+ */
+export const formatTaskDueDate = (date: string | null): string => {
+  if (!date) return 'No due date'
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
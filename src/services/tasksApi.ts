@@ -0,0 +1,253 @@
+/**
+ * Tasks API Service
+ * Task CRUD, assignee lookup and record-scoped task lists. Follow-up tasks
+ * are created by the database when an interaction is saved with a follow-up.
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { authApi } from './authApi'
+import { compareTasks } from './taskRules'
+import type {
+  TaskAssignee,
+  TaskFilters,
+  TaskFormData,
+  TaskListItem,
+  TaskStatus
+} from '@/types/tasks'
+import { TASK_LINK_COLUMNS } from '@/types/tasks'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+const TASK_COLUMNS = `
+  *,
+  organization:organization_id(name),
+  contact:contact_id(first_name, last_name),
+  opportunity:opportunity_id(name),
+  principal:principal_id(name)
+`
+
+/**
+ * Tasks API class
+ */
+class TasksApiService {
+
+  /**
+   * Get tasks, open ones first by due date. Closed tasks are only included
+   * when asked for.
+   */
+  async getTasks(filters: TaskFilters = {}): Promise<ApiResponse<TaskListItem[]>> {
+    try {
+      let query = supabase
+        .from('tasks')
+        .select(TASK_COLUMNS)
+        .order('due_date', { ascending: true, nullsFirst: false })
+
+      if (filters.assigned_to) {
+        query = query.eq('assigned_to', filters.assigned_to)
+      }
+      if (filters.link) {
+        query = query.eq(TASK_LINK_COLUMNS[filters.link.type], filters.link.id)
+      }
+      if (!filters.include_closed) {
+        query = query.in('status', ['OPEN', 'IN_PROGRESS'])
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching tasks:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const rows = (data || []) as any[]
+      const assignees = await this.getAssigneeNames(rows.map(row => row.assigned_to))
+      const tasks = rows.map(row => this.toListItem(row, assignees)).sort(compareTasks)
+
+      return { data: tasks, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getTasks:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Create a task; it is assigned to the current user unless the form says otherwise
+   */
+  async createTask(form: TaskFormData): Promise<ApiResponse<TaskListItem>> {
+    try {
+      const userId = await authApi.getCurrentUserId()
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert({ ...form, assigned_to: form.assigned_to || userId, created_by: userId })
+        .select(TASK_COLUMNS)
+        .single()
+
+      if (error) {
+        console.error('Error creating task:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: await this.withAssigneeName(data), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in createTask:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Update a task
+   */
+  async updateTask(id: string, updates: Partial<TaskFormData>): Promise<ApiResponse<TaskListItem>> {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .update(updates)
+        .eq('id', id)
+        .select(TASK_COLUMNS)
+        .single()
+
+      if (error) {
+        console.error('Error updating task:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: await this.withAssigneeName(data), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in updateTask:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Move a task to a new status; completed_at is maintained by the database
+   */
+  async setTaskStatus(id: string, status: TaskStatus): Promise<ApiResponse<TaskListItem>> {
+    return this.updateTask(id, { status })
+  }
+
+  /**
+   * Delete a task
+   */
+  async deleteTask(id: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting task:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in deleteTask:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * CRM users tasks can be assigned to, by name
+   */
+  async getAssignees(): Promise<ApiResponse<TaskAssignee[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, email')
+        .order('full_name', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching task assignees:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const assignees = (data || []).map((profile: { id: string; full_name: string | null; email: string }) => ({
+        id: profile.id,
+        name: profile.full_name || profile.email
+      }))
+
+      return { data: assignees, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getAssignees:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Display names for the given user ids; tasks.assigned_to references
+   * auth.users, so profiles cannot be embedded in the task query
+   */
+  private async getAssigneeNames(userIds: Array<string | null>): Promise<Record<string, string>> {
+    const ids = Array.from(new Set(userIds.filter((id): id is string => !!id)))
+    if (ids.length === 0) return {}
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id, full_name, email')
+      .in('id', ids)
+
+    if (error) {
+      console.warn('Failed to fetch task assignee names:', error)
+      return {}
+    }
+
+    const names: Record<string, string> = {}
+    ;(data || []).forEach((profile: { id: string; full_name: string | null; email: string }) => {
+      names[profile.id] = profile.full_name || profile.email
+    })
+    return names
+  }
+
+  private async withAssigneeName(row: any): Promise<TaskListItem> {
+    return this.toListItem(row, await this.getAssigneeNames([row.assigned_to]))
+  }
+
+  private toListItem(row: any, assignees: Record<string, string>): TaskListItem {
+    const { organization, contact, opportunity, principal, ...task } = row
+    return {
+      ...task,
+      assignee_name: task.assigned_to ? assignees[task.assigned_to] ?? null : null,
+      organization_name: organization?.name ?? null,
+      contact_name: contact ? `${contact.first_name} ${contact.last_name}`.trim() : null,
+      opportunity_name: opportunity?.name ?? null,
+      principal_name: principal?.name ?? null
+    }
+  }
+}
+
+// Export singleton instance
+export const tasksApi = new TasksApiService()
+export default tasksApi
@@ -0,0 +1,238 @@
+/**
+ * Territories API Service
+ * Territory definitions, the organization territory lookup and product
+ * principal territory restriction checks for opportunities
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { isTerritoryPermitted, getPermittedTerritories, parseTerritoryRestrictions } from './territoryRules'
+import type {
+  Territory,
+  TerritoryFormData,
+  TerritoryRestrictionCheck,
+  TerritoryRow
+} from '@/types/territories'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+const toTerritory = (row: TerritoryRow): Territory => ({
+  ...row,
+  counties: Array.isArray(row.counties) ? row.counties as unknown as Territory['counties'] : []
+})
+
+/**
+ * Territories API class
+ */
+class TerritoriesApiService {
+
+  /**
+   * Get all territories ordered by name
+   */
+  async getTerritories(): Promise<ApiResponse<Territory[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('territories')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching territories:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: (data || []).map(toTerritory), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getTerritories:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Create a territory; organizations are re-resolved by the database
+   */
+  async createTerritory(form: TerritoryFormData): Promise<ApiResponse<Territory>> {
+    try {
+      const { data, error } = await supabase
+        .from('territories')
+        .insert({ ...form, counties: form.counties as unknown as TerritoryRow['counties'] })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating territory:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: toTerritory(data), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in createTerritory:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Update a territory definition
+   */
+  async updateTerritory(id: string, form: TerritoryFormData): Promise<ApiResponse<Territory>> {
+    try {
+      const { data, error } = await supabase
+        .from('territories')
+        .update({ ...form, counties: form.counties as unknown as TerritoryRow['counties'] })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating territory:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: toTerritory(data), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in updateTerritory:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Delete a territory; its organizations move to the next best match
+   */
+  async deleteTerritory(id: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await supabase
+        .from('territories')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting territory:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: true, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in deleteTerritory:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Resolved territory for every organization, keyed by organization id.
+   * Principals are organizations too, so this covers principal lists.
+   */
+  async getOrganizationTerritories(): Promise<ApiResponse<Record<string, string | null>>> {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('id, territory_id')
+        .is('deleted_at', null)
+
+      if (error) {
+        console.error('Error fetching organization territories:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      const lookup: Record<string, string | null> = {}
+      ;(data || []).forEach((row: { id: string; territory_id: string | null }) => {
+        lookup[row.id] = row.territory_id
+      })
+
+      return { data: lookup, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getOrganizationTerritories:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Check an opportunity's customer against each principal's permitted
+   * territories for the product
+   */
+  async checkTerritoryRestrictions(
+    organizationId: string,
+    productId: string,
+    principalIds: string[]
+  ): Promise<ApiResponse<TerritoryRestrictionCheck[]>> {
+    try {
+      if (principalIds.length === 0) {
+        return { data: [], error: null, success: true }
+      }
+
+      const [organizationResult, assignmentResult, territoryResult] = await Promise.all([
+        supabase.from('organizations').select('territory_id').eq('id', organizationId).single(),
+        supabase
+          .from('product_principals')
+          .select('principal_id, territory_restrictions, principal:principal_id(name)')
+          .eq('product_id', productId)
+          .in('principal_id', principalIds)
+          .eq('is_active', true),
+        this.getTerritories()
+      ])
+
+      if (organizationResult.error || assignmentResult.error || !territoryResult.success) {
+        const message = organizationResult.error?.message || assignmentResult.error?.message || territoryResult.error
+        console.error('Error checking territory restrictions:', message)
+        return { data: null, error: message || 'Failed to check territory restrictions', success: false }
+      }
+
+      const territories = territoryResult.data || []
+      const customerTerritoryId = organizationResult.data?.territory_id ?? null
+
+      const checks = (assignmentResult.data || []).map((row: any): TerritoryRestrictionCheck => {
+        const restrictions = parseTerritoryRestrictions(row.territory_restrictions)
+        return {
+          principal_id: row.principal_id,
+          principal_name: row.principal?.name ?? 'Unknown Principal',
+          allowed: isTerritoryPermitted(restrictions, customerTerritoryId, territories),
+          permitted_territories: (getPermittedTerritories(restrictions, territories) ?? []).map(territory => territory.name)
+        }
+      })
+
+      return { data: checks, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in checkTerritoryRestrictions:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const territoriesApi = new TerritoriesApiService()
+export default territoriesApi
@@ -0,0 +1,198 @@
+/**
+ * Territory Rules
+ * Parsing of territory definitions, address-to-territory resolution (kept in
+ * step with resolve_territory_id() in sql/47_territories.sql) and product
+ * principal territory restriction checks
+ */
+
+import type { Json } from '@/types/database.types'
+import type {
+  Territory,
+  TerritoryCounty,
+  TerritoryFormData,
+  TerritoryLocation,
+  TerritoryRestrictions
+} from '@/types/territories'
+import { US_STATES } from '@/types/territories'
+
+const ZIP_PREFIX_PATTERN = /^\d{1,5}$/
+
+const normalizeState = (value: string | null | undefined): string => (value ?? '').trim().toUpperCase()
+
+const normalizeZip = (value: string | null | undefined): string => (value ?? '').replace(/\D/g, '')
+
+/**
+ * "Cook County" and "cook" name the same county
+ */
+export const normalizeCountyName = (value: string | null | undefined): string => {
+  return (value ?? '').trim().replace(/\s+(county|parish)$/i, '').toLowerCase()
+}
+
+/**
+ * Two-letter code for a state code or full state name; null when unknown
+ */
+export const toStateCode = (value: string): string | null => {
+  const normalized = value.trim().toLowerCase()
+  const state = US_STATES.find(option =>
+    option.code.toLowerCase() === normalized || option.name.toLowerCase() === normalized
+  )
+  return state?.code ?? null
+}
+
+/**
+ * ZIP prefixes from a comma or space separated list; entries that are not 1-5
+ * digits are returned as invalid
+ */
+export const parseZipPrefixes = (input: string): { prefixes: string[]; invalid: string[] } => {
+  const entries = input.split(/[\s,]+/).map(entry => entry.trim()).filter(Boolean)
+  const prefixes = Array.from(new Set(entries.filter(entry => ZIP_PREFIX_PATTERN.test(entry))))
+  const invalid = entries.filter(entry => !ZIP_PREFIX_PATTERN.test(entry))
+  return { prefixes, invalid }
+}
+
+/**
+ * Counties from one "County, ST" entry per line
+ */
+export const parseCounties = (input: string): { counties: TerritoryCounty[]; invalid: string[] } => {
+  const counties: TerritoryCounty[] = []
+  const invalid: string[] = []
+  const seen = new Set<string>()
+
+  input.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const separator = line.lastIndexOf(',')
+    const county = separator > 0 ? line.slice(0, separator).trim() : ''
+    const state = separator > 0 ? toStateCode(line.slice(separator + 1)) : null
+    if (!county || !state) {
+      invalid.push(line)
+      return
+    }
+
+    const key = `${state}:${normalizeCountyName(county)}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      counties.push({ state, county })
+    }
+  })
+
+  return { counties, invalid }
+}
+
+export const formatCounties = (counties: TerritoryCounty[]): string => {
+  return counties.map(county => `${county.county}, ${county.state}`).join('\n')
+}
+
+/**
+ * One-line summary of what a territory covers, e.g. "IL, WI · ZIP 606 · 2 counties"
+ */
+export const describeTerritory = (territory: Pick<Territory, 'states' | 'zip_prefixes' | 'counties'>): string => {
+  const parts: string[] = []
+  if (territory.states.length > 0) parts.push(territory.states.join(', '))
+  if (territory.zip_prefixes.length > 0) parts.push(`ZIP ${territory.zip_prefixes.join(', ')}`)
+  if (territory.counties.length > 0) parts.push(`${territory.counties.length} count${territory.counties.length === 1 ? 'y' : 'ies'}`)
+  return parts.join(' · ')
+}
+
+/**
+ * Check a territory before it is saved. Returns one message per problem.
+ */
+export const validateTerritory = (form: TerritoryFormData, otherNames: string[] = []): string[] => {
+  const errors: string[] = []
+  const name = form.name.trim()
+
+  if (!name) {
+    errors.push('Territory name is required')
+  } else if (otherNames.some(other => other.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push(`A territory named "${name}" already exists`)
+  }
+  if (form.states.length === 0 && form.zip_prefixes.length === 0 && form.counties.length === 0) {
+    errors.push('Add at least one state, ZIP prefix or county')
+  }
+
+  return errors
+}
+
+/**
+ * How specifically a territory covers an address: the longest matching ZIP
+ * prefix beats a county match, which beats a state match. 0 means no match.
+ */
+export const getTerritoryMatchScore = (territory: Territory, location: TerritoryLocation): number => {
+  const state = normalizeState(location.state_province)
+  const zip = normalizeZip(location.postal_code)
+  const county = normalizeCountyName(location.county)
+
+  const zipLength = zip
+    ? Math.max(0, ...territory.zip_prefixes.filter(prefix => zip.startsWith(prefix)).map(prefix => prefix.length))
+    : 0
+  const countyMatch = !!county && territory.counties.some(entry =>
+    normalizeState(entry.state) === state && normalizeCountyName(entry.county) === county
+  )
+  const stateMatch = !!state && territory.states.includes(state)
+
+  return Math.max(zipLength > 0 ? 100 + zipLength : 0, countyMatch ? 50 : 0, stateMatch ? 10 : 0)
+}
+
+/**
+ * Active territory an address falls in, or null when none covers it. Ties go
+ * to the territory name in alphabetical order.
+ */
+export const resolveTerritory = (location: TerritoryLocation, territories: Territory[]): Territory | null => {
+  let best: Territory | null = null
+  let bestScore = 0
+
+  for (const territory of territories) {
+    if (!territory.is_active) continue
+
+    const score = getTerritoryMatchScore(territory, location)
+    const winsTie = score === bestScore && best !== null && territory.name.toLowerCase() < best.name.toLowerCase()
+    if (score > bestScore || (score > 0 && winsTie)) {
+      best = territory
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+/**
+ * Read the territory_restrictions column, tolerating null and the older
+ * free-text { regions } shape
+ */
+export const parseTerritoryRestrictions = (value: Json | null | undefined): TerritoryRestrictions => {
+  const restrictions: TerritoryRestrictions = { territory_ids: [], regions: [] }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return restrictions
+
+  const toStrings = (list: Json | undefined) =>
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : []
+
+  restrictions.territory_ids = toStrings(value.territory_ids)
+  restrictions.regions = toStrings(value.regions)
+  return restrictions
+}
+
+/**
+ * Territories a restriction permits, including older region names that match
+ * a territory name; null when the restriction is empty (sold everywhere)
+ */
+export const getPermittedTerritories = (restrictions: TerritoryRestrictions, territories: Territory[]): Territory[] | null => {
+  if (restrictions.territory_ids.length === 0 && restrictions.regions.length === 0) return null
+
+  const regionNames = restrictions.regions.map(region => region.trim().toLowerCase())
+  return territories.filter(territory =>
+    restrictions.territory_ids.includes(territory.id) || regionNames.includes(territory.name.trim().toLowerCase())
+  )
+}
+
+/**
+ * Whether a customer in the given territory may be sold the product under a
+ * principal's restrictions. Customers outside every territory are only
+ * allowed when the product is unrestricted.
+ */
+export const isTerritoryPermitted = (
+  restrictions: TerritoryRestrictions,
+  customerTerritoryId: string | null,
+  territories: Territory[]
+): boolean => {
+  const permitted = getPermittedTerritories(restrictions, territories)
+  if (permitted === null) return true
+  return !!customerTerritoryId && permitted.some(territory => territory.id === customerTerritoryId)
+}
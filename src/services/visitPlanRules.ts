@@ -0,0 +1,184 @@
+/**
+ * Visit Plan Rules
+ * Grouping visit candidates by area and ordering a day of visits.
+ * Distances are straight-line miles between ZIP or city centroids, so travel
+ * times are estimates.
+ */
+
+import type {
+  GeoPoint,
+  LocatedVisitCandidate,
+  PlannedVisit,
+  VisitCandidate,
+  VisitCluster,
+  VisitPlanSettings
+} from '@/types/visitPlanning'
+import { CLUSTER_RADIUS_MILES, MAX_STOPS_PER_DAY } from '@/types/visitPlanning'
+
+const EARTH_RADIUS_MILES = 3958.8
+
+// Roads are rarely straight; scale straight-line distance before estimating drive time
+const ROAD_DISTANCE_FACTOR = 1.3
+
+const MINUTE_MS = 60 * 1000
+
+interface StopGroup {
+  center: GeoPoint
+  stops: LocatedVisitCandidate[]
+}
+
+export const isLocated = (candidate: VisitCandidate): candidate is LocatedVisitCandidate => {
+  return candidate.latitude !== null && candidate.longitude !== null
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export const distanceMiles = (a: GeoPoint, b: GeoPoint): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(b.latitude - a.latitude)
+  const dLon = toRadians(b.longitude - a.longitude)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+const centerOf = (points: GeoPoint[]): GeoPoint => ({
+  latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+  longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length
+})
+
+const mostCommonCity = (stops: LocatedVisitCandidate[]): string => {
+  const counts = new Map<string, number>()
+  stops.forEach(stop => {
+    const city = stop.city?.trim()
+    if (city) counts.set(city, (counts.get(city) || 0) + 1)
+  })
+
+  let label = 'Unknown area'
+  let best = 0
+  counts.forEach((count, city) => {
+    if (count > best) {
+      label = city
+      best = count
+    }
+  })
+  return label
+}
+
+/**
+ * Group stops into areas: each stop joins the nearest area whose center is
+ * within the radius, otherwise it starts a new area. Largest areas first.
+ */
+export const clusterCandidates = (
+  candidates: LocatedVisitCandidate[],
+  radiusMiles: number = CLUSTER_RADIUS_MILES
+): VisitCluster[] => {
+  const groups: StopGroup[] = []
+
+  const sorted = [...candidates].sort((a, b) => b.latitude - a.latitude || a.longitude - b.longitude)
+  for (const stop of sorted) {
+    let nearest: StopGroup | null = null
+    let nearestDistance = radiusMiles
+    for (const group of groups) {
+      const distance = distanceMiles(group.center, stop)
+      if (distance <= nearestDistance) {
+        nearest = group
+        nearestDistance = distance
+      }
+    }
+
+    if (nearest) {
+      nearest.stops.push(stop)
+      nearest.center = centerOf(nearest.stops)
+    } else {
+      groups.push({ center: { latitude: stop.latitude, longitude: stop.longitude }, stops: [stop] })
+    }
+  }
+
+  return groups
+    .sort((a, b) => b.stops.length - a.stops.length)
+    .map((group, index) => ({
+      id: `cluster-${index + 1}`,
+      label: mostCommonCity(group.stops),
+      center: group.center,
+      stops: group.stops
+    }))
+}
+
+/**
+ * Visit order: start at the stop farthest from the middle of the group, then
+ * always drive to the nearest remaining stop
+ */
+export const orderStops = (stops: LocatedVisitCandidate[]): LocatedVisitCandidate[] => {
+  if (stops.length <= 2) return [...stops]
+
+  const center = centerOf(stops)
+  const remaining = [...stops]
+  let currentIndex = 0
+  remaining.forEach((stop, index) => {
+    if (distanceMiles(center, stop) > distanceMiles(center, remaining[currentIndex])) currentIndex = index
+  })
+
+  const ordered = remaining.splice(currentIndex, 1)
+  while (remaining.length > 0) {
+    const current = ordered[ordered.length - 1]
+    let nextIndex = 0
+    remaining.forEach((stop, index) => {
+      if (distanceMiles(current, stop) < distanceMiles(current, remaining[nextIndex])) nextIndex = index
+    })
+    ordered.push(...remaining.splice(nextIndex, 1))
+  }
+  return ordered
+}
+
+/**
+ * Estimated drive time, rounded up to 5 minutes
+ */
+export const estimateTravelMinutes = (miles: number, averageSpeedMph: number): number => {
+  if (miles <= 0 || averageSpeedMph <= 0) return 0
+  return Math.ceil(((miles * ROAD_DISTANCE_FACTOR) / averageSpeedMph) * 60 / 5) * 5
+}
+
+/**
+ * Start and end times for stops visited in the given order
+ */
+export const buildDayPlan = (stops: LocatedVisitCandidate[], settings: VisitPlanSettings): PlannedVisit[] => {
+  const [year, month, day] = settings.date.split('-').map(Number)
+  const [hour, minute] = settings.start_time.split(':').map(Number)
+  let nextStart = new Date(year, month - 1, day, hour, minute)
+
+  return stops.map((stop, index) => {
+    const distance = index === 0 ? 0 : distanceMiles(stops[index - 1], stop)
+    const travelMinutes = estimateTravelMinutes(distance, settings.average_speed_mph)
+    const start = new Date(nextStart.getTime() + travelMinutes * MINUTE_MS)
+    const end = new Date(start.getTime() + settings.visit_minutes * MINUTE_MS)
+    nextStart = end
+
+    return { stop, start, end, distance_miles: distance, travel_minutes: travelMinutes }
+  })
+}
+
+/**
+ * Reasons the plan cannot be scheduled; empty when it can
+ */
+export const validateVisitPlan = (stops: VisitCandidate[], settings: VisitPlanSettings): string[] => {
+  const errors: string[] = []
+
+  if (stops.length === 0) errors.push('Select at least one stop')
+  if (stops.length > MAX_STOPS_PER_DAY) errors.push(`Plan at most ${MAX_STOPS_PER_DAY} stops per day`)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(settings.date)) errors.push('Choose a visit date')
+  if (!/^\d{2}:\d{2}$/.test(settings.start_time)) errors.push('Choose a start time')
+  if (!(settings.visit_minutes > 0)) errors.push('Visit length must be more than 0 minutes')
+
+  stops
+    .filter(stop => !stop.opportunity_id)
+    .forEach(stop => errors.push(`${stop.organization_name} has no opportunity to log the visit against`))
+
+  return errors
+}
+
+export const formatVisitAddress = (stop: VisitCandidate): string => {
+  const region = [stop.state_province, stop.postal_code].filter(Boolean).join(' ')
+  return [stop.address_line_1, stop.city, region].filter(Boolean).join(', ')
+}
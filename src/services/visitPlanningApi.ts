@@ -0,0 +1,134 @@
+/**
+ * Visit Planning API Service
+ * Geocoded visit candidates from visit_plan_candidates and bulk scheduling
+ * of the planned visits as interactions
+ */
+
+import { supabase } from '@/config/supabaseClient'
+import { authApi } from './authApi'
+import { formatVisitAddress } from './visitPlanRules'
+import { UNASSIGNED_TERRITORY } from '@/types/territories'
+import type { InteractionInsert } from '@/types/database.types'
+import type {
+  GeocodeSource,
+  PlannedVisit,
+  VisitCandidate,
+  VisitCandidateFilters,
+  VisitPlanSettings
+} from '@/types/visitPlanning'
+
+/**
+ * API Response wrapper for consistent error handling
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error: string | null
+  success: boolean
+}
+
+const toCandidate = (row: any): VisitCandidate => ({
+  organization_id: row.organization_id,
+  organization_name: row.organization_name || '',
+  address_line_1: row.address_line_1,
+  city: row.city,
+  state_province: row.state_province,
+  postal_code: row.postal_code,
+  territory_id: row.territory_id,
+  latitude: row.latitude === null ? null : Number(row.latitude),
+  longitude: row.longitude === null ? null : Number(row.longitude),
+  geocode_source: row.geocode_source as GeocodeSource | null,
+  open_opportunity_count: row.open_opportunity_count || 0,
+  next_follow_up_date: row.next_follow_up_date,
+  opportunity_id: row.opportunity_id,
+  opportunity_name: row.opportunity_name
+})
+
+/**
+ * Visit planning API class
+ */
+class VisitPlanningApiService {
+
+  /**
+   * Organizations with a follow-up due by the given date, plus (optionally)
+   * every organization with an open opportunity
+   */
+  async getCandidates(filters: VisitCandidateFilters): Promise<ApiResponse<VisitCandidate[]>> {
+    try {
+      const dueBy = `${filters.dueBy}T23:59:59`
+      let query = supabase
+        .from('visit_plan_candidates')
+        .select('*')
+        .order('organization_name', { ascending: true })
+
+      query = filters.includeOpenOpportunities
+        ? query.or(`open_opportunity_count.gt.0,next_follow_up_date.lte."${dueBy}"`)
+        : query.lte('next_follow_up_date', dueBy)
+
+      if (filters.territoryId === UNASSIGNED_TERRITORY) {
+        query = query.is('territory_id', null)
+      } else if (filters.territoryId) {
+        query = query.eq('territory_id', filters.territoryId)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching visit candidates:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: (data || []).map(toCandidate), error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in getCandidates:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+
+  /**
+   * Create one SCHEDULED interaction per planned stop, all in one insert
+   */
+  async scheduleVisits(plan: PlannedVisit[], settings: VisitPlanSettings): Promise<ApiResponse<number>> {
+    try {
+      const createdBy = await authApi.getCurrentUserId()
+      const rows: InteractionInsert[] = plan.map(visit => ({
+        type: settings.interaction_type,
+        subject: `Site visit: ${visit.stop.organization_name}`,
+        opportunity_id: visit.stop.opportunity_id || '',
+        interaction_date: visit.start.toISOString(),
+        duration_minutes: settings.visit_minutes,
+        location: formatVisitAddress(visit.stop) || null,
+        status: 'SCHEDULED',
+        created_by: createdBy
+      }))
+
+      const { data, error } = await supabase
+        .from('interactions')
+        .insert(rows)
+        .select('id')
+
+      if (error) {
+        console.error('Error scheduling visits:', error)
+        return { data: null, error: error.message, success: false }
+      }
+
+      return { data: data?.length || 0, error: null, success: true }
+
+    } catch (error) {
+      console.error('Unexpected error in scheduleVisits:', error)
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        success: false
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const visitPlanningApi = new VisitPlanningApiService()
+export default visitPlanningApi
@@ -0,0 +1,280 @@
+/**
+ * Auth Store - Signed-in User and Session State
+ * Wraps Supabase Auth sessions, sign-in/sign-out and the user's profile
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import type { Session } from '@supabase/supabase-js'
+import { authApi } from '@/services/authApi'
+import type {
+  AuthUser,
+  PasswordCredentials,
+  UserProfile,
+  UserProfileUpdate
+} from '@/types/auth'
+import { getUserDisplayName } from '@/types/auth'
+import type { Permission, UserRole } from '@/types/permissions'
+import { DEFAULT_USER_ROLE, hasPermission } from '@/types/permissions'
+
+/**
+ * Store state interface for better type safety
+ */
+interface AuthStoreState {
+  user: AuthUser | null
+  session: Session | null
+  profile: UserProfile | null
+
+  // UI state
+  initialized: boolean
+  loading: boolean
+  profileSaving: boolean
+
+  // Error handling
+  error: string | null
+}
+
+export const useAuthStore = defineStore('auth', () => {
+  // ===== STATE =====
+  const state = reactive<AuthStoreState>({
+    user: null,
+    session: null,
+    profile: null,
+    initialized: false,
+    loading: false,
+    profileSaving: false,
+    error: null
+  })
+
+  // Shared so concurrent callers (router guard, app shell) wait on one load
+  let initializePromise: Promise<void> | null = null
+  let unsubscribeAuthChanges: (() => void) | null = null
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const isAuthenticated = computed(() => !!state.session && !!state.user)
+
+  const userId = computed(() => state.user?.id ?? null)
+
+  const displayName = computed(() => getUserDisplayName(state.user, state.profile))
+
+  const role = computed<UserRole | null>(() => {
+    if (!state.user) return null
+    return state.profile?.role ?? state.user.role ?? DEFAULT_USER_ROLE
+  })
+
+  const isAdmin = computed(() => role.value === 'admin')
+
+  /**
+   * Whether the signed-in user's role grants a permission
+   */
+  const can = (permission: Permission): boolean => hasPermission(role.value, permission)
+
+  const initials = computed(() => {
+    return displayName.value
+      .split(/[\s@.]+/)
+      .filter(Boolean)
+      .slice(0, 2)
+      .map(part => part[0].toUpperCase())
+      .join('')
+  })
+
+  // ===== ACTIONS - SESSION =====
+
+  /**
+   * Apply a session from Supabase Auth to the store
+   */
+  const applySession = async (session: Session | null) => {
+    state.session = session
+    state.user = session ? authApi.toAuthUser(session.user) : null
+
+    if (!state.user) {
+      state.profile = null
+      return
+    }
+
+    if (state.profile?.id !== state.user.id) {
+      await fetchProfile()
+    }
+  }
+
+  /**
+   * Load the current session and subscribe to auth changes. Safe to call
+   * repeatedly; the first call does the work.
+   */
+  const initialize = (): Promise<void> => {
+    if (!initializePromise) {
+      initializePromise = (async () => {
+        state.loading = true
+        try {
+          const response = await authApi.getSession()
+          if (!response.success) {
+            state.error = response.error
+          }
+          await applySession(response.data)
+
+          unsubscribeAuthChanges = authApi.onAuthStateChange((_event, session) => {
+            applySession(session)
+          })
+        } finally {
+          state.loading = false
+          state.initialized = true
+        }
+      })()
+    }
+    return initializePromise
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  const signInWithPassword = async (credentials: PasswordCredentials): Promise<boolean> => {
+    state.loading = true
+    state.error = null
+
+    try {
+      const response = await authApi.signInWithPassword(credentials)
+      if (!response.success) {
+        state.error = response.error || 'Sign in failed'
+        return false
+      }
+
+      const session = await authApi.getSession()
+      await applySession(session.data)
+      return true
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Email a magic sign-in link that returns the user to `redirectPath`
+   */
+  const sendMagicLink = async (email: string, redirectPath: string = '/'): Promise<boolean> => {
+    state.loading = true
+    state.error = null
+
+    try {
+      const response = await authApi.sendMagicLink(email, `${window.location.origin}${redirectPath}`)
+      if (!response.success) {
+        state.error = response.error || 'Failed to send sign-in link'
+        return false
+      }
+      return true
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Sign out and clear all session state
+   */
+  const signOut = async (): Promise<boolean> => {
+    state.loading = true
+    state.error = null
+
+    try {
+      const response = await authApi.signOut()
+      if (!response.success) {
+        state.error = response.error || 'Sign out failed'
+        return false
+      }
+
+      await applySession(null)
+      return true
+    } finally {
+      state.loading = false
+    }
+  }
+
+  // ===== ACTIONS - PROFILE =====
+
+  /**
+   * Fetch the signed-in user's profile
+   */
+  const fetchProfile = async (): Promise<void> => {
+    if (!state.user) return
+
+    const response = await authApi.getProfile(state.user.id)
+    if (response.success) {
+      state.profile = response.data
+    } else {
+      console.warn('Failed to fetch user profile:', response.error)
+    }
+  }
+
+  /**
+   * Update the signed-in user's profile
+   */
+  const updateProfile = async (updates: UserProfileUpdate): Promise<boolean> => {
+    if (!state.user) return false
+
+    state.profileSaving = true
+    state.error = null
+
+    try {
+      const response = await authApi.updateProfile(state.user.id, updates)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to update profile'
+        return false
+      }
+
+      state.profile = response.data
+      if (updates.full_name !== undefined) {
+        state.user = { ...state.user, full_name: updates.full_name }
+      }
+      return true
+    } finally {
+      state.profileSaving = false
+    }
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  /**
+   * Stop listening for auth changes and reset state
+   */
+  const reset = () => {
+    unsubscribeAuthChanges?.()
+    unsubscribeAuthChanges = null
+    initializePromise = null
+    Object.assign(state, {
+      user: null,
+      session: null,
+      profile: null,
+      initialized: false,
+      loading: false,
+      profileSaving: false,
+      error: null
+    })
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    isAuthenticated,
+    userId,
+    displayName,
+    initials,
+    role,
+    isAdmin,
+
+    // Permissions
+    can,
+
+    // Actions
+    initialize,
+    signInWithPassword,
+    sendMagicLink,
+    signOut,
+    fetchProfile,
+    updateProfile,
+    clearError,
+    reset
+  }
+})
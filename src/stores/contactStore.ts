@@ -1,6 +1,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { contactsApi } from '@/services/contactsApi'
+import { outboxApi } from '@/services/outboxApi'
 import type { ContactInsert, ContactUpdate, ContactListView, ContactDetailView } from '@/types/database.types'
 import type { ContactSearchForm } from '@/types/contacts'
 
@@ -121,8 +122,11 @@ export const useContactStore = defineStore('contact', () => {
       const response = await contactsApi.createContact(contactData)
 
       if (response.success && response.data) {
-        // Refresh the current view to include the new contact
-        await fetchContacts()
+        // Refresh the current view to include the new contact; queued offline
+        // contacts appear once they sync
+        if (!outboxApi.isOffline()) {
+          await fetchContacts()
+        }
         return response.data as ContactDetailView
       } else {
         throw new Error(response.error || 'Failed to create contact')
@@ -145,12 +149,15 @@ export const useContactStore = defineStore('contact', () => {
       isSubmitting.value = true
       clearError()
 
-      const response = await contactsApi.updateContact(id, updates)
+      const current = currentContact.value?.id === id ? currentContact.value : null
+      const response = await contactsApi.updateContact(id, updates, current)
 
       if (response.success && response.data) {
         currentContact.value = response.data as ContactDetailView
         // Refresh the current view
-        await fetchContacts()
+        if (!outboxApi.isOffline()) {
+          await fetchContacts()
+        }
         return response.data as ContactDetailView
       } else {
         throw new Error(response.error || 'Failed to update contact')
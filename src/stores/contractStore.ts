@@ -0,0 +1,236 @@
+/**
+ * Contract Store - Principal Product Contracts
+ * Contract list with lifecycle status, renewals and the per-contract change log
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { contractsApi } from '@/services/contractsApi'
+import type {
+  ContractEvent,
+  ContractFilters,
+  ContractListItem,
+  ContractRenewal,
+  ContractStatus
+} from '@/types/contracts'
+
+/**
+ * Store state interface for better type safety
+ */
+interface ContractStoreState {
+  contracts: ContractListItem[]
+  principalContracts: Record<string, ContractListItem[]>
+  events: Record<string, ContractEvent[]>
+  filters: ContractFilters
+
+  // UI state
+  loading: boolean
+  renewing: boolean
+  lastAutoRenewedCount: number
+
+  // Error handling
+  error: string | null
+}
+
+export const useContractStore = defineStore('contracts', () => {
+  // ===== STATE =====
+  const state = reactive<ContractStoreState>({
+    contracts: [],
+    principalContracts: {},
+    events: {},
+    filters: { status: 'ALL', search: '' },
+    loading: false,
+    renewing: false,
+    lastAutoRenewedCount: 0,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  /**
+   * Contracts matching the status, principal and search filters
+   */
+  const filteredContracts = computed(() => {
+    const search = state.filters.search?.trim().toLowerCase() || ''
+    return state.contracts.filter(contract => {
+      if (state.filters.principal_id && contract.principal_id !== state.filters.principal_id) {
+        return false
+      }
+      if (state.filters.status && state.filters.status !== 'ALL' && contract.status !== state.filters.status) {
+        return false
+      }
+      return !search ||
+        contract.product_name.toLowerCase().includes(search) ||
+        contract.principal_name.toLowerCase().includes(search)
+    })
+  })
+
+  /**
+   * Status tab counts for the selected principal
+   */
+  const statusCounts = computed<Record<ContractStatus | 'ALL', number>>(() => {
+    const principalId = state.filters.principal_id
+    const scoped = principalId
+      ? state.contracts.filter(contract => contract.principal_id === principalId)
+      : state.contracts
+    const counts = { ALL: scoped.length, ACTIVE: 0, EXPIRING_SOON: 0, EXPIRED: 0, PENDING: 0 }
+    scoped.forEach(contract => {
+      counts[contract.status]++
+    })
+    return counts
+  })
+
+  const principalOptions = computed(() => {
+    const names = new Map<string, string>()
+    state.contracts.forEach(contract => names.set(contract.principal_id, contract.principal_name))
+    return Array.from(names, ([value, label]) => ({ value, label }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  })
+
+  // ===== ACTIONS - CONTRACTS =====
+
+  /**
+   * Apply any due automatic renewals first so lapsed auto-renewing contracts
+   * never show as expired
+   */
+  const applyAutoRenewals = async (): Promise<void> => {
+    const renewed = await contractsApi.runAutoRenewals()
+    if (renewed.success) {
+      state.lastAutoRenewedCount = renewed.data ?? 0
+    } else {
+      console.warn('Failed to apply automatic renewals:', renewed.error)
+    }
+  }
+
+  /**
+   * Load contracts across all principals
+   */
+  const fetchContracts = async (): Promise<void> => {
+    state.loading = true
+    state.error = null
+
+    try {
+      await applyAutoRenewals()
+
+      const response = await contractsApi.getContracts()
+      if (response.success && response.data) {
+        state.contracts = response.data
+      } else {
+        state.error = response.error || 'Failed to load contracts'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Load one principal's contracts without touching the main list
+   */
+  const fetchPrincipalContracts = async (principalId: string): Promise<void> => {
+    state.loading = true
+    state.error = null
+
+    try {
+      await applyAutoRenewals()
+
+      const response = await contractsApi.getContracts({ principal_id: principalId })
+      if (response.success && response.data) {
+        state.principalContracts[principalId] = response.data
+      } else {
+        state.error = response.error || 'Failed to load contracts'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  const setFilters = (filters: Partial<ContractFilters>) => {
+    state.filters = { ...state.filters, ...filters }
+  }
+
+  /**
+   * Replace a contract wherever it is shown
+   */
+  const replaceContract = (updated: ContractListItem) => {
+    const swap = (list: ContractListItem[]) => list.map(contract => contract.id === updated.id ? updated : contract)
+    state.contracts = swap(state.contracts)
+    if (state.principalContracts[updated.principal_id]) {
+      state.principalContracts[updated.principal_id] = swap(state.principalContracts[updated.principal_id])
+    }
+  }
+
+  /**
+   * Renew a contract and refresh its change log
+   */
+  const renewContract = async (contract: ContractListItem, renewal: ContractRenewal): Promise<boolean> => {
+    state.renewing = true
+    state.error = null
+
+    try {
+      const response = await contractsApi.renewContract(contract, renewal)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to renew contract'
+        return false
+      }
+
+      replaceContract(response.data)
+      await fetchEvents(contract.id)
+      return true
+    } finally {
+      state.renewing = false
+    }
+  }
+
+  /**
+   * Turn automatic renewal on or off for a contract
+   */
+  const setAutoRenewal = async (contract: ContractListItem, autoRenewal: boolean): Promise<boolean> => {
+    const response = await contractsApi.setAutoRenewal(contract, autoRenewal)
+    if (!response.success || !response.data) {
+      state.error = response.error || 'Failed to update contract'
+      return false
+    }
+
+    replaceContract(response.data)
+    await fetchEvents(contract.id)
+    return true
+  }
+
+  // ===== ACTIONS - EVENTS =====
+
+  /**
+   * Load the renewal and change history for a contract
+   */
+  const fetchEvents = async (contractId: string): Promise<void> => {
+    const response = await contractsApi.getContractEvents(contractId)
+    if (response.success && response.data) {
+      state.events[contractId] = response.data
+    } else {
+      console.warn('Failed to fetch contract events:', response.error)
+    }
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    filteredContracts,
+    statusCounts,
+    principalOptions,
+
+    // Actions
+    fetchContracts,
+    fetchPrincipalContracts,
+    setFilters,
+    renewContract,
+    setAutoRenewal,
+    fetchEvents,
+    clearError
+  }
+})
@@ -10,19 +10,15 @@ import { useOpportunityStore } from './opportunityStore'
 import { useProductStore } from './productStore'
 import { useOrganizationStore } from './organizationStore'
 import { usePrincipalStore } from './principalStore'
-import type { OpportunityKPIs, OpportunityStage } from '@/types/opportunities'
+import type { CurrencyAmount, OpportunityKPIs, OpportunityStage } from '@/types/opportunities'
 import type { ProductCategory } from '@/types/products'
 import type { OrganizationMetrics } from '@/types/organizations'
 import type { PrincipalStats } from './principalStore'
+import type { DashboardTimeFilter, DashboardAnalytics, PrincipalProductDistribution } from '@/types/dashboard'
+import { dashboardAnalyticsApi } from '@/services/dashboardAnalyticsApi'
+import { sumByCurrency } from '@/services/opportunityValue'
 
-/**
- * Dashboard time period filters
- */
-export interface DashboardTimeFilter {
-  period: 'today' | 'week' | 'month' | 'quarter' | 'year' | 'custom'
-  startDate?: Date
-  endDate?: Date
-}
+export type { DashboardTimeFilter } from '@/types/dashboard'
 
 /**
  * Consolidated dashboard KPIs interface
@@ -36,10 +32,10 @@ export interface DashboardKPIs {
   
   // Pipeline metrics
   activePipeline: number
-  pipelineValue: number
+  pipelineValue: CurrencyAmount[]
   wonThisMonth: number
   conversionRate: number
-  averageDealSize: number
+  averageDealSize: CurrencyAmount[]
   
   // Growth metrics
   monthlyGrowthRate: number
@@ -57,11 +53,7 @@ export interface DashboardKPIs {
   opportunityStageDistribution: { [K in OpportunityStage]: number }
   productCategoryDistribution: { [K in ProductCategory]: number }
   organizationStatusDistribution: { [key: string]: number }
-  principalProductDistribution: Array<{
-    principalName: string
-    productCount: number
-    opportunityCount: number
-  }>
+  principalProductDistribution: PrincipalProductDistribution[]
 }
 
 /**
@@ -86,23 +78,23 @@ export interface DashboardActivity {
 export interface DashboardPerformance {
   // Velocity metrics
   averageTimeToClose: number
-  averageResponseTime: number
+  averageResponseTime: number | null
   dealsClosedThisMonth: number
   
   // Efficiency metrics
   opportunityConversionRate: number
   principalEngagementRate: number
-  productAdoptionRate: number
+  productAdoptionRate: number | null
   
   // Growth indicators
   monthOverMonthGrowth: number
-  quarterOverQuarterGrowth: number
-  yearOverYearGrowth: number
+  quarterOverQuarterGrowth: number | null
+  yearOverYearGrowth: number | null
   
-  // Predictive metrics
-  forecastedRevenue: number
-  probabilityWeightedPipeline: number
-  expectedCloseThisQuarter: number
+  // Predictive metrics, one amount per currency
+  forecastedRevenue: CurrencyAmount[]
+  probabilityWeightedPipeline: CurrencyAmount[]
+  expectedCloseThisQuarter: CurrencyAmount[]
 }
 
 /**
@@ -135,6 +127,7 @@ interface DashboardStoreState {
   kpis: DashboardKPIs | null
   performance: DashboardPerformance | null
   recentActivity: DashboardActivity[]
+  analytics: DashboardAnalytics | null
   
   // UI state
   loading: boolean
@@ -174,6 +167,7 @@ export const useDashboardStore = defineStore('dashboard', () => {
     kpis: null,
     performance: null,
     recentActivity: [],
+    analytics: null,
     
     // UI state
     loading: false,
@@ -240,7 +234,10 @@ export const useDashboardStore = defineStore('dashboard', () => {
       pipelineValue: oppKPIs.total_pipeline_value,
       wonThisMonth: oppKPIs.won_this_month,
       conversionRate: oppKPIs.conversion_rate,
-      averageDealSize: oppKPIs.total_pipeline_value / Math.max(oppKPIs.total_opportunities, 1),
+      averageDealSize: oppKPIs.total_pipeline_value.map(total => ({
+        ...total,
+        value: total.value / Math.max(oppKPIs.total_opportunities, 1)
+      })),
       
       // Growth metrics
       monthlyGrowthRate: orgMetrics.monthlyGrowth,
@@ -258,7 +255,7 @@ export const useDashboardStore = defineStore('dashboard', () => {
       opportunityStageDistribution: oppKPIs.stage_distribution,
       productCategoryDistribution: prodStats.products_by_category,
       organizationStatusDistribution: getOrganizationStatusDistribution(orgMetrics),
-      principalProductDistribution: getPrincipalProductDistribution(princStats)
+      principalProductDistribution: state.analytics?.principal_product_distribution || []
     }
   })
   
@@ -277,18 +274,18 @@ export const useDashboardStore = defineStore('dashboard', () => {
     return {
       // Velocity metrics
       averageTimeToClose: oppKPIs.average_days_to_close,
-      averageResponseTime: calculateAverageResponseTime(),
+      averageResponseTime: state.analytics?.average_response_time.current ?? null,
       dealsClosedThisMonth: oppKPIs.won_this_month,
       
       // Efficiency metrics
       opportunityConversionRate: oppKPIs.conversion_rate,
       principalEngagementRate: calculatePrincipalEngagementRate(princStats),
-      productAdoptionRate: calculateProductAdoptionRate(),
+      productAdoptionRate: state.analytics?.product_adoption_rate.current ?? null,
       
       // Growth indicators
       monthOverMonthGrowth: orgMetrics.monthlyGrowth,
-      quarterOverQuarterGrowth: calculateQuarterOverQuarterGrowth(),
-      yearOverYearGrowth: calculateYearOverYearGrowth(),
+      quarterOverQuarterGrowth: state.analytics?.quarter_over_quarter_growth ?? null,
+      yearOverYearGrowth: state.analytics?.year_over_year_growth ?? null,
       
       // Predictive metrics
       forecastedRevenue: calculateForecastedRevenue(oppKPIs),
@@ -392,61 +389,42 @@ export const useDashboardStore = defineStore('dashboard', () => {
     return distribution
   }
   
-  function getPrincipalProductDistribution(stats: PrincipalStats): Array<{
-    principalName: string
-    productCount: number
-    opportunityCount: number
-  }> {
-    return stats.top_organizations_by_principals.map(org => ({
-      principalName: org.organization_name,
-      productCount: Math.floor(Math.random() * 10) + 1, // Would come from actual data
-      opportunityCount: Math.floor(Math.random() * 5) + 1 // Would come from actual data
-    }))
-  }
-  
-  function calculateAverageResponseTime(): number {
-    // Would calculate from interaction data - placeholder for now
-    return 2.5 // days
-  }
-  
   function calculatePrincipalEngagementRate(stats: PrincipalStats): number {
     return (stats.principals_with_opportunities / Math.max(stats.total_principals, 1)) * 100
   }
   
-  function calculateProductAdoptionRate(): number {
-    // Would calculate from product-opportunity relationships - placeholder
-    return 65.5 // percentage
-  }
-  
-  function calculateQuarterOverQuarterGrowth(): number {
-    // Would calculate from historical data - placeholder
-    return 12.3 // percentage
-  }
-  
-  function calculateYearOverYearGrowth(): number {
-    // Would calculate from historical data - placeholder
-    return 28.7 // percentage
-  }
-  
-  function calculateForecastedRevenue(kpis: OpportunityKPIs): number {
-    // Calculate based on probability-weighted pipeline
-    return kpis.total_pipeline_value * (kpis.conversion_rate / 100)
+  function calculateForecastedRevenue(kpis: OpportunityKPIs): CurrencyAmount[] {
+    // Probability-weighted value of deals expected to close within the forecast horizon
+    return sumByCurrency(kpis.quarter_forecast || [], quarter => quarter.weighted_value)
   }
   
-  function calculateProbabilityWeightedPipeline(kpis: OpportunityKPIs): number {
-    // Calculate weighted pipeline based on stage probabilities
-    return kpis.total_pipeline_value * (kpis.average_probability / 100)
+  function calculateProbabilityWeightedPipeline(kpis: OpportunityKPIs): CurrencyAmount[] {
+    // Sum of estimated value × probability across open opportunities
+    return kpis.weighted_pipeline_value
   }
   
-  function calculateExpectedCloseThisQuarter(kpis: OpportunityKPIs): number {
-    // Estimate based on current pipeline and historical patterns
-    return kpis.total_pipeline_value * 0.25 // 25% of pipeline expected to close
+  function calculateExpectedCloseThisQuarter(kpis: OpportunityKPIs): CurrencyAmount[] {
+    // Weighted value of open deals with an expected close date in the current quarter
+    return kpis.expected_close_this_quarter
   }
   
   // ===============================
   // ACTIONS
   // ===============================
   
+  /**
+   * Fetch computed analytics for the selected time filter
+   */
+  const fetchAnalytics = async (): Promise<void> => {
+    const response = await dashboardAnalyticsApi.getDashboardAnalytics(state.filters.timeFilter)
+    
+    if (response.success && response.data) {
+      state.analytics = response.data
+    } else {
+      console.warn('Failed to fetch dashboard analytics:', response.error)
+    }
+  }
+  
   /**
    * Refresh all dashboard data
    */
@@ -462,7 +440,8 @@ export const useDashboardStore = defineStore('dashboard', () => {
         opportunityStore.fetchKPIs(),
         productStore.fetchStats(),
         organizationStore.fetchDashboardMetrics(),
-        principalStore.fetchStats()
+        principalStore.fetchStats(),
+        fetchAnalytics()
       ])
       
       // Update aggregated data
@@ -590,6 +569,7 @@ export const useDashboardStore = defineStore('dashboard', () => {
       timestamp: new Date().toISOString(),
       kpis: state.kpis,
       performance: state.performance,
+      analytics: state.analytics,
       recentActivity: state.recentActivity,
       filters: state.filters
     }
@@ -603,9 +583,13 @@ export const useDashboardStore = defineStore('dashboard', () => {
         `Total Opportunities,${state.kpis?.totalOpportunities || 0}`,
         `Total Products,${state.kpis?.totalProducts || 0}`,
         `Total Organizations,${state.kpis?.totalOrganizations || 0}`,
-        `Pipeline Value,${state.kpis?.pipelineValue || 0}`,
+        ...(state.kpis?.pipelineValue || []).map(total => `Pipeline Value (${total.currency_code}),${total.value}`),
         `Conversion Rate,${state.kpis?.conversionRate || 0}`,
-        `Monthly Growth,${state.kpis?.monthlyGrowthRate || 0}`
+        `Monthly Growth,${state.kpis?.monthlyGrowthRate || 0}`,
+        `Average Response Time (days),${state.performance?.averageResponseTime ?? ''}`,
+        `Product Adoption Rate,${state.performance?.productAdoptionRate ?? ''}`,
+        `Quarter over Quarter Growth,${state.performance?.quarterOverQuarterGrowth ?? ''}`,
+        `Year over Year Growth,${state.performance?.yearOverYearGrowth ?? ''}`
       ]
       return csvRows.join('\n')
     }
@@ -618,6 +602,7 @@ export const useDashboardStore = defineStore('dashboard', () => {
     state.kpis = null
     state.performance = null
     state.recentActivity = []
+    state.analytics = null
     state.error = null
     state.lastUpdated = null
     state.lastRefresh = null
@@ -654,7 +639,8 @@ export const useDashboardStore = defineStore('dashboard', () => {
       () => opportunityStore.kpis,
       () => productStore.stats,
       () => organizationStore.dashboardMetrics,
-      () => principalStore.stats
+      () => principalStore.stats,
+      () => state.analytics
     ],
     () => {
       if (aggregatedKPIs.value) {
@@ -690,6 +676,7 @@ export const useDashboardStore = defineStore('dashboard', () => {
     kpis: computed(() => state.kpis),
     performance: computed(() => state.performance),
     recentActivity: computed(() => state.recentActivity),
+    analytics: computed(() => state.analytics),
     loading: computed(() => state.loading),
     refreshing: computed(() => state.refreshing),
     error: computed(() => state.error),
@@ -710,6 +697,7 @@ export const useDashboardStore = defineStore('dashboard', () => {
     // Actions
     initializeDashboard,
     refreshDashboard,
+    fetchAnalytics,
     updateFilters,
     updateTimeFilter,
     updatePreferences,
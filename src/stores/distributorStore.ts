@@ -0,0 +1,415 @@
+/**
+ * Distributor Store - Distributor Network
+ * The distributors carrying the principal being viewed, their item
+ * authorizations and the operators reached through them, the distributors an
+ * organization buys through and a product's distributor coverage
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { distributorsApi } from '@/services/distributorsApi'
+import type { DistributorOption, EvidenceDocumentOption, PrincipalProductOption } from '@/services/distributorsApi'
+import { organizationDocumentsApi } from '@/services/organizationDocumentsApi'
+import { summarizeDistributionChain, summarizeDistributorCoverage } from '@/services/distributorRules'
+import type { PrincipalDistributorRelationship } from '@/types/principal'
+import type {
+  CustomerDistributorFormData,
+  CustomerDistributorListItem,
+  DistributionChainNode,
+  DistributorCoverageRow,
+  DistributorProductFormData,
+  DistributorProductListItem,
+  PrincipalDistributorFormData
+} from '@/types/distributors'
+
+/**
+ * Store state interface for better type safety
+ */
+interface DistributorStoreState {
+  // Principal network
+  principalId: string | null
+  principalName: string | null
+  relationships: PrincipalDistributorRelationship[]
+  chain: DistributionChainNode[]
+
+  // Item authorizations of one distributor for the principal's products
+  itemCodeDistributorId: string | null
+  itemCodes: DistributorProductListItem[]
+
+  // Distributor coverage of one product
+  coverageProductId: string | null
+  coverage: DistributorCoverageRow[]
+
+  // Documents of one distributor, offered as authorization evidence
+  evidenceDistributorId: string | null
+  evidenceDocuments: EvidenceDocumentOption[]
+
+  // Organization "buys through" links
+  customerId: string | null
+  customerDistributors: CustomerDistributorListItem[]
+
+  // Picker options
+  distributorOptions: DistributorOption[]
+  productOptions: PrincipalProductOption[]
+
+  // UI state
+  loading: boolean
+  saving: boolean
+  itemCodesLoading: boolean
+  coverageLoading: boolean
+
+  // Error handling
+  error: string | null
+}
+
+export const useDistributorStore = defineStore('distributors', () => {
+  // ===== STATE =====
+  const state = reactive<DistributorStoreState>({
+    principalId: null,
+    principalName: null,
+    relationships: [],
+    chain: [],
+    itemCodeDistributorId: null,
+    itemCodes: [],
+    coverageProductId: null,
+    coverage: [],
+    evidenceDistributorId: null,
+    evidenceDocuments: [],
+    customerId: null,
+    customerDistributors: [],
+    distributorOptions: [],
+    productOptions: [],
+    loading: false,
+    saving: false,
+    itemCodesLoading: false,
+    coverageLoading: false,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const chainSummary = computed(() => summarizeDistributionChain(state.chain))
+
+  /**
+   * Distributors not yet linked to the principal
+   */
+  const unlinkedDistributors = computed(() => {
+    const linked = new Set(state.relationships.map(relationship => relationship.distributor_id))
+    return state.distributorOptions.filter(option => !linked.has(option.id))
+  })
+
+  const coverageSummary = computed(() => summarizeDistributorCoverage(state.coverage))
+
+  const primaryCustomerDistributor = computed(() =>
+    state.customerDistributors.find(link => link.is_primary) || null
+  )
+
+  // ===== ACTIONS =====
+
+  /**
+   * Load the principal's distributors and the operators reached through them
+   */
+  const fetchPrincipalNetwork = async (principalId: string): Promise<void> => {
+    state.loading = true
+    state.error = null
+    state.principalId = principalId
+
+    try {
+      const [relationshipsResponse, chainResponse] = await Promise.all([
+        distributorsApi.getPrincipalDistributors(principalId),
+        distributorsApi.getDistributionChain(principalId)
+      ])
+
+      const rows = relationshipsResponse.data || []
+      state.principalName = rows[0]?.principal_name ?? null
+      state.relationships = rows.filter(row => row.relationship_id !== null)
+      state.chain = chainResponse.data || []
+
+      if (!relationshipsResponse.success || !chainResponse.success) {
+        state.error = relationshipsResponse.error || chainResponse.error || 'Failed to load distributors'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  const saveRelationship = async (form: PrincipalDistributorFormData, id: string | null = null): Promise<boolean> => {
+    if (!state.principalId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await distributorsApi.savePrincipalDistributor(state.principalId, form, id)
+      if (!response.success) {
+        state.error = response.error || 'Failed to save distributor relationship'
+        return false
+      }
+
+      await fetchPrincipalNetwork(state.principalId)
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const removeRelationship = async (id: string): Promise<boolean> => {
+    if (!state.principalId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await distributorsApi.removePrincipalDistributor(id)
+      if (!response.success) {
+        state.error = response.error || 'Failed to remove distributor relationship'
+        return false
+      }
+
+      await fetchPrincipalNetwork(state.principalId)
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const fetchItemCodes = async (distributorId: string): Promise<void> => {
+    if (!state.principalId) return
+
+    state.itemCodesLoading = true
+    state.itemCodeDistributorId = distributorId
+
+    try {
+      const response = await distributorsApi.getDistributorProducts(distributorId, state.principalId)
+      state.itemCodes = response.data || []
+      if (!response.success) {
+        state.error = response.error || 'Failed to load item codes'
+      }
+    } finally {
+      state.itemCodesLoading = false
+    }
+  }
+
+  /**
+   * Save an item code for the distributor whose codes are loaded
+   */
+  const saveItemCode = async (form: DistributorProductFormData, id: string | null = null): Promise<boolean> => {
+    if (!state.itemCodeDistributorId || !state.principalId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await distributorsApi.saveDistributorProduct(state.itemCodeDistributorId, form, id)
+      if (!response.success) {
+        state.error = response.error || 'Failed to save item code'
+        return false
+      }
+
+      await Promise.all([
+        fetchItemCodes(state.itemCodeDistributorId),
+        fetchPrincipalNetwork(state.principalId)
+      ])
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const removeItemCode = async (id: string): Promise<boolean> => {
+    if (!state.itemCodeDistributorId || !state.principalId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await distributorsApi.removeDistributorProduct(id)
+      if (!response.success) {
+        state.error = response.error || 'Failed to remove item code'
+        return false
+      }
+
+      await Promise.all([
+        fetchItemCodes(state.itemCodeDistributorId),
+        fetchPrincipalNetwork(state.principalId)
+      ])
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const fetchProductCoverage = async (productId: string): Promise<void> => {
+    state.coverageLoading = true
+    state.error = null
+    state.coverageProductId = productId
+
+    try {
+      const response = await distributorsApi.getProductCoverage(productId)
+      state.coverage = response.data || []
+      if (!response.success) {
+        state.error = response.error || 'Failed to load distributor coverage'
+      }
+    } finally {
+      state.coverageLoading = false
+    }
+  }
+
+  /**
+   * Save the loaded product's authorization at a distributor
+   */
+  const saveProductAuthorization = async (
+    distributorId: string,
+    form: DistributorProductFormData,
+    id: string | null = null
+  ): Promise<boolean> => {
+    if (!state.coverageProductId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await distributorsApi.saveDistributorProduct(distributorId, form, id)
+      if (!response.success) {
+        state.error = response.error || 'Failed to save authorization'
+        return false
+      }
+
+      await fetchProductCoverage(state.coverageProductId)
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  /**
+   * Latest version of each of the distributor's documents
+   */
+  const fetchEvidenceDocuments = async (distributorId: string): Promise<void> => {
+    if (state.evidenceDistributorId === distributorId) return
+
+    state.evidenceDistributorId = distributorId
+    state.evidenceDocuments = []
+
+    const response = await organizationDocumentsApi.getDocuments(distributorId)
+    if (response.success && response.data) {
+      state.evidenceDocuments = response.data.map(({ latest }) => ({ id: latest.id, name: latest.name }))
+    } else {
+      state.error = response.error || 'Failed to load documents'
+    }
+  }
+
+  const fetchCustomerDistributors = async (customerId: string): Promise<void> => {
+    state.loading = true
+    state.error = null
+    state.customerId = customerId
+
+    try {
+      const response = await distributorsApi.getCustomerDistributors(customerId)
+      state.customerDistributors = response.data || []
+      if (!response.success) {
+        state.error = response.error || 'Failed to load distributors'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  const saveCustomerDistributor = async (form: CustomerDistributorFormData, id: string | null = null): Promise<boolean> => {
+    if (!state.customerId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await distributorsApi.saveCustomerDistributor(state.customerId, form, id)
+      if (!response.success) {
+        state.error = response.error || 'Failed to save distributor'
+        return false
+      }
+
+      await fetchCustomerDistributors(state.customerId)
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const removeCustomerDistributor = async (id: string): Promise<boolean> => {
+    if (!state.customerId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await distributorsApi.removeCustomerDistributor(id)
+      if (!response.success) {
+        state.error = response.error || 'Failed to remove distributor'
+        return false
+      }
+
+      await fetchCustomerDistributors(state.customerId)
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  /**
+   * Load distributor picker options once
+   */
+  const fetchDistributorOptions = async (force = false): Promise<void> => {
+    if (state.distributorOptions.length > 0 && !force) return
+
+    const response = await distributorsApi.getDistributorOptions()
+    if (response.success && response.data) {
+      state.distributorOptions = response.data
+    } else {
+      state.error = response.error || 'Failed to load distributors'
+    }
+  }
+
+  const fetchProductOptions = async (): Promise<void> => {
+    if (!state.principalId) return
+
+    const response = await distributorsApi.getPrincipalProductOptions(state.principalId)
+    if (response.success && response.data) {
+      state.productOptions = response.data
+    } else {
+      state.error = response.error || 'Failed to load products'
+    }
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    chainSummary,
+    coverageSummary,
+    unlinkedDistributors,
+    primaryCustomerDistributor,
+
+    // Actions
+    fetchPrincipalNetwork,
+    saveRelationship,
+    removeRelationship,
+    fetchItemCodes,
+    saveItemCode,
+    removeItemCode,
+    fetchProductCoverage,
+    saveProductAuthorization,
+    fetchEvidenceDocuments,
+    fetchCustomerDistributors,
+    saveCustomerDistributor,
+    removeCustomerDistributor,
+    fetchDistributorOptions,
+    fetchProductOptions,
+    clearError
+  }
+})
@@ -0,0 +1,117 @@
+/**
+ * Email Template Store - Email Compose Templates
+ * Templates shared by the template manager and the compose panels on
+ * contact and opportunity pages
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { emailApi } from '@/services/emailApi'
+import type { EmailTemplate, EmailTemplateFormData } from '@/types/email'
+
+/**
+ * Store state interface for better type safety
+ */
+interface EmailTemplateStoreState {
+  templates: EmailTemplate[]
+
+  // UI state
+  loading: boolean
+  saving: boolean
+  loaded: boolean
+
+  // Error handling
+  error: string | null
+}
+
+export const useEmailTemplateStore = defineStore('emailTemplates', () => {
+  // ===== STATE =====
+  const state = reactive<EmailTemplateStoreState>({
+    templates: [],
+    loading: false,
+    saving: false,
+    loaded: false,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const activeTemplates = computed(() => state.templates.filter(template => template.is_active))
+
+  // ===== ACTIONS =====
+
+  /**
+   * Load templates once; pass force to reload
+   */
+  const fetchTemplates = async (force = false): Promise<void> => {
+    if (state.loaded && !force) return
+
+    state.loading = true
+    state.error = null
+
+    try {
+      const response = await emailApi.getTemplates()
+      if (response.success && response.data) {
+        state.templates = response.data
+        state.loaded = true
+      } else {
+        state.error = response.error || 'Failed to load email templates'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  const saveTemplate = async (form: EmailTemplateFormData, id?: string): Promise<EmailTemplate | null> => {
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = id
+        ? await emailApi.updateTemplate(id, form)
+        : await emailApi.createTemplate(form)
+
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to save email template'
+        return null
+      }
+
+      const saved = response.data
+      state.templates = [...state.templates.filter(template => template.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name))
+      return saved
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const deleteTemplate = async (id: string): Promise<boolean> => {
+    const response = await emailApi.deleteTemplate(id)
+    if (!response.success) {
+      state.error = response.error || 'Failed to delete email template'
+      return false
+    }
+
+    state.templates = state.templates.filter(template => template.id !== id)
+    return true
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    activeTemplates,
+
+    // Actions
+    fetchTemplates,
+    saveTemplate,
+    deleteTemplate,
+    clearError
+  }
+})
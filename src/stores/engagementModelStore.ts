@@ -0,0 +1,197 @@
+/**
+ * Engagement Model Store - Engagement Scoring
+ * The engagement score model of the principal being viewed, the editor's
+ * score preview and the recorded score history for the trend charts
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { engagementApi } from '@/services/engagementApi'
+import type {
+  EngagementModelFormData,
+  EngagementScoreBreakdown,
+  EngagementScoreModel,
+  PrincipalEngagementScore
+} from '@/types/engagement'
+
+/**
+ * Store state interface for better type safety
+ */
+interface EngagementModelStoreState {
+  principalId: string | null
+  principalModel: EngagementScoreModel | null
+  defaultModel: EngagementScoreModel | null
+  preview: EngagementScoreBreakdown | null
+  history: PrincipalEngagementScore[]
+
+  // UI state
+  loading: boolean
+  saving: boolean
+  previewLoading: boolean
+  historyLoading: boolean
+
+  // Error handling
+  error: string | null
+}
+
+export const useEngagementModelStore = defineStore('engagementModels', () => {
+  // ===== STATE =====
+  const state = reactive<EngagementModelStoreState>({
+    principalId: null,
+    principalModel: null,
+    defaultModel: null,
+    preview: null,
+    history: [],
+    loading: false,
+    saving: false,
+    previewLoading: false,
+    historyLoading: false,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  /**
+   * Model the principal is scored with
+   */
+  const activeModel = computed<EngagementScoreModel | null>(() => state.principalModel || state.defaultModel)
+
+  const hasOwnModel = computed(() => state.principalModel !== null)
+
+  const latestScore = computed(() => state.history[state.history.length - 1] || null)
+
+  // ===== ACTIONS =====
+
+  const fetchModels = async (principalId: string): Promise<void> => {
+    state.loading = true
+    state.error = null
+    state.principalId = principalId
+    state.preview = null
+
+    try {
+      const response = await engagementApi.getModels(principalId)
+      if (response.success && response.data) {
+        state.principalModel = response.data.principalModel
+        state.defaultModel = response.data.defaultModel
+      } else {
+        state.error = response.error || 'Failed to load engagement score model'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Save the principal's own model, or the default model for everyone
+   */
+  const saveModel = async (form: EngagementModelFormData, asDefault = false): Promise<boolean> => {
+    if (!state.principalId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await engagementApi.saveModel(asDefault ? null : state.principalId, form)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to save engagement score model'
+        return false
+      }
+
+      if (asDefault) {
+        state.defaultModel = response.data
+      } else {
+        state.principalModel = response.data
+      }
+      await fetchHistory(state.principalId)
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  /**
+   * Drop the principal's own model so it uses the default again
+   */
+  const resetModel = async (): Promise<boolean> => {
+    if (!state.principalId) return false
+
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await engagementApi.resetModel(state.principalId)
+      if (!response.success) {
+        state.error = response.error || 'Failed to reset engagement score model'
+        return false
+      }
+
+      state.principalModel = null
+      await fetchHistory(state.principalId)
+      return true
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const previewScore = async (form: EngagementModelFormData): Promise<EngagementScoreBreakdown | null> => {
+    if (!state.principalId) return null
+
+    state.previewLoading = true
+
+    try {
+      const response = await engagementApi.previewScore(state.principalId, form)
+      state.preview = response.success ? response.data : null
+      if (!response.success) {
+        state.error = response.error || 'Failed to preview engagement score'
+      }
+      return state.preview
+    } finally {
+      state.previewLoading = false
+    }
+  }
+
+  const fetchHistory = async (principalId: string, days = 90): Promise<PrincipalEngagementScore[]> => {
+    state.historyLoading = true
+
+    try {
+      const response = await engagementApi.getScoreHistory(principalId, days)
+      if (response.success && response.data) {
+        state.history = response.data
+      } else {
+        state.history = []
+        state.error = response.error || 'Failed to load engagement score history'
+      }
+      return state.history
+    } finally {
+      state.historyLoading = false
+    }
+  }
+
+  const clearPreview = () => {
+    state.preview = null
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    activeModel,
+    hasOwnModel,
+    latestScore,
+
+    // Actions
+    fetchModels,
+    saveModel,
+    resetModel,
+    previewScore,
+    fetchHistory,
+    clearPreview,
+    clearError
+  }
+})
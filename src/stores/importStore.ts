@@ -0,0 +1,402 @@
+/**
+ * Import Store - Organization & Contact Import Wizard
+ * Holds the uploaded sheet, column mapping, validated rows and per-row
+ * results, and creates records with organizationStore.createOrganizationWithContacts
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { contactsApi } from '@/services/contactsApi'
+import { importApi } from '@/services/importApi'
+import { parseImportFile } from '@/services/importFileParser'
+import {
+  autoMapColumns,
+  buildImportRows,
+  describeDuplicate,
+  getMissingRequiredFields,
+  normalizeName,
+  toContactDraft,
+  toOrganizationInsert
+} from '@/services/importRules'
+import { useOrganizationStore } from '@/stores/organizationStore'
+import type { ContactInsert } from '@/types/database.types'
+import type {
+  ColumnMapping,
+  ImportEntity,
+  ImportRow,
+  ImportRowAction,
+  ImportRowResult,
+  ImportSheet,
+  ImportStep
+} from '@/types/import'
+import { MAX_IMPORT_ROWS, getImportFields } from '@/types/import'
+
+/**
+ * Store state interface for better type safety
+ */
+interface ImportStoreState {
+  step: ImportStep
+  entity: ImportEntity
+  fileName: string | null
+  sheet: ImportSheet | null
+  mapping: ColumnMapping
+  createMissingOrganizations: boolean
+  rows: ImportRow[]
+  results: ImportRowResult[]
+
+  // UI state
+  parsing: boolean
+  validating: boolean
+  committing: boolean
+  progress: { done: number; total: number }
+
+  // Error handling
+  error: string | null
+}
+
+const initialState = (): ImportStoreState => ({
+  step: 'upload',
+  entity: 'organizations',
+  fileName: null,
+  sheet: null,
+  mapping: [],
+  createMissingOrganizations: true,
+  rows: [],
+  results: [],
+  parsing: false,
+  validating: false,
+  committing: false,
+  progress: { done: 0, total: 0 },
+  error: null
+})
+
+type NewContact = {
+  first_name: string
+  last_name: string
+  email: string | null
+  phone?: string
+  title?: string
+}
+
+export const useImportStore = defineStore('import', () => {
+  // ===== STATE =====
+  const state = reactive<ImportStoreState>(initialState())
+
+  // Organization ids by normalized name, for linking imported contacts
+  const organizationIds = new Map<string, string>()
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const fields = computed(() => getImportFields(state.entity))
+
+  const missingRequiredFields = computed(() => getMissingRequiredFields(state.mapping, fields.value))
+
+  const rowsToCreate = computed(() => state.rows.filter(row => row.action === 'create'))
+
+  const invalidRowCount = computed(() => state.rows.filter(row => row.errors.length > 0).length)
+
+  const duplicateRowCount = computed(() => state.rows.filter(row => row.duplicates.length > 0).length)
+
+  const resultCounts = computed(() => ({
+    created: state.results.filter(result => result.status === 'created').length,
+    skipped: state.results.filter(result => result.status === 'skipped').length,
+    failed: state.results.filter(result => result.status === 'failed').length
+  }))
+
+  // ===== ACTIONS - SETUP =====
+
+  /**
+   * Choose what the file contains; re-maps columns for the new field list
+   */
+  const setEntity = (entity: ImportEntity) => {
+    state.entity = entity
+    if (state.sheet) {
+      state.mapping = autoMapColumns(state.sheet.headers, fields.value)
+    }
+  }
+
+  /**
+   * Read an uploaded file and suggest a column mapping
+   */
+  const loadFile = async (file: File): Promise<boolean> => {
+    state.parsing = true
+    state.error = null
+
+    try {
+      const sheet = await parseImportFile(file)
+
+      if (sheet.rows.length === 0) {
+        state.error = 'The file has no data rows below the header row'
+        return false
+      }
+      if (sheet.rows.length > MAX_IMPORT_ROWS) {
+        state.error = `The file has ${sheet.rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`
+        return false
+      }
+
+      state.fileName = file.name
+      state.sheet = sheet
+      state.mapping = autoMapColumns(sheet.headers, fields.value)
+      state.rows = []
+      state.results = []
+      state.step = 'map'
+      return true
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : 'Failed to read the file'
+      return false
+    } finally {
+      state.parsing = false
+    }
+  }
+
+  /**
+   * Map a column to a field; a field can only be mapped from one column
+   */
+  const setColumnMapping = (column: number, fieldKey: string | null) => {
+    state.mapping = state.mapping.map((current, index) => {
+      if (index === column) return fieldKey
+      return fieldKey && current === fieldKey ? null : current
+    })
+  }
+
+  // ===== ACTIONS - VALIDATION =====
+
+  /**
+   * Validate every row and look for duplicates of existing records
+   */
+  const validateRows = async (): Promise<boolean> => {
+    if (!state.sheet) return false
+
+    if (missingRequiredFields.value.length > 0) {
+      state.error = `Map a column to: ${missingRequiredFields.value.map(field => field.label).join(', ')}`
+      return false
+    }
+
+    state.validating = true
+    state.error = null
+
+    try {
+      const candidates = await importApi.getDuplicateCandidates(state.entity)
+      if (!candidates.success || !candidates.data) {
+        state.error = candidates.error || 'Failed to check for duplicates'
+        return false
+      }
+
+      const rows = await buildImportRows(state.entity, state.sheet, state.mapping, candidates.data)
+
+      if (state.entity === 'contacts') {
+        const organizations = await importApi.getOrganizationCandidates()
+        if (!organizations.success || !organizations.data) {
+          state.error = organizations.error || 'Failed to load organizations'
+          return false
+        }
+
+        organizationIds.clear()
+        organizations.data.forEach(organization => {
+          organizationIds.set(normalizeName(organization.name), organization.id)
+        })
+
+        if (!state.createMissingOrganizations) {
+          rows.forEach(row => {
+            const name = row.values.organization_name
+            if (name && !organizationIds.has(normalizeName(name))) {
+              row.errors.push(`Organization "${name}" was not found`)
+              row.action = 'skip'
+            }
+          })
+        }
+      }
+
+      state.rows = rows
+      state.step = 'review'
+      return true
+    } finally {
+      state.validating = false
+    }
+  }
+
+  /**
+   * Include or skip a row; rows with errors are always skipped
+   */
+  const setRowAction = (rowNumber: number, action: ImportRowAction) => {
+    const row = state.rows.find(row => row.rowNumber === rowNumber)
+    if (row && (action === 'skip' || row.errors.length === 0)) {
+      row.action = action
+    }
+  }
+
+  // ===== ACTIONS - COMMIT =====
+
+  const skippedResult = (row: ImportRow): ImportRowResult => ({
+    rowNumber: row.rowNumber,
+    status: 'skipped',
+    message: row.errors.length > 0
+      ? row.errors.join('; ')
+      : row.duplicates.map(describeDuplicate).join('; ') || 'Skipped'
+  })
+
+  const toNewContact = (row: ImportRow): NewContact | null => {
+    const contact = toContactDraft(row.values, state.entity)
+    if (!contact) return null
+    return {
+      first_name: contact.first_name ?? '',
+      last_name: contact.last_name ?? '',
+      email: contact.email,
+      phone: contact.phone ?? undefined,
+      title: contact.position ?? undefined
+    }
+  }
+
+  /**
+   * One organization per row, with its primary contact
+   */
+  const commitOrganizations = async (): Promise<void> => {
+    const organizationStore = useOrganizationStore()
+
+    for (const row of state.rows) {
+      if (row.action === 'skip') {
+        state.results.push(skippedResult(row))
+        continue
+      }
+
+      const contact = toNewContact(row)
+      const organization = await organizationStore.createOrganizationWithContacts(
+        toOrganizationInsert(row.values),
+        { mode: 'create', selectedContactIds: [], newContacts: contact ? [contact] : [] },
+        { refresh: false }
+      )
+
+      state.results.push(organization
+        ? { rowNumber: row.rowNumber, status: 'created', message: `Created organization "${organization.name}"`, recordId: organization.id }
+        : { rowNumber: row.rowNumber, status: 'failed', message: organizationStore.errors.creating || 'Failed to create organization' })
+      state.progress.done++
+    }
+  }
+
+  /**
+   * Contacts are added to existing organizations; organizations that do not
+   * exist yet are created together with all of their imported contacts
+   */
+  const commitContacts = async (): Promise<void> => {
+    const organizationStore = useOrganizationStore()
+    const newOrganizations = new Map<string, { name: string; rows: ImportRow[] }>()
+
+    for (const row of state.rows) {
+      if (row.action === 'skip') {
+        state.results.push(skippedResult(row))
+        continue
+      }
+
+      const organizationName = row.values.organization_name
+      const organizationId = organizationIds.get(normalizeName(organizationName))
+
+      if (!organizationId) {
+        const key = normalizeName(organizationName)
+        const group = newOrganizations.get(key) ?? { name: organizationName, rows: [] }
+        group.rows.push(row)
+        newOrganizations.set(key, group)
+        continue
+      }
+
+      const contact = toContactDraft(row.values, state.entity)
+      const response = await contactsApi.createContact({ ...contact, organization_id: organizationId } as ContactInsert)
+      state.results.push(response.success && response.data
+        ? { rowNumber: row.rowNumber, status: 'created', message: `Added to "${organizationName}"`, recordId: response.data.id }
+        : { rowNumber: row.rowNumber, status: 'failed', message: response.error || 'Failed to create contact' })
+      state.progress.done++
+    }
+
+    for (const [key, group] of newOrganizations) {
+      const newContacts = group.rows.map(toNewContact).filter((contact): contact is NewContact => contact !== null)
+      const organization = await organizationStore.createOrganizationWithContacts(
+        { name: group.name },
+        { mode: 'create', selectedContactIds: [], newContacts },
+        { refresh: false }
+      )
+
+      if (organization) {
+        organizationIds.set(key, organization.id)
+      }
+
+      group.rows.forEach(row => {
+        state.results.push(organization
+          ? { rowNumber: row.rowNumber, status: 'created', message: `Added to new organization "${group.name}"` }
+          : { rowNumber: row.rowNumber, status: 'failed', message: organizationStore.errors.creating || `Failed to create organization "${group.name}"` })
+        state.progress.done++
+      })
+    }
+  }
+
+  /**
+   * Create the rows marked for import and record what happened to every row
+   */
+  const commit = async (): Promise<void> => {
+    state.committing = true
+    state.error = null
+    state.results = []
+    state.progress = { done: 0, total: rowsToCreate.value.length }
+
+    try {
+      if (state.entity === 'organizations') {
+        await commitOrganizations()
+      } else {
+        await commitContacts()
+      }
+
+      state.results.sort((a, b) => a.rowNumber - b.rowNumber)
+      state.step = 'results'
+
+      if (resultCounts.value.created > 0) {
+        await useOrganizationStore().fetchOrganizations({ resetList: true })
+      }
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : 'Import failed'
+    } finally {
+      state.committing = false
+    }
+  }
+
+  // ===== ACTIONS - NAVIGATION =====
+
+  const goToStep = (step: ImportStep) => {
+    state.error = null
+    state.step = step
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  /**
+   * Start a new import
+   */
+  const reset = () => {
+    organizationIds.clear()
+    Object.assign(state, initialState())
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    fields,
+    missingRequiredFields,
+    rowsToCreate,
+    invalidRowCount,
+    duplicateRowCount,
+    resultCounts,
+
+    // Actions
+    setEntity,
+    loadFile,
+    setColumnMapping,
+    validateRows,
+    setRowAction,
+    commit,
+    goToStep,
+    clearError,
+    reset
+  }
+})
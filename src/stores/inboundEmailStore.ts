@@ -0,0 +1,188 @@
+/**
+ * Inbound Email Store - Dropbox Ingestion and Triage
+ * Uploads .eml files, processes messages stored by the dropbox mail hook and
+ * keeps the queue of unmatched messages for manual linking
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { inboundEmailApi } from '@/services/inboundEmailApi'
+import type { InboundEmail, InboundEmailQueueItem } from '@/types/inboundEmail'
+
+/**
+ * Outcome of an upload or processing run
+ */
+export interface InboundIngestSummary {
+  linked: number
+  unmatched: number
+  duplicates: number
+  failed: string[]
+}
+
+/**
+ * Store state interface for better type safety
+ */
+interface InboundEmailStoreState {
+  queue: InboundEmailQueueItem[]
+  lastSummary: InboundIngestSummary | null
+
+  // UI state
+  loading: boolean
+  processing: boolean
+
+  // Error handling
+  error: string | null
+}
+
+const emptySummary = (): InboundIngestSummary => ({ linked: 0, unmatched: 0, duplicates: 0, failed: [] })
+
+const countResult = (summary: InboundIngestSummary, email: InboundEmail) => {
+  if (email.status === 'LINKED') summary.linked++
+  if (email.status === 'UNMATCHED') summary.unmatched++
+}
+
+export const useInboundEmailStore = defineStore('inboundEmail', () => {
+  // ===== STATE =====
+  const state = reactive<InboundEmailStoreState>({
+    queue: [],
+    lastSummary: null,
+    loading: false,
+    processing: false,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const queueCount = computed(() => state.queue.length)
+
+  // ===== ACTIONS =====
+
+  const fetchQueue = async (): Promise<void> => {
+    state.loading = true
+    state.error = null
+
+    try {
+      const response = await inboundEmailApi.getTriageQueue()
+      if (response.success && response.data) {
+        state.queue = response.data
+      } else {
+        state.error = response.error || 'Failed to load inbound emails'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Match messages waiting from the dropbox mail hook, then reload the queue
+   */
+  const processReceived = async (): Promise<void> => {
+    state.processing = true
+    state.error = null
+
+    try {
+      const response = await inboundEmailApi.processReceived()
+      if (response.success && response.data) {
+        if (response.data.length > 0) {
+          const summary = emptySummary()
+          response.data.forEach(email => countResult(summary, email))
+          state.lastSummary = summary
+        }
+      } else {
+        state.error = response.error || 'Failed to process inbound emails'
+      }
+    } finally {
+      state.processing = false
+    }
+
+    await fetchQueue()
+  }
+
+  /**
+   * Ingest uploaded .eml files one at a time
+   */
+  const ingestFiles = async (files: File[]): Promise<void> => {
+    state.processing = true
+    state.error = null
+    const summary = emptySummary()
+
+    try {
+      for (const file of files) {
+        const response = await inboundEmailApi.ingestMessage(await file.text())
+        if (!response.success || !response.data) {
+          summary.failed.push(`${file.name}: ${response.error || 'Unknown error'}`)
+        } else if (response.data.duplicate) {
+          summary.duplicates++
+        } else {
+          countResult(summary, response.data.email)
+        }
+      }
+      state.lastSummary = summary
+    } finally {
+      state.processing = false
+    }
+
+    await fetchQueue()
+  }
+
+  const linkEmail = async (email: InboundEmail, opportunityId: string): Promise<boolean> => {
+    const response = await inboundEmailApi.linkEmail(email, opportunityId)
+    if (!response.success) {
+      state.error = response.error || 'Failed to link email'
+      return false
+    }
+
+    state.queue = state.queue.filter(item => item.id !== email.id)
+    return true
+  }
+
+  const ignoreEmail = async (id: string): Promise<boolean> => {
+    const response = await inboundEmailApi.ignoreEmail(id)
+    if (!response.success) {
+      state.error = response.error || 'Failed to dismiss email'
+      return false
+    }
+
+    state.queue = state.queue.filter(item => item.id !== id)
+    return true
+  }
+
+  /**
+   * Try matching a queued message again, e.g. after adding its contact
+   */
+  const retryMatch = async (email: InboundEmail): Promise<boolean> => {
+    const response = await inboundEmailApi.processEmail(email)
+    if (!response.success || !response.data) {
+      state.error = response.error || 'Failed to match email'
+      return false
+    }
+
+    if (response.data.status === 'LINKED') {
+      state.queue = state.queue.filter(item => item.id !== email.id)
+      return true
+    }
+    return false
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    queueCount,
+
+    // Actions
+    fetchQueue,
+    processReceived,
+    ingestFiles,
+    linkEmail,
+    ignoreEmail,
+    retryMatch,
+    clearError
+  }
+})
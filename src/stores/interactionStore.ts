@@ -8,6 +8,8 @@
 import { defineStore } from 'pinia'
 import { ref, computed, reactive } from 'vue'
 import { interactionsApi } from '@/services/interactionsApi'
+import { outboxApi } from '@/services/outboxApi'
+import { useAuthStore } from '@/stores/authStore'
 import type {
   InteractionListView,
   InteractionDetailView,
@@ -20,6 +22,7 @@ import type {
   InteractionOutcome,
   InteractionUpdate
 } from '@/types/interactions'
+import type { CalendarEventKind, CalendarInteraction } from '@/types/calendar'
 
 /**
  * Store state interface for better type safety
@@ -99,6 +102,9 @@ export const useInteractionStore = defineStore('interaction', () => {
     monthlyInteractionCounts: {}
   })
 
+  // Scheduled interactions and follow-ups in the visible calendar range
+  const calendarInteractions = ref<CalendarInteraction[]>([])
+
   // Active filters for list view
   const activeFilters = ref<InteractionFilters>({})
   const activePagination = ref<InteractionPagination>({
@@ -305,8 +311,8 @@ export const useInteractionStore = defineStore('interaction', () => {
           state.interactions.unshift(newInteraction)
         }
         
-        // Update opportunity interactions cache if relevant
-        if (interactionData.opportunity_id && state.opportunityInteractions[interactionData.opportunity_id]) {
+        // Update opportunity interactions cache if relevant; queued offline writes refresh after sync
+        if (interactionData.opportunity_id && state.opportunityInteractions[interactionData.opportunity_id] && !outboxApi.isOffline()) {
           await fetchInteractionsByOpportunity(interactionData.opportunity_id)
         }
         
@@ -331,7 +337,13 @@ export const useInteractionStore = defineStore('interaction', () => {
     state.error = null
     
     try {
-      const response = await interactionsApi.updateInteraction(id, updates)
+      const response = await interactionsApi.updateInteraction(
+        id,
+        updates,
+        state.selectedInteraction?.id === id
+          ? state.selectedInteraction as any
+          : state.interactions.find(interaction => interaction.id === id)
+      )
       
       if (response.success && response.data) {
         // Update in local state
@@ -352,14 +364,21 @@ export const useInteractionStore = defineStore('interaction', () => {
           }
         }
         
+        // Queued offline edits cannot be re-read from the server yet
+        const offline = outboxApi.isOffline()
+
         // Update selected interaction if it's the same one
         if (state.selectedInteraction?.id === id) {
-          await fetchInteractionById(id)
+          if (offline) {
+            state.selectedInteraction = { ...state.selectedInteraction, ...response.data } as any
+          } else {
+            await fetchInteractionById(id)
+          }
         }
         
         // Update opportunity interactions cache
         const opportunityId = response.data.opportunity_id
-        if (opportunityId && state.opportunityInteractions[opportunityId]) {
+        if (opportunityId && state.opportunityInteractions[opportunityId] && !offline) {
           await fetchInteractionsByOpportunity(opportunityId)
         }
         
@@ -535,6 +554,56 @@ export const useInteractionStore = defineStore('interaction', () => {
     }
   }
 
+  // ===============================
+  // ACTIONS - CALENDAR
+  // ===============================
+
+  /**
+   * Fetch scheduled interactions and follow-ups in [from, to), by default
+   * only the signed-in user's
+   */
+  const fetchCalendarInteractions = async (from: Date, to: Date, mineOnly: boolean = true): Promise<void> => {
+    state.loading = true
+    state.error = null
+
+    try {
+      const createdBy = mineOnly ? useAuthStore().userId ?? undefined : undefined
+      const response = await interactionsApi.getCalendarInteractions(from.toISOString(), to.toISOString(), createdBy)
+
+      if (response.success && response.data) {
+        calendarInteractions.value = response.data
+      } else {
+        state.error = response.error || 'Failed to fetch calendar'
+      }
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : 'Unexpected error occurred'
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Move a scheduled interaction (interaction_date) or its follow-up
+   * (follow_up_date) to a new start. The calendar updates immediately and
+   * is put back if the save fails.
+   */
+  const rescheduleInteraction = async (id: string, kind: CalendarEventKind, start: Date): Promise<boolean> => {
+    const field = kind === 'interaction' ? 'interaction_date' : 'follow_up_date'
+    const index = calendarInteractions.value.findIndex(interaction => interaction.id === id)
+    const previous = index !== -1 ? calendarInteractions.value[index] : null
+
+    if (previous) {
+      calendarInteractions.value[index] = { ...previous, [field]: start.toISOString() }
+    }
+
+    const saved = await updateInteraction(id, { [field]: start.toISOString() })
+    if (!saved && previous) {
+      const current = calendarInteractions.value.findIndex(interaction => interaction.id === id)
+      if (current !== -1) calendarInteractions.value[current] = previous
+    }
+    return saved
+  }
+
   // ===============================
   // ACTIONS - UTILITY FUNCTIONS
   // ===============================
@@ -710,6 +779,7 @@ export const useInteractionStore = defineStore('interaction', () => {
   return {
     // State
     ...state,
+    calendarInteractions,
     activeFilters,
     activePagination,
     
@@ -742,6 +812,10 @@ export const useInteractionStore = defineStore('interaction', () => {
     fetchKPIs,
     fetchUpcomingFollowUps,
     fetchRecentActivity,
+
+    // Actions - Calendar
+    fetchCalendarInteractions,
+    rescheduleInteraction,
     
     // Actions - Utilities
     clearError,
@@ -0,0 +1,190 @@
+/**
+ * Naming Template Store - Opportunity Name Templates
+ * Templates shared by the naming settings page and the opportunity form, and
+ * the bulk rename preview for renamed organizations and principals
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { namingTemplatesApi } from '@/services/namingTemplatesApi'
+import { DEFAULT_NAME_TEMPLATE } from '@/types/opportunityNaming'
+import type {
+  OpportunityNameTemplate,
+  OpportunityNameTemplateFormData,
+  OpportunityRenamePreview,
+  OpportunityRenameResult
+} from '@/types/opportunityNaming'
+
+/**
+ * Store state interface for better type safety
+ */
+interface NamingTemplateStoreState {
+  templates: OpportunityNameTemplate[]
+  renamePreviews: OpportunityRenamePreview[]
+
+  // UI state
+  loading: boolean
+  saving: boolean
+  loaded: boolean
+  previewLoading: boolean
+  renaming: boolean
+
+  // Error handling
+  error: string | null
+}
+
+export const useNamingTemplateStore = defineStore('namingTemplates', () => {
+  // ===== STATE =====
+  const state = reactive<NamingTemplateStoreState>({
+    templates: [],
+    renamePreviews: [],
+    loading: false,
+    saving: false,
+    loaded: false,
+    previewLoading: false,
+    renaming: false,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const defaultTemplate = computed(() =>
+    state.templates.find(template => template.is_default && template.is_active) || null
+  )
+
+  const defaultPattern = computed(() => defaultTemplate.value?.pattern || DEFAULT_NAME_TEMPLATE)
+
+  // ===== ACTIONS =====
+
+  /**
+   * Load templates once; pass force to reload
+   */
+  const fetchTemplates = async (force = false): Promise<void> => {
+    if (state.loaded && !force) return
+
+    state.loading = true
+    state.error = null
+
+    try {
+      const response = await namingTemplatesApi.getTemplates()
+      if (response.success && response.data) {
+        state.templates = response.data
+        state.loaded = true
+      } else {
+        state.error = response.error || 'Failed to load name templates'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  const saveTemplate = async (
+    form: OpportunityNameTemplateFormData,
+    id?: string
+  ): Promise<OpportunityNameTemplate | null> => {
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = id
+        ? await namingTemplatesApi.updateTemplate(id, form)
+        : await namingTemplatesApi.createTemplate(form)
+
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to save name template'
+        return null
+      }
+
+      const saved = response.data
+      state.templates = [
+        ...state.templates
+          .filter(template => template.id !== saved.id)
+          .map(template => saved.is_default ? { ...template, is_default: false } : template),
+        saved
+      ].sort((a, b) => a.name.localeCompare(b.name))
+      return saved
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const deleteTemplate = async (id: string): Promise<boolean> => {
+    const response = await namingTemplatesApi.deleteTemplate(id)
+    if (!response.success) {
+      state.error = response.error || 'Failed to delete name template'
+      return false
+    }
+
+    state.templates = state.templates.filter(template => template.id !== id)
+    return true
+  }
+
+  /**
+   * Preview regenerated names for an organization's or principal's
+   * auto-named opportunities
+   */
+  const previewRenames = async (organizationId: string): Promise<OpportunityRenamePreview[]> => {
+    state.previewLoading = true
+    state.error = null
+
+    try {
+      const response = await namingTemplatesApi.getRenameCandidates(organizationId)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to preview opportunity names'
+        state.renamePreviews = []
+      } else {
+        state.renamePreviews = response.data
+      }
+      return state.renamePreviews
+    } finally {
+      state.previewLoading = false
+    }
+  }
+
+  const applyRenames = async (previews: OpportunityRenamePreview[]): Promise<OpportunityRenameResult | null> => {
+    state.renaming = true
+    state.error = null
+
+    try {
+      const response = await namingTemplatesApi.applyRenames(previews)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to rename opportunities'
+      }
+
+      const failedIds = new Set(response.data?.failed.map(failure => failure.id) || [])
+      state.renamePreviews = state.renamePreviews.filter(preview =>
+        failedIds.has(preview.id) || !previews.some(applied => applied.id === preview.id)
+      )
+      return response.data
+    } finally {
+      state.renaming = false
+    }
+  }
+
+  const clearRenamePreviews = () => {
+    state.renamePreviews = []
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    defaultTemplate,
+    defaultPattern,
+
+    // Actions
+    fetchTemplates,
+    saveTemplate,
+    deleteTemplate,
+    previewRenames,
+    applyRenames,
+    clearRenamePreviews,
+    clearError
+  }
+})
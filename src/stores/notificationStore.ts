@@ -0,0 +1,252 @@
+/**
+ * Notification Store - In-App Notification Center
+ * Generates alerts from CRM data, tracks read/unread state and holds the
+ * signed-in user's notification preferences
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { notificationsApi } from '@/services/notificationsApi'
+import { useAuthStore } from '@/stores/authStore'
+import type {
+  Notification,
+  NotificationPreferences,
+  NotificationPreferencesUpdate
+} from '@/types/notifications'
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/types/notifications'
+
+/**
+ * Number of notifications shown in the header dropdown
+ */
+const RECENT_NOTIFICATION_LIMIT = 8
+
+/**
+ * Store state interface for better type safety
+ */
+interface NotificationStoreState {
+  notifications: Notification[]
+  preferences: NotificationPreferences | null
+
+  // UI state
+  loading: boolean
+  savingPreferences: boolean
+  lastRefreshedAt: string | null
+
+  // Error handling
+  error: string | null
+}
+
+export const useNotificationStore = defineStore('notifications', () => {
+  // ===== STATE =====
+  const state = reactive<NotificationStoreState>({
+    notifications: [],
+    preferences: null,
+    loading: false,
+    savingPreferences: false,
+    lastRefreshedAt: null,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const unreadNotifications = computed(() => state.notifications.filter(notification => !notification.read_at))
+
+  const unreadCount = computed(() => unreadNotifications.value.length)
+
+  const recentNotifications = computed(() => state.notifications.slice(0, RECENT_NOTIFICATION_LIMIT))
+
+  /**
+   * Saved preferences with defaults for anything never saved
+   */
+  const effectivePreferences = computed<Required<NotificationPreferencesUpdate>>(() => ({
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...(state.preferences ?? {})
+  }))
+
+  // ===== ACTIONS - NOTIFICATIONS =====
+
+  /**
+   * Load the signed-in user's notifications
+   */
+  const fetchNotifications = async (): Promise<void> => {
+    const response = await notificationsApi.getNotifications()
+    if (response.success && response.data) {
+      state.notifications = response.data
+    } else {
+      state.error = response.error || 'Failed to load notifications'
+    }
+  }
+
+  /**
+   * Generate any newly due alerts, then reload the list
+   */
+  const refresh = async (): Promise<void> => {
+    const authStore = useAuthStore()
+    if (!authStore.userId) return
+
+    state.loading = true
+    state.error = null
+
+    try {
+      if (!state.preferences) {
+        await fetchPreferences()
+      }
+
+      const generated = await notificationsApi.generateNotifications(effectivePreferences.value)
+      if (!generated.success) {
+        console.warn('Failed to generate notifications:', generated.error)
+      }
+
+      await fetchNotifications()
+      state.lastRefreshedAt = new Date().toISOString()
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Set the read state locally, then persist it
+   */
+  const setReadState = async (ids: string[], read: boolean): Promise<boolean> => {
+    if (ids.length === 0) return true
+
+    const readAt = read ? new Date().toISOString() : null
+    const previous = new Map<string, string | null>()
+    state.notifications.forEach(notification => {
+      if (ids.includes(notification.id)) {
+        previous.set(notification.id, notification.read_at)
+        notification.read_at = readAt
+      }
+    })
+
+    const response = await notificationsApi.setReadState(ids, read)
+    if (!response.success) {
+      state.notifications.forEach(notification => {
+        if (previous.has(notification.id)) {
+          notification.read_at = previous.get(notification.id) ?? null
+        }
+      })
+      state.error = response.error || 'Failed to update notification'
+      return false
+    }
+    return true
+  }
+
+  const markAsRead = (id: string) => setReadState([id], true)
+
+  const markAsUnread = (id: string) => setReadState([id], false)
+
+  /**
+   * Mark every notification as read
+   */
+  const markAllAsRead = async (): Promise<boolean> => {
+    const response = await notificationsApi.markAllAsRead()
+    if (!response.success) {
+      state.error = response.error || 'Failed to mark notifications as read'
+      return false
+    }
+
+    const readAt = new Date().toISOString()
+    state.notifications.forEach(notification => {
+      if (!notification.read_at) notification.read_at = readAt
+    })
+    return true
+  }
+
+  /**
+   * Remove a notification
+   */
+  const deleteNotification = async (id: string): Promise<boolean> => {
+    const response = await notificationsApi.deleteNotification(id)
+    if (!response.success) {
+      state.error = response.error || 'Failed to delete notification'
+      return false
+    }
+
+    state.notifications = state.notifications.filter(notification => notification.id !== id)
+    return true
+  }
+
+  // ===== ACTIONS - PREFERENCES =====
+
+  /**
+   * Load the signed-in user's notification preferences
+   */
+  const fetchPreferences = async (): Promise<void> => {
+    const authStore = useAuthStore()
+    if (!authStore.userId) return
+
+    const response = await notificationsApi.getPreferences(authStore.userId)
+    if (response.success) {
+      state.preferences = response.data
+    } else {
+      console.warn('Failed to fetch notification preferences:', response.error)
+    }
+  }
+
+  /**
+   * Save notification preferences
+   */
+  const updatePreferences = async (updates: NotificationPreferencesUpdate): Promise<boolean> => {
+    const authStore = useAuthStore()
+    if (!authStore.userId) return false
+
+    state.savingPreferences = true
+    state.error = null
+
+    try {
+      const response = await notificationsApi.updatePreferences(authStore.userId, updates)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to save notification preferences'
+        return false
+      }
+
+      state.preferences = response.data
+      return true
+    } finally {
+      state.savingPreferences = false
+    }
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  /**
+   * Clear all notification state (e.g. on sign out)
+   */
+  const reset = () => {
+    Object.assign(state, {
+      notifications: [],
+      preferences: null,
+      loading: false,
+      savingPreferences: false,
+      lastRefreshedAt: null,
+      error: null
+    })
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    unreadNotifications,
+    unreadCount,
+    recentNotifications,
+    effectivePreferences,
+
+    // Actions
+    fetchNotifications,
+    refresh,
+    markAsRead,
+    markAsUnread,
+    markAllAsRead,
+    deleteNotification,
+    fetchPreferences,
+    updatePreferences,
+    clearError,
+    reset
+  }
+})
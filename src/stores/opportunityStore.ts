@@ -5,8 +5,10 @@
  */
 
 import { defineStore } from 'pinia'
-import { ref, computed, reactive } from 'vue'
+import { ref, computed, reactive, toRefs } from 'vue'
 import { opportunitiesApi } from '@/services/opportunitiesApi'
+import { outboxApi } from '@/services/outboxApi'
+import { useAuthStore } from '@/stores/authStore'
 import type {
   OpportunityListView,
   OpportunityDetailView,
@@ -15,9 +17,14 @@ import type {
   BatchCreationResult,
   OpportunityKPIs,
   OpportunityFilters,
-  OpportunityPagination
+  OpportunityPagination,
+  OpportunityLossDetails,
+  OpportunityStageHistoryEntry,
+  OpportunityPrincipalLink,
+  StagePipelineAnalytics
 } from '@/types/opportunities'
-import { OpportunityStage } from '@/types/opportunities'
+import { OpportunityStage, isClosedStage, STAGE_DEFAULT_PROBABILITY, DEFAULT_CURRENCY } from '@/types/opportunities'
+import { buildQuarterForecast } from '@/services/opportunityValue'
 
 /**
  * Store state interface for better type safety
@@ -45,6 +52,12 @@ interface OpportunityStoreState {
   // KPIs and analytics
   kpis: OpportunityKPIs | null
   stageDistribution: { [K in OpportunityStage]: OpportunityListView[] } | null
+  stageAnalytics: StagePipelineAnalytics | null
+  stageAnalyticsLoading: boolean
+  
+  // Stage history for the selected opportunity
+  stageHistory: OpportunityStageHistoryEntry[]
+  stageHistoryLoading: boolean
   
   // Batch operations
   batchCreationResult: BatchCreationResult | null
@@ -79,6 +92,12 @@ export const useOpportunityStore = defineStore('opportunity', () => {
     // KPIs and analytics
     kpis: null,
     stageDistribution: null,
+    stageAnalytics: null,
+    stageAnalyticsLoading: false,
+    
+    // Stage history for the selected opportunity
+    stageHistory: [],
+    stageHistoryLoading: false,
     
     // Batch operations
     batchCreationResult: null,
@@ -115,6 +134,14 @@ export const useOpportunityStore = defineStore('opportunity', () => {
       state.opportunities.filter(opp => opp.stage === stage)
   })
   
+  const openOpportunities = computed(() => 
+    state.opportunities.filter(opp => !isClosedStage(opp.stage))
+  )
+  
+  const lostOpportunities = computed(() => 
+    state.opportunities.filter(opp => opp.stage === OpportunityStage.CLOSED_LOST)
+  )
+  
   const totalPipelineValue = computed(() => {
     return state.opportunities.reduce((total) => {
       // TODO: Calculate based on product pricing when available
@@ -224,8 +251,12 @@ export const useOpportunityStore = defineStore('opportunity', () => {
             stage: response.data.stage,
             probability_percent: response.data.probability_percent,
             expected_close_date: response.data.expected_close_date,
+            estimated_value: response.data.estimated_value ?? null,
+            currency_code: response.data.currency_code || DEFAULT_CURRENCY,
             deal_owner: response.data.deal_owner,
             is_won: response.data.is_won,
+            is_lost: response.data.is_lost || false,
+            lost_reason: response.data.lost_reason || null,
             created_at: response.data.created_at,
             updated_at: response.data.updated_at,
             notes: response.data.notes || null,
@@ -287,6 +318,59 @@ export const useOpportunityStore = defineStore('opportunity', () => {
     }
   }
   
+  /**
+   * Create one opportunity shared by several principals with contribution splits
+   */
+  const createSharedOpportunity = async (formData: OpportunityFormData): Promise<boolean> => {
+    state.creating = true
+    state.error = null
+    
+    try {
+      const response = await opportunitiesApi.createSharedOpportunity(formData)
+      
+      if (!response.success) {
+        state.error = response.error || 'Failed to create shared opportunity'
+        return false
+      }
+      
+      await fetchOpportunities(activeFilters.value, activePagination.value)
+      return true
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : 'Unexpected error occurred'
+      return false
+    } finally {
+      state.creating = false
+    }
+  }
+  
+  /**
+   * Replace the principals and contribution splits of an opportunity
+   */
+  const updateOpportunityPrincipals = async (id: string, links: OpportunityPrincipalLink[]): Promise<boolean> => {
+    state.updating = true
+    state.error = null
+    
+    try {
+      const response = await opportunitiesApi.setOpportunityPrincipals(id, links)
+      
+      if (!response.success) {
+        state.error = response.error || 'Failed to save opportunity principals'
+        return false
+      }
+      
+      if (state.selectedOpportunity?.id === id) {
+        await fetchOpportunityById(id)
+      }
+      
+      return true
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : 'Unexpected error occurred'
+      return false
+    } finally {
+      state.updating = false
+    }
+  }
+  
   /**
    * Generate name previews for batch creation
    */
@@ -317,7 +401,10 @@ export const useOpportunityStore = defineStore('opportunity', () => {
     state.error = null
     
     try {
-      const response = await opportunitiesApi.updateOpportunity(id, updates)
+      const current = state.selectedOpportunity?.id === id
+        ? state.selectedOpportunity
+        : state.opportunities.find(opp => opp.id === id)
+      const response = await opportunitiesApi.updateOpportunity(id, updates, current)
       
       if (response.success && response.data) {
         // Update in local state
@@ -332,13 +419,20 @@ export const useOpportunityStore = defineStore('opportunity', () => {
             expected_close_date: response.data.expected_close_date,
             deal_owner: response.data.deal_owner,
             is_won: response.data.is_won,
+            is_lost: response.data.is_lost || false,
+            lost_reason: response.data.lost_reason || null,
             updated_at: response.data.updated_at
           }
         }
         
-        // Update selected opportunity if it's the same one
+        // Update selected opportunity if it's the same one; queued offline
+        // edits cannot be re-read from the server yet
         if (state.selectedOpportunity?.id === id) {
-          await fetchOpportunityById(id)
+          if (outboxApi.isOffline()) {
+            state.selectedOpportunity = { ...state.selectedOpportunity, ...response.data }
+          } else {
+            await fetchOpportunityById(id)
+          }
         }
         
         return true
@@ -356,13 +450,20 @@ export const useOpportunityStore = defineStore('opportunity', () => {
   
   /**
    * Update opportunity stage with automatic probability adjustment
+   * Loss details are required when closing an opportunity as lost; an
+   * optional note is recorded against the stage history entry
    */
-  const updateOpportunityStage = async (id: string, newStage: OpportunityStage): Promise<boolean> => {
+  const updateOpportunityStage = async (
+    id: string,
+    newStage: OpportunityStage,
+    lossDetails?: OpportunityLossDetails,
+    note?: string
+  ): Promise<boolean> => {
     state.updating = true
     state.error = null
     
     try {
-      const response = await opportunitiesApi.updateOpportunityStage(id, newStage)
+      const response = await opportunitiesApi.updateOpportunityStage(id, newStage, lossDetails, note)
       
       if (response.success && response.data) {
         // Update in local state
@@ -372,10 +473,18 @@ export const useOpportunityStore = defineStore('opportunity', () => {
             ...state.opportunities[index],
             stage: response.data.stage,
             probability_percent: response.data.probability_percent,
+            is_won: response.data.is_won,
+            is_lost: response.data.is_lost || false,
+            lost_reason: response.data.lost_reason || null,
             updated_at: response.data.updated_at
           }
         }
         
+        // Refresh selected opportunity so loss details and history are visible on detail views
+        if (state.selectedOpportunity?.id === id && !outboxApi.isOffline()) {
+          await Promise.all([fetchOpportunityById(id), fetchStageHistory(id)])
+        }
+        
         return true
       } else {
         state.error = response.error || 'Failed to update opportunity stage'
@@ -389,10 +498,63 @@ export const useOpportunityStore = defineStore('opportunity', () => {
     }
   }
   
+  /**
+   * Move an opportunity to a new stage on the pipeline board.
+   * The card is moved in stageDistribution immediately and restored to its
+   * original column if the update fails.
+   */
+  const moveOpportunityToStage = async (
+    id: string,
+    newStage: OpportunityStage,
+    lossDetails?: OpportunityLossDetails
+  ): Promise<boolean> => {
+    const distribution = state.stageDistribution
+    const fromStage = distribution
+      ? (Object.keys(distribution) as OpportunityStage[]).find(stage =>
+          distribution[stage].some(opp => opp.id === id)
+        )
+      : undefined
+    
+    if (!distribution || !fromStage || fromStage === newStage) {
+      return fromStage === newStage ? true : updateOpportunityStage(id, newStage, lossDetails)
+    }
+    
+    // Optimistic move
+    const fromIndex = distribution[fromStage].findIndex(opp => opp.id === id)
+    const [original] = distribution[fromStage].splice(fromIndex, 1)
+    distribution[newStage].unshift({
+      ...original,
+      stage: newStage,
+      probability_percent: STAGE_DEFAULT_PROBABILITY[newStage],
+      is_won: newStage === OpportunityStage.CLOSED_WON,
+      is_lost: newStage === OpportunityStage.CLOSED_LOST,
+      lost_reason: lossDetails?.lost_reason || null,
+      stage_duration_days: 0
+    })
+    
+    const success = await updateOpportunityStage(id, newStage, lossDetails)
+    
+    if (!success) {
+      // Roll back to the original column and position
+      const movedIndex = distribution[newStage].findIndex(opp => opp.id === id)
+      if (movedIndex !== -1) {
+        distribution[newStage].splice(movedIndex, 1)
+      }
+      distribution[fromStage].splice(fromIndex, 0, original)
+    }
+    
+    return success
+  }
+  
   /**
    * Delete an opportunity (soft delete)
    */
   const deleteOpportunity = async (id: string): Promise<boolean> => {
+    if (!useAuthStore().can('opportunities.delete')) {
+      state.error = 'You do not have permission to delete opportunities'
+      return false
+    }
+    
     state.deleting = true
     state.error = null
     
@@ -476,6 +638,54 @@ export const useOpportunityStore = defineStore('opportunity', () => {
     }
   }
 
+  /**
+   * Fetch per-stage dwell times and stage-to-stage conversion funnel
+   */
+  const fetchStageAnalytics = async (): Promise<void> => {
+    state.stageAnalyticsLoading = true
+    
+    try {
+      const response = await opportunitiesApi.getStageAnalytics()
+      
+      if (response.success && response.data) {
+        state.stageAnalytics = response.data
+      } else {
+        console.warn('Failed to fetch stage analytics:', response.error)
+      }
+    } catch (error) {
+      console.warn('Stage analytics error:', error)
+    } finally {
+      state.stageAnalyticsLoading = false
+    }
+  }
+
+  // ===============================
+  // ACTIONS - STAGE HISTORY
+  // ===============================
+  
+  /**
+   * Fetch stage transition history for an opportunity
+   */
+  const fetchStageHistory = async (id: string): Promise<void> => {
+    state.stageHistoryLoading = true
+    
+    try {
+      const response = await opportunitiesApi.getStageHistory(id)
+      
+      if (response.success && response.data) {
+        state.stageHistory = response.data
+      } else {
+        state.stageHistory = []
+        console.warn('Failed to fetch stage history:', response.error)
+      }
+    } catch (error) {
+      state.stageHistory = []
+      console.warn('Stage history error:', error)
+    } finally {
+      state.stageHistoryLoading = false
+    }
+  }
+
   // ===============================
   // ACTIONS - UTILITY FUNCTIONS
   // ===============================
@@ -492,6 +702,7 @@ export const useOpportunityStore = defineStore('opportunity', () => {
    */
   const clearSelectedOpportunity = (): void => {
     state.selectedOpportunity = null
+    state.stageHistory = []
   }
   
   /**
@@ -527,15 +738,19 @@ export const useOpportunityStore = defineStore('opportunity', () => {
    */
   const getDemoKPIs = (): OpportunityKPIs => {
     return {
-      total_opportunities: 15,
+      total_opportunities: 17,
       active_opportunities: 11,
       won_opportunities: 4,
+      lost_opportunities: 2,
       won_this_month: 3,
+      lost_this_month: 1,
       average_probability: 68,
-      total_pipeline_value: 2150000,
-      win_rate: 72,
+      total_pipeline_value: [{ currency_code: DEFAULT_CURRENCY, value: 2150000 }],
+      weighted_pipeline_value: [{ currency_code: DEFAULT_CURRENCY, value: 1462000 }],
+      expected_close_this_quarter: [{ currency_code: DEFAULT_CURRENCY, value: 430000 }],
+      win_rate: 67,
       time_to_close_avg: 45,
-      conversion_rate: 26.7,
+      conversion_rate: 23.5,
       average_days_to_close: 45,
       stage_distribution: {
         'New Lead': 3,
@@ -544,8 +759,25 @@ export const useOpportunityStore = defineStore('opportunity', () => {
         'Awaiting Response': 2,
         'Feedback Logged': 2,
         'Demo Scheduled': 2,
-        'Closed - Won': 4
+        'Closed - Won': 4,
+        'Closed - Lost': 2
       },
+      loss_reason_distribution: {
+        'Price': 1,
+        'Distributor Not Carrying': 1,
+        'Competitor': 0,
+        'No Follow-up': 0,
+        'Product Fit': 0,
+        'Timing': 0,
+        'No Decision': 0,
+        'Other': 0
+      },
+      quarter_forecast: buildQuarterForecast([]).map((quarter, index) => ({
+        ...quarter,
+        opportunity_count: [4, 3, 3, 1][index] ?? 0,
+        pipeline_value: [610000, 760000, 480000, 300000][index] ?? 0,
+        weighted_value: [430000, 520000, 310000, 202000][index] ?? 0
+      })),
       created_this_week: 2,
       updated_this_week: 8,
       closed_this_week: 1
@@ -563,8 +795,12 @@ export const useOpportunityStore = defineStore('opportunity', () => {
         stage: OpportunityStage.DEMO_SCHEDULED,
         probability_percent: 75,
         expected_close_date: '2024-09-15',
+        estimated_value: 12500,
+        currency_code: 'USD',
         deal_owner: 'Sarah Johnson',
         is_won: false,
+        is_lost: false,
+        lost_reason: null,
         notes: 'Technical demo scheduled for next week. Strong interest in enterprise features and scalability.',
         created_at: '2024-08-01T10:00:00Z',
         updated_at: '2024-08-01T15:30:00Z',
@@ -584,8 +820,12 @@ export const useOpportunityStore = defineStore('opportunity', () => {
         stage: OpportunityStage.SAMPLE_VISIT_OFFERED,
         probability_percent: 60,
         expected_close_date: '2024-10-30',
+        estimated_value: 8000,
+        currency_code: 'USD',
         deal_owner: 'Alex Rodriguez',
         is_won: false,
+        is_lost: false,
+        lost_reason: null,
         notes: 'Startup looking to migrate legacy systems to cloud infrastructure. Cost-conscious but very interested in scalability features.',
         created_at: '2024-07-20T14:00:00Z',
         updated_at: '2024-08-01T09:15:00Z',
@@ -605,8 +845,12 @@ export const useOpportunityStore = defineStore('opportunity', () => {
         stage: OpportunityStage.FEEDBACK_LOGGED,
         probability_percent: 85,
         expected_close_date: '2024-08-30',
+        estimated_value: 15000,
+        currency_code: 'USD',
         deal_owner: 'Emma Thompson',
         is_won: false,
+        is_lost: false,
+        lost_reason: null,
         notes: 'Large retail client with extensive data needs. Positive feedback from initial analytics review. Strong alignment with their digital transformation goals.',
         created_at: '2024-07-10T08:30:00Z',
         updated_at: '2024-08-01T16:45:00Z',
@@ -626,8 +870,12 @@ export const useOpportunityStore = defineStore('opportunity', () => {
         stage: OpportunityStage.CLOSED_WON,
         probability_percent: 100,
         expected_close_date: '2024-07-25',
+        estimated_value: 22000,
+        currency_code: 'USD',
         deal_owner: 'James Wilson',
         is_won: true,
+        is_lost: false,
+        lost_reason: null,
         notes: 'Successfully closed security platform implementation. Client was impressed with compliance features and rapid deployment capabilities.',
         created_at: '2024-06-15T11:00:00Z',
         updated_at: '2024-07-25T17:00:00Z',
@@ -650,7 +898,7 @@ export const useOpportunityStore = defineStore('opportunity', () => {
   
   return {
     // State
-    ...state,
+    ...toRefs(state),
     activeFilters,
     activePagination,
     
@@ -660,6 +908,8 @@ export const useOpportunityStore = defineStore('opportunity', () => {
     opportunityCount,
     getOpportunityById,
     getOpportunitiesByStage,
+    openOpportunities,
+    lostOpportunities,
     totalPipelineValue,
     averageProbability,
     
@@ -668,14 +918,21 @@ export const useOpportunityStore = defineStore('opportunity', () => {
     fetchOpportunityById,
     createOpportunity,
     createBatchOpportunities,
+    createSharedOpportunity,
     generateNamePreviews,
     updateOpportunity,
+    updateOpportunityPrincipals,
     updateOpportunityStage,
+    moveOpportunityToStage,
     deleteOpportunity,
     
     // Actions - Analytics
     fetchKPIs,
     fetchStageDistribution,
+    fetchStageAnalytics,
+    
+    // Actions - Stage History
+    fetchStageHistory,
     
     // Actions - Utilities
     clearError,
@@ -1,6 +1,8 @@
 import { defineStore } from 'pinia'
 import { ref, computed, reactive } from 'vue'
 import { supabase } from '@/config/supabaseClient'
+import { authApi } from '@/services/authApi'
+import { useAuthStore } from '@/stores/authStore'
 import type {
   Organization,
   OrganizationInsert,
@@ -673,8 +675,9 @@ export const useOrganizationStore = defineStore('organization', () => {
         
         supabase
           .from('organization_documents')
-          .select('id, name, category, size, created_at')
+          .select('id, name, category, file_size_bytes, created_at')
           .eq('organization_id', id)
+          .is('parent_document_id', null) // Count documents, not versions
       ])
       
       // Build detailed data
@@ -721,7 +724,10 @@ export const useOrganizationStore = defineStore('organization', () => {
         
         const { data, error } = await supabase
           .from('organizations')
-          .insert(organizationData)
+          .insert({
+            ...organizationData,
+            assigned_user_id: organizationData.assigned_user_id ?? await authApi.getCurrentUserId()
+          })
           .select()
           .single()
         
@@ -761,6 +767,8 @@ export const useOrganizationStore = defineStore('organization', () => {
 
   /**
    * Create new organization with contact associations
+   * Pass refresh: false when creating many in a row (e.g. imports) and
+   * refresh the list once afterwards
    */
   const createOrganizationWithContacts = async (
     organizationData: OrganizationInsert,
@@ -770,12 +778,13 @@ export const useOrganizationStore = defineStore('organization', () => {
       newContacts: Array<{
         first_name: string
         last_name: string
-        email: string
+        email: string | null
         phone?: string
         title?: string
         department?: string
       }>
-    }
+    },
+    options: { refresh?: boolean } = {}
   ): Promise<Organization | null> => {
     try {
       loading.creating = true
@@ -784,7 +793,10 @@ export const useOrganizationStore = defineStore('organization', () => {
       // Start transaction by creating organization first
       const { data: organization, error: orgError } = await supabase
         .from('organizations')
-        .insert(organizationData)
+        .insert({
+          ...organizationData,
+          assigned_user_id: organizationData.assigned_user_id ?? await authApi.getCurrentUserId()
+        })
         .select()
         .single()
 
@@ -799,7 +811,7 @@ export const useOrganizationStore = defineStore('organization', () => {
           organization_id: organization.id,
           first_name: contact.first_name,
           last_name: contact.last_name,
-          email: contact.email,
+          email: contact.email || null,
           phone: contact.phone || null,
           position: contact.title || 'Unknown' // Map title to position
         }))
@@ -827,7 +839,9 @@ export const useOrganizationStore = defineStore('organization', () => {
 
       // Clear cache and refresh list
       clearCache()
-      await fetchOrganizations({ resetList: true })
+      if (options.refresh !== false) {
+        await fetchOrganizations({ resetList: true })
+      }
 
       // Record successful user action
       console.log('Organization with contacts created successfully', {
@@ -887,7 +901,8 @@ export const useOrganizationStore = defineStore('organization', () => {
           : organizationData.next_follow_up_date,
         // Ensure boolean fields are properly typed (convert null to undefined)
         is_distributor: organizationData.is_distributor === null ? undefined : organizationData.is_distributor,
-        is_principal: organizationData.is_principal === null ? undefined : organizationData.is_principal
+        is_principal: organizationData.is_principal === null ? undefined : organizationData.is_principal,
+        assigned_user_id: organizationData.assigned_user_id ?? await authApi.getCurrentUserId()
       }
 
       // Create organization
@@ -1109,6 +1124,11 @@ export const useOrganizationStore = defineStore('organization', () => {
    * Delete organization
    */
   const deleteOrganization = async (id: string): Promise<boolean> => {
+    if (!useAuthStore().can('organizations.delete')) {
+      setError('deleting', 'You do not have permission to delete organizations')
+      return false
+    }
+    
     try {
       loading.deleting = true
       clearError('deleting')
@@ -1896,7 +1916,7 @@ export const useOrganizationStore = defineStore('organization', () => {
           description: interactionData.description || null,
           direction: interactionData.direction || null,
           duration_minutes: interactionData.duration_minutes || null,
-          created_by_user_id: interactionData.created_by_user_id || null
+          created_by_user_id: interactionData.created_by_user_id || await authApi.getCurrentUserId()
         })
         .select()
         .single()
@@ -2044,7 +2064,9 @@ export const useOrganizationStore = defineStore('organization', () => {
               break
               
             case 'delete':
-              await deleteOrganization(orgId)
+              if (!(await deleteOrganization(orgId))) {
+                throw new Error('Failed to delete organization')
+              }
               processedCount++
               break
               
@@ -0,0 +1,214 @@
+/**
+ * Outbox Store - Offline Write Queue
+ * Tracks interaction, contact and opportunity writes captured while offline,
+ * replays them in order when the connection returns and holds conflicts
+ * until the user decides which version to keep
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { outboxApi } from '@/services/outboxApi'
+import { getReplayableEntries, rebaseOutboxEntries } from '@/services/outboxRules'
+import type { OutboxEntry } from '@/types/outbox'
+import { OUTBOX_CHANGED_EVENT, OUTBOX_SYNC_MESSAGE } from '@/types/outbox'
+
+/**
+ * Store state interface for better type safety
+ */
+interface OutboxStoreState {
+  entries: OutboxEntry[]
+
+  // UI state
+  online: boolean
+  syncing: boolean
+  lastSyncedAt: string | null
+
+  // Error handling
+  error: string | null
+}
+
+export const useOutboxStore = defineStore('outbox', () => {
+  // ===== STATE =====
+  const state = reactive<OutboxStoreState>({
+    entries: [],
+    online: !outboxApi.isOffline(),
+    syncing: false,
+    lastSyncedAt: null,
+    error: null
+  })
+
+  let initialized = false
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const pendingCount = computed(() => state.entries.filter(entry => entry.status === 'pending').length)
+
+  const conflictCount = computed(() => state.entries.filter(entry => entry.status === 'conflict').length)
+
+  const failedCount = computed(() => state.entries.filter(entry => entry.status === 'failed').length)
+
+  /**
+   * Entries that need the user to choose what happens next
+   */
+  const needsAttentionCount = computed(() => conflictCount.value + failedCount.value)
+
+  // ===== ACTIONS - QUEUE =====
+
+  /**
+   * Reload the queue from storage
+   */
+  const refresh = async (): Promise<void> => {
+    try {
+      state.entries = await outboxApi.getEntries()
+    } catch (error) {
+      console.error('Failed to load offline outbox:', error)
+      state.error = 'Failed to load offline changes'
+    }
+  }
+
+  /**
+   * Send waiting writes in the order they were captured. Stops as soon as
+   * the connection drops; conflicts and failures hold back later writes to
+   * the same record only.
+   */
+  const syncNow = async (): Promise<void> => {
+    if (state.syncing || outboxApi.isOffline()) return
+
+    state.syncing = true
+    state.error = null
+
+    try {
+      let entries = await outboxApi.getEntries()
+
+      // Each pass either removes the entry or holds it, so the next one is
+      // always picked from the updated queue
+      for (;;) {
+        const current = getReplayableEntries(entries)[0]
+        if (!current) break
+
+        const result = await outboxApi.replay(current)
+        if (result.status === 'offline') break
+
+        if (result.status === 'synced') {
+          entries = rebaseOutboxEntries(entries, current, result.updatedAt ?? null)
+          await outboxApi.removeEntry(current.id)
+          await Promise.all(entries
+            .filter(item => item.recordId === current.recordId && item.entity === current.entity)
+            .map(item => outboxApi.saveEntry(item)))
+          continue
+        }
+
+        const held: OutboxEntry = {
+          ...current,
+          status: result.status,
+          attempts: current.attempts + 1,
+          lastError: result.error || null
+        }
+        entries = entries.map(item => (item.id === held.id ? held : item))
+        await outboxApi.saveEntry(held)
+      }
+
+      state.lastSyncedAt = new Date().toISOString()
+    } catch (error) {
+      console.error('Failed to sync offline outbox:', error)
+      state.error = 'Failed to sync offline changes'
+    } finally {
+      state.syncing = false
+      await refresh()
+    }
+  }
+
+  // ===== ACTIONS - CONFLICTS =====
+
+  /**
+   * Send the offline edit again, replacing the newer server version
+   */
+  const overwriteEntry = async (id: string): Promise<void> => {
+    const entry = state.entries.find(item => item.id === id)
+    if (!entry) return
+
+    await outboxApi.saveEntry({ ...entry, status: 'pending', baseUpdatedAt: null, lastError: null })
+    await syncNow()
+  }
+
+  /**
+   * Try a failed write again as it was captured
+   */
+  const retryEntry = async (id: string): Promise<void> => {
+    const entry = state.entries.find(item => item.id === id)
+    if (!entry) return
+
+    await outboxApi.saveEntry({ ...entry, status: 'pending', lastError: null })
+    await syncNow()
+  }
+
+  /**
+   * Drop the offline write and keep what is on the server
+   */
+  const discardEntry = async (id: string): Promise<void> => {
+    await outboxApi.removeEntry(id)
+  }
+
+  // ===== ACTIONS - LIFECYCLE =====
+
+  const handleOnline = () => {
+    state.online = true
+    syncNow()
+  }
+
+  const handleOffline = () => {
+    state.online = false
+  }
+
+  const handleServiceWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === OUTBOX_SYNC_MESSAGE) {
+      syncNow()
+    }
+  }
+
+  /**
+   * Load the queue, follow connectivity changes and sync anything left over
+   * from a previous session
+   */
+  const initialize = async (): Promise<void> => {
+    if (initialized) return
+    initialized = true
+
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', handleServiceWorkerMessage)
+    }
+
+    await refresh()
+    if (state.online && state.entries.length > 0) {
+      await syncNow()
+    }
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    pendingCount,
+    conflictCount,
+    failedCount,
+    needsAttentionCount,
+
+    // Actions
+    refresh,
+    syncNow,
+    overwriteEntry,
+    retryEntry,
+    discardEntry,
+    initialize,
+    clearError
+  }
+})
@@ -639,14 +639,14 @@ export const usePrincipalActivityStore = defineStore('principalActivity', () =>
   }
   
   /**
-   * Fetch distributor relationships
+   * Fetch distributor relationships, optionally for specific principals
    */
-  const fetchDistributorRelationships = async (): Promise<void> => {
+  const fetchDistributorRelationships = async (principalIds?: string[]): Promise<void> => {
     state.loading = true
     errorRef.value = null
     
     try {
-      const response = await principalActivityApi.getDistributorRelationships()
+      const response = await principalActivityApi.getDistributorRelationships(principalIds)
       
       if (response.success && response.data) {
         state.distributorRelationships = response.data as PrincipalDistributorRelationship[]
@@ -7,6 +7,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed, reactive } from 'vue'
 import { productsApi } from '@/services/productsApi'
+import { useAuthStore } from '@/stores/authStore'
 import type {
   Product,
   ProductWithPrincipals,
@@ -195,10 +196,21 @@ export const useProductStore = defineStore('product', () => {
     }
   }
   
+  /**
+   * Reject catalog changes for roles that cannot manage products
+   */
+  const ensureCanManageProducts = (): boolean => {
+    if (useAuthStore().can('products.manage')) return true
+    state.error = 'You do not have permission to manage products'
+    return false
+  }
+  
   /**
    * Create a new product
    */
   const createProduct = async (productData: any): Promise<boolean> => {
+    if (!ensureCanManageProducts()) return false
+
     state.creating = true
     state.error = null
     
@@ -232,6 +244,8 @@ export const useProductStore = defineStore('product', () => {
    * Update an existing product
    */
   const updateProduct = async (id: string, updates: any): Promise<boolean> => {
+    if (!ensureCanManageProducts()) return false
+
     state.updating = true
     state.error = null
     
@@ -270,6 +284,8 @@ export const useProductStore = defineStore('product', () => {
    * Delete a product (soft delete)
    */
   const deleteProduct = async (id: string): Promise<boolean> => {
+    if (!ensureCanManageProducts()) return false
+
     state.deleting = true
     state.error = null
     
@@ -386,6 +402,8 @@ export const useProductStore = defineStore('product', () => {
    * Perform bulk operations on products
    */
   const performBulkOperation = async (operation: BulkProductOperation): Promise<boolean> => {
+    if (!ensureCanManageProducts()) return false
+
     state.updating = true
     state.error = null
     state.bulkOperationResult = null
@@ -396,6 +414,19 @@ export const useProductStore = defineStore('product', () => {
       if (response.success && response.data) {
         state.bulkOperationResult = response.data
         
+        // New principal assignments show up in the list right away, even
+        // when other pairs in the batch conflicted
+        response.data.assignment_results
+          ?.filter(result => result.status === 'created')
+          .forEach(result => {
+            const product = state.products.find(p => p.id === result.product_id)
+            if (product && !product.principal_ids.includes(result.principal_id)) {
+              product.principal_ids.push(result.principal_id)
+              product.principal_names.push(result.principal_name)
+              product.principal_count = product.principal_ids.length
+            }
+          })
+
         // Update local state based on operation
         if (response.data.success) {
           operation.product_ids.forEach(productId => {
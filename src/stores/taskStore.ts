@@ -0,0 +1,219 @@
+/**
+ * Task Store - Tasks and To-dos
+ * The signed-in user's tasks grouped by due date, task lists for record
+ * detail views and the assignee list for the task form
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { tasksApi } from '@/services/tasksApi'
+import { compareTasks, groupTasksByBucket, isTaskOpen } from '@/services/taskRules'
+import { useAuthStore } from '@/stores/authStore'
+import type {
+  TaskAssignee,
+  TaskFormData,
+  TaskLink,
+  TaskListItem,
+  TaskStatus
+} from '@/types/tasks'
+import { TASK_LINK_COLUMNS } from '@/types/tasks'
+
+/**
+ * Store state interface for better type safety
+ */
+interface TaskStoreState {
+  myTasks: TaskListItem[]
+  /** Tasks per linked record, keyed by "<type>:<id>" */
+  recordTasks: Record<string, TaskListItem[]>
+  assignees: TaskAssignee[]
+  includeClosed: boolean
+
+  // UI state
+  loading: boolean
+  saving: boolean
+
+  // Error handling
+  error: string | null
+}
+
+const linkKey = (link: TaskLink): string => `${link.type}:${link.id}`
+
+const parseLinkKey = (key: string): TaskLink => {
+  const [type, id] = key.split(':')
+  return { type: type as TaskLink['type'], id }
+}
+
+export const useTaskStore = defineStore('tasks', () => {
+  // ===== STATE =====
+  const state = reactive<TaskStoreState>({
+    myTasks: [],
+    recordTasks: {},
+    assignees: [],
+    includeClosed: false,
+    loading: false,
+    saving: false,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  /**
+   * Open tasks in overdue, today, upcoming and no-date buckets
+   */
+  const myTaskBuckets = computed(() => groupTasksByBucket(state.myTasks))
+
+  const closedMyTasks = computed(() => state.myTasks.filter(task => !isTaskOpen(task)))
+
+  const overdueCount = computed(() => myTaskBuckets.value.overdue.length)
+
+  // ===== ACTIONS - FETCHING =====
+
+  const fetchMyTasks = async (includeClosed = state.includeClosed): Promise<void> => {
+    const userId = useAuthStore().userId
+    if (!userId) return
+
+    state.loading = true
+    state.error = null
+    state.includeClosed = includeClosed
+
+    try {
+      const response = await tasksApi.getTasks({ assigned_to: userId, include_closed: includeClosed })
+      if (response.success && response.data) {
+        state.myTasks = response.data
+      } else {
+        state.error = response.error || 'Failed to load tasks'
+      }
+    } finally {
+      state.loading = false
+    }
+  }
+
+  const fetchRecordTasks = async (link: TaskLink): Promise<void> => {
+    const response = await tasksApi.getTasks({ link, include_closed: true })
+    if (response.success && response.data) {
+      state.recordTasks[linkKey(link)] = response.data
+    } else {
+      state.error = response.error || 'Failed to load tasks'
+    }
+  }
+
+  const fetchAssignees = async (): Promise<void> => {
+    if (state.assignees.length > 0) return
+
+    const response = await tasksApi.getAssignees()
+    if (response.success && response.data) {
+      state.assignees = response.data
+    } else {
+      console.warn('Failed to fetch task assignees:', response.error)
+    }
+  }
+
+  const getRecordTasks = (link: TaskLink): TaskListItem[] => state.recordTasks[linkKey(link)] ?? []
+
+  // ===== ACTIONS - CHANGES =====
+
+  /**
+   * Put a created or updated task into every loaded list it belongs to and
+   * drop it from the ones it no longer matches
+   */
+  const applyTask = (task: TaskListItem) => {
+    const upsert = (list: TaskListItem[]) => [...list.filter(item => item.id !== task.id), task].sort(compareTasks)
+
+    const mine = task.assigned_to === useAuthStore().userId && (state.includeClosed || isTaskOpen(task))
+    state.myTasks = mine ? upsert(state.myTasks) : state.myTasks.filter(item => item.id !== task.id)
+
+    Object.keys(state.recordTasks).forEach(key => {
+      const link = parseLinkKey(key)
+      state.recordTasks[key] = task[TASK_LINK_COLUMNS[link.type]] === link.id
+        ? upsert(state.recordTasks[key])
+        : state.recordTasks[key].filter(item => item.id !== task.id)
+    })
+  }
+
+  const createTask = async (form: TaskFormData): Promise<TaskListItem | null> => {
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await tasksApi.createTask(form)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to create task'
+        return null
+      }
+
+      applyTask(response.data)
+      return response.data
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const updateTask = async (id: string, form: Partial<TaskFormData>): Promise<TaskListItem | null> => {
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = await tasksApi.updateTask(id, form)
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to update task'
+        return null
+      }
+
+      applyTask(response.data)
+      return response.data
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const setTaskStatus = async (id: string, status: TaskStatus): Promise<boolean> => {
+    const response = await tasksApi.setTaskStatus(id, status)
+    if (!response.success || !response.data) {
+      state.error = response.error || 'Failed to update task'
+      return false
+    }
+
+    applyTask(response.data)
+    return true
+  }
+
+  const deleteTask = async (id: string): Promise<boolean> => {
+    const response = await tasksApi.deleteTask(id)
+    if (!response.success) {
+      state.error = response.error || 'Failed to delete task'
+      return false
+    }
+
+    state.myTasks = state.myTasks.filter(task => task.id !== id)
+    Object.keys(state.recordTasks).forEach(key => {
+      state.recordTasks[key] = state.recordTasks[key].filter(task => task.id !== id)
+    })
+    return true
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    myTaskBuckets,
+    closedMyTasks,
+    overdueCount,
+
+    // Actions
+    fetchMyTasks,
+    fetchRecordTasks,
+    fetchAssignees,
+    getRecordTasks,
+    createTask,
+    updateTask,
+    setTaskStatus,
+    deleteTask,
+    clearError
+  }
+})
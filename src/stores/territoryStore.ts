@@ -0,0 +1,171 @@
+/**
+ * Territory Store - Sales Territories
+ * Territory definitions and the organization territory lookup used by the
+ * organization, principal and opportunity territory filters
+ * Follows Pinia Composition API patterns with reactive state management
+ */
+
+import { defineStore } from 'pinia'
+import { computed, reactive, toRefs } from 'vue'
+import { territoriesApi } from '@/services/territoriesApi'
+import type { Territory, TerritoryFormData } from '@/types/territories'
+import { UNASSIGNED_TERRITORY } from '@/types/territories'
+
+/**
+ * Store state interface for better type safety
+ */
+interface TerritoryStoreState {
+  territories: Territory[]
+  /** Resolved territory per organization id */
+  organizationTerritories: Record<string, string | null>
+
+  // UI state
+  loading: boolean
+  saving: boolean
+  loaded: boolean
+
+  // Error handling
+  error: string | null
+}
+
+export const useTerritoryStore = defineStore('territories', () => {
+  // ===== STATE =====
+  const state = reactive<TerritoryStoreState>({
+    territories: [],
+    organizationTerritories: {},
+    loading: false,
+    saving: false,
+    loaded: false,
+    error: null
+  })
+
+  // ===== COMPUTED PROPERTIES =====
+
+  const activeTerritories = computed(() => state.territories.filter(territory => territory.is_active))
+
+  const territoryOptions = computed(() => activeTerritories.value.map(territory => ({
+    value: territory.id,
+    label: territory.name
+  })))
+
+  // ===== ACTIONS - TERRITORIES =====
+
+  const fetchTerritories = async (): Promise<void> => {
+    const response = await territoriesApi.getTerritories()
+    if (response.success && response.data) {
+      state.territories = response.data
+    } else {
+      state.error = response.error || 'Failed to load territories'
+    }
+  }
+
+  const fetchOrganizationTerritories = async (): Promise<void> => {
+    const response = await territoriesApi.getOrganizationTerritories()
+    if (response.success && response.data) {
+      state.organizationTerritories = response.data
+    } else {
+      console.warn('Failed to fetch organization territories:', response.error)
+    }
+  }
+
+  /**
+   * Load territories and the organization lookup once; pass force to reload
+   */
+  const initialize = async (force = false): Promise<void> => {
+    if (state.loaded && !force) return
+
+    state.loading = true
+    state.error = null
+
+    try {
+      await Promise.all([fetchTerritories(), fetchOrganizationTerritories()])
+      state.loaded = true
+    } finally {
+      state.loading = false
+    }
+  }
+
+  /**
+   * Create or update a territory. The database re-resolves every
+   * organization afterwards, so the lookup is reloaded too.
+   */
+  const saveTerritory = async (form: TerritoryFormData, id?: string): Promise<Territory | null> => {
+    state.saving = true
+    state.error = null
+
+    try {
+      const response = id
+        ? await territoriesApi.updateTerritory(id, form)
+        : await territoriesApi.createTerritory(form)
+
+      if (!response.success || !response.data) {
+        state.error = response.error || 'Failed to save territory'
+        return null
+      }
+
+      const saved = response.data
+      state.territories = [...state.territories.filter(territory => territory.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name))
+      await fetchOrganizationTerritories()
+      return saved
+    } finally {
+      state.saving = false
+    }
+  }
+
+  const deleteTerritory = async (id: string): Promise<boolean> => {
+    const response = await territoriesApi.deleteTerritory(id)
+    if (!response.success) {
+      state.error = response.error || 'Failed to delete territory'
+      return false
+    }
+
+    state.territories = state.territories.filter(territory => territory.id !== id)
+    await fetchOrganizationTerritories()
+    return true
+  }
+
+  // ===== ACTIONS - LOOKUP =====
+
+  const getOrganizationTerritoryId = (organizationId: string | null | undefined): string | null => {
+    return organizationId ? state.organizationTerritories[organizationId] ?? null : null
+  }
+
+  const getTerritoryName = (territoryId: string | null | undefined): string | null => {
+    return state.territories.find(territory => territory.id === territoryId)?.name ?? null
+  }
+
+  /**
+   * Whether an organization passes a territory filter; an empty filter
+   * matches everything
+   */
+  const matchesTerritoryFilter = (organizationId: string | null | undefined, filter: string): boolean => {
+    if (!filter) return true
+    const territoryId = getOrganizationTerritoryId(organizationId)
+    return filter === UNASSIGNED_TERRITORY ? territoryId === null : territoryId === filter
+  }
+
+  const clearError = () => {
+    state.error = null
+  }
+
+  return {
+    // State
+    ...toRefs(state),
+
+    // Computed
+    activeTerritories,
+    territoryOptions,
+
+    // Actions
+    fetchTerritories,
+    fetchOrganizationTerritories,
+    initialize,
+    saveTerritory,
+    deleteTerritory,
+    getOrganizationTerritoryId,
+    getTerritoryName,
+    matchesTerritoryFilter,
+    clearError
+  }
+})
@@ -0,0 +1,85 @@
+/**
+ * Authentication and User Profile Types
+ * Supabase Auth session state, sign-in forms and user profiles
+ * Database Reference: sql/40_user_profiles_auth.sql
+ */
+
+import * as yup from 'yup'
+import type { Database } from './database.types'
+import type { UserRole } from './permissions'
+
+// ===============================
+// USER PROFILES
+// ===============================
+
+export type UserProfile = Database['public']['Tables']['user_profiles']['Row']
+
+/**
+ * Profile fields a user can edit
+ */
+export type UserProfileUpdate = Partial<Pick<UserProfile, 'full_name' | 'title' | 'phone' | 'avatar_url'>>
+
+/**
+ * Signed-in user as exposed to the app
+ */
+export interface AuthUser {
+  id: string
+  email: string | null
+  full_name: string | null
+  /** Role carried in the session's app metadata; the profile role takes precedence */
+  role: UserRole | null
+}
+
+// ===============================
+// SIGN IN
+// ===============================
+
+export type SignInMethod = 'password' | 'magic_link'
+
+export interface PasswordCredentials {
+  email: string
+  password: string
+}
+
+export const passwordSignInSchema = yup.object({
+  email: yup
+    .string()
+    .required('Email is required')
+    .email('Enter a valid email address'),
+  password: yup
+    .string()
+    .required('Password is required')
+})
+
+export const magicLinkSchema = yup.object({
+  email: yup
+    .string()
+    .required('Email is required')
+    .email('Enter a valid email address')
+})
+
+export const userProfileSchema = yup.object({
+  full_name: yup
+    .string()
+    .trim()
+    .required('Name is required')
+    .max(255, 'Name must be 255 characters or less'),
+  title: yup
+    .string()
+    .nullable()
+    .max(100, 'Title must be 100 characters or less'),
+  phone: yup
+    .string()
+    .nullable()
+    .max(50, 'Phone must be 50 characters or less')
+})
+
+/**
+ * Name to show for a user: profile name, then email, then a fallback
+ */
+export const getUserDisplayName = (
+  user: Pick<AuthUser, 'email' | 'full_name'> | null,
+  profile?: Pick<UserProfile, 'full_name'> | null
+): string => {
+  return profile?.full_name || user?.full_name || user?.email || 'Unknown User'
+}
@@ -0,0 +1,96 @@
+/**
+ * Calendar Types
+ * Month, week and day calendar of scheduled interactions and follow-ups,
+ * and the personal ICS calendar feed
+ * Database Reference: sql/49_calendar_feeds.sql
+ */
+
+import type { InteractionStatus, InteractionType } from './interactions'
+
+// ===============================
+// CALENDAR VIEW
+// ===============================
+
+export type CalendarViewMode = 'month' | 'week' | 'day'
+
+export const CALENDAR_VIEW_OPTIONS: Array<{ value: CalendarViewMode; label: string }> = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' }
+]
+
+/**
+ * Hours shown in the week and day time grids
+ */
+export const CALENDAR_START_HOUR = 7
+export const CALENDAR_END_HOUR = 19
+
+/**
+ * Minutes assumed for interactions without a duration
+ */
+export const DEFAULT_EVENT_MINUTES = 30
+
+/**
+ * Half-open date range [start, end) in local time
+ */
+export interface CalendarRange {
+  start: Date
+  end: Date
+}
+
+/**
+ * Interaction fields the calendar needs
+ */
+export interface CalendarInteraction {
+  id: string
+  type: InteractionType
+  subject: string
+  status: InteractionStatus | null
+  interaction_date: string
+  duration_minutes: number | null
+  location: string | null
+  notes: string | null
+  follow_up_required: boolean
+  follow_up_date: string | null
+  follow_up_notes: string | null
+  opportunity_id: string
+  opportunity_name: string
+  organization_name: string
+  updated_at: string | null
+}
+
+/**
+ * A scheduled interaction or a follow-up date; which date field a drag
+ * reschedules depends on the kind
+ */
+export type CalendarEventKind = 'interaction' | 'follow_up'
+
+export interface CalendarEvent {
+  /** Unique per event: "<kind>:<interaction id>" */
+  id: string
+  kind: CalendarEventKind
+  interaction_id: string
+  title: string
+  start: Date
+  end: Date
+  location: string | null
+  description: string | null
+  interaction_type: InteractionType
+  opportunity_name: string
+  organization_name: string
+  /** Last change, used as the ICS DTSTAMP */
+  updated_at: string | null
+}
+
+// ===============================
+// ICS FEED
+// ===============================
+
+/**
+ * Secret token behind a user's subscribable calendar feed URL
+ */
+export interface CalendarFeedToken {
+  user_id: string
+  token: string
+  created_at: string
+}
@@ -0,0 +1,106 @@
+/**
+ * Contract Types
+ * Principal product agreements stored on product_principals, their
+ * lifecycle status and the renewal / term change log
+ * Database Reference: sql/46_product_contracts.sql
+ */
+
+import type { Database } from './database.types'
+import type { ContractStatus } from './principal'
+
+export type { ContractStatus } from './principal'
+
+// ===============================
+// CONTRACTS
+// ===============================
+
+export type ProductContractRow = Database['public']['Tables']['product_principals']['Row']
+
+/**
+ * Days-before-expiry milestones that raise a warning
+ */
+export const CONTRACT_WARNING_DAYS = [90, 60, 30] as const
+
+export type ContractWarningLevel = typeof CONTRACT_WARNING_DAYS[number]
+
+/**
+ * Contracts ending within this many days count as expiring soon
+ */
+export const CONTRACT_EXPIRING_SOON_DAYS = CONTRACT_WARNING_DAYS[0]
+
+/**
+ * Contract with its product and principal names and derived lifecycle state
+ */
+export interface ContractListItem {
+  id: string
+  product_id: string
+  product_name: string
+  principal_id: string
+  principal_name: string
+  contract_start_date: string | null
+  contract_end_date: string | null
+  auto_renewal: boolean
+  renewal_term_months: number
+  exclusive_rights: boolean
+  is_active: boolean
+  status: ContractStatus
+  /** Days until the end date; null for open-ended contracts */
+  days_until_expiry: number | null
+  warning_level: ContractWarningLevel | null
+}
+
+export interface ContractFilters {
+  status?: ContractStatus | 'ALL'
+  principal_id?: string
+  search?: string
+}
+
+export const CONTRACT_STATUS_OPTIONS: Array<{ value: ContractStatus; label: string }> = [
+  { value: 'ACTIVE', label: 'Active' },
+  { value: 'EXPIRING_SOON', label: 'Expiring soon' },
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'EXPIRED', label: 'Expired' }
+]
+
+export const getContractStatusLabel = (status: ContractStatus): string => {
+  return CONTRACT_STATUS_OPTIONS.find(option => option.value === status)?.label ?? status
+}
+
+/**
+ * Display a YYYY-MM-DD contract date without shifting it across time zones
+ */
+export const formatContractDate = (date: string | null): string => {
+  if (!date) return 'Open-ended'
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+// ===============================
+// RENEWALS AND EVENTS
+// ===============================
+
+export type ContractEventType = 'RENEWED' | 'AUTO_RENEWED' | 'TERMS_UPDATED'
+
+export type ContractEvent = Omit<Database['public']['Tables']['product_contract_events']['Row'], 'event_type'> & {
+  event_type: ContractEventType
+}
+
+export const CONTRACT_EVENT_LABELS: Record<ContractEventType, string> = {
+  RENEWED: 'Renewed',
+  AUTO_RENEWED: 'Auto-renewed',
+  TERMS_UPDATED: 'Terms updated'
+}
+
+/**
+ * Manual renewal request from the renewal workflow
+ */
+export interface ContractRenewal {
+  new_end_date: string
+  auto_renewal: boolean
+  renewal_term_months: number
+  notes: string | null
+}
@@ -0,0 +1,115 @@
+/**
+ * Dashboard Analytics Types
+ * Time filters, period comparisons and computed dashboard analytics
+ */
+
+// ===============================
+// TIME FILTERS
+// ===============================
+
+/**
+ * Dashboard time period filters
+ */
+export interface DashboardTimeFilter {
+  period: 'today' | 'week' | 'month' | 'quarter' | 'year' | 'custom'
+  startDate?: Date
+  endDate?: Date
+}
+
+/**
+ * Resolved date range (start inclusive, end exclusive)
+ */
+export interface DashboardDateRange {
+  start: Date
+  end: Date
+}
+
+/**
+ * A period and the equivalent prior period it is compared against
+ */
+export interface DashboardPeriodRange {
+  current: DashboardDateRange
+  previous: DashboardDateRange
+}
+
+// ===============================
+// COMPUTED ANALYTICS
+// ===============================
+
+/**
+ * Metric value for the selected period compared with the prior period
+ */
+export interface MetricComparison {
+  current: number | null
+  previous: number | null
+  /** Percentage change from previous to current; null when there is no prior baseline */
+  change_percent: number | null
+}
+
+/**
+ * Product and opportunity counts per principal
+ */
+export interface PrincipalProductDistribution {
+  principalId: string
+  principalName: string
+  productCount: number
+  opportunityCount: number
+}
+
+/**
+ * Analytics computed from interactions, opportunities and product_principals
+ */
+export interface DashboardAnalytics {
+  period: DashboardDateRange
+  previous_period: DashboardDateRange
+
+  /** Days from opportunity creation to its first interaction */
+  average_response_time: MetricComparison
+  /** Percentage of active product-principal pairs with a new opportunity */
+  product_adoption_rate: MetricComparison
+  /** Estimated value of opportunities created */
+  new_pipeline_value: MetricComparison
+  /** Number of interactions logged */
+  interaction_count: MetricComparison
+
+  /** Quarter-to-date new pipeline value vs the same span of the previous quarter */
+  quarter_over_quarter_growth: number | null
+  /** Year-to-date new pipeline value vs the same span of the previous year */
+  year_over_year_growth: number | null
+
+  principal_product_distribution: PrincipalProductDistribution[]
+  generated_at: string
+}
+
+// ===============================
+// SOURCE ROWS
+// ===============================
+
+/**
+ * Opportunity columns used by dashboard analytics
+ */
+export interface AnalyticsOpportunityRow {
+  id: string
+  created_at: string
+  estimated_value: number | null
+  principal_id: string | null
+  product_id: string | null
+  principal_name?: string | null
+}
+
+/**
+ * Interaction columns used by dashboard analytics
+ */
+export interface AnalyticsInteractionRow {
+  opportunity_id: string
+  interaction_date: string
+}
+
+/**
+ * Product-principal assignment columns used by dashboard analytics
+ */
+export interface AnalyticsProductPrincipalRow {
+  product_id: string
+  principal_id: string
+  principal_name: string | null
+}
@@ -14,6 +14,24 @@ export type Database = {
   }
   public: {
     Tables: {
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       contact_principals: {
         Row: {
           advocacy_level: string | null
@@ -234,6 +252,335 @@ export type Database = {
           },
         ]
       }
+      customer_distributors: {
+        Row: {
+          account_number: string | null
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          distributor_id: string
+          id: string
+          is_primary: boolean
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_number?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          distributor_id: string
+          id?: string
+          is_primary?: boolean
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_number?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          distributor_id?: string
+          id?: string
+          is_primary?: boolean
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_distributors_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_distributors_distributor_id_fkey"
+            columns: ["distributor_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      distributor_products: {
+        Row: {
+          authorization_status: string
+          authorized_on: string | null
+          created_at: string
+          created_by: string | null
+          discontinued_on: string | null
+          distributor_id: string
+          distributor_sku: string | null
+          evidence_document_id: string | null
+          id: string
+          notes: string | null
+          pack_description: string | null
+          product_id: string
+          requested_on: string | null
+          updated_at: string
+        }
+        Insert: {
+          authorization_status?: string
+          authorized_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          discontinued_on?: string | null
+          distributor_id: string
+          distributor_sku?: string | null
+          evidence_document_id?: string | null
+          id?: string
+          notes?: string | null
+          pack_description?: string | null
+          product_id: string
+          requested_on?: string | null
+          updated_at?: string
+        }
+        Update: {
+          authorization_status?: string
+          authorized_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          discontinued_on?: string | null
+          distributor_id?: string
+          distributor_sku?: string | null
+          evidence_document_id?: string | null
+          id?: string
+          notes?: string | null
+          pack_description?: string | null
+          product_id?: string
+          requested_on?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "distributor_products_distributor_id_fkey"
+            columns: ["distributor_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "distributor_products_evidence_document_id_fkey"
+            columns: ["evidence_document_id"]
+            isOneToOne: false
+            referencedRelation: "organization_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "distributor_products_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      engagement_score_models: {
+        Row: {
+          count_without_outcome: boolean
+          counted_outcomes: Database["public"]["Enums"]["interaction_outcome"][]
+          created_at: string
+          half_life_days: number | null
+          id: string
+          interaction_target: number
+          interaction_weight: number
+          opportunity_target: number
+          opportunity_weight: number
+          principal_id: string | null
+          product_target: number
+          product_weight: number
+          recency_weight: number
+          recency_window_days: number
+          type_weights: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          count_without_outcome?: boolean
+          counted_outcomes?: Database["public"]["Enums"]["interaction_outcome"][]
+          created_at?: string
+          half_life_days?: number | null
+          id?: string
+          interaction_target?: number
+          interaction_weight?: number
+          opportunity_target?: number
+          opportunity_weight?: number
+          principal_id?: string | null
+          product_target?: number
+          product_weight?: number
+          recency_weight?: number
+          recency_window_days?: number
+          type_weights?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          count_without_outcome?: boolean
+          counted_outcomes?: Database["public"]["Enums"]["interaction_outcome"][]
+          created_at?: string
+          half_life_days?: number | null
+          id?: string
+          interaction_target?: number
+          interaction_weight?: number
+          opportunity_target?: number
+          opportunity_weight?: number
+          principal_id?: string | null
+          product_target?: number
+          product_weight?: number
+          recency_weight?: number
+          recency_window_days?: number
+          type_weights?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "engagement_score_models_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbound_emails: {
+        Row: {
+          body_text: string | null
+          cc_addresses: string[]
+          contact_id: string | null
+          created_at: string
+          error_message: string | null
+          from_address: string | null
+          from_name: string | null
+          id: string
+          interaction_id: string | null
+          match_reason: string | null
+          message_id: string | null
+          opportunity_id: string | null
+          organization_id: string | null
+          processed_at: string | null
+          processed_by: string | null
+          raw_message: string | null
+          received_by: string | null
+          sent_at: string | null
+          status: string
+          subject: string | null
+          to_addresses: string[]
+          updated_at: string
+        }
+        Insert: {
+          body_text?: string | null
+          cc_addresses?: string[]
+          contact_id?: string | null
+          created_at?: string
+          error_message?: string | null
+          from_address?: string | null
+          from_name?: string | null
+          id?: string
+          interaction_id?: string | null
+          match_reason?: string | null
+          message_id?: string | null
+          opportunity_id?: string | null
+          organization_id?: string | null
+          processed_at?: string | null
+          processed_by?: string | null
+          raw_message?: string | null
+          received_by?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          to_addresses?: string[]
+          updated_at?: string
+        }
+        Update: {
+          body_text?: string | null
+          cc_addresses?: string[]
+          contact_id?: string | null
+          created_at?: string
+          error_message?: string | null
+          from_address?: string | null
+          from_name?: string | null
+          id?: string
+          interaction_id?: string | null
+          match_reason?: string | null
+          message_id?: string | null
+          opportunity_id?: string | null
+          organization_id?: string | null
+          processed_at?: string | null
+          processed_by?: string | null
+          raw_message?: string | null
+          received_by?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          to_addresses?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_emails_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_interaction_id_fkey"
+            columns: ["interaction_id"]
+            isOneToOne: false
+            referencedRelation: "interactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       interactions: {
         Row: {
           attachments: Json | null
@@ -330,9 +677,85 @@ export type Database = {
           },
         ]
       }
+      notification_preferences: {
+        Row: {
+          contract_expiring: boolean
+          contract_expiring_days: number
+          created_at: string
+          follow_up_overdue: boolean
+          opportunity_overdue: boolean
+          principal_stale: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          contract_expiring?: boolean
+          contract_expiring_days?: number
+          created_at?: string
+          follow_up_overdue?: boolean
+          opportunity_overdue?: boolean
+          principal_stale?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          contract_expiring?: boolean
+          contract_expiring_days?: number
+          created_at?: string
+          follow_up_overdue?: boolean
+          opportunity_overdue?: boolean
+          principal_stale?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          action_url: string | null
+          created_at: string
+          entity_id: string | null
+          entity_type: string | null
+          id: string
+          message: string
+          read_at: string | null
+          source_key: string
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          action_url?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          message: string
+          read_at?: string | null
+          source_key: string
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Update: {
+          action_url?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          message?: string
+          read_at?: string | null
+          source_key?: string
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       opportunities: {
         Row: {
           actual_value: number | null
+          advance_on_authorization_to: Database["public"]["Enums"]["opportunity_stage"] | null
           auto_generated_name: boolean | null
           competitor_info: string | null
           context: Database["public"]["Enums"]["opportunity_context"] | null
@@ -342,6 +765,7 @@ export type Database = {
           custom_fields: Json | null
           deal_owner: string | null
           deleted_at: string | null
+          estimated_cases_per_week: number | null
           estimated_value: number | null
           expected_close_date: string | null
           id: string
@@ -351,6 +775,7 @@ export type Database = {
           last_activity_date: string | null
           lead_source: string | null
           lost_date: string | null
+          lost_notes: string | null
           lost_reason: string | null
           name: string
           name_template: string | null
@@ -364,11 +789,15 @@ export type Database = {
           stage_changed_at: string | null
           stage_changed_by: string | null
           tags: Json | null
+          term_weeks: number | null
+          unit_price: number | null
           updated_at: string | null
+          value_source: string | null
           won_date: string | null
         }
         Insert: {
           actual_value?: number | null
+          advance_on_authorization_to?: Database["public"]["Enums"]["opportunity_stage"] | null
           auto_generated_name?: boolean | null
           competitor_info?: string | null
           context?: Database["public"]["Enums"]["opportunity_context"] | null
@@ -378,6 +807,7 @@ export type Database = {
           custom_fields?: Json | null
           deal_owner?: string | null
           deleted_at?: string | null
+          estimated_cases_per_week?: number | null
           estimated_value?: number | null
           expected_close_date?: string | null
           id?: string
@@ -387,6 +817,7 @@ export type Database = {
           last_activity_date?: string | null
           lead_source?: string | null
           lost_date?: string | null
+          lost_notes?: string | null
           lost_reason?: string | null
           name: string
           name_template?: string | null
@@ -400,11 +831,15 @@ export type Database = {
           stage_changed_at?: string | null
           stage_changed_by?: string | null
           tags?: Json | null
+          term_weeks?: number | null
+          unit_price?: number | null
           updated_at?: string | null
+          value_source?: string | null
           won_date?: string | null
         }
         Update: {
           actual_value?: number | null
+          advance_on_authorization_to?: Database["public"]["Enums"]["opportunity_stage"] | null
           auto_generated_name?: boolean | null
           competitor_info?: string | null
           context?: Database["public"]["Enums"]["opportunity_context"] | null
@@ -414,6 +849,7 @@ export type Database = {
           custom_fields?: Json | null
           deal_owner?: string | null
           deleted_at?: string | null
+          estimated_cases_per_week?: number | null
           estimated_value?: number | null
           expected_close_date?: string | null
           id?: string
@@ -423,6 +859,7 @@ export type Database = {
           last_activity_date?: string | null
           lead_source?: string | null
           lost_date?: string | null
+          lost_notes?: string | null
           lost_reason?: string | null
           name?: string
           name_template?: string | null
@@ -436,7 +873,10 @@ export type Database = {
           stage_changed_at?: string | null
           stage_changed_by?: string | null
           tags?: Json | null
+          term_weeks?: number | null
+          unit_price?: number | null
           updated_at?: string | null
+          value_source?: string | null
           won_date?: string | null
         }
         Relationships: [
@@ -554,28 +994,64 @@ export type Database = {
           },
         ]
       }
+      opportunity_name_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          pattern: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          pattern: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          pattern?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       opportunity_principals: {
         Row: {
-          contribution_percent: number | null
+          contribution_percent: number
           created_at: string | null
           id: string
-          is_primary: boolean | null
+          is_primary: boolean
           opportunity_id: string
           principal_id: string
         }
         Insert: {
-          contribution_percent?: number | null
+          contribution_percent?: number
           created_at?: string | null
           id?: string
-          is_primary?: boolean | null
+          is_primary?: boolean
           opportunity_id: string
           principal_id: string
         }
         Update: {
-          contribution_percent?: number | null
+          contribution_percent?: number
           created_at?: string | null
           id?: string
-          is_primary?: boolean | null
+          is_primary?: boolean
           opportunity_id?: string
           principal_id?: string
         }
@@ -645,6 +1121,44 @@ export type Database = {
           },
         ]
       }
+      opportunity_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_stage: Database["public"]["Enums"]["opportunity_stage"] | null
+          id: string
+          note: string | null
+          opportunity_id: string
+          to_stage: Database["public"]["Enums"]["opportunity_stage"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_stage?: Database["public"]["Enums"]["opportunity_stage"] | null
+          id?: string
+          note?: string | null
+          opportunity_id: string
+          to_stage: Database["public"]["Enums"]["opportunity_stage"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_stage?: Database["public"]["Enums"]["opportunity_stage"] | null
+          id?: string
+          note?: string | null
+          opportunity_id?: string
+          to_stage?: Database["public"]["Enums"]["opportunity_stage"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opportunity_stage_history_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organization_analytics: {
         Row: {
           active_contacts: number | null
@@ -997,6 +1511,7 @@ export type Database = {
           assigned_user_id: string | null
           city: string | null
           country: string | null
+          county: string | null
           created_at: string | null
           currency_code: string | null
           custom_fields: Json | null
@@ -1023,6 +1538,7 @@ export type Database = {
           state_province: string | null
           status: Database["public"]["Enums"]["organization_status"] | null
           tags: Json | null
+          territory_id: string | null
           type: Database["public"]["Enums"]["organization_type"] | null
           updated_at: string | null
           website: string | null
@@ -1034,6 +1550,7 @@ export type Database = {
           assigned_user_id?: string | null
           city?: string | null
           country?: string | null
+          county?: string | null
           created_at?: string | null
           currency_code?: string | null
           custom_fields?: Json | null
@@ -1060,6 +1577,7 @@ export type Database = {
           state_province?: string | null
           status?: Database["public"]["Enums"]["organization_status"] | null
           tags?: Json | null
+          territory_id?: string | null
           type?: Database["public"]["Enums"]["organization_type"] | null
           updated_at?: string | null
           website?: string | null
@@ -1071,6 +1589,7 @@ export type Database = {
           assigned_user_id?: string | null
           city?: string | null
           country?: string | null
+          county?: string | null
           created_at?: string | null
           currency_code?: string | null
           custom_fields?: Json | null
@@ -1097,6 +1616,7 @@ export type Database = {
           state_province?: string | null
           status?: Database["public"]["Enums"]["organization_status"] | null
           tags?: Json | null
+          territory_id?: string | null
           type?: Database["public"]["Enums"]["organization_type"] | null
           updated_at?: string | null
           website?: string | null
@@ -1151,6 +1671,189 @@ export type Database = {
             referencedRelation: "principal_activity_summary"
             referencedColumns: ["principal_id"]
           },
+          {
+            foreignKeyName: "organizations_territory_id_fkey"
+            columns: ["territory_id"]
+            isOneToOne: false
+            referencedRelation: "territories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      postal_code_locations: {
+        Row: {
+          city: string
+          latitude: number
+          longitude: number
+          postal_code: string
+          state_code: string
+        }
+        Insert: {
+          city: string
+          latitude: number
+          longitude: number
+          postal_code: string
+          state_code: string
+        }
+        Update: {
+          city?: string
+          latitude?: number
+          longitude?: number
+          postal_code?: string
+          state_code?: string
+        }
+        Relationships: []
+      }
+      principal_distributors: {
+        Row: {
+          authorized_on: string | null
+          created_at: string
+          created_by: string | null
+          distributor_id: string
+          ended_on: string | null
+          id: string
+          notes: string | null
+          principal_id: string
+          status: string
+          territory_notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          authorized_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          distributor_id: string
+          ended_on?: string | null
+          id?: string
+          notes?: string | null
+          principal_id: string
+          status?: string
+          territory_notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          authorized_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          distributor_id?: string
+          ended_on?: string | null
+          id?: string
+          notes?: string | null
+          principal_id?: string
+          status?: string
+          territory_notes?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "principal_distributors_distributor_id_fkey"
+            columns: ["distributor_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "principal_distributors_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      principal_engagement_scores: {
+        Row: {
+          computed_at: string
+          id: string
+          interaction_score: number
+          model_id: string | null
+          opportunity_score: number
+          principal_id: string
+          product_score: number
+          recency_score: number
+          score: number
+          score_date: string
+        }
+        Insert: {
+          computed_at?: string
+          id?: string
+          interaction_score: number
+          model_id?: string | null
+          opportunity_score: number
+          principal_id: string
+          product_score: number
+          recency_score: number
+          score: number
+          score_date: string
+        }
+        Update: {
+          computed_at?: string
+          id?: string
+          interaction_score?: number
+          model_id?: string | null
+          opportunity_score?: number
+          principal_id?: string
+          product_score?: number
+          recency_score?: number
+          score?: number
+          score_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "principal_engagement_scores_model_id_fkey"
+            columns: ["model_id"]
+            isOneToOne: false
+            referencedRelation: "engagement_score_models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "principal_engagement_scores_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_contract_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          event_type: string
+          id: string
+          new_end_date: string | null
+          notes: string | null
+          previous_end_date: string | null
+          product_principal_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          event_type: string
+          id?: string
+          new_end_date?: string | null
+          notes?: string | null
+          previous_end_date?: string | null
+          product_principal_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          event_type?: string
+          id?: string
+          new_end_date?: string | null
+          notes?: string | null
+          previous_end_date?: string | null
+          product_principal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_contract_events_product_principal_id_fkey"
+            columns: ["product_principal_id"]
+            isOneToOne: false
+            referencedRelation: "product_principals"
+            referencedColumns: ["id"]
+          },
         ]
       }
       product_principals: {
@@ -1168,6 +1871,7 @@ export type Database = {
           notes: string | null
           principal_id: string
           product_id: string
+          renewal_term_months: number
           territory_restrictions: Json | null
           updated_at: string | null
           wholesale_price: number | null
@@ -1186,6 +1890,7 @@ export type Database = {
           notes?: string | null
           principal_id: string
           product_id: string
+          renewal_term_months?: number
           territory_restrictions?: Json | null
           updated_at?: string | null
           wholesale_price?: number | null
@@ -1204,6 +1909,7 @@ export type Database = {
           notes?: string | null
           principal_id?: string
           product_id?: string
+          renewal_term_months?: number
           territory_restrictions?: Json | null
           updated_at?: string | null
           wholesale_price?: number | null
@@ -1346,6 +2052,185 @@ export type Database = {
         }
         Relationships: []
       }
+      tasks: {
+        Row: {
+          assigned_to: string | null
+          completed_at: string | null
+          contact_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_date: string | null
+          id: string
+          interaction_id: string | null
+          opportunity_id: string | null
+          organization_id: string | null
+          principal_id: string | null
+          priority: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          interaction_id?: string | null
+          opportunity_id?: string | null
+          organization_id?: string | null
+          principal_id?: string | null
+          priority?: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          interaction_id?: string | null
+          opportunity_id?: string | null
+          organization_id?: string | null
+          principal_id?: string | null
+          priority?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_interaction_id_fkey"
+            columns: ["interaction_id"]
+            isOneToOne: true
+            referencedRelation: "interactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      territories: {
+        Row: {
+          counties: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          states: string[]
+          updated_at: string
+          zip_prefixes: string[]
+        }
+        Insert: {
+          counties?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          states?: string[]
+          updated_at?: string
+          zip_prefixes?: string[]
+        }
+        Update: {
+          counties?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          states?: string[]
+          updated_at?: string
+          zip_prefixes?: string[]
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+          manager_id: string | null
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id: string
+          manager_id?: string | null
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+          manager_id?: string | null
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_submissions: {
         Row: {
           age: number
@@ -1683,6 +2568,37 @@ export type Database = {
         }
         Relationships: []
       }
+      opportunity_stage_duration_view: {
+        Row: {
+          duration_days: number | null
+          entered_at: string | null
+          exited_at: string | null
+          history_id: string | null
+          next_stage: Database["public"]["Enums"]["opportunity_stage"] | null
+          opportunity_id: string | null
+          stage: Database["public"]["Enums"]["opportunity_stage"] | null
+        }
+        Relationships: []
+      }
+      opportunity_stage_dwell_view: {
+        Row: {
+          avg_days_in_stage: number | null
+          completed_visits: number | null
+          current_count: number | null
+          max_current_days: number | null
+          median_days_in_stage: number | null
+          stage: Database["public"]["Enums"]["opportunity_stage"] | null
+        }
+        Relationships: []
+      }
+      opportunity_stage_funnel_view: {
+        Row: {
+          furthest_stage: Database["public"]["Enums"]["opportunity_stage"] | null
+          opportunities: number | null
+          stage: Database["public"]["Enums"]["opportunity_stage"] | null
+        }
+        Relationships: []
+      }
       organization_lead_scoring: {
         Row: {
           document_count: number | null
@@ -1841,13 +2757,115 @@ export type Database = {
             | Database["public"]["Enums"]["product_category"][]
             | null
           product_count: number | null
+          shared_opportunities: number | null
           summary_generated_at: string | null
           total_interactions: number | null
           total_opportunities: number | null
+          weighted_active_opportunities: number | null
+          weighted_pipeline_value: number | null
+          weighted_won_value: number | null
           won_opportunities: number | null
         }
         Relationships: []
       }
+      principal_distribution_chains: {
+        Row: {
+          account_number: string | null
+          authorized_on: string | null
+          customer_city: string | null
+          customer_id: string | null
+          customer_name: string | null
+          customer_state: string | null
+          distributor_city: string | null
+          distributor_id: string | null
+          distributor_name: string | null
+          distributor_state: string | null
+          has_principal_opportunity: boolean | null
+          is_primary_distributor: boolean | null
+          principal_id: string | null
+          principal_name: string | null
+          relationship_id: string | null
+          relationship_status: string | null
+        }
+        Relationships: []
+      }
+      principal_distributor_relationships: {
+        Row: {
+          authorized_on: string | null
+          customer_count: number | null
+          distributor_city: string | null
+          distributor_country: string | null
+          distributor_id: string | null
+          distributor_last_contact: string | null
+          distributor_lead_score: number | null
+          distributor_name: string | null
+          distributor_state: string | null
+          distributor_status: Database["public"]["Enums"]["organization_status"] | null
+          ended_on: string | null
+          item_code_count: number | null
+          principal_city: string | null
+          principal_country: string | null
+          principal_created_at: string | null
+          principal_id: string | null
+          principal_last_contact: string | null
+          principal_lead_score: number | null
+          principal_name: string | null
+          principal_state: string | null
+          principal_status: Database["public"]["Enums"]["organization_status"] | null
+          relationship_id: string | null
+          relationship_notes: string | null
+          relationship_status: string | null
+          relationship_type: string | null
+          territory_notes: string | null
+        }
+        Relationships: []
+      }
+      principal_opportunity_shares: {
+        Row: {
+          contribution_percent: number | null
+          created_at: string | null
+          currency_code: string | null
+          deal_owner: string | null
+          estimated_value: number | null
+          expected_close_date: string | null
+          is_lost: boolean | null
+          is_primary: boolean | null
+          is_won: boolean | null
+          name: string | null
+          notes: string | null
+          opportunity_id: string | null
+          organization_id: string | null
+          organization_name: string | null
+          principal_count: number | null
+          principal_id: string | null
+          probability_percent: number | null
+          product_id: string | null
+          product_name: string | null
+          stage: Database["public"]["Enums"]["opportunity_stage"] | null
+          updated_at: string | null
+          weighted_value: number | null
+        }
+        Relationships: []
+      }
+      visit_plan_candidates: {
+        Row: {
+          address_line_1: string | null
+          city: string | null
+          geocode_source: string | null
+          latitude: number | null
+          longitude: number | null
+          next_follow_up_date: string | null
+          open_opportunity_count: number | null
+          opportunity_id: string | null
+          opportunity_name: string | null
+          organization_id: string | null
+          organization_name: string | null
+          postal_code: string | null
+          state_province: string | null
+          territory_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       analyze_interactions_index_performance: {
@@ -1864,6 +2882,25 @@ export type Database = {
         Args: { interaction_uuid: string }
         Returns: boolean
       }
+      can_access_organization: {
+        Args: { org_id: string }
+        Returns: boolean
+      }
+      compute_principal_engagement_score: {
+        Args: { p_principal_id: string; p_model?: Json | null; p_as_of?: string }
+        Returns: {
+          score: number
+          interaction_score: number
+          opportunity_score: number
+          product_score: number
+          recency_score: number
+          model_id: string
+        }[]
+      }
+      create_shared_opportunity: {
+        Args: { p_opportunity: Json; p_principals: Json }
+        Returns: Database["public"]["Tables"]["opportunities"]["Row"]
+      }
       get_organization_contact_count: {
         Args: { org_id: string }
         Returns: number
@@ -1911,14 +2948,76 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      ics_escape_text: {
+        Args: { value: string }
+        Returns: string
+      }
+      ics_fold_line: {
+        Args: { line: string }
+        Returns: string
+      }
+      ics_utc: {
+        Args: { value: string }
+        Returns: string
+      }
+      interaction_calendar_feed: {
+        Args: { token: string }
+        Returns: string
+      }
+      opportunity_name_exists: {
+        Args: { p_name: string; p_exclude?: string | null }
+        Returns: boolean
+      }
+      record_principal_engagement_scores: {
+        Args: { p_principal_id?: string | null; p_score_date?: string }
+        Returns: number
+      }
       refresh_principal_activity_summary: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      renew_due_product_contracts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      resolve_territory_id: {
+        Args: {
+          p_state: string | null
+          p_postal_code: string | null
+          p_county: string | null
+        }
+        Returns: string | null
+      }
+      search_crm: {
+        Args: {
+          search_term: string
+          search_entity: string
+          result_limit?: number
+          sku_only?: boolean
+        }
+        Returns: {
+          entity_type: string
+          entity_id: string
+          title: string
+          subtitle: string
+          score: number
+        }[]
+      }
       set_limit: {
         Args: { "": number }
         Returns: number
       }
+      set_opportunity_principals: {
+        Args: { p_opportunity_id: string; p_principals: Json }
+        Returns: {
+          contribution_percent: number
+          created_at: string | null
+          id: string
+          is_primary: boolean
+          opportunity_id: string
+          principal_id: string
+        }[]
+      }
       show_limit: {
         Args: Record<PropertyKey, never>
         Returns: number
@@ -1959,6 +3058,11 @@ export type Database = {
         | "Social"
         | "Website"
         | "Other"
+      notification_type:
+        | "follow_up_overdue"
+        | "contract_expiring"
+        | "principal_stale"
+        | "opportunity_overdue"
       opportunity_context:
         | "Site Visit"
         | "Food Show"
@@ -1975,6 +3079,7 @@ export type Database = {
         | "Feedback Logged"
         | "Demo Scheduled"
         | "Closed - Won"
+        | "Closed - Lost"
       organization_size: "Startup" | "Small" | "Medium" | "Large" | "Enterprise"
       organization_status:
         | "Active"
@@ -2001,6 +3106,11 @@ export type Database = {
         | "Bakery"
         | "Other"
       sentiment: "Positive" | "Neutral" | "Negative"
+      user_role:
+        | "broker_rep"
+        | "account_manager"
+        | "principal_manager"
+        | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -2157,6 +3267,12 @@ export const Constants = {
         "Website",
         "Other",
       ],
+      notification_type: [
+        "follow_up_overdue",
+        "contract_expiring",
+        "principal_stale",
+        "opportunity_overdue",
+      ],
       opportunity_context: [
         "Site Visit",
         "Food Show",
@@ -2174,6 +3290,7 @@ export const Constants = {
         "Feedback Logged",
         "Demo Scheduled",
         "Closed - Won",
+        "Closed - Lost",
       ],
       organization_size: ["Startup", "Small", "Medium", "Large", "Enterprise"],
       organization_status: [
@@ -2204,6 +3321,12 @@ export const Constants = {
         "Other",
       ],
       sentiment: ["Positive", "Neutral", "Negative"],
+      user_role: [
+        "broker_rep",
+        "account_manager",
+        "principal_manager",
+        "admin",
+      ],
     },
   },
 } as const
@@ -2290,7 +3413,8 @@ export const OPPORTUNITY_STAGES = {
   AWAITING_RESPONSE: 'Awaiting Response' as const,
   FEEDBACK_LOGGED: 'Feedback Logged' as const,
   DEMO_SCHEDULED: 'Demo Scheduled' as const,
-  CLOSED_WON: 'Closed - Won' as const
+  CLOSED_WON: 'Closed - Won' as const,
+  CLOSED_LOST: 'Closed - Lost' as const
 } as const
 
 export const OPPORTUNITY_CONTEXTS = {
@@ -2407,6 +3531,16 @@ export interface PrincipalDistributorRelationship {
   principal_created_at: string | null
   principal_last_contact: string | null
   distributor_last_contact: string | null
+
+  // Relationship details (null on DIRECT rows)
+  relationship_id: string | null
+  relationship_status: string | null
+  authorized_on: string | null
+  ended_on: string | null
+  territory_notes: string | null
+  relationship_notes: string | null
+  item_code_count: number
+  customer_count: number
 }
 
 // Principal Product Performance view type
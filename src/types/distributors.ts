@@ -0,0 +1,206 @@
+/**
+ * Distributor Types
+ * Distributors carrying each principal, product authorizations and item codes
+ * at each distributor, the distributors operators buy through and the
+ * resulting distribution chain
+ * Database Reference: sql/56_distributor_relationships.sql,
+ * sql/57_distributor_item_authorizations.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// PRINCIPAL DISTRIBUTORS
+// ===============================
+
+export type PrincipalDistributorStatus = 'PROSPECT' | 'PENDING' | 'AUTHORIZED' | 'SUSPENDED' | 'ENDED'
+
+type PrincipalDistributorRow = Database['public']['Tables']['principal_distributors']['Row']
+
+export type PrincipalDistributor = Omit<PrincipalDistributorRow, 'status'> & {
+  status: PrincipalDistributorStatus
+}
+
+export const PRINCIPAL_DISTRIBUTOR_STATUS_OPTIONS: Array<{ value: PrincipalDistributorStatus; label: string }> = [
+  { value: 'PROSPECT', label: 'Prospect' },
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'AUTHORIZED', label: 'Authorized' },
+  { value: 'SUSPENDED', label: 'Suspended' },
+  { value: 'ENDED', label: 'Ended' }
+]
+
+export const PRINCIPAL_DISTRIBUTOR_STATUS_COLORS: Record<PrincipalDistributorStatus, string> = {
+  PROSPECT: 'bg-gray-100 text-gray-800',
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  AUTHORIZED: 'bg-green-100 text-green-800',
+  SUSPENDED: 'bg-orange-100 text-orange-800',
+  ENDED: 'bg-red-100 text-red-800'
+}
+
+export interface PrincipalDistributorFormData {
+  distributor_id: string
+  status: PrincipalDistributorStatus
+  /** Dates as YYYY-MM-DD; empty when unknown */
+  authorized_on: string
+  ended_on: string
+  territory_notes: string
+  notes: string
+}
+
+// ===============================
+// DISTRIBUTOR ITEM AUTHORIZATIONS
+// ===============================
+
+/**
+ * Whether the distributor has put the product "in the book"
+ */
+export type DistributorAuthorizationStatus = 'REQUESTED' | 'PENDING' | 'AUTHORIZED' | 'DISCONTINUED'
+
+export const DISTRIBUTOR_AUTHORIZATION_STATUS_OPTIONS: Array<{ value: DistributorAuthorizationStatus; label: string }> = [
+  { value: 'REQUESTED', label: 'Requested' },
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'AUTHORIZED', label: 'Authorized' },
+  { value: 'DISCONTINUED', label: 'Discontinued' }
+]
+
+export const DISTRIBUTOR_AUTHORIZATION_STATUS_COLORS: Record<DistributorAuthorizationStatus, string> = {
+  REQUESTED: 'bg-blue-100 text-blue-800',
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  AUTHORIZED: 'bg-green-100 text-green-800',
+  DISCONTINUED: 'bg-red-100 text-red-800'
+}
+
+type DistributorProductRow = Database['public']['Tables']['distributor_products']['Row']
+
+/**
+ * A product's authorization record and item code at one distributor
+ */
+export type DistributorProduct = Omit<DistributorProductRow, 'authorization_status'> & {
+  authorization_status: DistributorAuthorizationStatus
+}
+
+/**
+ * Item code with the product it identifies
+ */
+export interface DistributorProductListItem extends DistributorProduct {
+  product_name: string
+  product_sku: string | null
+  evidence_document_name: string | null
+}
+
+/**
+ * Authorization of one product with the distributor holding it
+ */
+export interface ProductAuthorizationListItem extends DistributorProduct {
+  distributor_name: string
+  distributor_city: string | null
+  distributor_state: string | null
+  evidence_document_name: string | null
+}
+
+export interface DistributorProductFormData {
+  product_id: string
+  authorization_status: DistributorAuthorizationStatus
+  distributor_sku: string
+  pack_description: string
+  /** Dates as YYYY-MM-DD; empty when unknown */
+  requested_on: string
+  authorized_on: string
+  discontinued_on: string
+  /** Organization document id; empty when none */
+  evidence_document_id: string
+  notes: string
+}
+
+/**
+ * One distributor in a product's coverage matrix: the distributor carries
+ * one of the product's principals, holds an authorization record for the
+ * product, or both
+ */
+export interface DistributorCoverageRow {
+  distributor_id: string
+  distributor_name: string
+  distributor_city: string | null
+  distributor_state: string | null
+  /** Principals of the product the distributor carries, with their status */
+  principals: Array<{ principal_id: string; principal_name: string; status: PrincipalDistributorStatus }>
+  /** NULL when the product was never requested at the distributor */
+  authorization: ProductAuthorizationListItem | null
+}
+
+export interface DistributorCoverageSummary {
+  distributorCount: number
+  authorizedCount: number
+  inProgressCount: number
+  notRequestedCount: number
+  discontinuedCount: number
+}
+
+/**
+ * Whether a product can be bought by an operator through its distributors
+ */
+export type CustomerAuthorizationCheck =
+  | { status: 'authorized'; distributorName: string }
+  | { status: 'not_authorized'; distributorName: string; authorizationStatus: DistributorAuthorizationStatus | null }
+  | { status: 'no_distributor' }
+
+// ===============================
+// CUSTOMER DISTRIBUTORS
+// ===============================
+
+export type CustomerDistributor = Database['public']['Tables']['customer_distributors']['Row']
+
+/**
+ * "Buys through" link with the distributor's name and location
+ */
+export interface CustomerDistributorListItem extends CustomerDistributor {
+  distributor_name: string
+  distributor_city: string | null
+  distributor_state: string | null
+}
+
+export interface CustomerDistributorFormData {
+  distributor_id: string
+  is_primary: boolean
+  account_number: string
+  notes: string
+}
+
+// ===============================
+// DISTRIBUTION CHAINS
+// ===============================
+
+export type DistributionChainRow = Database['public']['Views']['principal_distribution_chains']['Row']
+
+export interface DistributionChainCustomer {
+  customer_id: string
+  customer_name: string
+  customer_city: string | null
+  customer_state: string | null
+  is_primary_distributor: boolean
+  account_number: string | null
+  has_principal_opportunity: boolean
+}
+
+/**
+ * One distributor of a principal with the operators buying through it
+ */
+export interface DistributionChainNode {
+  relationship_id: string
+  distributor_id: string
+  distributor_name: string
+  distributor_city: string | null
+  distributor_state: string | null
+  relationship_status: PrincipalDistributorStatus
+  authorized_on: string | null
+  customers: DistributionChainCustomer[]
+}
+
+export interface DistributionChainSummary {
+  distributorCount: number
+  authorizedCount: number
+  /** Operators reachable through the principal's distributors, counted once */
+  customerCount: number
+  /** Reachable operators without an opportunity for the principal */
+  untappedCustomerCount: number
+}
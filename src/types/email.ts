@@ -0,0 +1,118 @@
+/**
+ * Email Types
+ * Email templates with merge variables, compose context for contact and
+ * opportunity pages, and the pluggable mail transport
+ * Database Reference: sql/51_email_templates.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// TEMPLATES
+// ===============================
+
+export type EmailTemplate = Database['public']['Tables']['email_templates']['Row']
+
+export interface EmailTemplateFormData {
+  name: string
+  subject: string
+  body: string
+  is_active: boolean
+}
+
+export type EmailMergeField =
+  | 'contact.first_name'
+  | 'contact.last_name'
+  | 'contact.full_name'
+  | 'organization.name'
+  | 'opportunity.name'
+  | 'principal.name'
+  | 'product.name'
+  | 'sender.name'
+
+export type EmailMergeValues = Partial<Record<EmailMergeField, string | null>>
+
+export const EMAIL_MERGE_FIELDS: Array<{ value: EmailMergeField; label: string }> = [
+  { value: 'contact.first_name', label: 'Contact first name' },
+  { value: 'contact.last_name', label: 'Contact last name' },
+  { value: 'contact.full_name', label: 'Contact full name' },
+  { value: 'organization.name', label: 'Organization' },
+  { value: 'opportunity.name', label: 'Opportunity' },
+  { value: 'principal.name', label: 'Principal' },
+  { value: 'product.name', label: 'Product' },
+  { value: 'sender.name', label: 'Your name' }
+]
+
+/**
+ * Template text with variables filled in
+ */
+export interface RenderedEmailText {
+  text: string
+  /** Known variables with no value for this contact / opportunity */
+  missing: EmailMergeField[]
+}
+
+// ===============================
+// COMPOSE
+// ===============================
+
+export interface EmailRecipient {
+  id: string
+  first_name: string
+  last_name: string
+  email: string | null
+}
+
+/**
+ * Opportunity an email can be logged against, with its merge values
+ */
+export interface EmailOpportunity {
+  id: string
+  name: string
+  principal_name: string | null
+  product_name: string | null
+}
+
+/**
+ * Contacts and opportunities of the organization an email is composed for
+ */
+export interface EmailComposeContext {
+  organization_id: string
+  organization_name: string
+  contacts: EmailRecipient[]
+  opportunities: EmailOpportunity[]
+}
+
+export interface OutgoingEmail {
+  to: string[]
+  cc: string[]
+  subject: string
+  body: string
+  /** Sender's address, so replies reach them whichever transport sends */
+  reply_to: string | null
+}
+
+// ===============================
+// TRANSPORT
+// ===============================
+
+/** Built-in transports; registered transports may use any other id */
+export type MailTransportId = 'relay' | 'mailto' | 'console'
+
+export interface MailSendResult {
+  /** Id assigned by the transport, when it reports one */
+  message_id: string | null
+}
+
+/**
+ * Sends an email. Register alternatives with registerMailTransport() and
+ * choose one with VITE_MAIL_TRANSPORT.
+ */
+export interface MailTransport {
+  id: string
+  /** Shown next to the Send button */
+  description: string
+  /** False when send() only hands the message to the user's email app */
+  delivers: boolean
+  send(email: OutgoingEmail): Promise<MailSendResult>
+}
@@ -0,0 +1,90 @@
+/**
+ * Engagement Scoring Types
+ * Engagement score models (the default and per-principal overrides) and the
+ * daily score history behind the engagement trend charts
+ * Database Reference: sql/55_engagement_score_models.sql
+ */
+
+import type { Database, InteractionOutcome, InteractionType } from './database.types'
+
+// ===============================
+// MODELS
+// ===============================
+
+type EngagementScoreModelRow = Database['public']['Tables']['engagement_score_models']['Row']
+
+export type EngagementScoreModel = Omit<EngagementScoreModelRow, 'type_weights'> & {
+  type_weights: Partial<Record<InteractionType, number>>
+}
+
+export interface EngagementModelFormData {
+  /** Component weights in percent; they total 100 */
+  interaction_weight: number
+  opportunity_weight: number
+  product_weight: number
+  recency_weight: number
+  /** Signal counts that earn a full component score */
+  interaction_target: number
+  opportunity_target: number
+  product_target: number
+  recency_window_days: number
+  /** Days after which an interaction counts half; null for no decay */
+  half_life_days: number | null
+  counted_outcomes: InteractionOutcome[]
+  count_without_outcome: boolean
+  /** Multiplier by interaction type; unlisted types count 1 */
+  type_weights: Partial<Record<InteractionType, number>>
+}
+
+/**
+ * A principal's own model, if any, and the default it otherwise uses
+ */
+export interface PrincipalEngagementModels {
+  principalModel: EngagementScoreModel | null
+  defaultModel: EngagementScoreModel | null
+}
+
+export type EngagementComponent = 'interaction' | 'opportunity' | 'product' | 'recency'
+
+export const ENGAGEMENT_COMPONENTS: Array<{ value: EngagementComponent; label: string; targetLabel: string }> = [
+  { value: 'interaction', label: 'Interactions', targetLabel: 'Weighted interactions for a full score' },
+  { value: 'opportunity', label: 'Opportunities', targetLabel: 'Open opportunities for a full score' },
+  { value: 'product', label: 'Products', targetLabel: 'Active products for a full score' },
+  { value: 'recency', label: 'Recency', targetLabel: 'Days until the last interaction scores zero' }
+]
+
+/**
+ * Settings of the default model as seeded by the migration
+ */
+export const DEFAULT_ENGAGEMENT_MODEL: EngagementModelFormData = {
+  interaction_weight: 30,
+  opportunity_weight: 40,
+  product_weight: 20,
+  recency_weight: 10,
+  interaction_target: 50,
+  opportunity_target: 10,
+  product_target: 5,
+  recency_window_days: 100,
+  half_life_days: null,
+  counted_outcomes: ['POSITIVE', 'NEUTRAL', 'NEGATIVE', 'NEEDS_FOLLOW_UP'],
+  count_without_outcome: true,
+  type_weights: {}
+}
+
+// ===============================
+// SCORES
+// ===============================
+
+export type PrincipalEngagementScore = Database['public']['Tables']['principal_engagement_scores']['Row']
+
+/**
+ * Score and components from compute_principal_engagement_score
+ */
+export interface EngagementScoreBreakdown {
+  score: number
+  interaction_score: number
+  opportunity_score: number
+  product_score: number
+  recency_score: number
+  model_id: string | null
+}
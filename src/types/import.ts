@@ -0,0 +1,161 @@
+/**
+ * Import Types
+ * Spreadsheet import of organizations and contacts: target fields, column
+ * mapping, validated rows, duplicate matches and per-row results
+ */
+
+// ===============================
+// ENTITIES & FIELDS
+// ===============================
+
+export type ImportEntity = 'organizations' | 'contacts'
+
+export const IMPORT_ENTITY_OPTIONS: Array<{ value: ImportEntity; label: string; description: string }> = [
+  {
+    value: 'organizations',
+    label: 'Organizations',
+    description: 'One organization per row, with an optional primary contact'
+  },
+  {
+    value: 'contacts',
+    label: 'Contacts',
+    description: 'One contact per row, linked to an organization by name'
+  }
+]
+
+/**
+ * Field a spreadsheet column can be mapped to. Aliases are header names
+ * matched automatically (compared without case, spaces or punctuation).
+ */
+export interface ImportField {
+  key: string
+  label: string
+  required?: boolean
+  aliases: string[]
+}
+
+export const ORGANIZATION_IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Organization Name', required: true, aliases: ['organization', 'company', 'company name', 'account', 'account name', 'business name'] },
+  { key: 'legal_name', label: 'Legal Name', aliases: ['legal name', 'dba'] },
+  { key: 'industry', label: 'Industry', aliases: ['segment'] },
+  { key: 'type', label: 'Type', aliases: ['organization type', 'business type'] },
+  { key: 'size', label: 'Size', aliases: ['company size'] },
+  { key: 'status', label: 'Status', aliases: [] },
+  { key: 'website', label: 'Website', aliases: ['url', 'web'] },
+  { key: 'email', label: 'Email', aliases: ['company email', 'email address'] },
+  { key: 'primary_phone', label: 'Phone', aliases: ['phone', 'telephone', 'main phone', 'phone number'] },
+  { key: 'secondary_phone', label: 'Secondary Phone', aliases: ['alt phone', 'other phone', 'fax'] },
+  { key: 'city', label: 'City', aliases: ['town'] },
+  { key: 'state_province', label: 'State / Province', aliases: ['state', 'province', 'region'] },
+  { key: 'postal_code', label: 'Postal Code', aliases: ['zip', 'zip code', 'postcode'] },
+  { key: 'country', label: 'Country', aliases: [] },
+  { key: 'lead_source', label: 'Lead Source', aliases: ['source'] },
+  { key: 'description', label: 'Description', aliases: ['notes'] },
+  { key: 'contact_first_name', label: 'Contact First Name', aliases: ['first name', 'contact first'] },
+  { key: 'contact_last_name', label: 'Contact Last Name', aliases: ['last name', 'contact last'] },
+  { key: 'contact_email', label: 'Contact Email', aliases: [] },
+  { key: 'contact_phone', label: 'Contact Phone', aliases: ['mobile', 'cell'] },
+  { key: 'contact_position', label: 'Contact Position', aliases: ['title', 'job title', 'position'] }
+]
+
+export const CONTACT_IMPORT_FIELDS: ImportField[] = [
+  { key: 'first_name', label: 'First Name', required: true, aliases: ['first', 'given name'] },
+  { key: 'last_name', label: 'Last Name', required: true, aliases: ['last', 'surname', 'family name'] },
+  { key: 'organization_name', label: 'Organization', required: true, aliases: ['organization', 'company', 'company name', 'account', 'account name'] },
+  { key: 'position', label: 'Position', aliases: ['title', 'job title', 'role'] },
+  { key: 'email', label: 'Email', aliases: ['email address', 'e-mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone number', 'mobile', 'cell', 'telephone'] },
+  { key: 'address', label: 'Address', aliases: ['street', 'address 1', 'street address'] },
+  { key: 'city', label: 'City', aliases: ['town'] },
+  { key: 'state', label: 'State', aliases: ['province', 'region'] },
+  { key: 'zip_code', label: 'ZIP Code', aliases: ['zip', 'postal code', 'postcode'] },
+  { key: 'website', label: 'Website', aliases: ['url', 'linkedin'] },
+  { key: 'notes', label: 'Notes', aliases: ['comments'] }
+]
+
+export const getImportFields = (entity: ImportEntity): ImportField[] => {
+  return entity === 'organizations' ? ORGANIZATION_IMPORT_FIELDS : CONTACT_IMPORT_FIELDS
+}
+
+// ===============================
+// SHEETS & MAPPING
+// ===============================
+
+/**
+ * First worksheet of an uploaded file; header row separated from data rows
+ */
+export interface ImportSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * Target field key for each column, aligned with ImportSheet.headers;
+ * null leaves the column out of the import
+ */
+export type ColumnMapping = Array<string | null>
+
+/**
+ * Largest file accepted by the wizard, in data rows
+ */
+export const MAX_IMPORT_ROWS = 2000
+
+// ===============================
+// ROWS, DUPLICATES & RESULTS
+// ===============================
+
+export type DuplicateField = 'name' | 'email' | 'phone'
+
+/**
+ * A row that looks like an existing record or an earlier row in the file
+ */
+export interface DuplicateMatch {
+  source: 'existing' | 'file'
+  field: DuplicateField
+  label: string
+  recordId?: string
+  rowNumber?: number
+}
+
+/**
+ * Existing record compared against imported rows
+ */
+export interface DuplicateCandidate {
+  id: string
+  name: string
+  email: string | null
+  phone: string | null
+}
+
+export type ImportRowAction = 'create' | 'skip'
+
+export interface ImportRow {
+  /** Spreadsheet row number (the header is row 1) */
+  rowNumber: number
+  values: Record<string, string>
+  errors: string[]
+  duplicates: DuplicateMatch[]
+  action: ImportRowAction
+}
+
+export type ImportRowStatus = 'created' | 'skipped' | 'failed'
+
+export interface ImportRowResult {
+  rowNumber: number
+  status: ImportRowStatus
+  message: string
+  recordId?: string
+}
+
+// ===============================
+// WIZARD
+// ===============================
+
+export type ImportStep = 'upload' | 'map' | 'review' | 'results'
+
+export const IMPORT_STEPS: Array<{ value: ImportStep; label: string }> = [
+  { value: 'upload', label: 'Upload' },
+  { value: 'map', label: 'Map Columns' },
+  { value: 'review', label: 'Review' },
+  { value: 'results', label: 'Results' }
+]
@@ -0,0 +1,120 @@
+/**
+ * Inbound Email Types
+ * Messages BCC'd to the CRM dropbox, parsed from MIME and matched to
+ * contacts, organizations and opportunities
+ * Database Reference: sql/52_inbound_emails.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// STORED MESSAGES
+// ===============================
+
+export type InboundEmail = Database['public']['Tables']['inbound_emails']['Row']
+
+export type InboundEmailStatus = 'RECEIVED' | 'LINKED' | 'UNMATCHED' | 'IGNORED'
+
+export type InboundMatchReason = 'contact_email' | 'organization_domain' | 'manual'
+
+// ===============================
+// PARSED MESSAGES
+// ===============================
+
+export interface EmailAddress {
+  address: string
+  name: string | null
+}
+
+export interface ParsedEmail {
+  message_id: string | null
+  from: EmailAddress | null
+  to: EmailAddress[]
+  cc: EmailAddress[]
+  subject: string
+  sent_at: string | null
+  text: string
+}
+
+// ===============================
+// MATCHING
+// ===============================
+
+export interface InboundMatchContact {
+  id: string
+  first_name: string
+  last_name: string
+  email: string | null
+  organization_id: string | null
+}
+
+export interface InboundMatchOrganization {
+  id: string
+  name: string
+  website: string | null
+  email: string | null
+}
+
+export interface InboundMatchOpportunity {
+  id: string
+  name: string
+  organization_id: string
+  stage: string
+  last_activity_date: string | null
+  updated_at: string | null
+}
+
+/**
+ * Records loaded for a message's addresses and domains
+ */
+export interface InboundMatchCandidates {
+  contacts: InboundMatchContact[]
+  organizations: InboundMatchOrganization[]
+  opportunities: InboundMatchOpportunity[]
+}
+
+export interface InboundEmailMatch {
+  contact: InboundMatchContact | null
+  organization_id: string | null
+  opportunity: InboundMatchOpportunity | null
+  reason: InboundMatchReason | null
+}
+
+/**
+ * Queued message with the names of its suggested records for triage
+ */
+export interface InboundEmailQueueItem extends InboundEmail {
+  contact_name: string | null
+  organization_name: string | null
+}
+
+export interface InboundIngestResult {
+  email: InboundEmail
+  duplicate: boolean
+}
+
+export interface InboundOpportunityOption {
+  id: string
+  name: string
+  organization_name: string | null
+}
+
+/**
+ * Webmail and ISP domains shared by unrelated people; never used to match
+ * an organization
+ */
+export const FREE_MAIL_DOMAINS = [
+  'aol.com',
+  'comcast.net',
+  'gmail.com',
+  'googlemail.com',
+  'hotmail.com',
+  'icloud.com',
+  'live.com',
+  'me.com',
+  'msn.com',
+  'outlook.com',
+  'proton.me',
+  'protonmail.com',
+  'yahoo.com'
+]
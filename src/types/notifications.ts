@@ -0,0 +1,136 @@
+/**
+ * Notification Types
+ * In-app notifications, per-user preferences and the source records alerts
+ * are generated from
+ * Database Reference: sql/42_notifications.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// NOTIFICATIONS
+// ===============================
+
+export type NotificationType = Database['public']['Enums']['notification_type']
+
+export type Notification = Database['public']['Tables']['notifications']['Row']
+
+/**
+ * Alert produced by the notification rules, before it is stored for a user
+ */
+export type NotificationCandidate = Pick<
+  Database['public']['Tables']['notifications']['Insert'],
+  'type' | 'title' | 'message' | 'entity_type' | 'entity_id' | 'action_url' | 'source_key'
+>
+
+export const NOTIFICATION_TYPE_OPTIONS: Array<{ value: NotificationType; label: string; description: string }> = [
+  {
+    value: 'follow_up_overdue',
+    label: 'Overdue follow-ups',
+    description: 'Interactions whose follow-up date has passed'
+  },
+  {
+    value: 'contract_expiring',
+    label: 'Expiring contracts',
+    description: 'Principal product contracts nearing their end date'
+  },
+  {
+    value: 'principal_stale',
+    label: 'Stale principals',
+    description: 'Principals with no activity in over 90 days'
+  },
+  {
+    value: 'opportunity_overdue',
+    label: 'Overdue opportunities',
+    description: 'Open opportunities past their expected close date'
+  }
+]
+
+/**
+ * Display label for a notification type
+ */
+export const getNotificationTypeLabel = (type: NotificationType): string => {
+  return NOTIFICATION_TYPE_OPTIONS.find(option => option.value === type)?.label ?? type
+}
+
+/**
+ * Relative time for a notification timestamp, e.g. "5m ago"
+ */
+export const formatNotificationTime = (value: string, now: Date = new Date()): string => {
+  const date = new Date(value)
+  const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60))
+
+  if (diffInMinutes < 1) return 'Just now'
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`
+
+  const diffInHours = Math.floor(diffInMinutes / 60)
+  if (diffInHours < 24) return `${diffInHours}h ago`
+
+  const diffInDays = Math.floor(diffInHours / 24)
+  if (diffInDays < 7) return `${diffInDays}d ago`
+
+  return date.toLocaleDateString()
+}
+
+// ===============================
+// PREFERENCES
+// ===============================
+
+export type NotificationPreferences = Database['public']['Tables']['notification_preferences']['Row']
+
+export type NotificationPreferencesUpdate = Partial<Omit<NotificationPreferences, 'user_id' | 'created_at' | 'updated_at'>>
+
+/**
+ * Preference settings used when a user has not saved any (matches column defaults)
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: Required<NotificationPreferencesUpdate> = {
+  follow_up_overdue: true,
+  contract_expiring: true,
+  contract_expiring_days: 90,
+  principal_stale: true,
+  opportunity_overdue: true
+}
+
+// ===============================
+// ALERT SOURCES
+// ===============================
+
+export interface FollowUpSourceRow {
+  interaction_id: string
+  subject: string
+  follow_up_date: string
+  opportunity_name: string | null
+  organization_name: string | null
+}
+
+export interface ContractSourceRow {
+  product_principal_id: string
+  product_id: string
+  principal_id: string
+  product_name: string | null
+  principal_name: string | null
+  contract_end_date: string
+}
+
+export interface StalePrincipalSourceRow {
+  principal_id: string
+  principal_name: string
+  last_activity_date: string | null
+}
+
+export interface OpportunitySourceRow {
+  id: string
+  name: string
+  stage: string
+  expected_close_date: string
+}
+
+/**
+ * Records the notification rules evaluate
+ */
+export interface NotificationSources {
+  followUps: FollowUpSourceRow[]
+  contracts: ContractSourceRow[]
+  stalePrincipals: StalePrincipalSourceRow[]
+  opportunities: OpportunitySourceRow[]
+}
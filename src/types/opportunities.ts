@@ -1,7 +1,7 @@
 import * as yup from 'yup'
 
 /**
- * Opportunity Stage Enum - 7-stage sales pipeline
+ * Opportunity Stage Enum - 7-stage sales pipeline plus terminal lost stage
  */
 export enum OpportunityStage {
   NEW_LEAD = 'New Lead',
@@ -10,7 +10,30 @@ export enum OpportunityStage {
   AWAITING_RESPONSE = 'Awaiting Response',
   FEEDBACK_LOGGED = 'Feedback Logged',
   DEMO_SCHEDULED = 'Demo Scheduled',
-  CLOSED_WON = 'Closed - Won'
+  CLOSED_WON = 'Closed - Won',
+  CLOSED_LOST = 'Closed - Lost'
+}
+
+/**
+ * Loss Reason Enum - Why a deal ended in Closed - Lost
+ */
+export enum LossReason {
+  PRICE = 'Price',
+  DISTRIBUTOR_NOT_CARRYING = 'Distributor Not Carrying',
+  COMPETITOR = 'Competitor',
+  NO_FOLLOW_UP = 'No Follow-up',
+  PRODUCT_FIT = 'Product Fit',
+  TIMING = 'Timing',
+  NO_DECISION = 'No Decision',
+  OTHER = 'Other'
+}
+
+/**
+ * Deal Value Source Enum - How an opportunity's estimated value was determined
+ */
+export enum DealValueSource {
+  CALCULATED = 'calculated', // cases per week × case price × term
+  MANUAL = 'manual'
 }
 
 /**
@@ -38,9 +61,20 @@ export interface Opportunity {
   context: OpportunityContext | null
   probability_percent: number | null
   expected_close_date: string | null
+  estimated_value: number | null
+  currency_code: string
+  estimated_cases_per_week: number | null
+  unit_price: number | null
+  term_weeks: number | null
+  value_source: DealValueSource
   deal_owner: string | null
   notes: string | null
   is_won: boolean
+  is_lost: boolean
+  lost_reason: LossReason | null
+  lost_date: string | null
+  competitor_info: string | null
+  lost_notes: string | null
   auto_generated_name: boolean
   name_template: string | null
   created_at: string
@@ -55,11 +89,18 @@ export interface Opportunity {
 export interface OpportunityInsert {
   name: string
   organization_id: string
+  principal_id?: string | null
   stage: OpportunityStage
   product_id?: string | null
   context?: OpportunityContext | null
   probability_percent?: number | null
   expected_close_date?: string | null
+  estimated_value?: number | null
+  currency_code?: string
+  estimated_cases_per_week?: number | null
+  unit_price?: number | null
+  term_weeks?: number | null
+  value_source?: DealValueSource
   deal_owner?: string | null
   notes?: string | null
   auto_generated_name?: boolean
@@ -77,10 +118,31 @@ export interface OpportunityUpdate {
   context?: OpportunityContext | null
   probability_percent?: number | null
   expected_close_date?: string | null
+  estimated_value?: number | null
+  currency_code?: string
+  estimated_cases_per_week?: number | null
+  unit_price?: number | null
+  term_weeks?: number | null
+  value_source?: DealValueSource
   deal_owner?: string | null
   notes?: string | null
   auto_generated_name?: boolean
   name_template?: string | null
+  is_lost?: boolean
+  lost_reason?: LossReason | null
+  lost_date?: string | null
+  competitor_info?: string | null
+  lost_notes?: string | null
+  advance_on_authorization_to?: OpportunityStage | null
+}
+
+/**
+ * Loss details captured when an opportunity moves to Closed - Lost
+ */
+export interface OpportunityLossDetails {
+  lost_reason: LossReason
+  competitor_info?: string | null
+  lost_notes?: string | null
 }
 
 /**
@@ -92,8 +154,12 @@ export interface OpportunityListView {
   stage: OpportunityStage
   probability_percent: number | null
   expected_close_date: string | null
+  estimated_value: number | null
+  currency_code: string
   deal_owner: string | null
   is_won: boolean
+  is_lost: boolean
+  lost_reason: LossReason | null
   created_at: string
   updated_at: string
   notes: string | null // Added missing notes property
@@ -120,6 +186,13 @@ export interface OpportunityListView {
  * Comprehensive opportunity with all related data for detail views
  */
 export interface OpportunityDetailView extends OpportunityListView {
+  // Deal value details
+  actual_value: number | null
+  estimated_cases_per_week: number | null
+  unit_price: number | null
+  term_weeks: number | null
+  value_source: DealValueSource
+  
   organization_id: string
   product_id: string | null
   context: OpportunityContext | null
@@ -129,15 +202,24 @@ export interface OpportunityDetailView extends OpportunityListView {
   created_by: string | null
   deleted_at: string | null
   
+  // Loss details (populated when stage is Closed - Lost)
+  lost_date: string | null
+  competitor_info: string | null
+  lost_notes: string | null
+
+  // Stage to move to once the product is authorized at the organization's distributor
+  advance_on_authorization_to: OpportunityStage | null
+  
   // Full organization details
   organization_address: string | null
   organization_phone: string | null
   organization_email: string | null
   
-  // Principal organization details
+  // Principal organization details (primary principal)
   principal_address: string | null
   principal_phone: string | null
   principal_email: string | null
+  principals: OpportunityPrincipalDetail[] // Primary first, with contribution splits
   
   // Product details
   product_description: string | null
@@ -166,6 +248,67 @@ export interface OpportunityFormData {
   notes: string | null
   auto_generate_name: boolean
   name_template: string | null
+  value_source?: DealValueSource
+  estimated_value?: number | null
+  currency_code?: string
+  estimated_cases_per_week?: number | null
+  unit_price?: number | null
+  term_weeks?: number | null
+  lost_reason?: LossReason | null
+  competitor_info?: string | null
+  lost_notes?: string | null
+  principal_mode?: PrincipalMode
+  principal_links?: OpportunityPrincipalLink[] // Contribution splits in shared mode
+}
+
+/**
+ * How multiple selected principals are saved: one shared opportunity with
+ * contribution splits, or one opportunity per principal
+ */
+export type PrincipalMode = 'shared' | 'separate'
+
+/**
+ * Principal on an opportunity with its share of the deal
+ */
+export interface OpportunityPrincipalLink {
+  principal_id: string
+  contribution_percent: number
+  is_primary: boolean
+}
+
+/**
+ * Principal link with the principal's name for display
+ */
+export interface OpportunityPrincipalDetail extends OpportunityPrincipalLink {
+  principal_name: string
+}
+
+/**
+ * Opportunity as seen from one principal, with its share and weighted value
+ */
+export interface PrincipalOpportunityShare {
+  opportunity_id: string
+  principal_id: string
+  name: string
+  stage: OpportunityStage
+  probability_percent: number | null
+  expected_close_date: string | null
+  estimated_value: number | null
+  currency_code: string
+  deal_owner: string | null
+  is_won: boolean
+  is_lost: boolean
+  notes: string | null
+  created_at: string
+  updated_at: string
+  organization_id: string
+  organization_name: string
+  product_id: string | null
+  product_name: string | null
+  is_primary: boolean
+  contribution_percent: number
+  principal_count: number
+  weighted_value: number
 }
 
 /**
@@ -200,9 +343,14 @@ export interface OpportunityKPIs {
   total_opportunities: number
   active_opportunities: number
   won_opportunities: number
+  lost_opportunities: number
   average_probability: number
-  total_pipeline_value: number
+  // Deal values are summed per currency, never across currencies
+  total_pipeline_value: CurrencyAmount[]
+  weighted_pipeline_value: CurrencyAmount[]
+  expected_close_this_quarter: CurrencyAmount[]
   won_this_month: number
+  lost_this_month: number
   conversion_rate: number
   average_days_to_close: number
   win_rate: number
@@ -213,12 +361,99 @@ export interface OpportunityKPIs {
     [K in OpportunityStage]: number
   }
   
+  // Loss analysis
+  loss_reason_distribution: {
+    [K in LossReason]: number
+  }
+  
+  // Probability-weighted forecast by expected close quarter
+  quarter_forecast: QuarterForecast[]
+  
   // Recent activity
   created_this_week: number
   updated_this_week: number
   closed_this_week: number
 }
 
+/**
+ * Total of deal values in one currency
+ */
+export interface CurrencyAmount {
+  currency_code: string
+  value: number
+}
+
+/**
+ * Forecast bucket for one calendar quarter of expected close dates in one
+ * currency
+ */
+export interface QuarterForecast {
+  quarter: string // e.g. "2025-Q3"
+  currency_code: string
+  start_date: string
+  end_date: string
+  opportunity_count: number
+  pipeline_value: number
+  weighted_value: number
+}
+
+/**
+ * Stage history entry - one recorded stage transition
+ */
+export interface OpportunityStageHistoryEntry {
+  id: string
+  opportunity_id: string
+  from_stage: OpportunityStage | null
+  to_stage: OpportunityStage
+  changed_by: string | null
+  changed_at: string
+  note: string | null
+  
+  // Calculated fields
+  duration_days: number | null // Days spent in to_stage (null while still in it)
+}
+
+/**
+ * Average time spent in a pipeline stage
+ */
+export interface StageDwellTime {
+  stage: OpportunityStage
+  avg_days_in_stage: number
+  median_days_in_stage: number
+  completed_visits: number
+  current_count: number
+  max_current_days: number
+}
+
+/**
+ * Opportunities that entered a stage, by the furthest stage they reached
+ * from then on (opportunity_stage_funnel_view)
+ */
+export interface StageProgressCount {
+  stage: OpportunityStage
+  furthest_stage: OpportunityStage
+  opportunities: number
+}
+
+/**
+ * Stage-to-stage conversion step for pipeline funnels
+ */
+export interface StageConversionStep {
+  from_stage: OpportunityStage
+  to_stage: OpportunityStage
+  entered: number
+  converted: number
+  conversion_rate: number
+}
+
+/**
+ * Pipeline stage analytics - dwell times and conversion funnel
+ */
+export interface StagePipelineAnalytics {
+  dwell_times: StageDwellTime[]
+  funnel: StageConversionStep[]
+}
+
 /**
  * Search and filter parameters
  */
@@ -226,6 +461,8 @@ export interface OpportunityFilters {
   search?: string
   stage?: OpportunityStage[]
   organization_id?: string
+  /** Customer territory id, or UNASSIGNED_TERRITORY for customers outside every territory */
+  territory_id?: string
   principal_id?: string
   product_id?: string
   deal_owner?: string
@@ -236,6 +473,8 @@ export interface OpportunityFilters {
   expected_close_after?: string
   expected_close_before?: string
   is_won?: boolean
+  is_lost?: boolean
+  lost_reason?: LossReason[]
   context?: OpportunityContext[]
 }
 
@@ -261,6 +500,21 @@ export interface OpportunityListResponse {
   has_previous: boolean
 }
 
+/**
+ * Currencies offered for deal values (ISO 4217)
+ */
+export const SUPPORTED_CURRENCIES = ['USD', 'CAD', 'MXN', 'EUR', 'GBP']
+
+/**
+ * Default currency for new opportunities
+ */
+export const DEFAULT_CURRENCY = 'USD'
+
+/**
+ * Default projection term for calculated deal values (one year)
+ */
+export const DEFAULT_TERM_WEEKS = 52
+
 /**
  * Yup validation schema for opportunity forms
  */
@@ -330,6 +584,62 @@ export const opportunityValidationSchema = yup.object({
   name_template: yup
     .string()
     .max(500, 'Name template must be less than 500 characters')
+    .nullable(),
+
+  value_source: yup
+    .string()
+    .oneOf(Object.values(DealValueSource), 'Invalid value source')
+    .default(DealValueSource.MANUAL),
+
+  estimated_value: yup
+    .number()
+    .min(0, 'Deal value cannot be negative')
+    .nullable(),
+
+  currency_code: yup
+    .string()
+    .oneOf(SUPPORTED_CURRENCIES, 'Unsupported currency')
+    .default(DEFAULT_CURRENCY),
+
+  estimated_cases_per_week: yup
+    .number()
+    .integer('Cases per week must be a whole number')
+    .min(0, 'Cases per week cannot be negative')
+    .nullable()
+    .when('value_source', {
+      is: DealValueSource.CALCULATED,
+      then: (schema) => schema.required('Cases per week is required to calculate the deal value')
+    }),
+
+  unit_price: yup
+    .number()
+    .min(0, 'Case price cannot be negative')
+    .nullable(),
+
+  term_weeks: yup
+    .number()
+    .integer('Term must be a whole number of weeks')
+    .min(1, 'Term must be at least 1 week')
+    .max(520, 'Term cannot exceed 520 weeks')
+    .nullable(),
+
+  lost_reason: yup
+    .string()
+    .oneOf([...Object.values(LossReason), ''], 'Invalid loss reason selected')
+    .nullable()
+    .when('stage', {
+      is: OpportunityStage.CLOSED_LOST,
+      then: (schema) => schema.required('Loss reason is required for lost opportunities')
+    }),
+
+  competitor_info: yup
+    .string()
+    .max(255, 'Competitor name must be less than 255 characters')
+    .nullable(),
+
+  lost_notes: yup
+    .string()
+    .max(2000, 'Loss notes must be less than 2000 characters')
     .nullable()
 })
 
@@ -338,17 +648,64 @@ export const opportunityValidationSchema = yup.object({
  */
 export type OpportunityFormValidation = yup.InferType<typeof opportunityValidationSchema>
 
+/**
+ * Yup validation schema for loss details on stage change
+ */
+export const opportunityLossSchema = yup.object({
+  lost_reason: yup
+    .string()
+    .required('Loss reason is required')
+    .oneOf(Object.values(LossReason), 'Invalid loss reason selected'),
+
+  competitor_info: yup
+    .string()
+    .max(255, 'Competitor name must be less than 255 characters')
+    .nullable()
+    .when('lost_reason', {
+      is: LossReason.COMPETITOR,
+      then: (schema) => schema.required('Competitor name is required when lost to a competitor')
+    }),
+
+  lost_notes: yup
+    .string()
+    .max(2000, 'Loss notes must be less than 2000 characters')
+    .nullable()
+})
+
 /**
  * Stage progression mapping for business logic
  */
 export const STAGE_PROGRESSION: { [K in OpportunityStage]: OpportunityStage[] } = {
-  [OpportunityStage.NEW_LEAD]: [OpportunityStage.INITIAL_OUTREACH],
-  [OpportunityStage.INITIAL_OUTREACH]: [OpportunityStage.SAMPLE_VISIT_OFFERED, OpportunityStage.AWAITING_RESPONSE],
-  [OpportunityStage.SAMPLE_VISIT_OFFERED]: [OpportunityStage.AWAITING_RESPONSE],
-  [OpportunityStage.AWAITING_RESPONSE]: [OpportunityStage.FEEDBACK_LOGGED, OpportunityStage.INITIAL_OUTREACH],
-  [OpportunityStage.FEEDBACK_LOGGED]: [OpportunityStage.DEMO_SCHEDULED, OpportunityStage.CLOSED_WON],
-  [OpportunityStage.DEMO_SCHEDULED]: [OpportunityStage.CLOSED_WON, OpportunityStage.FEEDBACK_LOGGED],
-  [OpportunityStage.CLOSED_WON]: []
+  [OpportunityStage.NEW_LEAD]: [OpportunityStage.INITIAL_OUTREACH, OpportunityStage.CLOSED_LOST],
+  [OpportunityStage.INITIAL_OUTREACH]: [OpportunityStage.SAMPLE_VISIT_OFFERED, OpportunityStage.AWAITING_RESPONSE, OpportunityStage.CLOSED_LOST],
+  [OpportunityStage.SAMPLE_VISIT_OFFERED]: [OpportunityStage.AWAITING_RESPONSE, OpportunityStage.CLOSED_LOST],
+  [OpportunityStage.AWAITING_RESPONSE]: [OpportunityStage.FEEDBACK_LOGGED, OpportunityStage.INITIAL_OUTREACH, OpportunityStage.CLOSED_LOST],
+  [OpportunityStage.FEEDBACK_LOGGED]: [OpportunityStage.DEMO_SCHEDULED, OpportunityStage.CLOSED_WON, OpportunityStage.CLOSED_LOST],
+  [OpportunityStage.DEMO_SCHEDULED]: [OpportunityStage.CLOSED_WON, OpportunityStage.FEEDBACK_LOGGED, OpportunityStage.CLOSED_LOST],
+  [OpportunityStage.CLOSED_WON]: [],
+  [OpportunityStage.CLOSED_LOST]: [OpportunityStage.NEW_LEAD]
+}
+
+/**
+ * Terminal stages - opportunities in these stages are no longer in the active pipeline
+ */
+export const CLOSED_STAGES: OpportunityStage[] = [
+  OpportunityStage.CLOSED_WON,
+  OpportunityStage.CLOSED_LOST
+]
+
+/**
+ * Check whether a stage is terminal (won or lost)
+ */
+export const isClosedStage = (stage: OpportunityStage): boolean => {
+  return CLOSED_STAGES.includes(stage)
+}
+
+/**
+ * Check whether an opportunity may move directly from one stage to another
+ */
+export const canMoveToStage = (from: OpportunityStage, to: OpportunityStage): boolean => {
+  return STAGE_PROGRESSION[from].includes(to)
 }
 
 /**
@@ -361,7 +718,8 @@ export const STAGE_DEFAULT_PROBABILITY: { [K in OpportunityStage]: number } = {
   [OpportunityStage.AWAITING_RESPONSE]: 40,
   [OpportunityStage.FEEDBACK_LOGGED]: 60,
   [OpportunityStage.DEMO_SCHEDULED]: 80,
-  [OpportunityStage.CLOSED_WON]: 100
+  [OpportunityStage.CLOSED_WON]: 100,
+  [OpportunityStage.CLOSED_LOST]: 0
 }
 
 /**
@@ -374,5 +732,20 @@ export const STAGE_COLORS: { [K in OpportunityStage]: string } = {
   [OpportunityStage.AWAITING_RESPONSE]: 'orange',
   [OpportunityStage.FEEDBACK_LOGGED]: 'purple',
   [OpportunityStage.DEMO_SCHEDULED]: 'green',
-  [OpportunityStage.CLOSED_WON]: 'emerald'
+  [OpportunityStage.CLOSED_WON]: 'emerald',
+  [OpportunityStage.CLOSED_LOST]: 'red'
+}
+
+/**
+ * Loss reason labels for UI components
+ */
+export const LOSS_REASON_LABELS: { [K in LossReason]: string } = {
+  [LossReason.PRICE]: 'Price too high',
+  [LossReason.DISTRIBUTOR_NOT_CARRYING]: 'Distributor not carrying product',
+  [LossReason.COMPETITOR]: 'Lost to competitor',
+  [LossReason.NO_FOLLOW_UP]: 'No follow-up from customer',
+  [LossReason.PRODUCT_FIT]: 'Product not a fit',
+  [LossReason.TIMING]: 'Bad timing / menu cycle',
+  [LossReason.NO_DECISION]: 'No decision made',
+  [LossReason.OTHER]: 'Other'
 }
\ No newline at end of file
@@ -1,4 +1,11 @@
-import type { OpportunityStage, OpportunityContext } from './opportunities'
+import type {
+  OpportunityStage,
+  OpportunityContext,
+  LossReason,
+  DealValueSource,
+  OpportunityPrincipalLink,
+  PrincipalMode
+} from './opportunities'
 
 /**
  * Form data interface specifically for the OpportunityFormWrapper component
@@ -7,6 +14,7 @@ import type { OpportunityStage, OpportunityContext } from './opportunities'
 export interface OpportunityFormWrapperData {
   // Basic Info
   organizationName: string
+  organizationId: string | null // Organization record when the form was opened from one
   opportunityName: string
   autoGenerateName: boolean
   context: OpportunityContext | null
@@ -14,6 +22,8 @@ export interface OpportunityFormWrapperData {
   
   // Principal Selection
   selectedPrincipals: string[]
+  principalMode: PrincipalMode
+  principalLinks: OpportunityPrincipalLink[] // Contribution splits in shared mode
   
   // Product & Details
   selectedProduct: string
@@ -22,6 +32,22 @@ export interface OpportunityFormWrapperData {
   expectedCloseDate: string | null
   dealOwner: string
   notes: string
+
+  // Loss Details (Closed - Lost only)
+  lostReason: LossReason | ''
+  competitorInfo: string
+  lostNotes: string
+
+  // Deal Value
+  valueSource: DealValueSource
+  estimatedCasesPerWeek: number | null
+  unitPrice: number | null
+  termWeeks: number | null
+  estimatedValue: number | null
+  currencyCode: string
+
+  // Distributor Authorization
+  advanceOnAuthorizationTo: OpportunityStage | '' // Stage to move to once the product is authorized
 }
 
 /**
@@ -30,6 +56,7 @@ export interface OpportunityFormWrapperData {
  */
 export interface OpportunityContextData {
   organizationName?: string
+  organizationId?: string | null
   opportunityName?: string
   autoGenerateName?: boolean
   context?: OpportunityContext | null
@@ -0,0 +1,73 @@
+/**
+ * Opportunity Naming Types
+ * Admin-defined name templates, their tokens and the bulk rename preview
+ * Database Reference: sql/54_opportunity_name_templates.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// TEMPLATES
+// ===============================
+
+export type OpportunityNameTemplate = Database['public']['Tables']['opportunity_name_templates']['Row']
+
+export interface OpportunityNameTemplateFormData {
+  name: string
+  pattern: string
+  description: string
+  is_default: boolean
+  is_active: boolean
+}
+
+export type NameTemplateToken =
+  | 'organization'
+  | 'principal'
+  | 'context'
+  | 'product'
+  | 'sku'
+  | 'deal_owner'
+  | 'month'
+  | 'quarter'
+  | 'year'
+  | 'date'
+
+export type NameTemplateValues = Partial<Record<NameTemplateToken, string | null>>
+
+export const NAME_TEMPLATE_TOKENS: Array<{ value: NameTemplateToken; label: string; example: string }> = [
+  { value: 'organization', label: 'Organization', example: 'TechFlow Solutions' },
+  { value: 'principal', label: 'Principal', example: 'Jennifer Martinez' },
+  { value: 'context', label: 'Context', example: 'NEW_BUSINESS' },
+  { value: 'product', label: 'Product', example: 'Premium Olive Oil' },
+  { value: 'sku', label: 'SKU', example: 'OIL-500' },
+  { value: 'deal_owner', label: 'Deal owner', example: 'Sam Lee' },
+  { value: 'month', label: 'Month', example: 'January' },
+  { value: 'quarter', label: 'Quarter', example: 'Q1' },
+  { value: 'year', label: 'Year', example: '2025' },
+  { value: 'date', label: 'Month and year', example: 'January 2025' }
+]
+
+/**
+ * Pattern used when no default template is configured
+ */
+export const DEFAULT_NAME_TEMPLATE = '{{organization}} - {{principal}} - {{context}} - {{month}} {{year}}'
+
+// ===============================
+// BULK RENAME
+// ===============================
+
+/**
+ * Auto-named opportunity whose regenerated name differs from its current one
+ */
+export interface OpportunityRenamePreview {
+  id: string
+  current_name: string
+  new_name: string
+  organization_name: string
+  principal_name: string | null
+}
+
+export interface OpportunityRenameResult {
+  renamed: number
+  failed: Array<{ id: string; error: string }>
+}
@@ -0,0 +1,70 @@
+/**
+ * Organization Document Types
+ * Stored organization files, their versions and preview support
+ * Database Reference: sql/11_organization_interactions_schema.sql,
+ * sql/44_organization_document_storage.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// DOCUMENTS
+// ===============================
+
+export type OrganizationDocumentRow = Database['public']['Tables']['organization_documents']['Row']
+
+export type OrganizationDocumentInsert = Database['public']['Tables']['organization_documents']['Insert']
+
+/**
+ * A document with every uploaded version, newest first
+ */
+export interface OrganizationDocumentGroup {
+  /** Id of the first version; later versions point at it */
+  rootId: string
+  latest: OrganizationDocumentRow
+  versions: OrganizationDocumentRow[]
+}
+
+/**
+ * How a document can be shown in the app
+ */
+export type DocumentPreviewKind = 'pdf' | 'image' | 'none'
+
+// ===============================
+// STORAGE
+// ===============================
+
+export const ORGANIZATION_DOCUMENTS_BUCKET = 'organization-documents'
+
+/**
+ * Matches the bucket file_size_limit (50 MB)
+ */
+export const MAX_DOCUMENT_SIZE_BYTES = 50 * 1024 * 1024
+
+/**
+ * Signed URL lifetime in seconds
+ */
+export const SIGNED_URL_TTL_SECONDS = 60 * 10
+
+export const DOCUMENT_ACCEPT = '.pdf,.doc,.docx,.txt,.png,.jpg,.jpeg,.gif,.webp,.csv,.xlsx,.xls'
+
+// ===============================
+// CATEGORIES
+// ===============================
+
+export const DOCUMENT_CATEGORIES = [
+  'Spec Sheet',
+  'Price List',
+  'Contract',
+  'Proposal',
+  'Invoice',
+  'Presentation',
+  'Legal',
+  'Marketing',
+  'Technical',
+  'Other'
+] as const
+
+export type DocumentCategory = typeof DOCUMENT_CATEGORIES[number]
+
+export const DEFAULT_DOCUMENT_CATEGORY: DocumentCategory = 'Other'
@@ -130,6 +130,11 @@ export const organizationSchema = yup.object({
     .nullable()
     .max(100, 'State/Province must be less than 100 characters'),
   
+  county: yup
+    .string()
+    .nullable()
+    .max(100, 'County must be less than 100 characters'),
+  
   postal_code: yup
     .string()
     .nullable()
@@ -619,6 +624,7 @@ export interface OrganizationCreateData {
   address_line_2?: string | null;
   city?: string | null;
   state_province?: string | null;
+  county?: string | null;
   postal_code?: string | null;
   country?: string | null;
   founded_year?: number | null;
@@ -0,0 +1,87 @@
+/**
+ * Offline Outbox Types
+ * Interaction, contact and opportunity writes captured while offline and
+ * replayed in order once the connection returns
+ */
+
+// ===============================
+// OUTBOX ENTRIES
+// ===============================
+
+export type OutboxEntity = 'interaction' | 'contact' | 'opportunity'
+
+export type OutboxOperation = 'create' | 'update'
+
+/**
+ * pending  - waiting to be sent
+ * conflict - the record changed on the server after it was edited offline
+ * failed   - the server rejected the write
+ */
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed'
+
+export interface OutboxEntry {
+  /** Client generated id, also the queue order tie-breaker */
+  id: string
+  entity: OutboxEntity
+  operation: OutboxOperation
+  /** Record being written; creates get a client generated id */
+  recordId: string
+  /** Row values for the insert or update */
+  payload: Record<string, unknown>
+  /** updated_at of the record when it was edited; null skips the conflict check */
+  baseUpdatedAt: string | null
+  /** Short description shown in the sync panel */
+  label: string
+  queuedAt: string
+  status: OutboxEntryStatus
+  attempts: number
+  lastError: string | null
+}
+
+export type NewOutboxEntry = Pick<
+  OutboxEntry,
+  'entity' | 'operation' | 'recordId' | 'payload' | 'baseUpdatedAt' | 'label'
+>
+
+/**
+ * Outcome of sending one entry
+ */
+export type OutboxReplayStatus = 'synced' | 'conflict' | 'failed' | 'offline'
+
+export interface OutboxReplayResult {
+  status: OutboxReplayStatus
+  /** Server updated_at after a successful write */
+  updatedAt?: string | null
+  error?: string
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+export const OUTBOX_TABLES = {
+  interaction: 'interactions',
+  contact: 'contacts',
+  opportunity: 'opportunities'
+} as const satisfies Record<OutboxEntity, string>
+
+export const OUTBOX_ENTITY_LABELS: Record<OutboxEntity, string> = {
+  interaction: 'Interaction',
+  contact: 'Contact',
+  opportunity: 'Opportunity'
+}
+
+/**
+ * Window event fired whenever the outbox contents change
+ */
+export const OUTBOX_CHANGED_EVENT = 'outbox-changed'
+
+/**
+ * Background sync tag registered with the service worker
+ */
+export const OUTBOX_SYNC_TAG = 'outbox-sync'
+
+/**
+ * Service worker message asking open pages to replay the outbox
+ */
+export const OUTBOX_SYNC_MESSAGE = 'OUTBOX_SYNC'
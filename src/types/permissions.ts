@@ -0,0 +1,68 @@
+/**
+ * Roles and Permissions
+ * Role-based permission model checked by views and stores. Record visibility
+ * is enforced by RLS; these checks decide which actions the UI offers.
+ * Database Reference: sql/41_user_roles_rbac.sql
+ */
+
+import type { Database } from './database.types'
+import { Constants } from './database.types'
+
+// ===============================
+// ROLES
+// ===============================
+
+export type UserRole = Database['public']['Enums']['user_role']
+
+/**
+ * Whether a value is a known role
+ */
+export const isUserRole = (value: unknown): value is UserRole => {
+  return typeof value === 'string' && (Constants.public.Enums.user_role as readonly string[]).includes(value)
+}
+
+/**
+ * Role for users whose profile has no role yet (matches the column default)
+ */
+export const DEFAULT_USER_ROLE: UserRole = 'broker_rep'
+
+export const USER_ROLE_OPTIONS: Array<{ value: UserRole; label: string; description: string }> = [
+  { value: 'broker_rep', label: 'Broker Rep', description: 'Works their assigned organizations and own opportunities' },
+  { value: 'account_manager', label: 'Account Manager', description: 'Oversees their team\'s accounts and pipeline' },
+  { value: 'principal_manager', label: 'Principal Manager', description: 'Oversees their team and principal product portfolios' },
+  { value: 'admin', label: 'Admin', description: 'Full access, including the product catalog and principals' }
+]
+
+// ===============================
+// PERMISSIONS
+// ===============================
+
+export type Permission =
+  | 'organizations.delete'
+  | 'opportunities.delete'
+  | 'products.manage'
+  | 'principals.manage'
+  | 'territories.manage'
+  | 'email_templates.manage'
+  | 'naming_templates.manage'
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  broker_rep: [],
+  account_manager: ['organizations.delete', 'opportunities.delete', 'email_templates.manage'],
+  principal_manager: ['organizations.delete', 'opportunities.delete', 'principals.manage', 'territories.manage', 'email_templates.manage'],
+  admin: ['organizations.delete', 'opportunities.delete', 'products.manage', 'principals.manage', 'territories.manage', 'email_templates.manage', 'naming_templates.manage']
+}
+
+/**
+ * Whether a role grants a permission
+ */
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean => {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Display label for a role
+ */
+export const getUserRoleLabel = (role: UserRole | null | undefined): string => {
+  return USER_ROLE_OPTIONS.find(option => option.value === role)?.label ?? 'Unknown Role'
+}
@@ -4,6 +4,9 @@ import type {
   Tables, 
   Enums
 } from './database.types'
+import type { PrincipalDistributorStatus } from './distributors'
+import type { EngagementModelFormData } from './engagement'
+import { DEFAULT_ENGAGEMENT_MODEL } from './engagement'
 
 /**
  * =============================================================================
@@ -76,6 +79,12 @@ export interface PrincipalActivitySummary {
   avg_probability_percent: number
   highest_value_opportunity: string | null
   
+  // Shared opportunity metrics (weighted by the principal's contribution)
+  shared_opportunities?: number
+  weighted_active_opportunities?: number
+  weighted_pipeline_value?: number
+  weighted_won_value?: number
+  
   // Product metrics
   product_count: number
   active_product_count: number
@@ -99,7 +108,8 @@ export interface PrincipalActivitySummary {
 
 /**
  * Principal Distributor Relationships - Mapping principals to distributors
- * Based on secure database view for relationship tracking
+ * One row per distributor carrying the principal, or a single DIRECT row for
+ * principals without distributors
  */
 export interface PrincipalDistributorRelationship {
   principal_id: string
@@ -126,6 +136,16 @@ export interface PrincipalDistributorRelationship {
   principal_created_at: string | null
   principal_last_contact: string | null
   distributor_last_contact: string | null
+
+  // Relationship details (null on DIRECT rows)
+  relationship_id: string | null
+  relationship_status: PrincipalDistributorStatus | null
+  authorized_on: string | null
+  ended_on: string | null
+  territory_notes: string | null
+  relationship_notes: string | null
+  item_code_count: number
+  customer_count: number
 }
 
 /**
@@ -686,40 +706,33 @@ export function isPrincipalTimelineEntry(obj: any): obj is PrincipalTimelineEntr
 }
 
 /**
- * Utility function to calculate engagement score
+ * Utility function to estimate an engagement score from summary counts.
+ * Stored scores come from compute_principal_engagement_score, which also
+ * applies the model's half-life, outcomes and type weights.
  */
-export function calculateEngagementScore(summary: PrincipalActivitySummary): number {
-  const weights = {
-    interactions: 0.3,
-    opportunities: 0.4,
-    products: 0.2,
-    recency: 0.1
-  }
-  
-  // Normalize interaction count (0-100 scale)
-  const interactionScore = Math.min(summary.total_interactions * 2, 100)
-  
-  // Normalize opportunity count (0-100 scale)
-  const opportunityScore = Math.min(summary.total_opportunities * 10, 100)
-  
-  // Normalize product count (0-100 scale)  
-  const productScore = Math.min(summary.product_count * 20, 100)
-  
-  // Calculate recency score based on last activity
+export function calculateEngagementScore(
+  summary: PrincipalActivitySummary,
+  model: EngagementModelFormData = DEFAULT_ENGAGEMENT_MODEL
+): number {
+  const interactionScore = Math.min(summary.total_interactions * 100 / model.interaction_target, 100)
+  const opportunityScore = Math.min(summary.total_opportunities * 100 / model.opportunity_target, 100)
+  const productScore = Math.min(summary.product_count * 100 / model.product_target, 100)
+
+  // Recency falls to zero over the model's window
   let recencyScore = 0
   if (summary.last_activity_date) {
     const daysSinceActivity = Math.floor(
       (Date.now() - new Date(summary.last_activity_date).getTime()) / (1000 * 60 * 60 * 24)
     )
-    recencyScore = Math.max(0, 100 - daysSinceActivity)
+    recencyScore = Math.max(0, 100 - daysSinceActivity * 100 / model.recency_window_days)
   }
   
-  return Math.round(
-    interactionScore * weights.interactions +
-    opportunityScore * weights.opportunities +
-    productScore * weights.products +
-    recencyScore * weights.recency
-  )
+  return Math.round((
+    interactionScore * model.interaction_weight +
+    opportunityScore * model.opportunity_weight +
+    productScore * model.product_weight +
+    recencyScore * model.recency_weight
+  ) / 100)
 }
 
 /**
@@ -303,6 +303,7 @@ export interface BulkProductOperation {
   parameters?: {
     category?: ProductCategory
     principal_ids?: string[]
+    principal_terms?: ProductPrincipalTerms
     is_active?: boolean
   }
 }
@@ -320,4 +321,54 @@ export interface BulkProductResult {
     error_message: string
   }[]
   updated_products: Product[]
+  assignment_results?: PrincipalAssignmentResult[]  // Per product/principal report for assign_principals
+}
+
+/**
+ * Contract terms applied to every product/principal pair in a bulk assignment
+ */
+export interface ProductPrincipalTerms {
+  wholesale_price: number | null
+  minimum_order_quantity: number | null
+  lead_time_days: number | null
+  exclusive_rights: boolean
+  territory_restrictions: string[]  // Permitted territory ids; stored as { territory_ids: [...] }
+  contract_start_date: string | null
+  contract_end_date: string | null
+}
+
+/**
+ * Existing product_principals row considered when planning an assignment
+ */
+export interface ExistingPrincipalAssignment {
+  id: string
+  product_id: string
+  principal_id: string
+  exclusive_rights: boolean | null
+  is_active: boolean | null
+  contract_start_date: string | null
+  contract_end_date: string | null
+}
+
+/**
+ * What a bulk assignment will do for one product/principal pair
+ */
+export interface PlannedPrincipalAssignment {
+  product_id: string
+  principal_id: string
+  action: 'create' | 'update' | 'conflict'
+  existing_id: string | null
+  conflicting_principal_id: string | null
+}
+
+/**
+ * Outcome of one product/principal pair in a bulk assignment
+ */
+export interface PrincipalAssignmentResult {
+  product_id: string
+  product_name: string
+  principal_id: string
+  principal_name: string
+  status: 'created' | 'updated' | 'conflict' | 'failed'
+  message: string | null
 }
\ No newline at end of file
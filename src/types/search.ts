@@ -0,0 +1,103 @@
+/**
+ * Global Search Types
+ * Entity types, results and filter prefixes for searching across the CRM
+ * Database Reference: sql/43_global_search.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// ENTITIES
+// ===============================
+
+export type SearchEntityType =
+  | 'organization'
+  | 'principal'
+  | 'contact'
+  | 'opportunity'
+  | 'product'
+  | 'interaction'
+
+/**
+ * Row returned by the search_crm function
+ */
+export type SearchRow = Database['public']['Functions']['search_crm']['Returns'][number]
+
+export const SEARCH_ENTITY_OPTIONS: Array<{
+  value: SearchEntityType
+  label: string
+  pluralLabel: string
+  prefixes: string[]
+}> = [
+  { value: 'organization', label: 'Organization', pluralLabel: 'Organizations', prefixes: ['org', 'organization'] },
+  { value: 'principal', label: 'Principal', pluralLabel: 'Principals', prefixes: ['principal'] },
+  { value: 'contact', label: 'Contact', pluralLabel: 'Contacts', prefixes: ['contact'] },
+  { value: 'opportunity', label: 'Opportunity', pluralLabel: 'Opportunities', prefixes: ['opp', 'opportunity'] },
+  { value: 'product', label: 'Product', pluralLabel: 'Products', prefixes: ['product', 'sku'] },
+  { value: 'interaction', label: 'Interaction', pluralLabel: 'Interactions', prefixes: ['interaction'] }
+]
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = SEARCH_ENTITY_OPTIONS.map(option => option.value)
+
+/**
+ * Display label for a search entity type
+ */
+export const getSearchEntityLabel = (type: SearchEntityType, plural = false): string => {
+  const option = SEARCH_ENTITY_OPTIONS.find(option => option.value === type)
+  if (!option) return type
+  return plural ? option.pluralLabel : option.label
+}
+
+/**
+ * Detail page for a search result
+ */
+export const getSearchResultUrl = (type: SearchEntityType, id: string): string => {
+  switch (type) {
+    case 'organization':
+      return `/organizations/${id}`
+    case 'principal':
+      return `/principals/${id}`
+    case 'contact':
+      return `/contacts/${id}`
+    case 'opportunity':
+      return `/opportunities/${id}`
+    case 'product':
+      return `/products/${id}`
+    case 'interaction':
+      return `/interactions/${id}`
+  }
+}
+
+// ===============================
+// QUERIES & RESULTS
+// ===============================
+
+/**
+ * Search input split into the search term and any type filter,
+ * e.g. "org: acme" or "sku:MAR-12"
+ */
+export interface ParsedSearchQuery {
+  term: string
+  types: SearchEntityType[]
+  skuOnly: boolean
+}
+
+export interface SearchResult {
+  id: string
+  type: SearchEntityType
+  title: string
+  subtitle: string
+  url: string
+  score: number
+}
+
+export interface SearchResultGroup {
+  type: SearchEntityType
+  label: string
+  results: SearchResult[]
+}
+
+/**
+ * Number of recent searches kept per browser
+ */
+export const MAX_RECENT_SEARCHES = 8
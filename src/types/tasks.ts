@@ -0,0 +1,119 @@
+/**
+ * Task Types
+ * To-dos with a due date, priority, assignee and status, linked to
+ * organizations, contacts, opportunities and principals
+ * Database Reference: sql/48_tasks.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// TASKS
+// ===============================
+
+export type TaskStatus = 'OPEN' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED'
+
+export type TaskPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+
+export type TaskRow = Database['public']['Tables']['tasks']['Row']
+
+export type Task = Omit<TaskRow, 'status' | 'priority'> & {
+  status: TaskStatus
+  priority: TaskPriority
+}
+
+/**
+ * Task with the names of its assignee and linked records
+ */
+export interface TaskListItem extends Task {
+  assignee_name: string | null
+  organization_name: string | null
+  contact_name: string | null
+  opportunity_name: string | null
+  principal_name: string | null
+}
+
+/**
+ * Task create / update payload from the task form
+ */
+export interface TaskFormData {
+  title: string
+  description: string | null
+  due_date: string | null
+  priority: TaskPriority
+  status: TaskStatus
+  assigned_to: string | null
+  organization_id: string | null
+  contact_id: string | null
+  opportunity_id: string | null
+  principal_id: string | null
+}
+
+/**
+ * Record a task list or new task is scoped to
+ */
+export type TaskLinkType = 'organization' | 'contact' | 'opportunity' | 'principal'
+
+export interface TaskLink {
+  type: TaskLinkType
+  id: string
+}
+
+export const TASK_LINK_COLUMNS: Record<TaskLinkType, 'organization_id' | 'contact_id' | 'opportunity_id' | 'principal_id'> = {
+  organization: 'organization_id',
+  contact: 'contact_id',
+  opportunity: 'opportunity_id',
+  principal: 'principal_id'
+}
+
+export interface TaskFilters {
+  assigned_to?: string
+  link?: TaskLink
+  include_closed?: boolean
+}
+
+/**
+ * CRM user a task can be assigned to
+ */
+export interface TaskAssignee {
+  id: string
+  name: string
+}
+
+// ===============================
+// DISPLAY
+// ===============================
+
+/**
+ * Due date grouping for open tasks on the My Tasks view
+ */
+export type TaskBucket = 'overdue' | 'today' | 'upcoming' | 'no_date'
+
+export const TASK_BUCKET_LABELS: Record<TaskBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  upcoming: 'Upcoming',
+  no_date: 'No due date'
+}
+
+export const TASK_STATUS_OPTIONS: Array<{ value: TaskStatus; label: string }> = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'IN_PROGRESS', label: 'In progress' },
+  { value: 'COMPLETED', label: 'Completed' },
+  { value: 'CANCELLED', label: 'Cancelled' }
+]
+
+export const TASK_PRIORITY_OPTIONS: Array<{ value: TaskPriority; label: string }> = [
+  { value: 'LOW', label: 'Low' },
+  { value: 'MEDIUM', label: 'Medium' },
+  { value: 'HIGH', label: 'High' },
+  { value: 'URGENT', label: 'Urgent' }
+]
+
+export const getTaskPriorityLabel = (priority: TaskPriority): string => {
+  return TASK_PRIORITY_OPTIONS.find(option => option.value === priority)?.label ?? priority
+}
+
+export const getTaskStatusLabel = (status: TaskStatus): string => {
+  return TASK_STATUS_OPTIONS.find(option => option.value === status)?.label ?? status
+}
@@ -0,0 +1,135 @@
+/**
+ * Territory Types
+ * Sales territories defined by states, ZIP prefixes and counties, the
+ * organization territory lookup and typed product principal restrictions
+ * Database Reference: sql/47_territories.sql
+ */
+
+import type { Database } from './database.types'
+
+// ===============================
+// TERRITORIES
+// ===============================
+
+export type TerritoryRow = Database['public']['Tables']['territories']['Row']
+
+export interface TerritoryCounty {
+  /** Two-letter state code */
+  state: string
+  county: string
+}
+
+export type Territory = Omit<TerritoryRow, 'counties'> & {
+  counties: TerritoryCounty[]
+}
+
+/**
+ * Territory create / update payload from the territory editor
+ */
+export interface TerritoryFormData {
+  name: string
+  description: string | null
+  states: string[]
+  zip_prefixes: string[]
+  counties: TerritoryCounty[]
+  is_active: boolean
+}
+
+/**
+ * Address fields used to place an organization in a territory
+ */
+export interface TerritoryLocation {
+  state_province: string | null
+  postal_code: string | null
+  county: string | null
+}
+
+/**
+ * Filter value for territory selects: a territory id, or every organization
+ * outside all territories
+ */
+export const UNASSIGNED_TERRITORY = 'unassigned'
+
+// ===============================
+// PRODUCT PRINCIPAL RESTRICTIONS
+// ===============================
+
+/**
+ * product_principals.territory_restrictions; no territories means the
+ * principal sells the product everywhere. `regions` holds free-text names
+ * saved before territories existed and is matched to territory names.
+ */
+export interface TerritoryRestrictions {
+  territory_ids: string[]
+  regions: string[]
+}
+
+/**
+ * Outcome of checking an opportunity's customer against a principal's
+ * permitted territories for the product
+ */
+export interface TerritoryRestrictionCheck {
+  principal_id: string
+  principal_name: string
+  allowed: boolean
+  /** Names of the territories the principal may sell the product in */
+  permitted_territories: string[]
+}
+
+// ===============================
+// STATES
+// ===============================
+
+export const US_STATES: Array<{ code: string; name: string }> = [
+  { code: 'AL', name: 'Alabama' },
+  { code: 'AK', name: 'Alaska' },
+  { code: 'AZ', name: 'Arizona' },
+  { code: 'AR', name: 'Arkansas' },
+  { code: 'CA', name: 'California' },
+  { code: 'CO', name: 'Colorado' },
+  { code: 'CT', name: 'Connecticut' },
+  { code: 'DE', name: 'Delaware' },
+  { code: 'DC', name: 'District of Columbia' },
+  { code: 'FL', name: 'Florida' },
+  { code: 'GA', name: 'Georgia' },
+  { code: 'HI', name: 'Hawaii' },
+  { code: 'ID', name: 'Idaho' },
+  { code: 'IL', name: 'Illinois' },
+  { code: 'IN', name: 'Indiana' },
+  { code: 'IA', name: 'Iowa' },
+  { code: 'KS', name: 'Kansas' },
+  { code: 'KY', name: 'Kentucky' },
+  { code: 'LA', name: 'Louisiana' },
+  { code: 'ME', name: 'Maine' },
+  { code: 'MD', name: 'Maryland' },
+  { code: 'MA', name: 'Massachusetts' },
+  { code: 'MI', name: 'Michigan' },
+  { code: 'MN', name: 'Minnesota' },
+  { code: 'MS', name: 'Mississippi' },
+  { code: 'MO', name: 'Missouri' },
+  { code: 'MT', name: 'Montana' },
+  { code: 'NE', name: 'Nebraska' },
+  { code: 'NV', name: 'Nevada' },
+  { code: 'NH', name: 'New Hampshire' },
+  { code: 'NJ', name: 'New Jersey' },
+  { code: 'NM', name: 'New Mexico' },
+  { code: 'NY', name: 'New York' },
+  { code: 'NC', name: 'North Carolina' },
+  { code: 'ND', name: 'North Dakota' },
+  { code: 'OH', name: 'Ohio' },
+  { code: 'OK', name: 'Oklahoma' },
+  { code: 'OR', name: 'Oregon' },
+  { code: 'PA', name: 'Pennsylvania' },
+  { code: 'RI', name: 'Rhode Island' },
+  { code: 'SC', name: 'South Carolina' },
+  { code: 'SD', name: 'South Dakota' },
+  { code: 'TN', name: 'Tennessee' },
+  { code: 'TX', name: 'Texas' },
+  { code: 'UT', name: 'Utah' },
+  { code: 'VT', name: 'Vermont' },
+  { code: 'VA', name: 'Virginia' },
+  { code: 'WA', name: 'Washington' },
+  { code: 'WV', name: 'West Virginia' },
+  { code: 'WI', name: 'Wisconsin' },
+  { code: 'WY', name: 'Wyoming' }
+]
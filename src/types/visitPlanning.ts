@@ -0,0 +1,108 @@
+/**
+ * Visit Planning Types
+ * Organizations to visit in person, grouped by area and ordered into a day
+ * of scheduled Meeting / Event interactions
+ * Database Reference: sql/50_visit_planning.sql
+ */
+
+import type { InteractionType } from './interactions'
+import { INTERACTION_TYPES } from './interactions'
+
+// ===============================
+// CANDIDATES
+// ===============================
+
+export type GeocodeSource = 'postal_code' | 'city'
+
+/**
+ * Organization with open opportunities or pending follow-ups
+ * (visit_plan_candidates row)
+ */
+export interface VisitCandidate {
+  organization_id: string
+  organization_name: string
+  address_line_1: string | null
+  city: string | null
+  state_province: string | null
+  postal_code: string | null
+  territory_id: string | null
+  latitude: number | null
+  longitude: number | null
+  geocode_source: GeocodeSource | null
+  open_opportunity_count: number
+  next_follow_up_date: string | null
+  /** Opportunity the visit is logged against */
+  opportunity_id: string | null
+  opportunity_name: string | null
+}
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+export type LocatedVisitCandidate = VisitCandidate & GeoPoint
+
+export interface VisitCandidateFilters {
+  /** Include organizations whose next follow-up is on or before this date (YYYY-MM-DD) */
+  dueBy: string
+  /** Include every organization with an open opportunity */
+  includeOpenOpportunities: boolean
+  /** Territory id, UNASSIGNED_TERRITORY or '' for all */
+  territoryId: string
+}
+
+// ===============================
+// CLUSTERS AND PLANS
+// ===============================
+
+/**
+ * Nearby stops, labelled by their most common city
+ */
+export interface VisitCluster {
+  id: string
+  label: string
+  center: GeoPoint
+  stops: LocatedVisitCandidate[]
+}
+
+export type VisitInteractionType = Extract<InteractionType, 'Meeting' | 'Event'>
+
+export interface VisitPlanSettings {
+  /** Visit day (YYYY-MM-DD) */
+  date: string
+  /** First visit start (HH:MM) */
+  start_time: string
+  visit_minutes: number
+  /** Average driving speed used to estimate travel time */
+  average_speed_mph: number
+  interaction_type: VisitInteractionType
+}
+
+/**
+ * One stop of the ordered day plan
+ */
+export interface PlannedVisit {
+  stop: LocatedVisitCandidate
+  start: Date
+  end: Date
+  /** Straight-line distance from the previous stop (0 for the first) */
+  distance_miles: number
+  travel_minutes: number
+}
+
+export const CLUSTER_RADIUS_MILES = 15
+
+export const MAX_STOPS_PER_DAY = 8
+
+export const DEFAULT_VISIT_PLAN_SETTINGS: Omit<VisitPlanSettings, 'date'> = {
+  start_time: '09:00',
+  visit_minutes: 45,
+  average_speed_mph: 30,
+  interaction_type: 'Meeting'
+}
+
+export const VISIT_INTERACTION_TYPE_OPTIONS = INTERACTION_TYPES.filter(
+  (option): option is { value: VisitInteractionType; label: string } =>
+    option.value === 'Meeting' || option.value === 'Event'
+)
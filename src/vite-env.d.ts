@@ -7,6 +7,9 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL?: string
   readonly VITE_ENABLE_DEBUG_LOGGING?: string
   readonly VITE_ENABLE_DEV_TOOLS?: string
+  readonly VITE_MAIL_TRANSPORT?: string
+  readonly VITE_MAIL_RELAY_URL?: string
+  readonly VITE_INBOUND_EMAIL_ADDRESS?: string
   readonly MCP_ENABLED?: string
 }
 
@@ -0,0 +1,125 @@
+/**
+ * Mail Relay Edge Function
+ * Receives the JSON message posted by the relay mail transport
+ * (src/services/mailTransport.ts) and sends it over SMTP. The gateway's JWT
+ * check also accepts the public anon key, so the bearer token is resolved to
+ * a signed-in user here and anything else is rejected. Recipients and
+ * reply-to must be plain addresses, and a message has at most
+ * MAX_RECIPIENTS of them.
+ *
+ * Environment:
+ * - SMTP_HOST / SMTP_PORT: defaults reach MailHog's SMTP port from the local
+ *   Supabase containers (host.docker.internal:1025)
+ * - SMTP_USER / SMTP_PASSWORD: optional credentials for a real mail server
+ * - MAIL_FROM: sender address, defaults to crm@example.com
+ * - SUPABASE_URL / SUPABASE_ANON_KEY: provided by the Supabase runtime
+ *
+ * Serve locally with `supabase functions serve mail-relay` and set
+ * VITE_MAIL_RELAY_URL to http://localhost:54321/functions/v1/mail-relay
+ */
+
+import nodemailer from 'npm:nodemailer@6.9.16'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+interface RelayMessage {
+  to: string[]
+  cc?: string[]
+  subject: string
+  text: string
+  reply_to?: string | null
+}
+
+const MAX_RECIPIENTS = 20
+
+// Same pattern the compose panel validates addresses with
+const EMAIL_ADDRESS_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/
+
+const isEmailAddress = (value: unknown): value is string =>
+  typeof value === 'string' && EMAIL_ADDRESS_PATTERN.test(value)
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+}
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+const smtpUser = Deno.env.get('SMTP_USER')
+
+const transporter = nodemailer.createTransport({
+  host: Deno.env.get('SMTP_HOST') || 'host.docker.internal',
+  port: Number(Deno.env.get('SMTP_PORT') || 1025),
+  secure: false,
+  ...(smtpUser ? { auth: { user: smtpUser, pass: Deno.env.get('SMTP_PASSWORD') || '' } } : {})
+})
+
+/**
+ * Reason the message cannot be relayed, or null when it can
+ */
+const validateMessage = (message: Partial<RelayMessage>): string | null => {
+  const to = Array.isArray(message.to) ? message.to : []
+  const cc = message.cc ?? []
+
+  if (to.length === 0) return 'At least one recipient is required'
+  if (!Array.isArray(cc)) return 'cc must be a list of addresses'
+  if (to.length + cc.length > MAX_RECIPIENTS) return `At most ${MAX_RECIPIENTS} recipients are allowed`
+  if (![...to, ...cc].every(isEmailAddress)) return 'Recipients must be email addresses'
+  if (message.reply_to != null && !isEmailAddress(message.reply_to)) return 'reply_to must be an email address'
+  if (typeof message.subject !== 'string' || typeof message.text !== 'string') return 'subject and text are required'
+  return null
+}
+
+/**
+ * Signed-in user behind the request's bearer token; null for the anon key,
+ * expired sessions and requests without a token
+ */
+const getSignedInUser = async (request: Request) => {
+  const authorization = request.headers.get('Authorization')
+  if (!authorization?.startsWith('Bearer ')) return null
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false }
+  })
+  const { data, error } = await supabase.auth.getUser()
+  return error ? null : data.user
+}
+
+Deno.serve(async (request: Request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  if (!await getSignedInUser(request)) {
+    return json({ error: 'Sign in to send email' }, 401)
+  }
+
+  const message = await request.json().catch(() => ({})) as Partial<RelayMessage>
+  const invalid = validateMessage(message)
+  if (invalid) {
+    return json({ error: invalid }, 400)
+  }
+
+  try {
+    const info = await transporter.sendMail({
+      from: Deno.env.get('MAIL_FROM') || 'crm@example.com',
+      to: message.to!,
+      cc: message.cc && message.cc.length > 0 ? message.cc : undefined,
+      replyTo: message.reply_to || undefined,
+      subject: message.subject,
+      text: message.text
+    })
+    return json({ message_id: info.messageId ?? null })
+  } catch (error) {
+    console.error('Error relaying email:', error)
+    return json({ error: error instanceof Error ? error.message : 'SMTP delivery failed' }, 502)
+  }
+})
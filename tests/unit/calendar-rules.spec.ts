@@ -0,0 +1,130 @@
+/**
+ * Calendar Rules Unit Tests
+ *
+ * Covers the interaction calendar helpers:
+ * - Visible ranges for month, week and day views
+ * - Events for scheduled interactions and follow-ups
+ * - Drag rescheduling and time grid placement
+ * - ICS escaping, line folding and document output
+ */
+
+import {
+  getCalendarDays,
+  getCalendarRange,
+  getTimeGridPosition,
+  rescheduleStart,
+  toCalendarEvents
+} from '@/services/calendarRules'
+import { buildIcsCalendar, escapeIcsText, foldIcsLine } from '@/services/icsExport'
+import type { CalendarInteraction } from '@/types/calendar'
+import { describe, expect, test } from 'vitest'
+
+const interaction = (overrides: Partial<CalendarInteraction> = {}): CalendarInteraction => ({
+  id: 'int-1',
+  type: 'Meeting',
+  subject: 'Menu review',
+  status: 'SCHEDULED',
+  interaction_date: new Date(2026, 5, 15, 10, 0).toISOString(),
+  duration_minutes: 60,
+  location: 'Main St Bistro',
+  notes: null,
+  follow_up_required: false,
+  follow_up_date: null,
+  follow_up_notes: null,
+  opportunity_id: 'opp-1',
+  opportunity_name: 'Bistro - Spring Menu',
+  organization_name: 'Main St Bistro',
+  updated_at: '2026-06-01T12:00:00.000Z',
+  ...overrides
+})
+
+describe('getCalendarRange', () => {
+  test('month view covers whole Sunday-start weeks', () => {
+    // June 2026 starts on a Monday and ends on a Tuesday
+    const range = getCalendarRange('month', new Date(2026, 5, 15))
+
+    expect(range.start).toEqual(new Date(2026, 4, 31))
+    expect(range.end).toEqual(new Date(2026, 6, 5))
+    expect(getCalendarDays(range)).toHaveLength(35)
+  })
+
+  test('week and day views', () => {
+    const anchor = new Date(2026, 5, 17, 15, 45)
+
+    expect(getCalendarRange('week', anchor)).toEqual({ start: new Date(2026, 5, 14), end: new Date(2026, 5, 21) })
+    expect(getCalendarRange('day', anchor)).toEqual({ start: new Date(2026, 5, 17), end: new Date(2026, 5, 18) })
+  })
+})
+
+describe('toCalendarEvents', () => {
+  test('creates events for scheduled interactions and follow-ups', () => {
+    const events = toCalendarEvents([
+      interaction({
+        follow_up_required: true,
+        follow_up_date: new Date(2026, 5, 12, 9, 0).toISOString()
+      }),
+      interaction({ id: 'int-2', status: 'COMPLETED' })
+    ])
+
+    expect(events.map(event => event.id)).toEqual(['follow_up:int-1', 'interaction:int-1'])
+    expect(events[0].title).toBe('Follow up: Menu review')
+    expect(events[0].end.getTime() - events[0].start.getTime()).toBe(30 * 60 * 1000)
+    expect(events[1].end).toEqual(new Date(2026, 5, 15, 11, 0))
+  })
+})
+
+describe('rescheduleStart', () => {
+  const start = new Date(2026, 5, 15, 10, 30)
+
+  test('keeps the time of day when moved to another day', () => {
+    expect(rescheduleStart(start, new Date(2026, 5, 18))).toEqual(new Date(2026, 5, 18, 10, 30))
+  })
+
+  test('moves to the hour slot it was dropped on', () => {
+    expect(rescheduleStart(start, new Date(2026, 5, 18), 14)).toEqual(new Date(2026, 5, 18, 14, 30))
+  })
+})
+
+describe('getTimeGridPosition', () => {
+  test('places events within the visible hours', () => {
+    const position = getTimeGridPosition({ start: new Date(2026, 5, 15, 13, 0), end: new Date(2026, 5, 15, 14, 30) })
+
+    expect(position.top).toBeCloseTo(50)
+    expect(position.height).toBeCloseTo(12.5)
+  })
+
+  test('clamps events outside the visible hours', () => {
+    const position = getTimeGridPosition({ start: new Date(2026, 5, 15, 5, 0), end: new Date(2026, 5, 15, 6, 0) })
+
+    expect(position.top).toBe(0)
+    expect(position.height).toBeGreaterThan(0)
+  })
+})
+
+describe('ICS export', () => {
+  test('escapes text values', () => {
+    expect(escapeIcsText('Tasting; bring samples, menus\nand pricing')).toBe('Tasting\\; bring samples\\, menus\\nand pricing')
+  })
+
+  test('folds long lines to 75 characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'x'.repeat(200)}`)
+    const lines = folded.split('\r\n')
+
+    expect(lines[0]).toHaveLength(75)
+    expect(lines.slice(1).every(line => line.startsWith(' ') && line.length <= 75)).toBe(true)
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${'x'.repeat(200)}`)
+  })
+
+  test('builds a calendar document', () => {
+    const ics = buildIcsCalendar(toCalendarEvents([interaction()]), 'CRM Schedule')
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('UID:interaction-int-1@crm')
+    expect(ics).toContain(`DTSTART:${new Date(2026, 5, 15, 10, 0).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+    expect(ics).toContain('DTSTAMP:20260601T120000Z')
+    expect(ics).toContain('LOCATION:Main St Bistro')
+    expect(ics).toContain('DESCRIPTION:Organization: Main St Bistro\\nOpportunity: Bistro - Spring Menu')
+    expect(ics).toContain('CATEGORIES:Meeting')
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Contract Rules Unit Tests
+ *
+ * Covers principal product contract lifecycle helpers:
+ * - Status from contract dates
+ * - 90, 60 and 30 day warning milestones
+ * - Month arithmetic and suggested renewal end dates
+ */
+
+import {
+  addMonthsToDate,
+  getContractStatus,
+  getContractWarningLevel,
+  getDaysUntilExpiry,
+  getRenewalEndDate
+} from '@/services/contractRules'
+import { describe, expect, test } from 'vitest'
+
+const now = new Date(2026, 5, 15, 14, 30)
+
+describe('getContractStatus', () => {
+  test('should derive status from start and end dates', () => {
+    expect(getContractStatus('2026-07-01', '2027-06-30', now)).toBe('PENDING')
+    expect(getContractStatus('2025-01-01', '2026-06-14', now)).toBe('EXPIRED')
+    expect(getContractStatus('2025-01-01', '2026-09-13', now)).toBe('EXPIRING_SOON')
+    expect(getContractStatus('2025-01-01', '2026-09-14', now)).toBe('ACTIVE')
+    expect(getContractStatus(null, null, now)).toBe('ACTIVE')
+  })
+
+  test('should count the end date itself as still in force', () => {
+    expect(getDaysUntilExpiry('2026-06-15', now)).toBe(0)
+    expect(getContractStatus(null, '2026-06-15', now)).toBe('EXPIRING_SOON')
+  })
+})
+
+describe('getContractWarningLevel', () => {
+  test('should return the tightest milestone reached', () => {
+    expect(getContractWarningLevel(120)).toBeNull()
+    expect(getContractWarningLevel(90)).toBe(90)
+    expect(getContractWarningLevel(45)).toBe(60)
+    expect(getContractWarningLevel(12)).toBe(30)
+    expect(getContractWarningLevel(-1)).toBeNull()
+    expect(getContractWarningLevel(null)).toBeNull()
+  })
+})
+
+describe('renewal dates', () => {
+  test('should clamp to the end of shorter months', () => {
+    expect(addMonthsToDate('2026-01-31', 1)).toBe('2026-02-28')
+    expect(addMonthsToDate('2027-12-31', 2)).toBe('2028-02-29')
+    expect(addMonthsToDate('2026-06-30', 12)).toBe('2027-06-30')
+  })
+
+  test('should extend from the current end date, or from today once lapsed', () => {
+    expect(getRenewalEndDate('2026-08-31', 12, now)).toBe('2027-08-31')
+    expect(getRenewalEndDate('2026-01-31', 6, now)).toBe('2026-12-15')
+    expect(getRenewalEndDate(null, 3, now)).toBe('2026-09-15')
+  })
+})
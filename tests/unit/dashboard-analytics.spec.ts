@@ -0,0 +1,174 @@
+/**
+ * Dashboard Analytics Unit Tests
+ *
+ * Covers the calculations behind dashboard metrics:
+ * - Period and prior-period resolution
+ * - Response time, product adoption and new pipeline value
+ * - Principal product distribution
+ * - Quarter-over-quarter and year-over-year growth
+ */
+
+import {
+  buildPrincipalProductDistribution,
+  calculateAverageResponseTime,
+  calculateChangePercent,
+  calculateProductAdoptionRate,
+  computeDashboardAnalytics,
+  resolvePeriodRange
+} from '@/services/dashboardAnalytics'
+import { describe, expect, test } from 'vitest'
+
+const now = new Date(2025, 4, 15, 12) // Thu 2025-05-15 12:00, Q2
+
+const opportunity = (id: string, createdAt: Date, overrides: Record<string, unknown> = {}) => ({
+  id,
+  created_at: createdAt.toISOString(),
+  estimated_value: 1000,
+  principal_id: 'p-1',
+  product_id: 'prod-1',
+  principal_name: 'Acme Foods',
+  ...overrides
+})
+
+const interaction = (opportunityId: string, date: Date) => ({
+  opportunity_id: opportunityId,
+  interaction_date: date.toISOString()
+})
+
+describe('resolvePeriodRange', () => {
+  test('should compare month to date with the same span of the previous month', () => {
+    const { current, previous } = resolvePeriodRange({ period: 'month' }, now)
+
+    expect(current.start).toEqual(new Date(2025, 4, 1))
+    expect(current.end).toEqual(now)
+    expect(previous.start).toEqual(new Date(2025, 3, 1))
+    expect(previous.end).toEqual(new Date(2025, 3, 15, 12))
+  })
+
+  test('should start weeks on Monday', () => {
+    const { current, previous } = resolvePeriodRange({ period: 'week' }, now)
+
+    expect(current.start).toEqual(new Date(2025, 4, 12))
+    expect(previous.start).toEqual(new Date(2025, 4, 5))
+  })
+
+  test('should clamp the prior span to the start of the current period', () => {
+    const { previous } = resolvePeriodRange({ period: 'month' }, new Date(2025, 2, 31, 12))
+
+    expect(previous.start).toEqual(new Date(2025, 1, 1))
+    expect(previous.end).toEqual(new Date(2025, 2, 1))
+  })
+
+  test('should compare custom ranges with the preceding range of equal length', () => {
+    const { current, previous } = resolvePeriodRange({
+      period: 'custom',
+      startDate: new Date(2025, 0, 11),
+      endDate: new Date(2025, 0, 20)
+    }, now)
+
+    expect(current.end).toEqual(new Date(2025, 0, 21))
+    expect(previous).toEqual({ start: new Date(2025, 0, 1), end: new Date(2025, 0, 11) })
+  })
+})
+
+describe('calculateChangePercent', () => {
+  test('should return the percentage change', () => {
+    expect(calculateChangePercent(150, 100)).toBe(50)
+    expect(calculateChangePercent(2, 3)).toBe(-33.3)
+  })
+
+  test('should return null without a prior baseline', () => {
+    expect(calculateChangePercent(10, 0)).toBeNull()
+    expect(calculateChangePercent(10, null)).toBeNull()
+  })
+})
+
+describe('calculateAverageResponseTime', () => {
+  const range = resolvePeriodRange({ period: 'month' }, now).current
+
+  test('should average days from creation to first interaction', () => {
+    const result = calculateAverageResponseTime(
+      [opportunity('a', new Date(2025, 4, 2)), opportunity('b', new Date(2025, 4, 5))],
+      [
+        interaction('a', new Date(2025, 4, 6)),
+        interaction('a', new Date(2025, 4, 3)),
+        interaction('b', new Date(2025, 4, 7))
+      ],
+      range
+    )
+
+    expect(result).toBe(1.5)
+  })
+
+  test('should ignore opportunities outside the range or without interactions', () => {
+    expect(calculateAverageResponseTime(
+      [opportunity('a', new Date(2025, 3, 2)), opportunity('b', new Date(2025, 4, 5))],
+      [interaction('a', new Date(2025, 3, 3))],
+      range
+    )).toBeNull()
+  })
+})
+
+describe('calculateProductAdoptionRate', () => {
+  const range = resolvePeriodRange({ period: 'month' }, now).current
+  const productPrincipals = [
+    { product_id: 'prod-1', principal_id: 'p-1', principal_name: 'Acme Foods' },
+    { product_id: 'prod-2', principal_id: 'p-1', principal_name: 'Acme Foods' },
+    { product_id: 'prod-3', principal_id: 'p-2', principal_name: 'Bay Farms' },
+    { product_id: 'prod-4', principal_id: 'p-2', principal_name: 'Bay Farms' }
+  ]
+
+  test('should count assignments with an opportunity in the range', () => {
+    expect(calculateProductAdoptionRate([
+      opportunity('a', new Date(2025, 4, 2)),
+      opportunity('b', new Date(2025, 4, 3)),
+      opportunity('c', new Date(2025, 4, 4), { product_id: 'prod-3', principal_id: 'p-2' }),
+      opportunity('d', new Date(2025, 3, 4), { product_id: 'prod-4', principal_id: 'p-2' })
+    ], productPrincipals, range)).toBe(50)
+  })
+
+  test('should return null when no products are assigned', () => {
+    expect(calculateProductAdoptionRate([], [], range)).toBeNull()
+  })
+})
+
+describe('buildPrincipalProductDistribution', () => {
+  test('should count active products and new opportunities per principal', () => {
+    const range = resolvePeriodRange({ period: 'month' }, now).current
+    const distribution = buildPrincipalProductDistribution(
+      [
+        opportunity('a', new Date(2025, 4, 2), { principal_id: 'p-2', principal_name: 'Bay Farms' }),
+        opportunity('b', new Date(2025, 4, 3), { principal_id: 'p-2', principal_name: 'Bay Farms' })
+      ],
+      [
+        { product_id: 'prod-1', principal_id: 'p-1', principal_name: 'Acme Foods' },
+        { product_id: 'prod-2', principal_id: 'p-1', principal_name: 'Acme Foods' },
+        { product_id: 'prod-3', principal_id: 'p-2', principal_name: 'Bay Farms' }
+      ],
+      range
+    )
+
+    expect(distribution).toEqual([
+      { principalId: 'p-2', principalName: 'Bay Farms', productCount: 1, opportunityCount: 2 },
+      { principalId: 'p-1', principalName: 'Acme Foods', productCount: 2, opportunityCount: 0 }
+    ])
+  })
+})
+
+describe('computeDashboardAnalytics', () => {
+  test('should compute growth from new pipeline value to date', () => {
+    const analytics = computeDashboardAnalytics({
+      opportunities: [
+        opportunity('a', new Date(2025, 3, 10), { estimated_value: 3000 }),
+        opportunity('b', new Date(2025, 0, 20), { estimated_value: 2000 }),
+        opportunity('c', new Date(2024, 1, 1), { estimated_value: 2500 })
+      ],
+      interactions: [],
+      productPrincipals: []
+    }, { period: 'month' }, now)
+
+    expect(analytics.quarter_over_quarter_growth).toBe(50)
+    expect(analytics.year_over_year_growth).toBe(100)
+    expect(analytics.new_pipeline_value).toEqual({ current: 0, previous: 3000, change_percent: -100 })
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * Distributor Rules Unit Tests
+ *
+ * Covers principal distributor and item authorization helpers:
+ * - Relationship form checks for statuses and dates
+ * - Authorization status details and duplicate item codes per distributor
+ * - Grouping chain rows by distributor and summarizing reach
+ * - Product coverage across distributors and per-operator authorization
+ */
+
+import {
+  buildDistributorCoverage,
+  checkCustomerAuthorization,
+  groupDistributionChain,
+  summarizeDistributionChain,
+  summarizeDistributorCoverage,
+  validateDistributorItemCode,
+  validatePrincipalDistributor
+} from '@/services/distributorRules'
+import type { PrincipalDistributorRelationship } from '@/types/principal'
+import type {
+  CustomerDistributorListItem,
+  DistributionChainRow,
+  DistributorProductFormData,
+  DistributorProductListItem,
+  PrincipalDistributorFormData,
+  ProductAuthorizationListItem
+} from '@/types/distributors'
+import { describe, expect, test } from 'vitest'
+
+const relationshipForm = (overrides: Partial<PrincipalDistributorFormData> = {}): PrincipalDistributorFormData => ({
+  distributor_id: 'dist-1',
+  status: 'PENDING',
+  authorized_on: '',
+  ended_on: '',
+  territory_notes: '',
+  notes: '',
+  ...overrides
+})
+
+const itemCode = (id: string, productId: string, sku: string | null, productName: string): DistributorProductListItem => ({
+  id,
+  distributor_id: 'dist-1',
+  product_id: productId,
+  authorization_status: sku ? 'AUTHORIZED' : 'REQUESTED',
+  distributor_sku: sku,
+  pack_description: null,
+  requested_on: null,
+  authorized_on: sku ? '2026-01-01' : null,
+  discontinued_on: null,
+  evidence_document_id: null,
+  notes: null,
+  created_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  product_name: productName,
+  product_sku: null,
+  evidence_document_name: null
+})
+
+const itemCodeForm = (overrides: Partial<DistributorProductFormData> = {}): DistributorProductFormData => ({
+  product_id: 'product-3',
+  authorization_status: 'AUTHORIZED',
+  distributor_sku: 'SY-3000',
+  pack_description: '',
+  requested_on: '',
+  authorized_on: '2026-02-01',
+  discontinued_on: '',
+  evidence_document_id: '',
+  notes: '',
+  ...overrides
+})
+
+const authorization = (
+  distributorId: string,
+  distributorName: string,
+  status: ProductAuthorizationListItem['authorization_status']
+): ProductAuthorizationListItem => ({
+  ...itemCode(`auth-${distributorId}`, 'product-1', status === 'AUTHORIZED' ? 'SY-1' : null, 'Tomato Sauce'),
+  distributor_id: distributorId,
+  authorization_status: status,
+  distributor_name: distributorName,
+  distributor_city: null,
+  distributor_state: null
+})
+
+const relationship = (distributorId: string, distributorName: string): PrincipalDistributorRelationship => ({
+  principal_id: 'principal-1',
+  principal_name: 'Acme Foods',
+  distributor_id: distributorId,
+  distributor_name: distributorName,
+  relationship_id: `rel-${distributorId}`,
+  relationship_status: 'AUTHORIZED',
+  distributor_city: null,
+  distributor_state: null
+} as PrincipalDistributorRelationship)
+
+const buysThrough = (distributorId: string, distributorName: string, isPrimary = false): CustomerDistributorListItem => ({
+  id: `link-${distributorId}`,
+  customer_id: 'cust-1',
+  distributor_id: distributorId,
+  is_primary: isPrimary,
+  account_number: null,
+  notes: null,
+  created_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  distributor_name: distributorName,
+  distributor_city: null,
+  distributor_state: null
+})
+
+const chainRow = (overrides: Partial<DistributionChainRow>): DistributionChainRow => ({
+  relationship_id: 'rel-1',
+  principal_id: 'principal-1',
+  principal_name: 'Acme Foods',
+  distributor_id: 'dist-1',
+  distributor_name: 'Sysco',
+  distributor_city: null,
+  distributor_state: null,
+  relationship_status: 'AUTHORIZED',
+  authorized_on: '2026-01-15',
+  customer_id: null,
+  customer_name: null,
+  customer_city: null,
+  customer_state: null,
+  is_primary_distributor: null,
+  account_number: null,
+  has_principal_opportunity: null,
+  ...overrides
+})
+
+describe('validatePrincipalDistributor', () => {
+  test('should require a distributor', () => {
+    expect(validatePrincipalDistributor(relationshipForm({ distributor_id: '' }))).toEqual(['Select a distributor'])
+    expect(validatePrincipalDistributor(relationshipForm())).toEqual([])
+  })
+
+  test('should require the dates that go with authorized and ended statuses', () => {
+    expect(validatePrincipalDistributor(relationshipForm({ status: 'AUTHORIZED' })))
+      .toEqual(['Enter the date the distributor authorized the line'])
+    expect(validatePrincipalDistributor(relationshipForm({ status: 'ENDED', authorized_on: '2026-01-01' })))
+      .toEqual(['Enter the date the relationship ended'])
+  })
+
+  test('should reject an end date before the authorization date', () => {
+    expect(validatePrincipalDistributor(relationshipForm({
+      status: 'ENDED',
+      authorized_on: '2026-03-01',
+      ended_on: '2026-02-01'
+    }))).toEqual(['The end date cannot be before the authorization date'])
+  })
+})
+
+describe('validateDistributorItemCode', () => {
+  const existing = [
+    itemCode('code-1', 'product-1', 'SY-1001', 'Tomato Sauce'),
+    itemCode('code-2', 'product-2', 'SY-1002', 'Pasta')
+  ]
+
+  test('should reject an item code already used at the distributor, ignoring case', () => {
+    expect(validateDistributorItemCode(itemCodeForm({ distributor_sku: ' sy-1001 ' }), existing)).toEqual(['Item code sy-1001 is already used for Tomato Sauce'])
+  })
+
+  test('should reject a second code for the same product', () => {
+    expect(validateDistributorItemCode(itemCodeForm({ product_id: 'product-2', distributor_sku: 'SY-2000' }), existing)).toEqual(['This product already has an item code at this distributor'])
+  })
+
+  test('should ignore the code being edited', () => {
+    expect(validateDistributorItemCode(
+      itemCodeForm({ product_id: 'product-1', distributor_sku: 'SY-1001', pack_description: '6/10' }),
+      existing,
+      'code-1'
+    )).toEqual([])
+  })
+
+  test('should only require the item code and date once authorized', () => {
+    expect(validateDistributorItemCode(itemCodeForm({ authorization_status: 'REQUESTED', distributor_sku: '', authorized_on: '' }), existing))
+      .toEqual([])
+    expect(validateDistributorItemCode(itemCodeForm({ distributor_sku: '', authorized_on: '' }), existing))
+      .toEqual(['Enter the distributor item code', 'Enter the date the item was authorized'])
+  })
+
+  test('should require ordered dates and a discontinuation date', () => {
+    expect(validateDistributorItemCode(itemCodeForm({ authorization_status: 'DISCONTINUED' }), existing))
+      .toEqual(['Enter the date the item was discontinued'])
+    expect(validateDistributorItemCode(itemCodeForm({ requested_on: '2026-03-01' }), existing))
+      .toEqual(['The authorization date cannot be before the request date'])
+  })
+})
+
+describe('groupDistributionChain', () => {
+  test('should group operators under their distributor, live relationships first', () => {
+    const nodes = groupDistributionChain([
+      chainRow({ relationship_id: 'rel-2', distributor_id: 'dist-2', distributor_name: 'US Foods', relationship_status: 'ENDED' }),
+      chainRow({ customer_id: 'cust-2', customer_name: 'Zest Bistro', has_principal_opportunity: true }),
+      chainRow({ customer_id: 'cust-1', customer_name: 'Anchor Grill', is_primary_distributor: true })
+    ])
+
+    expect(nodes.map(node => node.distributor_name)).toEqual(['Sysco', 'US Foods'])
+    expect(nodes[0].customers.map(customer => customer.customer_name)).toEqual(['Anchor Grill', 'Zest Bistro'])
+    expect(nodes[0].customers[0].is_primary_distributor).toBe(true)
+    expect(nodes[1].customers).toEqual([])
+  })
+
+  test('should count operators reached through several distributors once', () => {
+    const summary = summarizeDistributionChain(groupDistributionChain([
+      chainRow({ customer_id: 'cust-1', customer_name: 'Anchor Grill' }),
+      chainRow({ customer_id: 'cust-2', customer_name: 'Zest Bistro' }),
+      chainRow({
+        relationship_id: 'rel-2',
+        distributor_id: 'dist-2',
+        distributor_name: 'US Foods',
+        relationship_status: 'PENDING',
+        customer_id: 'cust-1',
+        customer_name: 'Anchor Grill',
+        has_principal_opportunity: true
+      })
+    ]))
+
+    expect(summary).toEqual({
+      distributorCount: 2,
+      authorizedCount: 1,
+      customerCount: 2,
+      untappedCustomerCount: 1
+    })
+  })
+})
+
+describe('buildDistributorCoverage', () => {
+  test('should merge principal distributors with authorization records, authorized first', () => {
+    const rows = buildDistributorCoverage(
+      [relationship('dist-1', 'Sysco'), relationship('dist-2', 'US Foods'), relationship('dist-3', 'Gordon')],
+      [authorization('dist-2', 'US Foods', 'AUTHORIZED'), authorization('dist-4', 'Shamrock', 'PENDING')]
+    )
+
+    expect(rows.map(row => row.distributor_name)).toEqual(['US Foods', 'Shamrock', 'Gordon', 'Sysco'])
+    expect(rows[0].principals.map(principal => principal.principal_name)).toEqual(['Acme Foods'])
+    expect(rows[1].principals).toEqual([])
+    expect(summarizeDistributorCoverage(rows)).toEqual({
+      distributorCount: 4,
+      authorizedCount: 1,
+      inProgressCount: 1,
+      notRequestedCount: 2,
+      discontinuedCount: 0
+    })
+  })
+})
+
+describe('checkCustomerAuthorization', () => {
+  test('should pass when the product is authorized at any distributor the operator buys through', () => {
+    expect(checkCustomerAuthorization(
+      [buysThrough('dist-1', 'Sysco', true), buysThrough('dist-2', 'US Foods')],
+      [authorization('dist-2', 'US Foods', 'AUTHORIZED')]
+    )).toEqual({ status: 'authorized', distributorName: 'US Foods' })
+  })
+
+  test('should report the primary distributor status otherwise', () => {
+    expect(checkCustomerAuthorization(
+      [buysThrough('dist-2', 'US Foods'), buysThrough('dist-1', 'Sysco', true)],
+      [authorization('dist-1', 'Sysco', 'PENDING'), authorization('dist-3', 'Gordon', 'AUTHORIZED')]
+    )).toEqual({ status: 'not_authorized', distributorName: 'Sysco', authorizationStatus: 'PENDING' })
+    expect(checkCustomerAuthorization([buysThrough('dist-2', 'US Foods')], []))
+      .toEqual({ status: 'not_authorized', distributorName: 'US Foods', authorizationStatus: null })
+    expect(checkCustomerAuthorization([], [])).toEqual({ status: 'no_distributor' })
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Email Template Rules Unit Tests
+ *
+ * Covers the email compose helpers:
+ * - Merge variable rendering and missing values
+ * - Template validation
+ * - Address parsing and outgoing email checks
+ * - mailto: URLs
+ */
+
+import {
+  buildMergeValues,
+  findUnknownVariables,
+  parseEmailAddresses,
+  renderEmailTemplate,
+  validateEmailTemplate,
+  validateOutgoingEmail
+} from '@/services/emailTemplateRules'
+import { buildMailtoUrl } from '@/services/mailTransport'
+import { describe, expect, test } from 'vitest'
+
+const values = buildMergeValues({
+  contact: { id: 'c1', first_name: 'Dana', last_name: 'Reyes', email: 'dana@bistro.com' },
+  organizationName: 'Corner Bistro',
+  opportunity: { id: 'o1', name: 'Spring menu', principal_name: 'Acme Foods', product_name: null },
+  senderName: 'Sam Lee'
+})
+
+describe('renderEmailTemplate', () => {
+  test('fills known variables and tolerates inner spaces', () => {
+    const result = renderEmailTemplate('Hi {{contact.first_name}}, {{ principal.name }} for {{organization.name}}', values)
+
+    expect(result.text).toBe('Hi Dana, Acme Foods for Corner Bistro')
+    expect(result.missing).toEqual([])
+  })
+
+  test('blanks and reports known variables without a value', () => {
+    const result = renderEmailTemplate('About {{product.name}} and {{product.name}}', values)
+
+    expect(result.text).toBe('About  and ')
+    expect(result.missing).toEqual(['product.name'])
+  })
+
+  test('leaves unknown variables as written', () => {
+    expect(renderEmailTemplate('{{contact.nickname}}', values).text).toBe('{{contact.nickname}}')
+  })
+})
+
+describe('validateEmailTemplate', () => {
+  test('rejects unknown variables and case-insensitive duplicate names', () => {
+    const errors = validateEmailTemplate(
+      { name: 'Intro ', subject: 'Hello {{contact.nick}}', body: '{{principal.name}}', is_active: true },
+      ['intro']
+    )
+
+    expect(findUnknownVariables('{{contact.nick}} {{principal.name}}')).toEqual(['contact.nick'])
+    expect(errors).toEqual([
+      'A template named "Intro" already exists',
+      'Unknown variables: {{contact.nick}}'
+    ])
+  })
+
+  test('requires a name and subject', () => {
+    expect(validateEmailTemplate({ name: ' ', subject: '', body: '', is_active: true })).toEqual([
+      'Name is required',
+      'Subject is required'
+    ])
+  })
+})
+
+describe('addresses', () => {
+  test('splits on commas and semicolons and separates invalid entries', () => {
+    expect(parseEmailAddresses('a@x.com; b@y.org, nope ,')).toEqual({
+      addresses: ['a@x.com', 'b@y.org'],
+      invalid: ['nope']
+    })
+  })
+
+  test('requires a recipient and subject before sending', () => {
+    expect(validateOutgoingEmail({ to: [], subject: ' ' }, ['nope'])).toEqual([
+      'Add at least one recipient',
+      'Invalid email addresses: nope',
+      'Subject is required'
+    ])
+  })
+
+  test('builds an encoded mailto URL', () => {
+    const url = buildMailtoUrl({
+      to: ['a@x.com'],
+      cc: ['b@y.org'],
+      subject: 'Hi & welcome',
+      body: 'Line 1\nLine 2',
+      reply_to: null
+    })
+
+    expect(url).toBe('mailto:a%40x.com?cc=b%40y.org&subject=Hi%20%26%20welcome&body=Line%201%0ALine%202')
+  })
+})
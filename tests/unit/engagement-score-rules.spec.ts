@@ -0,0 +1,110 @@
+/**
+ * Engagement Score Rules Unit Tests
+ *
+ * Covers configurable engagement score models:
+ * - Model validation (weights, targets, half-life, outcomes)
+ * - Form values from stored models
+ * - Trend points from the recorded score history
+ */
+
+import {
+  engagementModelToForm,
+  engagementTrendPoints,
+  validateEngagementModel
+} from '@/services/engagementScoreRules'
+import { DEFAULT_ENGAGEMENT_MODEL } from '@/types/engagement'
+import type { EngagementScoreModel, PrincipalEngagementScore } from '@/types/engagement'
+import { describe, expect, test } from 'vitest'
+
+describe('validateEngagementModel', () => {
+  test('accepts the default model', () => {
+    expect(validateEngagementModel(DEFAULT_ENGAGEMENT_MODEL)).toEqual([])
+  })
+
+  test('requires weights to total 100', () => {
+    const errors = validateEngagementModel({ ...DEFAULT_ENGAGEMENT_MODEL, recency_weight: 20 })
+    expect(errors).toEqual(['Weights must total 100 (currently 110)'])
+  })
+
+  test('rejects zero targets, zero half-life and no counted outcomes', () => {
+    const errors = validateEngagementModel({
+      ...DEFAULT_ENGAGEMENT_MODEL,
+      product_target: 0,
+      half_life_days: 0,
+      counted_outcomes: [],
+      count_without_outcome: false
+    })
+    expect(errors).toEqual([
+      'Targets must be greater than zero',
+      'Half-life must be at least one day, or empty for no decay',
+      'Count at least one interaction outcome'
+    ])
+  })
+
+  test('rejects negative type weights', () => {
+    const errors = validateEngagementModel({ ...DEFAULT_ENGAGEMENT_MODEL, type_weights: { Event: -1 } })
+    expect(errors).toEqual(['Interaction type weights cannot be negative'])
+  })
+})
+
+describe('engagementModelToForm', () => {
+  test('falls back to the defaults without a model', () => {
+    expect(engagementModelToForm(null)).toEqual(DEFAULT_ENGAGEMENT_MODEL)
+  })
+
+  test('copies a stored model', () => {
+    const model = {
+      id: 'model-1',
+      principal_id: 'principal-1',
+      interaction_weight: 50,
+      opportunity_weight: 30,
+      product_weight: 10,
+      recency_weight: 10,
+      interaction_target: 20,
+      opportunity_target: 5,
+      product_target: 3,
+      recency_window_days: 60,
+      half_life_days: 30,
+      counted_outcomes: ['POSITIVE'],
+      count_without_outcome: false,
+      type_weights: { Event: 3 },
+      updated_by: null,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z'
+    } as EngagementScoreModel
+
+    const form = engagementModelToForm(model)
+    expect(form.half_life_days).toBe(30)
+    expect(form.counted_outcomes).toEqual(['POSITIVE'])
+    expect(form.type_weights).toEqual({ Event: 3 })
+    expect(validateEngagementModel(form)).toEqual([])
+  })
+})
+
+describe('engagementTrendPoints', () => {
+  const row = (score_date: string, score: number, components: Partial<PrincipalEngagementScore> = {}) => ({
+    id: score_date,
+    principal_id: 'principal-1',
+    model_id: null,
+    computed_at: `${score_date}T00:00:00Z`,
+    score_date,
+    score,
+    interaction_score: 50,
+    opportunity_score: 50,
+    product_score: 50,
+    recency_score: 50,
+    ...components
+  }) as PrincipalEngagementScore
+
+  test('orders points by date and names the component that moved most', () => {
+    const points = engagementTrendPoints([
+      row('2025-03-03', 55, { interaction_score: 60, recency_score: 45 }),
+      row('2025-03-01', 50),
+      row('2025-03-02', 50)
+    ], 'Acme Foods')
+
+    expect(points.map(point => point.date)).toEqual(['2025-03-01', '2025-03-02', '2025-03-03'])
+    expect(points.map(point => point.activity_type)).toEqual(['Recorded', 'No change', 'Interactions +10'])
+    expect(points[2]).toMatchObject({ engagement_score: 55, principal_name: 'Acme Foods' })
+  })
+})
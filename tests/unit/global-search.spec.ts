@@ -0,0 +1,96 @@
+/**
+ * Global Search Unit Tests
+ *
+ * Covers search helpers:
+ * - Type filter prefixes
+ * - Result conversion, ranking and grouping
+ * - Recent search list handling
+ */
+
+import {
+  addRecentSearch,
+  groupSearchResults,
+  parseSearchQuery,
+  rankSearchResults,
+  toSearchResults
+} from '@/services/globalSearch'
+import type { SearchResult } from '@/types/search'
+import { SEARCH_ENTITY_TYPES } from '@/types/search'
+import { describe, expect, test } from 'vitest'
+
+const result = (overrides: Partial<SearchResult>): SearchResult => ({
+  id: 'id-1',
+  type: 'organization',
+  title: 'Acme Foods',
+  subtitle: '',
+  url: '/organizations/id-1',
+  score: 0.5,
+  ...overrides
+})
+
+describe('parseSearchQuery', () => {
+  test('should search every entity type without a prefix', () => {
+    expect(parseSearchQuery('  acme  ')).toEqual({ term: 'acme', types: SEARCH_ENTITY_TYPES, skuOnly: false })
+  })
+
+  test('should limit to organizations with org:', () => {
+    expect(parseSearchQuery('org: Acme Foods')).toEqual({ term: 'Acme Foods', types: ['organization'], skuOnly: false })
+  })
+
+  test('should search product SKUs only with sku:', () => {
+    expect(parseSearchQuery('SKU:MAR-12')).toEqual({ term: 'MAR-12', types: ['product'], skuOnly: true })
+  })
+
+  test('should treat unknown prefixes as plain text', () => {
+    expect(parseSearchQuery('re: pricing').term).toBe('re: pricing')
+  })
+})
+
+describe('toSearchResults', () => {
+  test('should build detail urls and drop unknown entity types', () => {
+    const results = toSearchResults([
+      { entity_type: 'principal', entity_id: 'p-1', title: 'Acme', subtitle: 'Principal', score: 0.8 },
+      { entity_type: 'invoice', entity_id: 'x-1', title: 'Unknown', subtitle: '', score: 1 }
+    ])
+
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({ type: 'principal', url: '/principals/p-1', score: 0.8 })
+  })
+})
+
+describe('rankSearchResults', () => {
+  test('should rank exact and prefix title matches above fuzzy matches', () => {
+    const ranked = rankSearchResults([
+      result({ id: 'fuzzy', title: 'Acne Foods', score: 0.6 }),
+      result({ id: 'contains', title: 'The Acme Company', score: 0.5 }),
+      result({ id: 'exact', title: 'Acme', score: 0.4 }),
+      result({ id: 'prefix', title: 'Acme Foods', score: 0.3 })
+    ], 'acme')
+
+    expect(ranked.map(r => r.id)).toEqual(['exact', 'prefix', 'contains', 'fuzzy'])
+  })
+})
+
+describe('groupSearchResults', () => {
+  test('should group by type with the best group first', () => {
+    const groups = groupSearchResults([
+      result({ id: 'c-1', type: 'contact', title: 'Ann' }),
+      result({ id: 'o-1', type: 'organization' }),
+      result({ id: 'c-2', type: 'contact', title: 'Bob' })
+    ])
+
+    expect(groups.map(g => g.label)).toEqual(['Contacts', 'Organizations'])
+    expect(groups[0].results.map(r => r.id)).toEqual(['c-1', 'c-2'])
+  })
+})
+
+describe('addRecentSearch', () => {
+  test('should move repeated searches to the front without duplicates', () => {
+    expect(addRecentSearch(['acme', 'pasta'], ' Pasta ')).toEqual(['Pasta', 'acme'])
+  })
+
+  test('should cap the list and ignore blank searches', () => {
+    expect(addRecentSearch(['a', 'b', 'c'], 'd', 3)).toEqual(['d', 'a', 'b'])
+    expect(addRecentSearch(['a'], '   ')).toEqual(['a'])
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Import Wizard Unit Tests
+ *
+ * Covers spreadsheet import helpers:
+ * - CSV and XLSX parsing
+ * - Column auto-mapping
+ * - Row validation with the form schemas
+ * - Duplicate detection by name, email and phone
+ * - Per-row report CSV
+ */
+
+import { parseCsv, parseXlsx } from '@/services/importFileParser'
+import {
+  autoMapColumns,
+  buildImportReportCsv,
+  buildImportRows,
+  findDuplicates,
+  getMissingRequiredFields,
+  validateImportRow
+} from '@/services/importRules'
+import { CONTACT_IMPORT_FIELDS, ORGANIZATION_IMPORT_FIELDS } from '@/types/import'
+import { describe, expect, test } from 'vitest'
+
+/**
+ * Minimal workbook whose first sheet ("Customers", stored as
+ * worksheets/customers.xml) holds:
+ *   row 1: Company (shared) | - | Employees (shared)
+ *   row 3: "Acme Foods" (rich text shared string) | - | 42
+ *   row 4: Bistro (inline string)
+ */
+const CUSTOMERS_XLSX =
+  'UEsDBBQAAAAIAHFvU11Z/hhVkwAAAOcAAAAPAAAAeGwvd29ya2Jvb2sueG1sjY87DoNADESvgnyAGFKkQECTNBxjAya7Aq9X9qLk' +
+  '+EEQ+lT+jOaNpnmLzk+RufjwEq0Fn3OqEW3wxM4ukihuyiTKLm+nvtCSkhvNE2Ve8FqWN2QXIhyEWv9hyDSFgR4yrEwxHxClxeUg' +
+  '0XxIBl2zJ9hvFtExtXBfLQuTGhT7ux9bqKDQOmyL9mMF2DV4OvEs130BUEsDBBQAAAAIAHFvU12MnedadgAAAJ8AAAAaAAAAeGwv' +
+  'X3JlbHMvd29ya2Jvb2sueG1sLnJlbHNVzj0OwjAMhuGrVD5AXRgYUJO9K+ICVmqSqs2PbCM4Phnp+OmTHr3zgw+yrRZNW9Phm4+i' +
+  'DpJZuyNqSJxJx9q49OdVJZP1KREbhZ0i43Wabij/BviTOSyrA1nWCwxPksjm4FNl18RsiuGtVjOLjt0H9DOeevwPUEsDBBQAAAAI' +
+  'AHFvU11HiTTRegAAAKwAAAAUAAAAeGwvc2hhcmVkU3RyaW5ncy54bWxVjjEOwjAMRa9S9QC4YmBAIRJCcI+oNaRSHFuxB3p73Jal' +
+  '43vvDz+oWvelUvXWZzO5AuiYkZKeWLB6eXOjZI7tAyoN06QZ0ajAeRguQGmufQw6x2DxwSSpLgEsBljVrp8khRdEPYa2tvtI2O3e' +
+  'eVMv5uk/dd7m4DfjD1BLAwQUAAAACABxb1NdTlleLawAAABAAQAAGwAAAHhsL3dvcmtzaGVldHMvY3VzdG9tZXJzLnhtbF2QbQ6C' +
+  'MAyGr0J2AAtK/GFGEz9u4AkWnLLINtI26PEdxAz0X/u87ZO0+hXpyZ21Urx9H7hRnchwAOC2s97wJg42pOQeyRtJLT2AB7LmNi/5' +
+  'HrZluQdvXFCoZ3YxYlBTfBXUqCrRdiqOlSqkUZz6EUsNI2pov9l5nVU5g+TIol0W7VbD2z/RNDViveAfR50d9exwoXfBXoUSd4xa' +
+  '8ORYKGqQtDmRRQGr2yA/DT9QSwECFAAUAAAACABxb1NdWf4YVZMAAADnAAAADwAAAAAAAAAAAAAAAAAAAAAAeGwvd29ya2Jvb2su' +
+  'eG1sUEsBAhQAFAAAAAgAcW9TXYyd51p2AAAAnwAAABoAAAAAAAAAAAAAAAAAwAAAAHhsL19yZWxzL3dvcmtib29rLnhtbC5yZWxz' +
+  'UEsBAhQAFAAAAAgAcW9TXUeJNNF6AAAArAAAABQAAAAAAAAAAAAAAAAAbgEAAHhsL3NoYXJlZFN0cmluZ3MueG1sUEsBAhQAFAAA' +
+  'AAgAcW9TXU5ZXi2sAAAAQAEAABsAAAAAAAAAAAAAAAAAGgIAAHhsL3dvcmtzaGVldHMvY3VzdG9tZXJzLnhtbFBLBQYAAAAABAAE' +
+  'ABABAAD/AgAAAAA='
+
+describe('parseCsv', () => {
+  test('should handle quoted fields, escaped quotes and blank lines', () => {
+    const sheet = parseCsv('Name,Notes\r\n"Acme, Inc","Says ""hi"""\r\n\r\nBistro,\n')
+
+    expect(sheet.headers).toEqual(['Name', 'Notes'])
+    expect(sheet.rows).toEqual([['Acme, Inc', 'Says "hi"'], ['Bistro', '']])
+  })
+
+  test('should detect semicolon separated files', () => {
+    expect(parseCsv('Name;City\nAcme;Austin').rows).toEqual([['Acme', 'Austin']])
+  })
+
+  test('should keep newlines inside quoted fields', () => {
+    expect(parseCsv('Name,Address\nAcme,"1 Main St\nSuite 2"').rows[0][1]).toBe('1 Main St\nSuite 2')
+  })
+})
+
+describe('parseXlsx', () => {
+  test('should read shared, inline and numeric cells from the first sheet', () => {
+    const sheet = parseXlsx(Buffer.from(CUSTOMERS_XLSX, 'base64'))
+
+    expect(sheet.headers).toEqual(['Company', 'Column 2', 'Employees'])
+    expect(sheet.rows).toEqual([['Acme Foods', '', '42'], ['Bistro', '', '']])
+  })
+})
+
+describe('autoMapColumns', () => {
+  test('should match headers to fields by key, label or alias', () => {
+    const mapping = autoMapColumns(['Company Name', 'Zip', 'E-mail', 'Favorite Color'], ORGANIZATION_IMPORT_FIELDS)
+
+    expect(mapping).toEqual(['name', 'postal_code', 'email', null])
+  })
+
+  test('should map each field once and report missing required fields', () => {
+    const mapping = autoMapColumns(['First Name', 'first_name', 'Last'], CONTACT_IMPORT_FIELDS)
+
+    expect(mapping).toEqual(['first_name', null, 'last_name'])
+    expect(getMissingRequiredFields(mapping, CONTACT_IMPORT_FIELDS).map(field => field.key)).toEqual(['organization_name'])
+  })
+})
+
+describe('validateImportRow', () => {
+  test('should accept a valid organization and match enum values without case', async () => {
+    expect(await validateImportRow('organizations', { name: 'Acme', status: 'prospect' })).toEqual([])
+  })
+
+  test('should report organization and primary contact errors', async () => {
+    const errors = await validateImportRow('organizations', {
+      name: 'Acme',
+      website: 'acme.com',
+      contact_first_name: 'Ann'
+    })
+
+    expect(errors).toContain('Website must be a valid URL starting with http:// or https://')
+    expect(errors).toContain('Contact: Last name is required')
+  })
+
+  test('should require an organization and default the position for contacts', async () => {
+    const errors = await validateImportRow('contacts', { first_name: 'Ann', last_name: 'Lee', email: 'not-an-email' })
+
+    expect(errors).toEqual(['Organization is required', 'Please enter a valid email address'])
+  })
+})
+
+describe('findDuplicates', () => {
+  test('should match existing records by name, email and phone', () => {
+    const [matches] = findDuplicates(
+      'organizations',
+      [{ rowNumber: 2, values: { name: 'ACME Inc.', email: 'x@y.com', primary_phone: '(555) 123-4567' } }],
+      [{ id: 'org-1', name: 'Acme', email: 'sales@acme.com', phone: '555.123.4567' }]
+    )
+
+    expect(matches).toEqual([
+      { source: 'existing', field: 'name', label: 'Acme', recordId: 'org-1' },
+      { source: 'existing', field: 'phone', label: 'Acme', recordId: 'org-1' }
+    ])
+  })
+
+  test('should flag repeated rows within the file', () => {
+    const matches = findDuplicates('contacts', [
+      { rowNumber: 2, values: { first_name: 'Ann', last_name: 'Lee', email: 'ann@bistro.com' } },
+      { rowNumber: 3, values: { first_name: 'Bob', last_name: 'Ray', email: 'ANN@bistro.com' } }
+    ], [])
+
+    expect(matches[0]).toEqual([])
+    expect(matches[1]).toEqual([{ source: 'file', field: 'email', label: 'Row 2', rowNumber: 2 }])
+  })
+})
+
+describe('buildImportRows', () => {
+  test('should select only clean rows for import', async () => {
+    const rows = await buildImportRows(
+      'organizations',
+      { headers: ['Company'], rows: [['Acme'], [''], ['Bistro']] },
+      ['name'],
+      [{ id: 'org-1', name: 'Bistro', email: null, phone: null }]
+    )
+
+    expect(rows.map(row => [row.rowNumber, row.action])).toEqual([[2, 'create'], [3, 'skip'], [4, 'skip']])
+    expect(rows[1].errors).toContain('Organization name is required')
+  })
+})
+
+describe('buildImportReportCsv', () => {
+  test('should quote values containing commas and quotes', () => {
+    const csv = buildImportReportCsv([
+      { rowNumber: 2, status: 'created', message: 'Created organization "Acme, Inc"' }
+    ])
+
+    expect(csv).toBe('Row,Status,Message\r\n2,created,"Created organization ""Acme, Inc"""')
+  })
+})
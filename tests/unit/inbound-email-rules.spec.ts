@@ -0,0 +1,164 @@
+/**
+ * Inbound Email Rules Unit Tests
+ *
+ * Covers dropbox ingestion helpers:
+ * - MIME parsing: addresses, encoded headers, multipart and transfer encodings
+ * - Internal address filtering and organization domains
+ * - Matching by contact address, then organization domain
+ * - Choosing the open opportunity to log against
+ * - Quoting addresses in candidate lookup filters
+ */
+
+import { parseAddressList, parseMimeMessage } from '@/services/mimeParser'
+import {
+  externalAddresses,
+  ilikeCondition,
+  matchInboundEmail,
+  organizationDomains,
+  pickOpportunity
+} from '@/services/inboundEmailRules'
+import type { InboundMatchCandidates, InboundMatchOpportunity } from '@/types/inboundEmail'
+import { describe, expect, test } from 'vitest'
+
+const MULTIPART_MESSAGE = [
+  'From: "Reyes, Dana" <Dana@CornerBistro.com>',
+  'To: Sam Lee <sam@broker.com>,',
+  ' ops@cornerbistro.com',
+  'Cc: undisclosed-recipients:;',
+  'Subject: =?UTF-8?Q?Caf=C3=A9_order?= =?UTF-8?B?IGZvciBzcHJpbmc=?=',
+  'Date: Tue, 14 Apr 2026 09:30:00 -0500',
+  'Message-ID: <abc123@cornerbistro.com>',
+  'Content-Type: multipart/alternative; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Two cases of caf=C3=A9 blend, please.=',
+  ' Thanks!',
+  '--b1',
+  'Content-Type: text/html',
+  '',
+  '<p>Two cases</p>',
+  '--b1--',
+  ''
+].join('\r\n')
+
+const opportunity = (overrides: Partial<InboundMatchOpportunity>): InboundMatchOpportunity => ({
+  id: 'opp-1',
+  name: 'Spring menu',
+  organization_id: 'org-1',
+  stage: 'Demo Scheduled',
+  last_activity_date: '2026-04-01',
+  updated_at: '2026-04-01',
+  ...overrides
+})
+
+describe('parseMimeMessage', () => {
+  test('reads headers, encoded subject and the plain text part', () => {
+    const email = parseMimeMessage(MULTIPART_MESSAGE)
+
+    expect(email.message_id).toBe('abc123@cornerbistro.com')
+    expect(email.from).toEqual({ address: 'dana@cornerbistro.com', name: 'Reyes, Dana' })
+    expect(email.to.map(entry => entry.address)).toEqual(['sam@broker.com', 'ops@cornerbistro.com'])
+    expect(email.cc).toEqual([])
+    expect(email.subject).toBe('Café order for spring')
+    expect(email.sent_at).toBe('2026-04-14T14:30:00.000Z')
+    expect(email.text).toBe('Two cases of café blend, please. Thanks!')
+  })
+
+  test('falls back to HTML text and skips attachments', () => {
+    const raw = [
+      'From: buyer@bistro.com',
+      'Content-Type: multipart/mixed; boundary=outer',
+      '',
+      '--outer',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      btoa('<style>p{}</style><p>Hello &amp; welcome</p><p>Line&nbsp;two</p>'),
+      '--outer',
+      'Content-Type: text/plain',
+      'Content-Disposition: attachment; filename="notes.txt"',
+      '',
+      'attached notes',
+      '--outer--'
+    ].join('\n')
+
+    expect(parseMimeMessage(raw).text).toBe('Hello & welcome\nLine two')
+  })
+
+  test('parses quoted names with commas and ignores non-addresses', () => {
+    expect(parseAddressList('"Lee, Sam" <sam@x.com>, bad-entry, ann@y.org')).toEqual([
+      { address: 'sam@x.com', name: 'Lee, Sam' },
+      { address: 'ann@y.org', name: null }
+    ])
+  })
+})
+
+describe('matching', () => {
+  const email = parseMimeMessage(MULTIPART_MESSAGE)
+  const internal = { addresses: ['crm@broker.com'], domains: ['broker.com'] }
+
+  test('drops dropbox and internal addresses, sender first', () => {
+    expect(externalAddresses(email, internal)).toEqual(['dana@cornerbistro.com', 'ops@cornerbistro.com'])
+  })
+
+  test('reads organization domains from website or email', () => {
+    expect(organizationDomains({ website: 'https://www.CornerBistro.com/menu', email: 'info@bistro-group.com' }))
+      .toEqual(['cornerbistro.com', 'bistro-group.com'])
+    expect(organizationDomains({ website: 'n/a', email: null })).toEqual([])
+  })
+
+  test('prefers a contact address over an organization domain', () => {
+    const candidates: InboundMatchCandidates = {
+      contacts: [{ id: 'c-1', first_name: 'Dana', last_name: 'Reyes', email: 'Dana@CornerBistro.com ', organization_id: 'org-2' }],
+      organizations: [{ id: 'org-1', name: 'Corner Bistro', website: 'cornerbistro.com', email: null }],
+      opportunities: [opportunity({ id: 'opp-2', organization_id: 'org-2' }), opportunity({})]
+    }
+    const addresses = externalAddresses(email, internal)
+
+    const match = matchInboundEmail(email, addresses, candidates)
+    expect(match).toMatchObject({ organization_id: 'org-2', reason: 'contact_email' })
+    expect(match.opportunity?.id).toBe('opp-2')
+
+    const byDomain = matchInboundEmail(email, addresses, { ...candidates, contacts: [] })
+    expect(byDomain).toMatchObject({ contact: null, organization_id: 'org-1', reason: 'organization_domain' })
+  })
+
+  test('never matches organizations by webmail domain', () => {
+    const gmail = parseMimeMessage('From: someone@gmail.com\n\nHi')
+    const match = matchInboundEmail(gmail, ['someone@gmail.com'], {
+      contacts: [],
+      organizations: [{ id: 'org-1', name: 'Home Cook', website: null, email: 'owner@gmail.com' }],
+      opportunities: []
+    })
+
+    expect(match.reason).toBeNull()
+  })
+
+  test('picks an open opportunity named in the subject, else the most recent', () => {
+    const opportunities = [
+      opportunity({ id: 'closed', stage: 'Closed - Won', last_activity_date: '2026-05-01' }),
+      opportunity({ id: 'recent', name: 'Fall launch', last_activity_date: '2026-04-10' }),
+      opportunity({ id: 'named', name: 'Spring menu', last_activity_date: '2026-03-01' })
+    ]
+
+    expect(pickOpportunity(opportunities, 'org-1', 'Re: spring menu pricing')?.id).toBe('named')
+    expect(pickOpportunity(opportunities, 'org-1', 'Quick question')?.id).toBe('recent')
+    expect(pickOpportunity(opportunities, 'org-9', 'Quick question')).toBeNull()
+  })
+})
+
+describe('ilikeCondition', () => {
+  test('quotes values and escapes LIKE wildcards', () => {
+    expect(ilikeCondition('email', 'dana_reyes@bistro.com')).toBe('email.ilike."dana\\\\_reyes@bistro.com"')
+    expect(ilikeCondition('email', 'x),id.neq.(y@a.com')).toBe('email.ilike."x),id.neq.(y@a.com"')
+    expect(ilikeCondition('email', 'a"b@a.com')).toBe('email.ilike."a\\"b@a.com"')
+  })
+
+  test('adds wildcards for contains and suffix matches', () => {
+    expect(ilikeCondition('website', 'bistro.com', 'contains')).toBe('website.ilike."*bistro.com*"')
+    expect(ilikeCondition('email', '@bistro.com', 'suffix')).toBe('email.ilike."*@bistro.com"')
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Name Template Rules Unit Tests
+ *
+ * Covers admin-defined opportunity name templates:
+ * - Rendering tokens, dropping empty tokens with their separator
+ * - Keeping unfilled tokens to bake part of a template
+ * - Date tokens and template validation
+ */
+
+import {
+  dateTokenValues,
+  findUnknownTokens,
+  renderNameTemplate,
+  validateNameTemplate
+} from '@/services/nameTemplateRules'
+import { opportunityNaming } from '@/services/opportunityNaming'
+import { DEFAULT_NAME_TEMPLATE } from '@/types/opportunityNaming'
+import { describe, expect, test } from 'vitest'
+
+describe('renderNameTemplate', () => {
+  const values = {
+    organization: 'Corner Bistro',
+    principal: 'Acme Foods',
+    context: '',
+    product: 'Olive Oil',
+    sku: 'OIL-500',
+    deal_owner: 'Sam Lee',
+    ...dateTokenValues(new Date(2025, 7, 15))
+  }
+
+  test('fills in every token', () => {
+    expect(renderNameTemplate('{{sku}} {{product}} for {{organization}} ({{quarter}} {{year}}) / {{deal_owner}}', values))
+      .toBe('OIL-500 Olive Oil for Corner Bistro (Q3 2025) / Sam Lee')
+  })
+
+  test('drops empty tokens with the separator next to them', () => {
+    expect(renderNameTemplate(DEFAULT_NAME_TEMPLATE, values)).toBe('Corner Bistro - Acme Foods - August 2025')
+    expect(renderNameTemplate(DEFAULT_NAME_TEMPLATE, { ...values, organization: ' ' }))
+      .toBe('Acme Foods - August 2025')
+    expect(renderNameTemplate('{{organization}} - {{month}} {{year}}', { ...values, month: '' }))
+      .toBe('Corner Bistro - 2025')
+    expect(renderNameTemplate('{{organization}} | {{context}} | {{product}}', { ...values, product: null }))
+      .toBe('Corner Bistro')
+  })
+
+  test('keeps tokens without a value and unknown tokens as written', () => {
+    expect(renderNameTemplate(DEFAULT_NAME_TEMPLATE, { context: 'RENEWAL' }))
+      .toBe('{{organization}} - {{principal}} - RENEWAL - {{month}} {{year}}')
+    expect(renderNameTemplate(DEFAULT_NAME_TEMPLATE, { context: '' }))
+      .toBe('{{organization}} - {{principal}} - {{month}} {{year}}')
+    expect(renderNameTemplate('{{organisation}} - {{year}}', values)).toBe('{{organisation}} - 2025')
+  })
+
+  test('re-renders a stored template with new names', () => {
+    const stored = opportunityNaming.generateNameTemplate({
+      organization_name: 'Old Bistro',
+      principal_name: 'Acme Foods',
+      context: 'NEW_BUSINESS',
+      template: '{{organization}} - {{principal}} - {{context}} - {{sku}}'
+    })
+
+    expect(stored).toBe('{{organization}} - {{principal}} - NEW_BUSINESS - {{sku}}')
+    expect(renderNameTemplate(stored, values)).toBe('Corner Bistro - Acme Foods - NEW_BUSINESS - OIL-500')
+  })
+})
+
+describe('dateTokenValues', () => {
+  test('derives month, quarter and year', () => {
+    expect(dateTokenValues(new Date(2025, 0, 31))).toEqual({
+      month: 'January',
+      quarter: 'Q1',
+      year: '2025',
+      date: 'January 2025'
+    })
+    expect(dateTokenValues(new Date(2025, 11, 1)).quarter).toBe('Q4')
+  })
+})
+
+describe('validateNameTemplate', () => {
+  const form = {
+    name: 'By product',
+    pattern: '{{organization}} - {{product}}',
+    description: '',
+    is_default: false,
+    is_active: true
+  }
+
+  test('accepts a pattern of known tokens', () => {
+    expect(validateNameTemplate(form, ['Standard'])).toEqual([])
+  })
+
+  test('reports duplicate names, missing and unknown tokens', () => {
+    expect(validateNameTemplate({ ...form, name: ' standard ' }, ['Standard']))
+      .toEqual(['A template named "standard" already exists'])
+    expect(validateNameTemplate({ ...form, pattern: 'Deal' })).toEqual(['Pattern must contain at least one token'])
+    expect(findUnknownTokens('{{organisation}} {{year}} {{owner}}')).toEqual(['organisation', 'owner'])
+    expect(validateNameTemplate({ ...form, pattern: '{{organisation}} {{year}}' }))
+      .toEqual(['Unknown tokens: {{organisation}}'])
+  })
+
+  test('requires the default template to be active', () => {
+    expect(validateNameTemplate({ ...form, is_default: true, is_active: false }))
+      .toEqual(['The default template must be active'])
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Notification Rules Unit Tests
+ *
+ * Covers alert generation:
+ * - Overdue follow-ups and opportunities
+ * - Contracts nearing their end date
+ * - Stale principals
+ * - Preference filtering and stable source keys
+ */
+
+import { buildNotificationCandidates } from '@/services/notificationRules'
+import type { NotificationSources } from '@/types/notifications'
+import { describe, expect, test } from 'vitest'
+
+const NOW = new Date(2025, 5, 15, 10, 0, 0)
+
+const emptySources = (): NotificationSources => ({
+  followUps: [],
+  contracts: [],
+  stalePrincipals: [],
+  opportunities: []
+})
+
+describe('buildNotificationCandidates', () => {
+  test('should alert on follow-ups due before today only', () => {
+    const sources = emptySources()
+    sources.followUps = [
+      { interaction_id: 'i-1', subject: 'Call back chef', follow_up_date: '2025-06-12', opportunity_name: 'Pasta', organization_name: 'Bistro' },
+      { interaction_id: 'i-2', subject: 'Due today', follow_up_date: '2025-06-15', opportunity_name: null, organization_name: null },
+      { interaction_id: 'i-3', subject: 'Future', follow_up_date: '2025-06-20', opportunity_name: null, organization_name: null }
+    ]
+
+    const candidates = buildNotificationCandidates(sources, undefined, NOW)
+
+    expect(candidates).toHaveLength(1)
+    expect(candidates[0]).toMatchObject({
+      type: 'follow_up_overdue',
+      title: 'Follow-up overdue: Call back chef',
+      entity_id: 'i-1',
+      action_url: '/interactions/i-1',
+      source_key: 'follow_up_overdue:i-1:2025-06-12'
+    })
+    expect(candidates[0].message).toContain('Bistro · Pasta')
+    expect(candidates[0].message).toContain('3 days ago')
+  })
+
+  test('should alert on contracts ending within the lead time', () => {
+    const sources = emptySources()
+    sources.contracts = [
+      { product_principal_id: 'pp-1', product_id: 'p-1', principal_id: 'o-1', product_name: 'Marinara', principal_name: 'Acme Foods', contract_end_date: '2025-06-25' },
+      { product_principal_id: 'pp-2', product_id: 'p-2', principal_id: 'o-1', product_name: 'Pesto', principal_name: 'Acme Foods', contract_end_date: '2025-08-30' },
+      { product_principal_id: 'pp-3', product_id: 'p-3', principal_id: 'o-1', product_name: 'Alfredo', principal_name: 'Acme Foods', contract_end_date: '2025-06-10' }
+    ]
+
+    const candidates = buildNotificationCandidates(sources, { contract_expiring_days: 30 }, NOW)
+
+    expect(candidates.map(c => c.entity_id)).toEqual(['pp-1'])
+    expect(candidates[0].message).toContain('in 10 days')
+    expect(candidates[0].action_url).toBe('/principals/o-1/products')
+  })
+
+  test('should honour a longer contract lead time', () => {
+    const sources = emptySources()
+    sources.contracts = [
+      { product_principal_id: 'pp-2', product_id: 'p-2', principal_id: 'o-1', product_name: 'Pesto', principal_name: 'Acme Foods', contract_end_date: '2025-08-30' }
+    ]
+
+    expect(buildNotificationCandidates(sources, { contract_expiring_days: 90 }, NOW)).toHaveLength(1)
+  })
+
+  test('should alert on stale principals', () => {
+    const sources = emptySources()
+    sources.stalePrincipals = [
+      { principal_id: 'o-2', principal_name: 'Old Farm Co', last_activity_date: '2025-01-10' }
+    ]
+
+    const [candidate] = buildNotificationCandidates(sources, undefined, NOW)
+
+    expect(candidate.type).toBe('principal_stale')
+    expect(candidate.title).toBe('Stale principal: Old Farm Co')
+    expect(candidate.source_key).toBe('principal_stale:o-2:2025-01-10')
+  })
+
+  test('should alert on open opportunities past their expected close date', () => {
+    const sources = emptySources()
+    sources.opportunities = [
+      { id: 'op-1', name: 'Bistro - Pasta', stage: 'Demo Scheduled', expected_close_date: '2025-06-01' },
+      { id: 'op-2', name: 'Won deal', stage: 'Closed - Won', expected_close_date: '2025-06-01' },
+      { id: 'op-3', name: 'Lost deal', stage: 'Closed - Lost', expected_close_date: '2025-06-01' }
+    ]
+
+    const candidates = buildNotificationCandidates(sources, undefined, NOW)
+
+    expect(candidates.map(c => c.entity_id)).toEqual(['op-1'])
+    expect(candidates[0].message).toContain('still in Demo Scheduled')
+  })
+
+  test('should skip alert types the user turned off', () => {
+    const sources = emptySources()
+    sources.followUps = [
+      { interaction_id: 'i-1', subject: 'Call back', follow_up_date: '2025-06-01', opportunity_name: null, organization_name: null }
+    ]
+    sources.opportunities = [
+      { id: 'op-1', name: 'Deal', stage: 'New Lead', expected_close_date: '2025-06-01' }
+    ]
+
+    const candidates = buildNotificationCandidates(sources, { follow_up_overdue: false }, NOW)
+
+    expect(candidates.map(c => c.type)).toEqual(['opportunity_overdue'])
+  })
+
+  test('should produce a new source key when a due date changes', () => {
+    const sources = emptySources()
+    sources.opportunities = [{ id: 'op-1', name: 'Deal', stage: 'New Lead', expected_close_date: '2025-06-01' }]
+    const first = buildNotificationCandidates(sources, undefined, NOW)[0].source_key
+
+    sources.opportunities[0].expected_close_date = '2025-06-10'
+    const second = buildNotificationCandidates(sources, undefined, NOW)[0].source_key
+
+    expect(first).not.toBe(second)
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Opportunity Principal Rules Unit Tests
+ *
+ * Covers contribution splits for shared opportunities:
+ * - Even splits with the remainder on the primary
+ * - Keeping or rebalancing a split when the selection changes
+ * - Split validation and weighted values
+ */
+
+import {
+  contributionValue,
+  evenSplit,
+  syncPrincipalLinks,
+  validatePrincipalLinks
+} from '@/services/opportunityPrincipalRules'
+import { describe, expect, test } from 'vitest'
+
+describe('evenSplit', () => {
+  test('should give the remainder to the primary principal', () => {
+    expect(evenSplit(['a', 'b', 'c'], 'b')).toEqual([
+      { principal_id: 'a', contribution_percent: 33, is_primary: false },
+      { principal_id: 'b', contribution_percent: 34, is_primary: true },
+      { principal_id: 'c', contribution_percent: 33, is_primary: false }
+    ])
+  })
+
+  test('should default the primary to the first principal', () => {
+    expect(evenSplit(['a', 'b'], 'missing').map(link => link.is_primary)).toEqual([true, false])
+    expect(evenSplit([])).toEqual([])
+  })
+})
+
+describe('syncPrincipalLinks', () => {
+  const links = [
+    { principal_id: 'a', contribution_percent: 70, is_primary: false },
+    { principal_id: 'b', contribution_percent: 30, is_primary: true }
+  ]
+
+  test('should keep the split when the selection is unchanged', () => {
+    expect(syncPrincipalLinks(links, ['b', 'a'])).toEqual([links[1], links[0]])
+  })
+
+  test('should rebalance evenly and keep the primary when the selection changes', () => {
+    expect(syncPrincipalLinks(links, ['a', 'b', 'c'])).toEqual([
+      { principal_id: 'a', contribution_percent: 33, is_primary: false },
+      { principal_id: 'b', contribution_percent: 34, is_primary: true },
+      { principal_id: 'c', contribution_percent: 33, is_primary: false }
+    ])
+    expect(syncPrincipalLinks(links, ['a'])).toEqual([
+      { principal_id: 'a', contribution_percent: 100, is_primary: true }
+    ])
+  })
+})
+
+describe('validatePrincipalLinks', () => {
+  test('should accept whole percents totalling 100 with one primary', () => {
+    expect(validatePrincipalLinks(evenSplit(['a', 'b', 'c']))).toBeNull()
+  })
+
+  test('should reject totals other than 100', () => {
+    expect(validatePrincipalLinks([
+      { principal_id: 'a', contribution_percent: 60, is_primary: true },
+      { principal_id: 'b', contribution_percent: 30, is_primary: false }
+    ])).toBe('Contributions must total 100% (currently 90%)')
+  })
+
+  test('should reject fractional percents and missing or extra primaries', () => {
+    expect(validatePrincipalLinks([
+      { principal_id: 'a', contribution_percent: 50.5, is_primary: true },
+      { principal_id: 'b', contribution_percent: 49.5, is_primary: false }
+    ])).toMatch(/whole percentages/)
+    expect(validatePrincipalLinks([
+      { principal_id: 'a', contribution_percent: 50, is_primary: true },
+      { principal_id: 'b', contribution_percent: 50, is_primary: true }
+    ])).toBe('Choose one primary principal')
+    expect(validatePrincipalLinks([])).toMatch(/At least one/)
+  })
+})
+
+describe('contributionValue', () => {
+  test('should take the contribution share of the value', () => {
+    expect(contributionValue(12500, 40)).toBe(5000)
+    expect(contributionValue(100.01, 33)).toBe(33)
+    expect(contributionValue(null, 50)).toBe(0)
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Opportunity Value Unit Tests
+ *
+ * Covers deal value helpers:
+ * - Volume-based deal value calculation
+ * - Probability-weighted quarter forecast
+ * - Totals per currency
+ * - Currency formatting
+ */
+
+import {
+  buildQuarterForecast,
+  calculateDealValue,
+  formatDealValue,
+  sumByCurrency
+} from '@/services/opportunityValue'
+import { describe, expect, test } from 'vitest'
+
+describe('calculateDealValue', () => {
+  test('should multiply cases per week by price and term', () => {
+    expect(calculateDealValue(10, 24.5, 52)).toBe(12740)
+  })
+
+  test('should round to cents', () => {
+    expect(calculateDealValue(3, 1.111, 1)).toBe(3.33)
+  })
+
+  test('should return null when any input is missing', () => {
+    expect(calculateDealValue(null, 24.5, 52)).toBeNull()
+    expect(calculateDealValue(10, null, 52)).toBeNull()
+    expect(calculateDealValue(10, 24.5, undefined)).toBeNull()
+  })
+})
+
+describe('buildQuarterForecast', () => {
+  const now = new Date(2025, 4, 15) // 2025-05-15, Q2
+
+  test('should create consecutive quarters starting with the current one', () => {
+    const forecast = buildQuarterForecast([], now)
+
+    expect(forecast.map(q => q.quarter)).toEqual(['2025-Q2', '2025-Q3', '2025-Q4', '2026-Q1'])
+    expect(forecast[0]).toMatchObject({ currency_code: 'USD', start_date: '2025-04-01', end_date: '2025-06-30' })
+  })
+
+  test('should group weighted values by expected close quarter', () => {
+    const forecast = buildQuarterForecast([
+      { expected_close_date: '2025-06-30', estimated_value: 10000, probability_percent: 50, currency_code: 'USD' },
+      { expected_close_date: '2025-08-01', estimated_value: 4000, probability_percent: 25, currency_code: 'USD' },
+      { expected_close_date: '2025-09-30', estimated_value: 2000, probability_percent: 100, currency_code: 'USD' }
+    ], now)
+
+    expect(forecast[0]).toMatchObject({ opportunity_count: 1, pipeline_value: 10000, weighted_value: 5000 })
+    expect(forecast[1]).toMatchObject({ opportunity_count: 2, pipeline_value: 6000, weighted_value: 3000 })
+  })
+
+  test('should count overdue close dates in the current quarter', () => {
+    const forecast = buildQuarterForecast([
+      { expected_close_date: '2024-12-01', estimated_value: 1000, probability_percent: 80, currency_code: 'USD' }
+    ], now)
+
+    expect(forecast[0].weighted_value).toBe(800)
+  })
+
+  test('should forecast each currency separately with the default currency first', () => {
+    const forecast = buildQuarterForecast([
+      { expected_close_date: '2025-06-30', estimated_value: 5000, probability_percent: 50, currency_code: 'EUR' },
+      { expected_close_date: '2025-06-30', estimated_value: 1000, probability_percent: 50, currency_code: null },
+      { expected_close_date: '2025-08-01', estimated_value: 8000, probability_percent: 25, currency_code: 'CAD' }
+    ], now)
+
+    expect(forecast).toHaveLength(12)
+    expect(forecast.map(q => q.currency_code)).toEqual([
+      'USD', 'USD', 'USD', 'USD', 'CAD', 'CAD', 'CAD', 'CAD', 'EUR', 'EUR', 'EUR', 'EUR'
+    ])
+    expect(forecast[0]).toMatchObject({ quarter: '2025-Q2', pipeline_value: 1000, weighted_value: 500 })
+    expect(forecast[5]).toMatchObject({ quarter: '2025-Q3', pipeline_value: 8000, weighted_value: 2000 })
+    expect(forecast[8]).toMatchObject({ quarter: '2025-Q2', pipeline_value: 5000, weighted_value: 2500 })
+  })
+
+  test('should exclude opportunities without a close date or beyond the horizon', () => {
+    const forecast = buildQuarterForecast([
+      { expected_close_date: null, estimated_value: 1000, probability_percent: 80, currency_code: 'EUR' },
+      { expected_close_date: '2026-04-01', estimated_value: 1000, probability_percent: 80, currency_code: 'USD' }
+    ], now)
+
+    expect(forecast.every(q => q.opportunity_count === 0)).toBe(true)
+    expect(forecast.every(q => q.currency_code === 'USD')).toBe(true)
+  })
+})
+
+describe('sumByCurrency', () => {
+  test('should total values per currency without mixing currencies', () => {
+    expect(sumByCurrency([
+      { currency_code: 'MXN', value: 20000 },
+      { currency_code: 'USD', value: 1000.25 },
+      { currency_code: null, value: 500 },
+      { currency_code: 'MXN', value: 5000 }
+    ], item => item.value)).toEqual([
+      { currency_code: 'USD', value: 1500.25 },
+      { currency_code: 'MXN', value: 25000 }
+    ])
+  })
+
+  test('should total zero in the default currency when empty', () => {
+    expect(sumByCurrency([], () => 1)).toEqual([{ currency_code: 'USD', value: 0 }])
+  })
+})
+
+describe('formatDealValue', () => {
+  test('should format in the given currency', () => {
+    expect(formatDealValue(12500, 'USD')).toBe('$12,500')
+    expect(formatDealValue(12500, 'EUR')).toBe('€12,500')
+  })
+
+  test('should show a dash for missing values', () => {
+    expect(formatDealValue(null)).toBe('—')
+  })
+})
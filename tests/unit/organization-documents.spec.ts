@@ -0,0 +1,87 @@
+/**
+ * Organization Document Unit Tests
+ *
+ * Covers document storage helpers:
+ * - Storage paths and file type detection
+ * - Preview support by file type
+ * - Version grouping and next version numbers
+ */
+
+import {
+  buildDocumentStoragePath,
+  findDocumentGroupByName,
+  getDocumentPreviewKind,
+  getNextDocumentVersion,
+  groupDocumentVersions,
+  inferFileType
+} from '@/services/organizationDocuments'
+import type { OrganizationDocumentRow } from '@/types/organizationDocuments'
+import { describe, expect, test } from 'vitest'
+
+const ORG_ID = '11111111-1111-4111-8111-111111111111'
+
+const row = (overrides: Partial<OrganizationDocumentRow>): OrganizationDocumentRow => ({
+  id: 'doc-1',
+  organization_id: ORG_ID,
+  name: 'Price List.pdf',
+  description: null,
+  file_type: 'application/pdf',
+  file_size_bytes: 1024,
+  storage_path: `${ORG_ID}/upload-1/Price_List.pdf`,
+  external_url: null,
+  category: 'Price List',
+  tags: [],
+  is_public: false,
+  access_level: 'internal',
+  version: '1.0',
+  parent_document_id: null,
+  uploaded_by_user_id: null,
+  created_at: '2026-01-01T10:00:00Z',
+  updated_at: '2026-01-01T10:00:00Z',
+  ...overrides
+})
+
+describe('buildDocumentStoragePath', () => {
+  test('should start with the organization id and make the file name storage safe', () => {
+    expect(buildDocumentStoragePath(ORG_ID, 'upload-1', 'Spec Sheet (Q3) #2.pdf'))
+      .toBe(`${ORG_ID}/upload-1/Spec_Sheet_Q3_2.pdf`)
+  })
+})
+
+describe('file types', () => {
+  test('should infer MIME types from the extension', () => {
+    expect(inferFileType('prices.XLSX')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+    expect(inferFileType('notes')).toBe('application/octet-stream')
+  })
+
+  test('should preview PDFs and common images only', () => {
+    expect(getDocumentPreviewKind('application/pdf')).toBe('pdf')
+    expect(getDocumentPreviewKind('image/png')).toBe('image')
+    expect(getDocumentPreviewKind('image/tiff')).toBe('none')
+    expect(getDocumentPreviewKind(null)).toBe('none')
+  })
+})
+
+describe('groupDocumentVersions', () => {
+  const documents = [
+    row({ id: 'doc-1' }),
+    row({ id: 'doc-2', parent_document_id: 'doc-1', version: '2.0', created_at: '2026-03-01T10:00:00Z' }),
+    row({ id: 'doc-3', name: 'Spec.pdf', version: '1.0', created_at: '2026-02-01T10:00:00Z' })
+  ]
+
+  test('should group versions under the first upload, newest first', () => {
+    const groups = groupDocumentVersions(documents)
+
+    expect(groups.map(group => [group.rootId, group.latest.id])).toEqual([['doc-1', 'doc-2'], ['doc-3', 'doc-3']])
+    expect(groups[0].versions.map(version => version.id)).toEqual(['doc-2', 'doc-1'])
+  })
+
+  test('should find documents by name and number the next version', () => {
+    const groups = groupDocumentVersions(documents)
+    const existing = findDocumentGroupByName(groups, ' price list.PDF ')
+
+    expect(existing?.rootId).toBe('doc-1')
+    expect(getNextDocumentVersion(existing)).toBe('3.0')
+    expect(getNextDocumentVersion(findDocumentGroupByName(groups, 'New.pdf'))).toBe('1.0')
+  })
+})
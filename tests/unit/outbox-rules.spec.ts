@@ -0,0 +1,96 @@
+/**
+ * Offline Outbox Rules Unit Tests
+ *
+ * Covers the offline write queue:
+ * - Folding repeated edits into a waiting write
+ * - Holding back writes behind a conflict for the same record
+ * - Rebasing later edits after a successful write
+ * - Recognising network failures
+ */
+
+import {
+  addToOutbox,
+  getReplayableEntries,
+  isNetworkError,
+  rebaseOutboxEntries
+} from '@/services/outboxRules'
+import type { OutboxEntry } from '@/types/outbox'
+import { describe, expect, test } from 'vitest'
+
+const entry = (overrides: Partial<OutboxEntry>): OutboxEntry => ({
+  id: 'entry-1',
+  entity: 'interaction',
+  operation: 'update',
+  recordId: 'record-1',
+  payload: {},
+  baseUpdatedAt: '2026-05-01T09:00:00Z',
+  label: 'Weekly call',
+  queuedAt: '2026-05-01T10:00:00Z',
+  status: 'pending',
+  attempts: 0,
+  lastError: null,
+  ...overrides
+})
+
+describe('addToOutbox', () => {
+  test('should fold an edit into the waiting write for the same record', () => {
+    const waiting = entry({ operation: 'create', payload: { subject: 'Call', notes: 'First' } })
+    const { entries, entry: merged } = addToOutbox(
+      [waiting],
+      { entity: 'interaction', operation: 'update', recordId: 'record-1', payload: { notes: 'Second' }, baseUpdatedAt: null, label: '' },
+      'entry-2',
+      '2026-05-01T11:00:00Z'
+    )
+
+    expect(entries).toHaveLength(1)
+    expect(merged).toMatchObject({ id: 'entry-1', operation: 'create', payload: { subject: 'Call', notes: 'Second' }, label: 'Weekly call' })
+  })
+
+  test('should queue a separate write behind a conflict', () => {
+    const { entries, entry: added } = addToOutbox(
+      [entry({ status: 'conflict' })],
+      { entity: 'interaction', operation: 'update', recordId: 'record-1', payload: { notes: 'Later' }, baseUpdatedAt: null, label: 'Later' },
+      'entry-2',
+      '2026-05-01T11:00:00Z'
+    )
+
+    expect(entries).toHaveLength(2)
+    expect(added).toMatchObject({ id: 'entry-2', status: 'pending', attempts: 0 })
+  })
+})
+
+describe('getReplayableEntries', () => {
+  test('should send pending writes oldest first and hold back records behind a conflict', () => {
+    const entries = [
+      entry({ id: 'c', recordId: 'record-2', queuedAt: '2026-05-01T12:00:00Z' }),
+      entry({ id: 'b', queuedAt: '2026-05-01T11:00:00Z' }),
+      entry({ id: 'a', status: 'conflict', queuedAt: '2026-05-01T10:00:00Z' })
+    ]
+
+    expect(getReplayableEntries(entries).map(item => item.id)).toEqual(['c'])
+  })
+})
+
+describe('rebaseOutboxEntries', () => {
+  test('should drop the synced write and compare later edits against the new updated_at', () => {
+    const synced = entry({ id: 'a' })
+    const later = entry({ id: 'b', queuedAt: '2026-05-01T11:00:00Z' })
+    const other = entry({ id: 'c', recordId: 'record-2' })
+
+    const rebased = rebaseOutboxEntries([synced, later, other], synced, '2026-05-01T12:30:00Z')
+
+    expect(rebased.map(item => [item.id, item.baseUpdatedAt])).toEqual([
+      ['b', '2026-05-01T12:30:00Z'],
+      ['c', '2026-05-01T09:00:00Z']
+    ])
+  })
+})
+
+describe('isNetworkError', () => {
+  test('should recognise browser network failures only', () => {
+    expect(isNetworkError('TypeError: Failed to fetch')).toBe(true)
+    expect(isNetworkError('NetworkError when attempting to fetch resource.')).toBe(true)
+    expect(isNetworkError('duplicate key value violates unique constraint')).toBe(false)
+    expect(isNetworkError(null)).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Permissions Unit Tests
+ *
+ * Covers the role-based permission model:
+ * - Permission grants per role
+ * - Role validation for session metadata
+ * - Role labels
+ */
+
+import {
+  getUserRoleLabel,
+  hasPermission,
+  isUserRole
+} from '@/types/permissions'
+import { describe, expect, test } from 'vitest'
+
+describe('hasPermission', () => {
+  test('should deny all management permissions to broker reps', () => {
+    expect(hasPermission('broker_rep', 'organizations.delete')).toBe(false)
+    expect(hasPermission('broker_rep', 'opportunities.delete')).toBe(false)
+    expect(hasPermission('broker_rep', 'products.manage')).toBe(false)
+    expect(hasPermission('broker_rep', 'principals.manage')).toBe(false)
+  })
+
+  test('should let managers delete records but not manage the product catalog', () => {
+    expect(hasPermission('account_manager', 'organizations.delete')).toBe(true)
+    expect(hasPermission('account_manager', 'opportunities.delete')).toBe(true)
+    expect(hasPermission('account_manager', 'products.manage')).toBe(false)
+    expect(hasPermission('account_manager', 'principals.manage')).toBe(false)
+  })
+
+  test('should let managers manage every email template', () => {
+    expect(hasPermission('broker_rep', 'email_templates.manage')).toBe(false)
+    expect(hasPermission('account_manager', 'email_templates.manage')).toBe(true)
+    expect(hasPermission('principal_manager', 'email_templates.manage')).toBe(true)
+  })
+
+  test('should only let admins manage opportunity naming templates', () => {
+    expect(hasPermission('admin', 'naming_templates.manage')).toBe(true)
+    expect(hasPermission('principal_manager', 'naming_templates.manage')).toBe(false)
+    expect(hasPermission('account_manager', 'naming_templates.manage')).toBe(false)
+  })
+
+  test('should let principal managers manage principals and territories', () => {
+    expect(hasPermission('principal_manager', 'principals.manage')).toBe(true)
+    expect(hasPermission('principal_manager', 'territories.manage')).toBe(true)
+    expect(hasPermission('account_manager', 'territories.manage')).toBe(false)
+    expect(hasPermission('principal_manager', 'products.manage')).toBe(false)
+  })
+
+  test('should grant admins every permission', () => {
+    expect(hasPermission('admin', 'organizations.delete')).toBe(true)
+    expect(hasPermission('admin', 'opportunities.delete')).toBe(true)
+    expect(hasPermission('admin', 'products.manage')).toBe(true)
+    expect(hasPermission('admin', 'principals.manage')).toBe(true)
+  })
+
+  test('should deny everything without a role', () => {
+    expect(hasPermission(null, 'organizations.delete')).toBe(false)
+    expect(hasPermission(undefined, 'products.manage')).toBe(false)
+  })
+})
+
+describe('isUserRole', () => {
+  test('should accept known roles', () => {
+    expect(isUserRole('broker_rep')).toBe(true)
+    expect(isUserRole('admin')).toBe(true)
+  })
+
+  test('should reject unknown values', () => {
+    expect(isUserRole('superuser')).toBe(false)
+    expect(isUserRole(undefined)).toBe(false)
+    expect(isUserRole(1)).toBe(false)
+  })
+})
+
+describe('getUserRoleLabel', () => {
+  test('should return the display label for a role', () => {
+    expect(getUserRoleLabel('account_manager')).toBe('Account Manager')
+  })
+
+  test('should fall back for a missing role', () => {
+    expect(getUserRoleLabel(null)).toBe('Unknown Role')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Product Principal Assignment Unit Tests
+ *
+ * Covers bulk principal assignment planning:
+ * - Contract term validation
+ * - Contract period overlap with open-ended dates
+ * - Create, update and exclusive rights conflict decisions
+ */
+
+import {
+  buildTerritoryRestrictions,
+  contractPeriodsOverlap,
+  planPrincipalAssignments,
+  validatePrincipalTerms
+} from '@/services/productPrincipalAssignment'
+import type { ExistingPrincipalAssignment, ProductPrincipalTerms } from '@/types/products'
+import { describe, expect, test } from 'vitest'
+
+const terms = (overrides: Partial<ProductPrincipalTerms> = {}): ProductPrincipalTerms => ({
+  wholesale_price: 12.5,
+  minimum_order_quantity: 10,
+  lead_time_days: 7,
+  exclusive_rights: false,
+  territory_restrictions: [],
+  contract_start_date: '2026-01-01',
+  contract_end_date: '2026-12-31',
+  ...overrides
+})
+
+const existing = (overrides: Partial<ExistingPrincipalAssignment>): ExistingPrincipalAssignment => ({
+  id: 'pp-1',
+  product_id: 'product-1',
+  principal_id: 'principal-a',
+  exclusive_rights: false,
+  is_active: true,
+  contract_start_date: null,
+  contract_end_date: null,
+  ...overrides
+})
+
+describe('validatePrincipalTerms', () => {
+  test('should accept valid terms', () => {
+    expect(validatePrincipalTerms(terms(), 2)).toEqual([])
+  })
+
+  test('should reject exclusive rights for several principals and invalid numbers and dates', () => {
+    const errors = validatePrincipalTerms(terms({
+      exclusive_rights: true,
+      minimum_order_quantity: 0,
+      contract_start_date: '2026-06-01',
+      contract_end_date: '2026-05-01'
+    }), 2)
+
+    expect(errors).toEqual([
+      'Exclusive rights can only be given to one principal',
+      'Minimum order quantity must be a whole number above zero',
+      'Contract end date must be on or after the start date'
+    ])
+  })
+})
+
+describe('contractPeriodsOverlap', () => {
+  test('should treat missing dates as open-ended', () => {
+    const open = { contract_start_date: null, contract_end_date: null }
+    const closed2025 = { contract_start_date: '2025-01-01', contract_end_date: '2025-12-31' }
+
+    expect(contractPeriodsOverlap(open, closed2025)).toBe(true)
+    expect(contractPeriodsOverlap(closed2025, terms())).toBe(false)
+    expect(contractPeriodsOverlap({ contract_start_date: '2026-12-31', contract_end_date: null }, terms())).toBe(true)
+  })
+})
+
+describe('planPrincipalAssignments', () => {
+  test('should update existing pairs and create new ones', () => {
+    const plans = planPrincipalAssignments(['product-1'], ['principal-a', 'principal-b'], [existing({})], terms())
+
+    expect(plans.map(plan => [plan.principal_id, plan.action, plan.existing_id])).toEqual([
+      ['principal-a', 'update', 'pp-1'],
+      ['principal-b', 'create', null]
+    ])
+  })
+
+  test('should flag a second principal while another holds overlapping exclusive rights', () => {
+    const rows = [
+      existing({ exclusive_rights: true }),
+      existing({ id: 'pp-2', product_id: 'product-2', exclusive_rights: true, contract_end_date: '2025-06-30' })
+    ]
+
+    const plans = planPrincipalAssignments(['product-1', 'product-2'], ['principal-b'], rows, terms())
+
+    expect(plans.map(plan => [plan.product_id, plan.action, plan.conflicting_principal_id])).toEqual([
+      ['product-1', 'conflict', 'principal-a'],
+      ['product-2', 'create', null]
+    ])
+  })
+
+  test('should flag exclusive rights requested while another active principal is assigned', () => {
+    const rows = [existing({}), existing({ id: 'pp-2', principal_id: 'principal-c', is_active: false })]
+
+    const plans = planPrincipalAssignments(['product-1'], ['principal-b'], rows, terms({ exclusive_rights: true }))
+
+    expect(plans[0]).toMatchObject({ action: 'conflict', conflicting_principal_id: 'principal-a' })
+  })
+})
+
+describe('buildTerritoryRestrictions', () => {
+  test('should store unique territory ids', () => {
+    expect(buildTerritoryRestrictions(['territory-1', 'territory-2', 'territory-1', ''])).toEqual({ territory_ids: ['territory-1', 'territory-2'] })
+    expect(buildTerritoryRestrictions([])).toEqual({})
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Task Rules Unit Tests
+ *
+ * Covers task helpers:
+ * - Overdue, today, upcoming and undated buckets
+ * - Ordering by due date and priority
+ * - Task form validation
+ */
+
+import {
+  compareTasks,
+  getTaskBucket,
+  groupTasksByBucket,
+  validateTask
+} from '@/services/taskRules'
+import type { Task, TaskFormData } from '@/types/tasks'
+import { describe, expect, test } from 'vitest'
+
+const now = new Date(2026, 5, 15, 14, 30)
+
+const makeTask = (overrides: Partial<Task>): Task => ({
+  id: 'task',
+  title: 'Task',
+  description: null,
+  due_date: null,
+  priority: 'MEDIUM',
+  status: 'OPEN',
+  assigned_to: null,
+  organization_id: null,
+  contact_id: null,
+  opportunity_id: null,
+  principal_id: null,
+  interaction_id: null,
+  completed_at: null,
+  created_by: null,
+  created_at: '2026-06-01T00:00:00Z',
+  updated_at: '2026-06-01T00:00:00Z',
+  ...overrides
+})
+
+const emptyForm: TaskFormData = {
+  title: 'Call buyer',
+  description: null,
+  due_date: null,
+  priority: 'MEDIUM',
+  status: 'OPEN',
+  assigned_to: null,
+  organization_id: null,
+  contact_id: null,
+  opportunity_id: null,
+  principal_id: null
+}
+
+describe('getTaskBucket', () => {
+  test('should bucket open tasks by local due date', () => {
+    expect(getTaskBucket(makeTask({ due_date: '2026-06-14' }), now)).toBe('overdue')
+    expect(getTaskBucket(makeTask({ due_date: '2026-06-15' }), now)).toBe('today')
+    expect(getTaskBucket(makeTask({ due_date: '2026-06-16', status: 'IN_PROGRESS' }), now)).toBe('upcoming')
+    expect(getTaskBucket(makeTask({ due_date: null }), now)).toBe('no_date')
+  })
+
+  test('should leave closed tasks out of every bucket', () => {
+    expect(getTaskBucket(makeTask({ due_date: '2026-06-01', status: 'COMPLETED' }), now)).toBeNull()
+    expect(getTaskBucket(makeTask({ due_date: '2026-06-01', status: 'CANCELLED' }), now)).toBeNull()
+  })
+})
+
+describe('groupTasksByBucket', () => {
+  test('should sort each bucket by due date, then priority, then title', () => {
+    const groups = groupTasksByBucket([
+      makeTask({ id: 'a', title: 'B', due_date: '2026-06-20', priority: 'LOW' }),
+      makeTask({ id: 'b', title: 'A', due_date: '2026-06-20', priority: 'LOW' }),
+      makeTask({ id: 'c', due_date: '2026-06-20', priority: 'URGENT' }),
+      makeTask({ id: 'd', due_date: '2026-06-18', priority: 'LOW' }),
+      makeTask({ id: 'e', due_date: '2026-06-10' }),
+      makeTask({ id: 'f', due_date: '2026-06-10', status: 'COMPLETED' })
+    ], now)
+
+    expect(groups.upcoming.map(task => task.id)).toEqual(['d', 'c', 'b', 'a'])
+    expect(groups.overdue.map(task => task.id)).toEqual(['e'])
+    expect(groups.today).toEqual([])
+  })
+
+  test('should list open tasks before closed ones and undated tasks last', () => {
+    const tasks = [
+      makeTask({ id: 'closed', due_date: '2026-06-01', status: 'COMPLETED' }),
+      makeTask({ id: 'undated' }),
+      makeTask({ id: 'dated', due_date: '2026-07-01' })
+    ].sort(compareTasks)
+    expect(tasks.map(task => task.id)).toEqual(['dated', 'undated', 'closed'])
+  })
+})
+
+describe('validateTask', () => {
+  test('should require a title and a well-formed due date', () => {
+    expect(validateTask(emptyForm)).toEqual([])
+    expect(validateTask({ ...emptyForm, title: '  ', due_date: '15/06/2026' })).toEqual([
+      'Task title is required',
+      'Due date must be a valid date'
+    ])
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Territory Rules Unit Tests
+ *
+ * Covers sales territory helpers:
+ * - ZIP prefix and county parsing from the territory editor
+ * - Address resolution precedence (ZIP prefix, county, state) and ties
+ * - Product principal territory restrictions, including legacy regions
+ */
+
+import {
+  isTerritoryPermitted,
+  parseCounties,
+  parseTerritoryRestrictions,
+  parseZipPrefixes,
+  resolveTerritory,
+  validateTerritory
+} from '@/services/territoryRules'
+import type { Territory } from '@/types/territories'
+import { describe, expect, test } from 'vitest'
+
+const makeTerritory = (overrides: Partial<Territory>): Territory => ({
+  id: 'territory',
+  name: 'Territory',
+  description: null,
+  states: [],
+  zip_prefixes: [],
+  counties: [],
+  is_active: true,
+  created_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides
+})
+
+const midwest = makeTerritory({ id: 'midwest', name: 'Midwest', states: ['IL', 'WI'] })
+const cook = makeTerritory({ id: 'cook', name: 'Cook County', counties: [{ state: 'IL', county: 'Cook' }] })
+const loop = makeTerritory({ id: 'loop', name: 'Chicago Loop', zip_prefixes: ['606'] })
+const territories = [midwest, cook, loop]
+
+describe('parseZipPrefixes', () => {
+  test('should split on commas and spaces and drop duplicates', () => {
+    expect(parseZipPrefixes('606, 6070 606\n53202')).toEqual({ prefixes: ['606', '6070', '53202'], invalid: [] })
+  })
+
+  test('should report entries that are not 1-5 digits', () => {
+    expect(parseZipPrefixes('606, 60a, 606011').invalid).toEqual(['60a', '606011'])
+  })
+})
+
+describe('parseCounties', () => {
+  test('should read one "County, State" per line with state names or codes', () => {
+    const result = parseCounties('Cook, IL\nLake County, Illinois\ncook county, il')
+    expect(result.counties).toEqual([
+      { state: 'IL', county: 'Cook' },
+      { state: 'IL', county: 'Lake County' }
+    ])
+    expect(result.invalid).toEqual([])
+  })
+
+  test('should reject lines without a known state', () => {
+    expect(parseCounties('Cook\nCook, Narnia').invalid).toEqual(['Cook', 'Cook, Narnia'])
+  })
+})
+
+describe('validateTerritory', () => {
+  test('should require a unique name and some coverage', () => {
+    const form = { name: 'midwest ', description: null, states: [], zip_prefixes: [], counties: [], is_active: true }
+    expect(validateTerritory(form, ['Midwest'])).toEqual([
+      'A territory named "midwest" already exists',
+      'Add at least one state, ZIP prefix or county'
+    ])
+  })
+})
+
+describe('resolveTerritory', () => {
+  test('should prefer ZIP prefix, then county, then state', () => {
+    expect(resolveTerritory({ state_province: 'IL', postal_code: '60601-1234', county: 'Cook' }, territories)?.id).toBe('loop')
+    expect(resolveTerritory({ state_province: 'il', postal_code: '60010', county: 'Cook County' }, territories)?.id).toBe('cook')
+    expect(resolveTerritory({ state_province: 'WI', postal_code: null, county: null }, territories)?.id).toBe('midwest')
+    expect(resolveTerritory({ state_province: 'TX', postal_code: '75001', county: null }, territories)).toBeNull()
+  })
+
+  test('should pick the longest ZIP prefix and break ties by name', () => {
+    const downtown = makeTerritory({ id: 'downtown', name: 'Downtown', zip_prefixes: ['60601'] })
+    const central = makeTerritory({ id: 'central', name: 'Central', states: ['WI'] })
+    expect(resolveTerritory({ state_province: 'IL', postal_code: '60601', county: null }, [...territories, downtown])?.id).toBe('downtown')
+    expect(resolveTerritory({ state_province: 'WI', postal_code: null, county: null }, [midwest, central])?.id).toBe('central')
+  })
+
+  test('should ignore inactive territories', () => {
+    const inactiveLoop = { ...loop, is_active: false }
+    expect(resolveTerritory({ state_province: 'IL', postal_code: '60601', county: null }, [midwest, inactiveLoop])?.id).toBe('midwest')
+  })
+})
+
+describe('territory restrictions', () => {
+  test('should allow every customer when the product is unrestricted', () => {
+    const restrictions = parseTerritoryRestrictions(null)
+    expect(isTerritoryPermitted(restrictions, null, territories)).toBe(true)
+  })
+
+  test('should only allow customers in a permitted territory', () => {
+    const restrictions = parseTerritoryRestrictions({ territory_ids: ['cook'] })
+    expect(isTerritoryPermitted(restrictions, 'cook', territories)).toBe(true)
+    expect(isTerritoryPermitted(restrictions, 'midwest', territories)).toBe(false)
+    expect(isTerritoryPermitted(restrictions, null, territories)).toBe(false)
+  })
+
+  test('should match legacy free-text regions to territory names', () => {
+    const restrictions = parseTerritoryRestrictions({ regions: ['midwest ', 42] })
+    expect(restrictions.regions).toEqual(['midwest '])
+    expect(isTerritoryPermitted(restrictions, 'midwest', territories)).toBe(true)
+    expect(isTerritoryPermitted(restrictions, 'loop', territories)).toBe(false)
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Visit Plan Rules Unit Tests
+ *
+ * Covers the visit planner helpers:
+ * - Distances and grouping stops by area
+ * - Nearest-neighbour visit order
+ * - Day plan times with estimated drive time
+ * - Plan validation
+ */
+
+import {
+  buildDayPlan,
+  clusterCandidates,
+  distanceMiles,
+  estimateTravelMinutes,
+  orderStops,
+  validateVisitPlan
+} from '@/services/visitPlanRules'
+import type { LocatedVisitCandidate, VisitPlanSettings } from '@/types/visitPlanning'
+import { describe, expect, test } from 'vitest'
+
+const stop = (id: string, city: string, latitude: number, longitude: number): LocatedVisitCandidate => ({
+  organization_id: id,
+  organization_name: `Customer ${id}`,
+  address_line_1: null,
+  city,
+  state_province: 'IL',
+  postal_code: null,
+  territory_id: null,
+  latitude,
+  longitude,
+  geocode_source: 'postal_code',
+  open_opportunity_count: 1,
+  next_follow_up_date: null,
+  opportunity_id: `opp-${id}`,
+  opportunity_name: null
+})
+
+// Chicago and Springfield, IL are about 180 miles apart
+const chicagoLoop = stop('a', 'Chicago', 41.8781, -87.6298)
+const chicagoNorth = stop('b', 'Chicago', 41.9484, -87.6553)
+const evanston = stop('c', 'Evanston', 42.0451, -87.6877)
+const springfield = stop('d', 'Springfield', 39.7817, -89.6501)
+
+const settings: VisitPlanSettings = {
+  date: '2026-06-16',
+  start_time: '09:00',
+  visit_minutes: 45,
+  average_speed_mph: 30,
+  interaction_type: 'Meeting'
+}
+
+describe('distanceMiles', () => {
+  test('measures great-circle distance', () => {
+    expect(distanceMiles(chicagoLoop, chicagoLoop)).toBe(0)
+    expect(distanceMiles(chicagoLoop, springfield)).toBeGreaterThan(170)
+    expect(distanceMiles(chicagoLoop, springfield)).toBeLessThan(190)
+  })
+})
+
+describe('clusterCandidates', () => {
+  test('groups nearby stops and labels areas by most common city', () => {
+    const clusters = clusterCandidates([springfield, chicagoLoop, evanston, chicagoNorth])
+
+    expect(clusters).toHaveLength(2)
+    expect(clusters[0].label).toBe('Chicago')
+    expect(clusters[0].stops.map(item => item.organization_id).sort()).toEqual(['a', 'b', 'c'])
+    expect(clusters[1].label).toBe('Springfield')
+  })
+})
+
+describe('orderStops', () => {
+  test('starts at an end of the route and visits nearest stops next', () => {
+    const order = orderStops([chicagoNorth, springfield, evanston, chicagoLoop])
+
+    expect(order.map(item => item.organization_id)).toEqual(['d', 'a', 'b', 'c'])
+  })
+})
+
+describe('buildDayPlan', () => {
+  test('schedules visits back to back with drive time between them', () => {
+    const plan = buildDayPlan([chicagoLoop, chicagoNorth], settings)
+
+    expect(plan[0].start).toEqual(new Date(2026, 5, 16, 9, 0))
+    expect(plan[0].end).toEqual(new Date(2026, 5, 16, 9, 45))
+    expect(plan[1].travel_minutes).toBe(estimateTravelMinutes(plan[1].distance_miles, 30))
+    expect(plan[1].start.getTime()).toBe(plan[0].end.getTime() + plan[1].travel_minutes * 60 * 1000)
+  })
+
+  test('rounds drive time up to 5 minutes', () => {
+    expect(estimateTravelMinutes(0, 30)).toBe(0)
+    expect(estimateTravelMinutes(1, 30)).toBe(5)
+    expect(estimateTravelMinutes(10, 30)).toBe(30)
+  })
+})
+
+describe('validateVisitPlan', () => {
+  test('requires stops with an opportunity to log against', () => {
+    expect(validateVisitPlan([], settings)).toContain('Select at least one stop')
+    expect(validateVisitPlan([{ ...chicagoLoop, opportunity_id: null }], settings))
+      .toEqual(['Customer a has no opportunity to log the visit against'])
+    expect(validateVisitPlan([chicagoLoop, evanston], settings)).toEqual([])
+  })
+})